@@ -2,17 +2,30 @@ import { useState, useCallback, useRef } from 'react'
 import { OfficeState } from './office/engine/officeState.js'
 import { OfficeCanvas } from './office/components/OfficeCanvas.js'
 import { ToolOverlay } from './office/components/ToolOverlay.js'
+import { PermissionPrompt } from './office/components/PermissionPrompt.js'
 import { EditorToolbar } from './office/editor/EditorToolbar.js'
 import { EditorState } from './office/editor/editorState.js'
 import { EditTool } from './office/types.js'
-import { isRotatable } from './office/layout/furnitureCatalog.js'
+import { isRotatable, getCatalogEntry } from './office/layout/furnitureCatalog.js'
 import { useExtensionMessages } from './hooks/useExtensionMessages.js'
 import { PULSE_ANIMATION_DURATION_SEC } from './constants.js'
 import { useEditorActions } from './hooks/useEditorActions.js'
 import { useEditorKeyboard } from './hooks/useEditorKeyboard.js'
+import { useTranscriptDrop } from './hooks/useTranscriptDrop.js'
+import { useReplay } from './hooks/useReplay.js'
+import { usePermissionPrompts } from './hooks/usePermissionPrompts.js'
+import { useSimulationKeyboard } from './hooks/useSimulationKeyboard.js'
 import { ZoomControls } from './components/ZoomControls.js'
 import { BottomToolbar } from './components/BottomToolbar.js'
 import { DebugView } from './components/DebugView.js'
+import { ReplayBar } from './components/ReplayBar.js'
+import { AgentContextMenu } from './components/AgentContextMenu.js'
+import { AgentProfileModal } from './components/AgentProfileModal.js'
+import { WorkspaceLegend } from './components/WorkspaceLegend.js'
+import { SimulationBadge } from './components/SimulationBadge.js'
+import { FloorSwitcher } from './components/FloorSwitcher.js'
+import { vscode } from './vscodeApi.js'
+import { exportRecording } from './replay/recording.js'
 
 // Game state lives outside React — updated imperatively by message handlers
 const officeStateRef = { current: null as OfficeState | null }
@@ -120,21 +133,39 @@ function App() {
 
   const isEditDirty = useCallback(() => editor.isEditMode && editor.isDirty, [editor.isEditMode, editor.isDirty])
 
-  const { agents, selectedAgent, agentTools, agentStatuses, subagentTools, subagentCharacters, layoutReady, workspaceFolders } = useExtensionMessages(getOfficeState, editor.setLastSavedLayout, isEditDirty)
+  const live = useExtensionMessages(getOfficeState, editor.setLastSavedLayout, isEditDirty)
+  const { layoutReady, workspaceFolders, injectHostMessage, isRecording, startRecording, stopRecording, isDemoMode, demoScenarioId, playDemoScenario, respondToPermission, saveAgentProfile } = live
+
+  const transcriptDrop = useTranscriptDrop(injectHostMessage)
+
+  // While a replay is open the office and agent panels show the recording instead
+  const replay = useReplay()
+  const replayPlayer = replay.player
+  const { agents, selectedAgent, agentTools, agentStatuses, subagentTools, subagentCharacters, agentNames, agentMeta, agentMessages } = replayPlayer ? replayPlayer.activity : live
+  const isEditMode = editor.isEditMode && !replayPlayer
+
+  const handleToggleRecording = useCallback(() => {
+    if (!isRecording) {
+      startRecording()
+      return
+    }
+    const recording = stopRecording()
+    if (recording) exportRecording(recording)
+  }, [isRecording, startRecording, stopRecording])
 
   const [isDebugMode, setIsDebugMode] = useState(false)
 
   const handleToggleDebugMode = useCallback(() => setIsDebugMode((prev) => !prev), [])
 
-  const handleSelectAgent = useCallback(() => {
-    // no-op in standalone mode
+  const handleSelectAgent = useCallback((id: number) => {
+    vscode.postMessage({ type: 'focusAgent', id })
   }, [])
 
   const containerRef = useRef<HTMLDivElement>(null)
 
   const [editorTickForKeyboard, setEditorTickForKeyboard] = useState(0)
   useEditorKeyboard(
-    editor.isEditMode,
+    isEditMode,
     editorState,
     editor.handleDeleteSelected,
     editor.handleRotateSelected,
@@ -145,21 +176,34 @@ function App() {
     editor.handleToggleEditMode,
   )
 
-  const handleCloseAgent = useCallback(() => {
-    // no-op in standalone mode
+  const handleCloseAgent = useCallback((id: number) => {
+    vscode.postMessage({ type: 'closeAgent', id })
   }, [])
 
-  const handleClick = useCallback(() => {
-    // no-op in standalone mode
-  }, [])
+  const officeState = replayPlayer ? replayPlayer.officeState : getOfficeState()
 
-  const officeState = getOfficeState()
+  // Recorded permission requests can't be answered, so prompts are live-only
+  const permissions = usePermissionPrompts(agents, agentTools, officeState, !replayPlayer)
+  const { awaitingIds, openPrompt } = permissions
+  useSimulationKeyboard(officeState, isDebugMode)
+
+  const handleClick = useCallback((agentId: number) => {
+    // Sub-agents have no terminal of their own, and replayed agents may be long gone
+    if (agentId < 0 || replayPlayer) return
+    if (awaitingIds.includes(agentId)) openPrompt(agentId)
+    vscode.postMessage({ type: 'focusAgent', id: agentId })
+  }, [replayPlayer, awaitingIds, openPrompt])
+
+  // Right-click menu on an agent, and the profile editor it opens
+  const [contextMenu, setContextMenu] = useState<{ id: number; x: number; y: number } | null>(null)
+  const [profileAgentId, setProfileAgentId] = useState<number | null>(null)
+  const handleAgentContextMenu = useCallback((id: number, x: number, y: number) => setContextMenu({ id, x, y }), [])
 
   // Force dependency on editorTickForKeyboard to propagate keyboard-triggered re-renders
   void editorTickForKeyboard
 
   // Show "Press R to rotate" hint when a rotatable item is selected or being placed
-  const showRotateHint = editor.isEditMode && (() => {
+  const showRotateHint = isEditMode && (() => {
     if (editorState.selectedFurnitureUid) {
       const item = officeState.getLayout().furniture.find((f) => f.uid === editorState.selectedFurnitureUid)
       if (item && isRotatable(item.type)) return true
@@ -179,7 +223,13 @@ function App() {
   }
 
   return (
-    <div ref={containerRef} style={{ width: '100%', height: '100%', position: 'relative', overflow: 'hidden' }}>
+    <div
+      ref={containerRef}
+      style={{ width: '100%', height: '100%', position: 'relative', overflow: 'hidden' }}
+      onDragOver={transcriptDrop.handleDragOver}
+      onDragLeave={transcriptDrop.handleDragLeave}
+      onDrop={transcriptDrop.handleDrop}
+    >
       <style>{`
         @keyframes pixel-agents-pulse {
           0%, 100% { opacity: 1; }
@@ -191,7 +241,7 @@ function App() {
       <OfficeCanvas
         officeState={officeState}
         onClick={handleClick}
-        isEditMode={editor.isEditMode}
+        isEditMode={isEditMode}
         editorState={editorState}
         onEditorTileAction={editor.handleEditorTileAction}
         onEditorEraseAction={editor.handleEditorEraseAction}
@@ -203,10 +253,26 @@ function App() {
         zoom={editor.zoom}
         onZoomChange={editor.handleZoomChange}
         panRef={editor.panRef}
+        readOnly={replayPlayer !== null}
+        isDebugMode={isDebugMode}
+        onAgentContextMenu={handleAgentContextMenu}
       />
 
       <ZoomControls zoom={editor.zoom} onZoomChange={editor.handleZoomChange} />
 
+      <SimulationBadge clock={officeState.clock} />
+
+      {!isEditMode && <WorkspaceLegend key={replayPlayer ? 'replay' : 'live'} officeState={officeState} agents={agents} />}
+
+      <FloorSwitcher
+        officeState={officeState}
+        isEditMode={isEditMode}
+        onFloorChange={replayPlayer ? (i) => officeState.setCurrentFloor(i) : editor.handleFloorChange}
+        onFloorAdd={editor.handleFloorAdd}
+        onFloorRemove={editor.handleFloorRemove}
+        onFloorRename={editor.handleFloorRename}
+      />
+
       {/* Vignette overlay */}
       <div
         style={{
@@ -219,15 +285,22 @@ function App() {
       />
 
       <BottomToolbar
-        isEditMode={editor.isEditMode}
+        isEditMode={isEditMode}
         onOpenClaude={editor.handleOpenClaude}
         onToggleEditMode={editor.handleToggleEditMode}
         isDebugMode={isDebugMode}
         onToggleDebugMode={handleToggleDebugMode}
         workspaceFolders={workspaceFolders}
+        onLoadTranscripts={transcriptDrop.ingestFiles}
+        isRecording={isRecording}
+        onToggleRecording={handleToggleRecording}
+        onLoadReplay={replay.openRecordingFile}
+        isDemoMode={isDemoMode}
+        demoScenarioId={demoScenarioId}
+        onSelectScenario={playDemoScenario}
       />
 
-      {editor.isEditMode && editor.isDirty && (
+      {isEditMode && editor.isDirty && (
         <EditActionBar editor={editor} editorState={editorState} />
       )}
 
@@ -254,12 +327,15 @@ function App() {
         </div>
       )}
 
-      {editor.isEditMode && (() => {
+      {isEditMode && (() => {
         // Compute selected furniture color from current layout
         const selUid = editorState.selectedFurnitureUid
-        const selColor = selUid
-          ? officeState.getLayout().furniture.find((f) => f.uid === selUid)?.color ?? null
-          : null
+        const selItem = selUid ? officeState.getLayout().furniture.find((f) => f.uid === selUid) : undefined
+        const selColor = selItem?.color ?? null
+        const selEntry = selItem ? getCatalogEntry(selItem.type) : undefined
+        const canBindDirectory = !!selEntry && (selEntry.isDesk || selEntry.category === 'chairs')
+        const roomTile = editorState.selectedRoomTile
+        const selectedRoom = roomTile ? officeState.getRoomAt(roomTile.col, roomTile.row) : null
         return (
           <EditorToolbar
             activeTool={editorState.activeTool}
@@ -267,6 +343,8 @@ function App() {
             selectedFurnitureType={editorState.selectedFurnitureType}
             selectedFurnitureUid={selUid}
             selectedFurnitureColor={selColor}
+            selectedFurnitureDirectory={selItem?.directory ?? null}
+            canBindDirectory={canBindDirectory}
             floorColor={editorState.floorColor}
             wallColor={editorState.wallColor}
             onToolChange={editor.handleToolChange}
@@ -274,7 +352,19 @@ function App() {
             onFloorColorChange={editor.handleFloorColorChange}
             onWallColorChange={editor.handleWallColorChange}
             onSelectedFurnitureColorChange={editor.handleSelectedFurnitureColorChange}
+            onSelectedFurnitureDirectoryChange={editor.handleSelectedFurnitureDirectoryChange}
             onFurnitureTypeChange={editor.handleFurnitureTypeChange}
+            zones={officeState.getLayout().zones ?? []}
+            selectedZoneId={editorState.selectedZoneId}
+            onZoneSelect={editor.handleZoneSelect}
+            onZoneAdd={editor.handleZoneAdd}
+            onZoneUpdate={editor.handleZoneUpdate}
+            onZoneDelete={editor.handleZoneDelete}
+            selectedRoom={selectedRoom}
+            selectedRoomFolder={selectedRoom ? officeState.getRoomFolder(selectedRoom.id) : null}
+            workspaceFolders={workspaceFolders.map((f) => f.name)}
+            onRoomRename={editor.handleRoomRename}
+            onRoomFolderChange={editor.handleRoomFolderChange}
           />
         )
       })()}
@@ -283,6 +373,9 @@ function App() {
         officeState={officeState}
         agents={agents}
         agentTools={agentTools}
+        agentNames={agentNames}
+        agentMeta={agentMeta}
+        subagentTools={subagentTools}
         subagentCharacters={subagentCharacters}
         containerRef={containerRef}
         zoom={editor.zoom}
@@ -290,14 +383,90 @@ function App() {
         onCloseAgent={handleCloseAgent}
       />
 
+      {permissions.promptAgentId !== null && permissions.promptTool && (
+        <PermissionPrompt
+          key={`${permissions.promptAgentId}:${permissions.promptTool.toolId}`}
+          officeState={officeState}
+          agentId={permissions.promptAgentId}
+          tool={permissions.promptTool}
+          agentName={agentNames[permissions.promptAgentId]}
+          containerRef={containerRef}
+          zoom={editor.zoom}
+          panRef={editor.panRef}
+          onRespond={(decision) => respondToPermission(permissions.promptAgentId!, permissions.promptTool!.toolId, decision)}
+          onClose={permissions.closePrompt}
+        />
+      )}
+
+      {contextMenu && !replayPlayer && (
+        <AgentContextMenu
+          x={contextMenu.x}
+          y={contextMenu.y}
+          agentName={agentNames[contextMenu.id] ?? `Agent #${contextMenu.id}`}
+          textBubbles={officeState.characters.get(contextMenu.id)?.textBubbles ?? true}
+          onEditProfile={() => setProfileAgentId(contextMenu.id)}
+          onToggleTextBubbles={() => officeState.setTextBubbles(contextMenu.id, !(officeState.characters.get(contextMenu.id)?.textBubbles ?? true))}
+          onCloseAgent={() => handleCloseAgent(contextMenu.id)}
+          onClose={() => setContextMenu(null)}
+        />
+      )}
+
+      {profileAgentId !== null && !replayPlayer && agents.includes(profileAgentId) && (() => {
+        const ch = officeState.characters.get(profileAgentId)
+        const meta = agentMeta[profileAgentId]
+        return (
+          <AgentProfileModal
+            key={profileAgentId}
+            agentId={profileAgentId}
+            initial={{
+              name: meta?.name,
+              role: meta?.role,
+              palette: ch?.palette ?? meta?.palette,
+              hueShift: ch?.hueShift ?? meta?.hueShift,
+              accessories: meta?.accessories,
+              seatId: meta?.seatId,
+            }}
+            currentSeatId={ch?.seatId ?? null}
+            onSave={(profile) => saveAgentProfile(profileAgentId, profile)}
+            onClose={() => setProfileAgentId(null)}
+          />
+        )
+      })()}
+
+      <ReplayBar replay={replay} />
+
+      {transcriptDrop.isDragOver && (
+        <div
+          style={{
+            position: 'absolute',
+            inset: 0,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            background: 'rgba(30, 30, 46, 0.6)',
+            border: '2px dashed var(--pixel-accent)',
+            color: '#fff',
+            fontSize: '28px',
+            pointerEvents: 'none',
+            zIndex: 'var(--pixel-controls-z)',
+          }}
+        >
+          Drop .jsonl transcripts to add agents
+        </div>
+      )}
+
       {isDebugMode && (
         <DebugView
           agents={agents}
           selectedAgent={selectedAgent}
           agentTools={agentTools}
           agentStatuses={agentStatuses}
+          agentNames={agentNames}
+          agentMeta={agentMeta}
           subagentTools={subagentTools}
+          agentMessages={agentMessages}
           onSelectAgent={handleSelectAgent}
+          clock={officeState.clock}
         />
       )}
     </div>
@@ -0,0 +1,30 @@
+import type { HostMessage } from '../messageProtocol.js'
+import type { ActivityKind } from '../office/types.js'
+
+/** Stateful parser for one agent session's raw event stream */
+export interface SessionParser {
+  readonly agentId: number
+  /** Feed a chunk of raw text. Returns messages for every complete record. */
+  push(chunk: string): HostMessage[]
+  /**
+   * Parse a last record that has no trailing newline, once the whole log has
+   * been read. Text that isn't a complete record yet is kept for the next push.
+   */
+  flush(): HostMessage[]
+}
+
+/**
+ * Bridges one agent framework to the office: turns its session log into
+ * HostMessages and its tool names into canonical ActivityKinds.
+ */
+export interface AgentAdapter {
+  readonly id: string
+  readonly label: string
+  /** True when a parsed log record looks like this framework's format */
+  detect(record: unknown): boolean
+  createParser(agentId: number): SessionParser
+  /** Canonical kind for one of this framework's tool names, or null if unknown */
+  toolActivity(toolName: string): ActivityKind | null
+  /** Tool name behind a status line this adapter produces, or null */
+  toolFromStatus(status: string): string | null
+}
@@ -0,0 +1,19 @@
+import type { AgentAdapter } from './agentAdapter.js'
+import { TranscriptParser } from '../transcript/transcriptParser.js'
+import { claudeToolActivity, claudeToolFromStatus } from './claudeCodeTools.js'
+
+const CLAUDE_RECORD_TYPES = new Set(['user', 'assistant', 'system', 'progress', 'summary', 'file-history-snapshot'])
+
+/** Claude Code JSONL transcripts */
+export const claudeCodeAdapter: AgentAdapter = {
+  id: 'claude-code',
+  label: 'Claude Code',
+  detect(record) {
+    if (!record || typeof record !== 'object') return false
+    const r = record as { type?: unknown; payload?: unknown }
+    return typeof r.type === 'string' && CLAUDE_RECORD_TYPES.has(r.type) && r.payload === undefined
+  },
+  createParser: (agentId) => new TranscriptParser(agentId),
+  toolActivity: claudeToolActivity,
+  toolFromStatus: claudeToolFromStatus,
+}
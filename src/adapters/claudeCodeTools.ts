@@ -0,0 +1,50 @@
+import { ActivityKind } from '../office/types.js'
+
+/** Claude Code tool names by canonical activity */
+const CLAUDE_TOOL_ACTIVITY: Record<string, ActivityKind> = {
+  Read: ActivityKind.READ,
+  NotebookRead: ActivityKind.READ,
+  Edit: ActivityKind.WRITE,
+  MultiEdit: ActivityKind.WRITE,
+  Write: ActivityKind.WRITE,
+  NotebookEdit: ActivityKind.WRITE,
+  Bash: ActivityKind.EXECUTE,
+  BashOutput: ActivityKind.EXECUTE,
+  KillShell: ActivityKind.EXECUTE,
+  Grep: ActivityKind.SEARCH,
+  Glob: ActivityKind.SEARCH,
+  LS: ActivityKind.SEARCH,
+  WebFetch: ActivityKind.WEB,
+  WebSearch: ActivityKind.WEB,
+  Task: ActivityKind.DELEGATE,
+  TodoWrite: ActivityKind.THINK,
+  ExitPlanMode: ActivityKind.THINK,
+}
+
+/**
+ * Status prefixes written by formatToolStatus, mapped back to tool names.
+ * Longer prefixes come first so 'Searching web' isn't read as 'Searching'.
+ */
+const CLAUDE_STATUS_PREFIXES: Array<[string, string]> = [
+  ['Searching web', 'WebSearch'],
+  ['Reading', 'Read'],
+  ['Searching', 'Grep'],
+  ['Globbing', 'Glob'],
+  ['Fetching', 'WebFetch'],
+  ['Writing', 'Write'],
+  ['Editing', 'Edit'],
+  ['Running', 'Bash'],
+  ['Task', 'Task'],
+  ['Updating todos', 'TodoWrite'],
+]
+
+export function claudeToolActivity(toolName: string): ActivityKind | null {
+  return CLAUDE_TOOL_ACTIVITY[toolName] ?? null
+}
+
+export function claudeToolFromStatus(status: string): string | null {
+  for (const [prefix, tool] of CLAUDE_STATUS_PREFIXES) {
+    if (status.startsWith(prefix)) return tool
+  }
+  return null
+}
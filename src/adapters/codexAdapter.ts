@@ -0,0 +1,12 @@
+import type { AgentAdapter } from './agentAdapter.js'
+import { CodexParser, isCodexRecord, codexToolActivity, codexToolFromStatus } from '../transcript/codexParser.js'
+
+/** OpenAI Codex CLI rollout files */
+export const codexAdapter: AgentAdapter = {
+  id: 'codex',
+  label: 'Codex CLI',
+  detect: isCodexRecord,
+  createParser: (agentId) => new CodexParser(agentId),
+  toolActivity: codexToolActivity,
+  toolFromStatus: codexToolFromStatus,
+}
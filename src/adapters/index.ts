@@ -0,0 +1,4 @@
+export type { AgentAdapter, SessionParser } from './agentAdapter.js'
+export { claudeCodeAdapter } from './claudeCodeAdapter.js'
+export { codexAdapter } from './codexAdapter.js'
+export { AGENT_ADAPTERS, getToolActivity, getToolFromStatus, detectAdapter, AutoDetectParser } from './registry.js'
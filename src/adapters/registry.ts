@@ -0,0 +1,90 @@
+import type { HostMessage } from '../messageProtocol.js'
+import type { ActivityKind } from '../office/types.js'
+import type { AgentAdapter, SessionParser } from './agentAdapter.js'
+import { claudeCodeAdapter } from './claudeCodeAdapter.js'
+import { codexAdapter } from './codexAdapter.js'
+
+/** Known frameworks, most common first. Claude Code is the fallback format. */
+export const AGENT_ADAPTERS: AgentAdapter[] = [claudeCodeAdapter, codexAdapter]
+
+/** Canonical kind for a tool name from any known framework */
+export function getToolActivity(toolName: string): ActivityKind | null {
+  for (const adapter of AGENT_ADAPTERS) {
+    const kind = adapter.toolActivity(toolName)
+    if (kind) return kind
+  }
+  return null
+}
+
+/** Tool name behind a status line from any known framework */
+export function getToolFromStatus(status: string): string | null {
+  for (const adapter of AGENT_ADAPTERS) {
+    const tool = adapter.toolFromStatus(status)
+    if (tool) return tool
+  }
+  return null
+}
+
+export function detectAdapter(record: unknown): AgentAdapter | null {
+  return AGENT_ADAPTERS.find((a) => a.detect(record)) ?? null
+}
+
+/**
+ * Session parser that picks its adapter from the first parseable line, so a
+ * dropped file can come from any supported framework.
+ */
+export class AutoDetectParser implements SessionParser {
+  readonly agentId: number
+  /** Adapter chosen for this session (null until a record has been seen) */
+  adapter: AgentAdapter | null = null
+  private pending = ''
+  private inner: SessionParser | null = null
+
+  constructor(agentId: number) {
+    this.agentId = agentId
+  }
+
+  push(chunk: string): HostMessage[] {
+    if (this.inner) return this.inner.push(chunk)
+    this.pending += chunk
+    const lines = this.pending.split('\n')
+    lines.pop() // partial line — wait for the rest
+    for (const line of lines) {
+      const record = parseRecord(line)
+      if (record !== undefined) return this.start(record).push(this.takePending())
+    }
+    return []
+  }
+
+  flush(): HostMessage[] {
+    if (this.inner) return this.inner.flush()
+    // Every complete line so far was unreadable; the last one may be the first record
+    const record = parseRecord(this.pending.slice(this.pending.lastIndexOf('\n') + 1))
+    if (record === undefined) return []
+    const inner = this.start(record)
+    return [...inner.push(this.takePending()), ...inner.flush()]
+  }
+
+  private start(record: unknown): SessionParser {
+    this.adapter = detectAdapter(record) ?? claudeCodeAdapter
+    this.inner = this.adapter.createParser(this.agentId)
+    return this.inner
+  }
+
+  private takePending(): string {
+    const text = this.pending
+    this.pending = ''
+    return text
+  }
+}
+
+/** The JSON record on a line, or undefined for a blank or unparseable one */
+function parseRecord(line: string): unknown {
+  const trimmed = line.trim()
+  if (!trimmed) return undefined
+  try {
+    return JSON.parse(trimmed)
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,393 @@
+/**
+ * Agent activity reducer: applies one HostMessage to the React-facing agent
+ * state and the matching OfficeState calls.
+ *
+ * Shared by the live dispatcher (useExtensionMessages) and the replay player,
+ * so a recorded session rebuilds exactly the state the live office showed.
+ * Side effects outside the office (sounds, settings, layout) stay with the caller.
+ */
+
+import type { OfficeState } from './office/engine/officeState.js'
+import type { ToolActivity } from './office/types.js'
+import type { AgentMeta, HostMessage, WorkspaceFolder } from './messageProtocol.js'
+import { ActivityKind } from './office/types.js'
+import { extractToolName, extractToolActivity } from './office/toolUtils.js'
+import { AGENT_MESSAGE_HISTORY_MAX } from './constants.js'
+
+/** Tools whose status goes up in a text bubble: the file being edited, the command being run */
+const SNIPPET_ACTIVITIES = new Set<ActivityKind | null>([ActivityKind.WRITE, ActivityKind.EXECUTE])
+
+/**
+ * A sub-agent character spawned by a delegating (Task) tool. Sub-agents can
+ * delegate in turn: `parentAgentId` is then another sub-agent's character id,
+ * while `rootAgentId` is always the top-level agent whose messages drive it.
+ */
+export interface SubagentCharacter {
+  id: number
+  parentAgentId: number
+  parentToolId: string
+  rootAgentId: number
+  /** 1 for a direct sub-agent, 2 for its sub-agent, and so on */
+  depth: number
+  label: string
+}
+
+/** One agent-team message, kept for the debug view */
+export interface AgentMessageEntry {
+  fromId: number
+  /** null for a broadcast to the whole team */
+  toId: number | null
+  summary?: string
+}
+
+export interface AgentActivityState {
+  agents: number[]
+  selectedAgent: number | null
+  agentTools: Record<number, ToolActivity[]>
+  agentStatuses: Record<number, string>
+  subagentTools: Record<number, Record<string, ToolActivity[]>>
+  subagentCharacters: SubagentCharacter[]
+  workspaceFolders: WorkspaceFolder[]
+  /** Folder name each agent reported when it was created */
+  agentFolders: Record<number, string>
+  /** Display names for agents that were given one */
+  agentNames: Record<number, string>
+  /** Presentation each agent was created or last updated with (identity, role, looks) */
+  agentMeta: Record<number, AgentMeta>
+  /** Most recent agent-team messages, oldest first */
+  agentMessages: AgentMessageEntry[]
+}
+
+export const EMPTY_AGENT_ACTIVITY: AgentActivityState = {
+  agents: [],
+  selectedAgent: null,
+  agentTools: {},
+  agentStatuses: {},
+  subagentTools: {},
+  subagentCharacters: [],
+  workspaceFolders: [],
+  agentFolders: {},
+  agentNames: {},
+  agentMeta: {},
+  agentMessages: [],
+}
+
+/**
+ * Apply a message to `state`, mutating `os` to match. Returns the next state
+ * (the same object when nothing changed). Messages that don't concern agents
+ * (layout, settings, handshake) are ignored.
+ */
+export function applyAgentMessage(
+  state: AgentActivityState,
+  msg: HostMessage,
+  os: OfficeState,
+  skipSpawnEffect = false,
+): AgentActivityState {
+  switch (msg.type) {
+    case 'workspaceFolders':
+      os.setWorkspaceFolders(msg.folders.map((f) => f.name))
+      return { ...state, workspaceFolders: msg.folders }
+    case 'existingAgents': {
+      let next = state
+      for (const id of msg.agents) {
+        next = addAgent(next, os, id, msg.folderNames?.[id], msg.agentMeta?.[id], true)
+      }
+      return next
+    }
+    case 'agentCreated': {
+      const next = addAgent(state, os, msg.id, msg.folderName, msg.meta, skipSpawnEffect)
+      return { ...next, selectedAgent: msg.id }
+    }
+    case 'agentClosed': {
+      const id = msg.id
+      os.removeAllSubagents(id, skipSpawnEffect)
+      os.removeAgent(id, skipSpawnEffect)
+      return {
+        ...state,
+        subagentCharacters: state.subagentCharacters.filter((s) => s.rootAgentId !== id),
+        agents: state.agents.filter((a) => a !== id),
+        selectedAgent: state.selectedAgent === id ? null : state.selectedAgent,
+        agentTools: omitKey(state.agentTools, id),
+        agentStatuses: omitKey(state.agentStatuses, id),
+        subagentTools: omitKey(state.subagentTools, id),
+        agentFolders: omitKey(state.agentFolders, id),
+        agentNames: omitKey(state.agentNames, id),
+        agentMeta: omitKey(state.agentMeta, id),
+      }
+    }
+    case 'agentSelected':
+      return { ...state, selectedAgent: msg.id }
+    case 'agentMeta': {
+      const { id, meta } = msg
+      if (!state.agents.includes(id)) return state
+      os.setAgentLook(id, meta)
+      // Move to the new home desk if it's free
+      const seat = meta.seatId ? os.seats.get(meta.seatId) : undefined
+      if (meta.seatId && seat && !seat.assigned) {
+        os.reassignSeat(id, meta.seatId)
+      }
+      const merged = { ...state.agentMeta[id], ...meta }
+      return {
+        ...state,
+        agentMeta: { ...state.agentMeta, [id]: merged },
+        agentNames: merged.name ? { ...state.agentNames, [id]: merged.name } : omitKey(state.agentNames, id),
+      }
+    }
+    case 'agentStatus': {
+      const { id, status } = msg
+      if (status === 'active') {
+        os.setAgentActive(id, true)
+        return { ...state, agentStatuses: omitKey(state.agentStatuses, id) }
+      }
+      os.setAgentActive(id, false)
+      if (status === 'waiting') {
+        os.showWaitingBubble(id)
+        os.celebrate(id)
+      }
+      return { ...state, agentStatuses: { ...state.agentStatuses, [id]: status } }
+    }
+    case 'agentToolStart': {
+      const { id, toolId, status } = msg
+      const kind = extractToolActivity(status, msg.activity)
+      os.setAgentTool(id, extractToolName(status), kind)
+      os.setAgentActive(id, true)
+      os.clearPermissionBubble(id)
+      const list = state.agentTools[id] || []
+      if (list.some((t) => t.toolId === toolId)) return state
+      if (!skipSpawnEffect && SNIPPET_ACTIVITIES.has(kind)) os.showTextBubble(id, status)
+      const next = { ...state, agentTools: { ...state.agentTools, [id]: [...list, { toolId, status, activity: msg.activity, done: false }] } }
+      return kind === ActivityKind.DELEGATE ? spawnSubagent(next, os, id, id, toolId, status, skipSpawnEffect) : next
+    }
+    case 'agentToolDone': {
+      const { id, toolId } = msg
+      if (msg.error) os.showToolError(id)
+      // A finished Task takes its sub-agent (and anything it delegated to) with it
+      const next = removeSubagentTree(state, os, id, toolId, skipSpawnEffect)
+      const list = next.agentTools[id]
+      if (!list) return next
+      const tools = list.map((t) => (t.toolId === toolId ? { ...t, done: true } : t))
+      // Nothing left running — the agent is thinking until the next tool starts
+      if (tools.every((t) => t.done)) os.setAgentTool(id, null)
+      return { ...next, agentTools: { ...next.agentTools, [id]: tools } }
+    }
+    case 'agentToolsClear': {
+      const id = msg.id
+      os.setAgentTool(id, null)
+      os.clearPermissionBubble(id)
+      os.removeAllSubagents(id, skipSpawnEffect)
+      return {
+        ...state,
+        agentTools: omitKey(state.agentTools, id),
+        subagentTools: omitKey(state.subagentTools, id),
+        subagentCharacters: state.subagentCharacters.filter((s) => s.rootAgentId !== id),
+      }
+    }
+    case 'agentToolPermission': {
+      const id = msg.id
+      os.showPermissionBubble(id)
+      const list = state.agentTools[id]
+      if (!list) return state
+      return { ...state, agentTools: { ...state.agentTools, [id]: list.map((t) => (t.done ? t : { ...t, permissionWait: true })) } }
+    }
+    case 'agentToolPermissionClear': {
+      const id = msg.id
+      os.clearPermissionBubble(id)
+      const list = state.agentTools[id]
+      if (!list) return state
+      return { ...state, agentTools: { ...state.agentTools, [id]: list.map((t) => (t.permissionWait ? { ...t, permissionWait: false } : t)) } }
+    }
+    case 'subagentToolStart': {
+      const { id, parentToolId, toolId, status } = msg
+      let next = state
+      // Tools can arrive for a Task we never saw start (e.g. mid-session attach)
+      if (!findSubagent(next, id, parentToolId)) {
+        next = spawnSubagent(next, os, id, id, parentToolId, '', skipSpawnEffect)
+      }
+      const sub = findSubagent(next, id, parentToolId)
+      const kind = extractToolActivity(status, msg.activity)
+      if (sub) {
+        os.setAgentTool(sub.id, extractToolName(status), kind)
+        os.setAgentActive(sub.id, true)
+      }
+      const agentSubs = next.subagentTools[id] || {}
+      const list = agentSubs[parentToolId] || []
+      if (list.some((t) => t.toolId === toolId)) return next
+      if (sub && !skipSpawnEffect && SNIPPET_ACTIVITIES.has(kind)) os.showTextBubble(sub.id, status)
+      next = {
+        ...next,
+        subagentTools: { ...next.subagentTools, [id]: { ...agentSubs, [parentToolId]: [...list, { toolId, status, activity: msg.activity, done: false }] } },
+      }
+      // A sub-agent delegating again gets a sub-agent of its own
+      return sub && kind === ActivityKind.DELEGATE ? spawnSubagent(next, os, id, sub.id, toolId, status, skipSpawnEffect) : next
+    }
+    case 'subagentToolDone': {
+      const { id, parentToolId, toolId } = msg
+      const next = removeSubagentTree(state, os, id, toolId, skipSpawnEffect)
+      const list = next.subagentTools[id]?.[parentToolId]
+      if (!list) return next
+      const sub = findSubagent(next, id, parentToolId)
+      if (sub && list.every((t) => t.done || t.toolId === toolId)) {
+        os.setAgentTool(sub.id, null)
+      }
+      return {
+        ...next,
+        subagentTools: {
+          ...next.subagentTools,
+          [id]: { ...next.subagentTools[id], [parentToolId]: list.map((t) => (t.toolId === toolId ? { ...t, done: true } : t)) },
+        },
+      }
+    }
+    case 'subagentClear': {
+      const { id, parentToolId } = msg
+      const next = removeSubagentTree(state, os, id, parentToolId, skipSpawnEffect)
+      if (!next.subagentTools[id]?.[parentToolId]) return next
+      return { ...next, subagentTools: { ...next.subagentTools, [id]: omitKey(next.subagentTools[id], parentToolId) } }
+    }
+    case 'agentSpeech':
+      if (!skipSpawnEffect) os.showTextBubble(msg.id, msg.text)
+      return state
+    case 'agentMessage': {
+      const toId = msg.toId ?? null
+      if (!skipSpawnEffect) os.sendAgentMessage(msg.id, toId)
+      const entry: AgentMessageEntry = { fromId: msg.id, toId, summary: msg.summary }
+      return { ...state, agentMessages: [...state.agentMessages, entry].slice(-AGENT_MESSAGE_HISTORY_MAX) }
+    }
+    default:
+      return state
+  }
+}
+
+/**
+ * Messages that recreate `state` from an empty office — used to seed a
+ * recording that starts while agents are already running.
+ */
+export function activitySnapshotMessages(state: AgentActivityState): HostMessage[] {
+  const out: HostMessage[] = []
+  if (state.agents.length === 0) return out
+  // Folders first, so agents are seated in the same rooms on replay
+  if (state.workspaceFolders.length > 0) out.push({ type: 'workspaceFolders', folders: [...state.workspaceFolders] })
+  out.push({ type: 'existingAgents', agents: [...state.agents], folderNames: { ...state.agentFolders }, agentMeta: { ...state.agentMeta } })
+  for (const id of state.agents) {
+    const tools = state.agentTools[id] || []
+    const status = state.agentStatuses[id]
+    if (!status || tools.length > 0) {
+      out.push({ type: 'agentStatus', id, status: 'active' })
+    }
+    for (const tool of tools) {
+      out.push({ type: 'agentToolStart', id, toolId: tool.toolId, status: tool.status, activity: tool.activity })
+      if (tool.done) out.push({ type: 'agentToolDone', id, toolId: tool.toolId })
+    }
+    if (tools.some((t) => t.permissionWait)) {
+      out.push({ type: 'agentToolPermission', id })
+    }
+    const subs = state.subagentTools[id] || {}
+    for (const [parentToolId, list] of Object.entries(subs)) {
+      for (const tool of list) {
+        out.push({ type: 'subagentToolStart', id, parentToolId, toolId: tool.toolId, status: tool.status, activity: tool.activity })
+        if (tool.done) out.push({ type: 'subagentToolDone', id, parentToolId, toolId: tool.toolId })
+      }
+    }
+    if (status === 'waiting' || status === 'idle') {
+      out.push({ type: 'agentStatus', id, status })
+    }
+  }
+  for (const m of state.agentMessages) {
+    out.push({ type: 'agentMessage', id: m.fromId, toId: m.toId ?? undefined, summary: m.summary })
+  }
+  if (state.selectedAgent !== null) {
+    out.push({ type: 'agentSelected', id: state.selectedAgent })
+  }
+  return out
+}
+
+function addAgent(
+  state: AgentActivityState,
+  os: OfficeState,
+  id: number,
+  folderName: string | undefined,
+  meta: AgentMeta | undefined,
+  skipSpawnEffect: boolean,
+): AgentActivityState {
+  os.addAgent(id, meta?.palette, meta?.hueShift, meta?.seatId, skipSpawnEffect, folderName, meta)
+  if (meta?.accessories) os.setAgentLook(id, { accessories: meta.accessories })
+  const agents = state.agents.includes(id) ? state.agents : [...state.agents, id]
+  const agentFolders = folderName ? { ...state.agentFolders, [id]: folderName } : state.agentFolders
+  const agentNames = meta?.name ? { ...state.agentNames, [id]: meta.name } : state.agentNames
+  const agentMeta = meta ? { ...state.agentMeta, [id]: meta } : state.agentMeta
+  return { ...state, agents, agentFolders, agentNames, agentMeta }
+}
+
+/** Sub-agent label from its Task status line ("Task: Review the diff" → "Review the diff") */
+function subagentLabel(status: string): string {
+  return status.replace(/^Task:\s*/, '').trim() || 'Subtask'
+}
+
+function findSubagent(state: AgentActivityState, rootAgentId: number, parentToolId: string): SubagentCharacter | undefined {
+  return state.subagentCharacters.find((s) => s.rootAgentId === rootAgentId && s.parentToolId === parentToolId)
+}
+
+/** Spawn a sub-agent next to `parentCharId` for a delegating tool */
+function spawnSubagent(
+  state: AgentActivityState,
+  os: OfficeState,
+  rootAgentId: number,
+  parentCharId: number,
+  toolId: string,
+  status: string,
+  skipSpawnEffect: boolean,
+): AgentActivityState {
+  if (findSubagent(state, rootAgentId, toolId)) return state
+  const parent = state.subagentCharacters.find((s) => s.id === parentCharId)
+  const id = os.addSubagent(parentCharId, toolId, skipSpawnEffect)
+  const sub: SubagentCharacter = {
+    id,
+    parentAgentId: parentCharId,
+    parentToolId: toolId,
+    rootAgentId,
+    depth: parent ? parent.depth + 1 : 1,
+    label: subagentLabel(status),
+  }
+  return { ...state, subagentCharacters: [...state.subagentCharacters, sub] }
+}
+
+/**
+ * Despawn the sub-agent started by `parentToolId` along with every sub-agent
+ * below it, and drop their tool lists. No-op when the tool wasn't a Task.
+ */
+function removeSubagentTree(
+  state: AgentActivityState,
+  os: OfficeState,
+  rootAgentId: number,
+  parentToolId: string,
+  skipDespawnEffect: boolean,
+): AgentActivityState {
+  const sub = findSubagent(state, rootAgentId, parentToolId)
+  if (!sub) return state
+  os.removeSubagent(sub.parentAgentId, parentToolId, skipDespawnEffect)
+  // Children are always spawned after their parent, so one pass finds them all
+  const removedIds = new Set([sub.id])
+  const removedToolIds: string[] = [parentToolId]
+  for (const s of state.subagentCharacters) {
+    if (removedIds.has(s.parentAgentId)) {
+      removedIds.add(s.id)
+      removedToolIds.push(s.parentToolId)
+    }
+  }
+  let agentSubs = state.subagentTools[rootAgentId] || {}
+  for (const toolId of removedToolIds.slice(1)) {
+    agentSubs = omitKey(agentSubs, toolId)
+  }
+  return {
+    ...state,
+    subagentCharacters: state.subagentCharacters.filter((s) => !removedIds.has(s.id)),
+    subagentTools: { ...state.subagentTools, [rootAgentId]: agentSubs },
+  }
+}
+
+/** Copy of a record without one key */
+function omitKey<K extends string | number, V>(record: Record<K, V>, key: K): Record<K, V> {
+  if (!(key in record)) return record
+  const next = { ...record }
+  delete next[key]
+  return next
+}
@@ -1,6 +1,6 @@
 /**
- * Browser-based asset loader: loads PNG sprite sheets and converts them
- * to SpriteData (2D hex-color arrays) using canvas getImageData.
+ * Browser-based asset loader: loads PNG sprite sheets and cuts them into
+ * SpriteData (packed RGBA) using canvas getImageData.
  *
  * Replaces the Node.js-based extension assetLoader that used pngjs.
  */
@@ -8,12 +8,15 @@
 import type { SpriteData } from './office/types.js'
 import { setCharacterTemplates } from './office/sprites/spriteData.js'
 import { setWallSprites } from './office/wallTiles.js'
+import { spriteFromPixels } from './office/sprites/packedSprite.js'
 
 // ── Constants (match scripts/export-characters.ts and src/constants.ts) ──
 
 const CHAR_FRAME_W = 16
 const CHAR_FRAME_H = 32 // full cell height (includes 8px transparent padding at top)
 const CHAR_FRAMES_PER_ROW = 7
+/** Sheets may be wider, with think, error, celebrate and sleep frames after the base seven */
+const CHAR_FRAMES_PER_ROW_MAX = 15
 const CHAR_COUNT = 6
 
 const WALL_PIECE_W = 16
@@ -52,26 +55,7 @@ function extractSprite(
   w: number,
   h: number,
 ): SpriteData {
-  const rows: string[][] = []
-  for (let row = 0; row < h; row++) {
-    const cols: string[] = []
-    for (let col = 0; col < w; col++) {
-      const idx = ((y + row) * imgWidth + (x + col)) * 4
-      const r = data[idx]
-      const g = data[idx + 1]
-      const b = data[idx + 2]
-      const a = data[idx + 3]
-      if (a < ALPHA_THRESHOLD) {
-        cols.push('')
-      } else {
-        cols.push(
-          `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`,
-        )
-      }
-    }
-    rows.push(cols)
-  }
-  return rows
+  return spriteFromPixels(data, imgWidth, x, y, w, h, ALPHA_THRESHOLD)
 }
 
 // ── Character sprites ───────────────────────────────────────
@@ -82,6 +66,8 @@ function extractSprite(
  * Each PNG is 112×96: 7 columns × 16px, 3 rows × 32px.
  * Row 0 = down, Row 1 = up, Row 2 = right.
  * Frame order: walk1, walk2, walk3, type1, type2, read1, read2.
+ * A sheet up to 240px wide may go on with think1-2, error1-2, celebrate1-2 and
+ * sleep1-2; states without frames are drawn procedurally.
  * Sprite data is 24px tall, bottom-aligned in 32px frame (8px padding at top).
  */
 async function loadCharacters(): Promise<void> {
@@ -91,10 +77,11 @@ async function loadCharacters(): Promise<void> {
     const img = await loadImage(`./assets/characters/char_${i}.png`)
     const { data, width } = getPixelData(img)
 
+    const frameCount = Math.max(CHAR_FRAMES_PER_ROW, Math.min(CHAR_FRAMES_PER_ROW_MAX, Math.floor(width / CHAR_FRAME_W)))
     const extractRow = (dirIdx: number): SpriteData[] => {
       const sprites: SpriteData[] = []
       const rowY = dirIdx * CHAR_FRAME_H
-      for (let f = 0; f < CHAR_FRAMES_PER_ROW; f++) {
+      for (let f = 0; f < frameCount; f++) {
         sprites.push(extractSprite(data, width, f * CHAR_FRAME_W, rowY, CHAR_FRAME_W, CHAR_FRAME_H))
       }
       return sprites
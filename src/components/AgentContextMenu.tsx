@@ -0,0 +1,105 @@
+import { useState } from 'react'
+
+interface AgentContextMenuProps {
+  /** Client coordinates the menu opens at */
+  x: number
+  y: number
+  agentName: string
+  /** Whether the agent's text bubbles are on */
+  textBubbles: boolean
+  onEditProfile: () => void
+  onToggleTextBubbles: () => void
+  onCloseAgent: () => void
+  onClose: () => void
+}
+
+const menuItemBase: React.CSSProperties = {
+  display: 'block',
+  width: '100%',
+  padding: '6px 10px',
+  fontSize: '22px',
+  color: 'rgba(255, 255, 255, 0.8)',
+  background: 'transparent',
+  border: 'none',
+  borderRadius: 0,
+  cursor: 'pointer',
+  textAlign: 'left',
+  whiteSpace: 'nowrap',
+}
+
+export function AgentContextMenu({ x, y, agentName, textBubbles, onEditProfile, onToggleTextBubbles, onCloseAgent, onClose }: AgentContextMenuProps) {
+  const [hovered, setHovered] = useState<string | null>(null)
+
+  return (
+    <>
+      {/* Invisible backdrop — any click outside closes the menu */}
+      <div
+        onClick={onClose}
+        onContextMenu={(e) => {
+          e.preventDefault()
+          onClose()
+        }}
+        style={{ position: 'fixed', top: 0, left: 0, width: '100%', height: '100%', zIndex: 49 }}
+      />
+      <div
+        style={{
+          position: 'fixed',
+          left: x,
+          top: y,
+          zIndex: 50,
+          background: 'var(--pixel-bg)',
+          border: '2px solid var(--pixel-border)',
+          borderRadius: 0,
+          padding: '4px',
+          boxShadow: 'var(--pixel-shadow)',
+          minWidth: 160,
+        }}
+      >
+        <div
+          style={{
+            padding: '2px 10px 4px',
+            fontSize: '20px',
+            color: 'var(--pixel-text-dim)',
+            borderBottom: '1px solid var(--pixel-border)',
+            marginBottom: '4px',
+          }}
+        >
+          {agentName}
+        </div>
+        <button
+          onClick={() => {
+            onEditProfile()
+            onClose()
+          }}
+          onMouseEnter={() => setHovered('profile')}
+          onMouseLeave={() => setHovered(null)}
+          style={{ ...menuItemBase, background: hovered === 'profile' ? 'rgba(255, 255, 255, 0.08)' : 'transparent' }}
+        >
+          Edit Profile...
+        </button>
+        <button
+          onClick={() => {
+            onToggleTextBubbles()
+            onClose()
+          }}
+          onMouseEnter={() => setHovered('bubbles')}
+          onMouseLeave={() => setHovered(null)}
+          style={{ ...menuItemBase, background: hovered === 'bubbles' ? 'rgba(255, 255, 255, 0.08)' : 'transparent' }}
+        >
+          {textBubbles ? 'Hide Text Bubbles' : 'Show Text Bubbles'}
+        </button>
+        <button
+          onClick={() => {
+            onCloseAgent()
+            onClose()
+          }}
+          onMouseEnter={() => setHovered('close')}
+          onMouseLeave={() => setHovered(null)}
+          style={{ ...menuItemBase, background: hovered === 'close' ? 'rgba(255, 255, 255, 0.08)' : 'transparent' }}
+        >
+          Close Agent
+        </button>
+      </div>
+    </>
+  )
+}
@@ -1,12 +1,15 @@
 import { useState, useEffect } from 'react'
 import type { OfficeState } from '../office/engine/officeState.js'
 import type { SubagentCharacter } from '../hooks/useExtensionMessages.js'
-import { TILE_SIZE, CharacterState } from '../office/types.js'
+import { TILE_SIZE } from '../office/types.js'
+import { isSittingState } from '../office/engine/characters.js'
 
 interface AgentLabelsProps {
   officeState: OfficeState
   agents: number[]
   agentStatuses: Record<number, string>
+  /** Display names from agent profiles / host meta */
+  agentNames: Record<number, string>
   containerRef: React.RefObject<HTMLDivElement | null>
   zoom: number
   panRef: React.RefObject<{ x: number; y: number }>
@@ -17,6 +20,7 @@ export function AgentLabels({
   officeState,
   agents,
   agentStatuses,
+  agentNames,
   containerRef,
   zoom,
   panRef,
@@ -59,10 +63,10 @@ export function AgentLabels({
     <>
       {allIds.map((id) => {
         const ch = officeState.characters.get(id)
-        if (!ch) return null
+        if (!ch || ch.floor !== officeState.currentFloor) return null
 
         // Character position: device pixels → CSS pixels (follow sitting offset)
-        const sittingOffset = ch.state === CharacterState.TYPE ? 6 : 0
+        const sittingOffset = isSittingState(ch.state) ? 6 : 0
         const screenX = (deviceOffsetX + ch.x * zoom) / dpr
         const screenY = (deviceOffsetY + (ch.y + sittingOffset - 24) * zoom) / dpr
 
@@ -78,7 +82,7 @@ export function AgentLabels({
           dotColor = 'var(--vscode-charts-blue, #3794ff)'
         }
 
-        const labelText = subLabelMap.get(id) || `Agent #${id}`
+        const labelText = subLabelMap.get(id) || agentNames[id] || `Agent #${id}`
 
         return (
           <div
@@ -0,0 +1,207 @@
+import { useState } from 'react'
+import type { AgentProfile } from '../profiles/agentProfiles.js'
+import { AgentAccessory } from '../office/types.js'
+import { PALETTE_COUNT } from '../constants.js'
+
+type ProfileFields = Omit<AgentProfile, 'identity'>
+
+interface AgentProfileModalProps {
+  agentId: number
+  /** Current look and desk, used to pre-fill the form */
+  initial: ProfileFields
+  /** Seat the agent is at right now, offered as its home desk */
+  currentSeatId: string | null
+  onSave: (profile: ProfileFields) => void
+  onClose: () => void
+}
+
+const ACCESSORY_LABELS: Record<AgentAccessory, string> = {
+  [AgentAccessory.HAT]: 'Hat',
+  [AgentAccessory.CROWN]: 'Crown',
+  [AgentAccessory.HALO]: 'Halo',
+}
+
+const labelStyle: React.CSSProperties = {
+  fontSize: '20px',
+  color: 'rgba(255, 255, 255, 0.5)',
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  boxSizing: 'border-box',
+  padding: '3px 6px',
+  fontSize: '22px',
+  color: 'var(--pixel-text)',
+  background: 'rgba(0, 0, 0, 0.3)',
+  border: '2px solid var(--pixel-border)',
+  borderRadius: 0,
+}
+
+const chipBase: React.CSSProperties = {
+  padding: '3px 8px',
+  fontSize: '20px',
+  color: 'var(--pixel-text)',
+  background: 'var(--pixel-btn-bg)',
+  border: '2px solid transparent',
+  borderRadius: 0,
+  cursor: 'pointer',
+}
+
+const chipActive: React.CSSProperties = {
+  ...chipBase,
+  border: '2px solid var(--pixel-accent)',
+}
+
+export function AgentProfileModal({ agentId, initial, currentSeatId, onSave, onClose }: AgentProfileModalProps) {
+  const [hovered, setHovered] = useState<string | null>(null)
+  const [name, setName] = useState(initial.name ?? '')
+  const [role, setRole] = useState(initial.role ?? '')
+  const [palette, setPalette] = useState(initial.palette ?? 0)
+  const [hueShift, setHueShift] = useState(initial.hueShift ?? 0)
+  const [accessories, setAccessories] = useState<AgentAccessory[]>(initial.accessories ?? [])
+  const [seatId, setSeatId] = useState<string | undefined>(initial.seatId)
+
+  const toggleAccessory = (a: AgentAccessory) =>
+    setAccessories((prev) => (prev.includes(a) ? prev.filter((x) => x !== a) : [...prev, a]))
+
+  const handleSave = () => {
+    onSave({
+      name: name.trim() || undefined,
+      role: role.trim() || undefined,
+      palette,
+      hueShift,
+      accessories,
+      seatId,
+    })
+    onClose()
+  }
+
+  return (
+    <>
+      {/* Dark backdrop — click to close */}
+      <div
+        onClick={onClose}
+        style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          width: '100%',
+          height: '100%',
+          background: 'rgba(0, 0, 0, 0.5)',
+          zIndex: 49,
+        }}
+      />
+      {/* Centered modal */}
+      <div
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') onClose()
+          if (e.key === 'Enter') handleSave()
+        }}
+        style={{
+          position: 'fixed',
+          top: '50%',
+          left: '50%',
+          transform: 'translate(-50%, -50%)',
+          zIndex: 50,
+          background: 'var(--pixel-bg)',
+          border: '2px solid var(--pixel-border)',
+          borderRadius: 0,
+          padding: '4px',
+          boxShadow: 'var(--pixel-shadow)',
+          minWidth: 280,
+        }}
+      >
+        {/* Header with title and X button */}
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            padding: '4px 10px',
+            borderBottom: '1px solid var(--pixel-border)',
+            marginBottom: '4px',
+          }}
+        >
+          <span style={{ fontSize: '24px', color: 'rgba(255, 255, 255, 0.9)' }}>Agent #{agentId} Profile</span>
+          <button
+            onClick={onClose}
+            onMouseEnter={() => setHovered('close')}
+            onMouseLeave={() => setHovered(null)}
+            style={{
+              background: hovered === 'close' ? 'rgba(255, 255, 255, 0.08)' : 'transparent',
+              border: 'none',
+              borderRadius: 0,
+              color: 'rgba(255, 255, 255, 0.6)',
+              fontSize: '24px',
+              cursor: 'pointer',
+              padding: '0 4px',
+              lineHeight: 1,
+            }}
+          >
+            X
+          </button>
+        </div>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 6, padding: '4px 10px 8px' }}>
+          <span style={labelStyle}>Name</span>
+          <input autoFocus value={name} placeholder={`Agent #${agentId}`} onChange={(e) => setName(e.target.value)} style={inputStyle} />
+          <span style={labelStyle}>Role</span>
+          <input value={role} placeholder="What this agent is for" onChange={(e) => setRole(e.target.value)} style={inputStyle} />
+
+          <span style={labelStyle}>Skin</span>
+          <div style={{ display: 'flex', gap: 4, flexWrap: 'wrap' }}>
+            {Array.from({ length: PALETTE_COUNT }, (_, i) => (
+              <button key={i} onClick={() => setPalette(i)} style={palette === i ? chipActive : chipBase}>
+                {i + 1}
+              </button>
+            ))}
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+            <span style={labelStyle}>Hue</span>
+            <input
+              type="range"
+              min={0}
+              max={359}
+              value={hueShift}
+              onChange={(e) => setHueShift(Number(e.target.value))}
+              style={{ flex: 1 }}
+            />
+            <span style={{ ...labelStyle, minWidth: 40, textAlign: 'right' }}>{hueShift}°</span>
+          </div>
+
+          <span style={labelStyle}>Accessories</span>
+          <div style={{ display: 'flex', gap: 4 }}>
+            {Object.values(AgentAccessory).map((a) => (
+              <button key={a} onClick={() => toggleAccessory(a)} style={accessories.includes(a) ? chipActive : chipBase}>
+                {ACCESSORY_LABELS[a]}
+              </button>
+            ))}
+          </div>
+
+          <span style={labelStyle}>Home desk</span>
+          <div style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+            <button onClick={() => setSeatId(undefined)} style={seatId === undefined ? chipActive : chipBase}>
+              Any free
+            </button>
+            {currentSeatId && (
+              <button onClick={() => setSeatId(currentSeatId)} style={seatId === currentSeatId ? chipActive : chipBase}>
+                Current desk
+              </button>
+            )}
+            {seatId !== undefined && seatId !== currentSeatId && (
+              <button style={chipActive}>Saved desk</button>
+            )}
+          </div>
+
+          <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 4, marginTop: 4 }}>
+            <button onClick={onClose} style={chipBase}>
+              Cancel
+            </button>
+            <button onClick={handleSave} style={{ ...chipBase, background: 'var(--pixel-agent-bg)' }}>
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -10,6 +10,13 @@ interface BottomToolbarProps {
   isDebugMode: boolean
   onToggleDebugMode: () => void
   workspaceFolders: WorkspaceFolder[]
+  onLoadTranscripts: (files: FileList) => void
+  isRecording: boolean
+  onToggleRecording: () => void
+  onLoadReplay: (file: File) => void
+  isDemoMode: boolean
+  demoScenarioId: string
+  onSelectScenario: (id: string) => void
 }
 
 const panelStyle: React.CSSProperties = {
@@ -51,6 +58,13 @@ export function BottomToolbar({
   isDebugMode,
   onToggleDebugMode,
   workspaceFolders,
+  onLoadTranscripts,
+  isRecording,
+  onToggleRecording,
+  onLoadReplay,
+  isDemoMode,
+  demoScenarioId,
+  onSelectScenario,
 }: BottomToolbarProps) {
   const [hovered, setHovered] = useState<string | null>(null)
   const [isSettingsOpen, setIsSettingsOpen] = useState(false)
@@ -184,6 +198,13 @@ export function BottomToolbar({
           onClose={() => setIsSettingsOpen(false)}
           isDebugMode={isDebugMode}
           onToggleDebugMode={onToggleDebugMode}
+          onLoadTranscripts={onLoadTranscripts}
+          isRecording={isRecording}
+          onToggleRecording={onToggleRecording}
+          onLoadReplay={onLoadReplay}
+          isDemoMode={isDemoMode}
+          demoScenarioId={demoScenarioId}
+          onSelectScenario={onSelectScenario}
         />
       </div>
     </div>
@@ -1,18 +1,111 @@
+import { useState, useEffect } from 'react'
 import type { ToolActivity } from '../office/types.js'
+import type { AgentMessageEntry } from '../hooks/useExtensionMessages.js'
+import type { AgentMeta } from '../messageProtocol.js'
 import { vscode } from '../vscodeApi.js'
+import { getFrameTimings } from '../office/engine/renderer.js'
+import type { FrameTimings } from '../office/engine/renderer.js'
+import { getSpriteCacheStats } from '../office/sprites/spriteCache.js'
+import type { SpriteCacheStats } from '../office/sprites/spriteCache.js'
+import type { SimulationClock } from '../office/engine/simulationClock.js'
+import { SIM_SPEEDS } from '../constants.js'
 
 interface DebugViewProps {
   agents: number[]
   selectedAgent: number | null
   agentTools: Record<number, ToolActivity[]>
   agentStatuses: Record<number, string>
+  agentNames: Record<number, string>
+  agentMeta: Record<number, AgentMeta>
   subagentTools: Record<number, Record<string, ToolActivity[]>>
+  agentMessages: AgentMessageEntry[]
   onSelectAgent: (id: number) => void
+  /** Clock of the office on screen */
+  clock: SimulationClock
 }
 
 /** Z-index just below the floating toolbar (50) so the toolbar stays on top */
 const DEBUG_Z = 40
 
+/** How often the render stats refresh */
+const RENDER_STATS_REFRESH_MS = 500
+
+const megabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+
+/** Average frame time with the cached floor/furniture layers against a full redraw, and sprite cache usage */
+function RenderStats() {
+  const [timings, setTimings] = useState<FrameTimings>(getFrameTimings)
+  const [sprites, setSprites] = useState<SpriteCacheStats>(getSpriteCacheStats)
+  useEffect(() => {
+    const id = setInterval(() => {
+      setTimings(getFrameTimings())
+      setSprites(getSpriteCacheStats())
+    }, RENDER_STATS_REFRESH_MS)
+    return () => clearInterval(id)
+  }, [])
+  const ms = (value: number | null) => (value === null ? '–' : `${value.toFixed(2)} ms`)
+  const { cachedMs, fullMs } = timings
+  const lookups = sprites.hits + sprites.misses
+  return (
+    <div style={{ fontSize: '22px', opacity: 0.7, marginBottom: 8, display: 'flex', flexDirection: 'column' }}>
+      <span>
+        Frame: {ms(cachedMs)} cached · {ms(fullMs)} full redraw
+        {cachedMs === null && fullMs !== null && ' (map too large to cache)'}
+        {cachedMs !== null && fullMs !== null && cachedMs > 0 && ` (${(fullMs / cachedMs).toFixed(1)}× faster)`}
+      </span>
+      <span>
+        Sprite cache: {sprites.entries} sprites · {megabytes(sprites.bytes)} of {megabytes(sprites.budgetBytes)}
+        {' · '}{lookups > 0 ? `${((sprites.hits / lookups) * 100).toFixed(1)}% hits` : 'no lookups'}
+        {' · '}{sprites.evictions} evicted
+        {sprites.zooms.length > 0 && ` · zoom ${sprites.zooms.join(', ')}`}
+      </span>
+    </div>
+  )
+}
+
+const clockBtnStyle: React.CSSProperties = {
+  borderRadius: 0,
+  padding: '4px 10px',
+  fontSize: '22px',
+}
+
+/** Pause, single-step and speed controls for the simulation (also Space, `.`, `[` and `]`) */
+function SimulationControls({ clock }: { clock: SimulationClock }) {
+  // Re-render every frame: the tick count moves and the keyboard changes the clock too
+  const [, setTick] = useState(0)
+  useEffect(() => {
+    let rafId = 0
+    const tick = () => {
+      setTick((n) => n + 1)
+      rafId = requestAnimationFrame(tick)
+    }
+    rafId = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(rafId)
+  }, [])
+  const active: React.CSSProperties = { background: 'rgba(90, 140, 255, 0.25)', color: '#fff' }
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 4, marginBottom: 8, fontSize: '22px' }}>
+      <button onClick={() => clock.togglePause()} title="Pause or resume (Space)" style={{ ...clockBtnStyle, ...(clock.paused ? active : {}) }}>
+        {clock.paused ? 'Resume' : 'Pause'}
+      </button>
+      <button onClick={() => clock.step()} title="Pause and run one tick (.)" style={clockBtnStyle}>
+        Step
+      </button>
+      {SIM_SPEEDS.map((speed) => (
+        <button
+          key={speed}
+          onClick={() => clock.setSpeed(speed)}
+          title="Simulation speed ([ and ])"
+          style={{ ...clockBtnStyle, ...(clock.speed === speed ? active : {}) }}
+        >
+          {speed}×
+        </button>
+      ))}
+      <span style={{ opacity: 0.7, marginLeft: 4 }}>tick {clock.ticks}</span>
+    </div>
+  )
+}
+
 function ToolDot({ tool }: { tool: ToolActivity }) {
   return (
     <span
@@ -50,14 +143,58 @@ function ToolLine({ tool }: { tool: ToolActivity }) {
   )
 }
 
+/** A tool line, with the tools of the sub-agent it spawned (if any) nested below — recursively for nested Tasks */
+function renderTool(tool: ToolActivity, subs: Record<string, ToolActivity[]>): React.ReactNode {
+  const subTools = subs[tool.toolId]
+  return (
+    <div key={tool.toolId}>
+      <ToolLine tool={tool} />
+      {subTools && subTools.length > 0 && (
+        <div
+          style={{
+            borderLeft: '2px solid var(--vscode-widget-border, rgba(255,255,255,0.12))',
+            marginLeft: 3,
+            paddingLeft: 8,
+            marginTop: 1,
+            display: 'flex',
+            flexDirection: 'column',
+            gap: 1,
+          }}
+        >
+          {subTools.map((subTool) => renderTool(subTool, subs))}
+        </div>
+      )}
+    </div>
+  )
+}
+
 export function DebugView({
   agents,
   selectedAgent,
   agentTools,
   agentStatuses,
+  agentNames,
+  agentMeta,
   subagentTools,
+  agentMessages,
   onSelectAgent,
+  clock,
 }: DebugViewProps) {
+  const nameOf = (id: number) => agentNames[id] ?? `Agent #${id}`
+
+  // Group messages by conversation: each unordered pair, plus one group per broadcaster
+  const messageGroups = new Map<string, { title: string; messages: AgentMessageEntry[] }>()
+  for (const m of agentMessages) {
+    const key = m.toId === null ? `${m.fromId}:*` : `${Math.min(m.fromId, m.toId)}:${Math.max(m.fromId, m.toId)}`
+    let group = messageGroups.get(key)
+    if (!group) {
+      const title = m.toId === null ? `${nameOf(m.fromId)} → team` : `${nameOf(Math.min(m.fromId, m.toId))} ↔ ${nameOf(Math.max(m.fromId, m.toId))}`
+      group = { title, messages: [] }
+      messageGroups.set(key, group)
+    }
+    group.messages.push(m)
+  }
+
   const renderAgentCard = (id: number) => {
     const isSelected = selectedAgent === id
     const tools = agentTools[id] || []
@@ -86,7 +223,7 @@ export function DebugView({
               fontWeight: isSelected ? 'bold' : undefined,
             }}
           >
-            Agent #{id}
+            {nameOf(id)}
           </button>
           <button
             onClick={() => vscode.postMessage({ type: 'closeAgent', id })}
@@ -103,30 +240,12 @@ export function DebugView({
             ✕
           </button>
         </span>
+        {agentMeta[id]?.role && (
+          <div style={{ fontSize: '20px', opacity: 0.6, paddingLeft: 4 }}>{agentMeta[id].role}</div>
+        )}
         {(tools.length > 0 || status === 'waiting') && (
           <div style={{ display: 'flex', flexDirection: 'column', gap: 1, marginTop: 4, paddingLeft: 4 }}>
-            {tools.map((tool) => (
-              <div key={tool.toolId}>
-                <ToolLine tool={tool} />
-                {subs[tool.toolId] && subs[tool.toolId].length > 0 && (
-                  <div
-                    style={{
-                      borderLeft: '2px solid var(--vscode-widget-border, rgba(255,255,255,0.12))',
-                      marginLeft: 3,
-                      paddingLeft: 8,
-                      marginTop: 1,
-                      display: 'flex',
-                      flexDirection: 'column',
-                      gap: 1,
-                    }}
-                  >
-                    {subs[tool.toolId].map((subTool) => (
-                      <ToolLine key={subTool.toolId} tool={subTool} />
-                    ))}
-                  </div>
-                )}
-              </div>
-            ))}
+            {tools.map((tool) => renderTool(tool, subs))}
             {status === 'waiting' && !hasActiveTools && (
               <span
                 style={{
@@ -171,9 +290,29 @@ export function DebugView({
     >
       {/* Top padding so cards don't overlap the floating toolbar */}
       <div style={{ padding: '12px 12px 12px', fontSize: '28px' }}>
+        <SimulationControls clock={clock} />
+        <RenderStats />
         <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
           {agents.map(renderAgentCard)}
         </div>
+        {messageGroups.size > 0 && (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 6, marginTop: 12 }}>
+            <span style={{ fontSize: '24px', opacity: 0.6 }}>Team messages</span>
+            {[...messageGroups].map(([key, group]) => (
+              <div key={key} style={{ border: '2px solid #4a4a6a', padding: '6px 8px' }}>
+                <span style={{ fontSize: '24px' }}>{group.title}</span>
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 1, marginTop: 4, paddingLeft: 4 }}>
+                  {group.messages.map((m, i) => (
+                    <span key={i} style={{ fontSize: '22px', opacity: 0.8 }}>
+                      {nameOf(m.fromId)} → {m.toId === null ? 'team' : nameOf(m.toId)}
+                      {m.summary ? `: ${m.summary}` : ''}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,141 @@
+import { useState, useEffect } from 'react'
+import type { OfficeState } from '../office/engine/officeState.js'
+
+interface FloorSwitcherProps {
+  officeState: OfficeState
+  isEditMode: boolean
+  onFloorChange: (index: number) => void
+  onFloorAdd: () => void
+  onFloorRemove: () => void
+  onFloorRename: (name: string | null) => void
+}
+
+const rowBase: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'baseline',
+  gap: 6,
+  width: '100%',
+  padding: '3px 8px',
+  fontSize: '20px',
+  color: 'var(--pixel-text)',
+  background: 'transparent',
+  border: '2px solid transparent',
+  borderRadius: 0,
+  cursor: 'pointer',
+  textAlign: 'left',
+  whiteSpace: 'nowrap',
+}
+
+const editBtnStyle: React.CSSProperties = {
+  flex: 1,
+  padding: '3px 8px',
+  fontSize: '18px',
+  color: 'var(--pixel-text)',
+  background: 'var(--pixel-btn-bg)',
+  border: '2px solid transparent',
+  borderRadius: 0,
+  cursor: 'pointer',
+}
+
+/**
+ * Floors of the office, top floor first, with how many agents are on each.
+ * Hidden for single-floor offices outside the editor; in the editor it also
+ * adds, names and removes floors.
+ */
+export function FloorSwitcher({ officeState, isEditMode, onFloorChange, onFloorAdd, onFloorRemove, onFloorRename }: FloorSwitcherProps) {
+  const [hovered, setHovered] = useState<number | null>(null)
+  // Re-render every frame: agents change floors and the view follows the camera
+  const [, setTick] = useState(0)
+  useEffect(() => {
+    let rafId = 0
+    const tick = () => {
+      setTick((n) => n + 1)
+      rafId = requestAnimationFrame(tick)
+    }
+    rafId = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(rafId)
+  }, [])
+
+  const count = officeState.floorCount
+  if (count < 2 && !isEditMode) return null
+  const current = officeState.currentFloor
+
+  const agentCounts = new Array(count).fill(0) as number[]
+  for (const ch of officeState.characters.values()) {
+    if (ch.matrixEffect !== 'despawn' && ch.floor < count) agentCounts[ch.floor]++
+  }
+  const floors = Array.from({ length: count }, (_, i) => count - 1 - i)
+  const currentName = officeState.getLayout().name ?? ''
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: 10,
+        right: 10,
+        zIndex: 'var(--pixel-controls-z)',
+        background: 'var(--pixel-bg)',
+        border: '2px solid var(--pixel-border)',
+        borderRadius: 0,
+        padding: '4px',
+        boxShadow: 'var(--pixel-shadow)',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 2,
+        minWidth: 140,
+      }}
+    >
+      {floors.map((i) => (
+        <button
+          key={i}
+          onClick={() => onFloorChange(i)}
+          onMouseEnter={() => setHovered(i)}
+          onMouseLeave={() => setHovered(null)}
+          style={{
+            ...rowBase,
+            background: hovered === i ? 'var(--pixel-btn-hover-bg)' : 'transparent',
+            border: i === current ? '2px solid var(--pixel-accent)' : rowBase.border,
+          }}
+        >
+          <span style={{ flex: 1 }}>{officeState.getFloorName(i)}</span>
+          <span style={{ fontSize: '16px', color: 'var(--pixel-text-dim)' }}>{agentCounts[i]}</span>
+        </button>
+      ))}
+      {isEditMode && (
+        <>
+          <input
+            key={`${current}:${currentName}`}
+            defaultValue={currentName}
+            placeholder={`Floor ${current + 1}`}
+            title="Name of the floor on screen"
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') e.currentTarget.blur()
+            }}
+            onBlur={(e) => onFloorRename(e.target.value.trim() || null)}
+            style={{
+              padding: '2px 4px',
+              fontSize: '18px',
+              color: 'rgba(255, 255, 255, 0.9)',
+              background: 'rgba(0, 0, 0, 0.3)',
+              border: '2px solid var(--pixel-border)',
+              borderRadius: 0,
+            }}
+          />
+          <div style={{ display: 'flex', gap: 2 }}>
+            <button onClick={onFloorAdd} title="Add an empty floor on top" style={editBtnStyle}>
+              + Floor
+            </button>
+            <button
+              onClick={onFloorRemove}
+              disabled={count < 2}
+              title="Remove the floor on screen"
+              style={{ ...editBtnStyle, opacity: count < 2 ? 0.4 : 1, cursor: count < 2 ? 'default' : 'pointer' }}
+            >
+              Remove
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,112 @@
+import { useState } from 'react'
+import type { ReplayControls } from '../hooks/useReplay.js'
+import { REPLAY_SPEEDS } from '../constants.js'
+
+interface ReplayBarProps {
+  replay: ReplayControls
+}
+
+const btnBase: React.CSSProperties = {
+  padding: '4px 10px',
+  fontSize: '22px',
+  color: 'var(--pixel-text)',
+  background: 'var(--pixel-btn-bg)',
+  border: '2px solid transparent',
+  borderRadius: 0,
+  cursor: 'pointer',
+  whiteSpace: 'nowrap',
+}
+
+function formatOffset(ms: number): string {
+  const total = Math.floor(ms / 1000)
+  const h = Math.floor(total / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const s = total % 60
+  const mmss = `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`
+  return h > 0 ? `${h}:${mmss}` : mmss
+}
+
+function formatClock(epochMs: number): string {
+  return new Date(epochMs).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+}
+
+export function ReplayBar({ replay }: ReplayBarProps) {
+  const [hovered, setHovered] = useState<string | null>(null)
+  const { player, isPlaying, speed, currentMs } = replay
+  if (!player) return null
+
+  const nextSpeed = () => {
+    const i = REPLAY_SPEEDS.indexOf(speed as typeof REPLAY_SPEEDS[number])
+    replay.setSpeed(REPLAY_SPEEDS[(i + 1) % REPLAY_SPEEDS.length])
+  }
+
+  const btnStyle = (key: string): React.CSSProperties => ({
+    ...btnBase,
+    background: hovered === key ? 'var(--pixel-btn-hover-bg)' : btnBase.background,
+  })
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: 8,
+        left: '50%',
+        transform: 'translateX(-50%)',
+        zIndex: 'var(--pixel-controls-z)',
+        display: 'flex',
+        gap: 6,
+        alignItems: 'center',
+        width: 'min(720px, calc(100% - 32px))',
+        background: 'var(--pixel-bg)',
+        border: '2px solid var(--pixel-accent)',
+        borderRadius: 0,
+        padding: '4px 8px',
+        boxShadow: 'var(--pixel-shadow)',
+      }}
+    >
+      <span style={{ fontSize: '20px', color: 'var(--pixel-accent)' }}>REPLAY</span>
+      <button
+        style={btnStyle('play')}
+        onClick={replay.togglePlay}
+        onMouseEnter={() => setHovered('play')}
+        onMouseLeave={() => setHovered(null)}
+        title={isPlaying ? 'Pause' : 'Play'}
+      >
+        {isPlaying ? 'Pause' : 'Play'}
+      </button>
+      <button
+        style={{ ...btnStyle('speed'), minWidth: 56 }}
+        onClick={nextSpeed}
+        onMouseEnter={() => setHovered('speed')}
+        onMouseLeave={() => setHovered(null)}
+        title="Playback speed"
+      >
+        {speed}x
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={player.durationMs}
+        step={100}
+        value={currentMs}
+        onChange={(e) => replay.seek(Number(e.target.value))}
+        style={{ flex: 1, minWidth: 80, accentColor: 'var(--pixel-accent)', cursor: 'pointer' }}
+      />
+      <span
+        style={{ fontSize: '20px', color: 'var(--pixel-text-dim)', whiteSpace: 'nowrap' }}
+        title={formatClock(player.recording.startedAt + currentMs)}
+      >
+        {formatOffset(currentMs)} / {formatOffset(player.durationMs)}
+      </span>
+      <button
+        style={btnStyle('exit')}
+        onClick={replay.closeReplay}
+        onMouseEnter={() => setHovered('exit')}
+        onMouseLeave={() => setHovered(null)}
+        title="Back to the live office"
+      >
+        Exit
+      </button>
+    </div>
+  )
+}
@@ -1,12 +1,20 @@
-import { useState } from 'react'
+import { useState, useRef } from 'react'
 import { vscode } from '../vscodeApi.js'
 import { isSoundEnabled, setSoundEnabled } from '../notificationSound.js'
+import { BUNDLED_SCENARIOS, RANDOM_SCENARIO_PREFIX, randomScenarioId } from '../scenario/bundledScenarios.js'
 
 interface SettingsModalProps {
   isOpen: boolean
   onClose: () => void
   isDebugMode: boolean
   onToggleDebugMode: () => void
+  onLoadTranscripts: (files: FileList) => void
+  isRecording: boolean
+  onToggleRecording: () => void
+  onLoadReplay: (file: File) => void
+  isDemoMode: boolean
+  demoScenarioId: string
+  onSelectScenario: (id: string) => void
 }
 
 const menuItemBase: React.CSSProperties = {
@@ -24,9 +32,11 @@ const menuItemBase: React.CSSProperties = {
   textAlign: 'left',
 }
 
-export function SettingsModal({ isOpen, onClose, isDebugMode, onToggleDebugMode }: SettingsModalProps) {
+export function SettingsModal({ isOpen, onClose, isDebugMode, onToggleDebugMode, onLoadTranscripts, isRecording, onToggleRecording, onLoadReplay, isDemoMode, demoScenarioId, onSelectScenario }: SettingsModalProps) {
   const [hovered, setHovered] = useState<string | null>(null)
   const [soundLocal, setSoundLocal] = useState(isSoundEnabled)
+  const transcriptInputRef = useRef<HTMLInputElement>(null)
+  const replayInputRef = useRef<HTMLInputElement>(null)
 
   if (!isOpen) return null
 
@@ -134,6 +144,82 @@ export function SettingsModal({ isOpen, onClose, isDebugMode, onToggleDebugMode
         >
           Import Layout
         </button>
+        <button
+          onClick={() => transcriptInputRef.current?.click()}
+          onMouseEnter={() => setHovered('transcripts')}
+          onMouseLeave={() => setHovered(null)}
+          style={{
+            ...menuItemBase,
+            background: hovered === 'transcripts' ? 'rgba(255, 255, 255, 0.08)' : 'transparent',
+          }}
+        >
+          Load Transcripts...
+        </button>
+        <input
+          ref={transcriptInputRef}
+          type="file"
+          accept=".jsonl"
+          multiple
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            if (e.target.files && e.target.files.length > 0) {
+              onLoadTranscripts(e.target.files)
+              onClose()
+            }
+            e.target.value = ''
+          }}
+        />
+        <button
+          onClick={() => {
+            onToggleRecording()
+            onClose()
+          }}
+          onMouseEnter={() => setHovered('record')}
+          onMouseLeave={() => setHovered(null)}
+          style={{
+            ...menuItemBase,
+            background: hovered === 'record' ? 'rgba(255, 255, 255, 0.08)' : 'transparent',
+          }}
+        >
+          <span>{isRecording ? 'Stop & Save Recording' : 'Start Recording'}</span>
+          {isRecording && (
+            <span
+              className="pixel-agents-pulse"
+              style={{
+                width: 6,
+                height: 6,
+                borderRadius: '50%',
+                background: 'var(--pixel-danger-bg)',
+                flexShrink: 0,
+              }}
+            />
+          )}
+        </button>
+        <button
+          onClick={() => replayInputRef.current?.click()}
+          onMouseEnter={() => setHovered('replay')}
+          onMouseLeave={() => setHovered(null)}
+          style={{
+            ...menuItemBase,
+            background: hovered === 'replay' ? 'rgba(255, 255, 255, 0.08)' : 'transparent',
+          }}
+        >
+          Load Replay...
+        </button>
+        <input
+          ref={replayInputRef}
+          type="file"
+          accept=".json"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) {
+              onLoadReplay(file)
+              onClose()
+            }
+            e.target.value = ''
+          }}
+        />
         <button
           onClick={() => {
             const newVal = !isSoundEnabled()
@@ -190,6 +276,58 @@ export function SettingsModal({ isOpen, onClose, isDebugMode, onToggleDebugMode
             />
           )}
         </button>
+        {isDemoMode && (
+          <>
+            <div
+              style={{
+                padding: '6px 10px 2px',
+                marginTop: '4px',
+                borderTop: '1px solid var(--pixel-border)',
+                fontSize: '20px',
+                color: 'rgba(255, 255, 255, 0.5)',
+              }}
+            >
+              Demo Scenario
+            </div>
+            {[
+              ...BUNDLED_SCENARIOS,
+              {
+                id: demoScenarioId.startsWith(RANDOM_SCENARIO_PREFIX) ? demoScenarioId : RANDOM_SCENARIO_PREFIX,
+                name: demoScenarioId.startsWith(RANDOM_SCENARIO_PREFIX)
+                  ? `Random (seed ${demoScenarioId.slice(RANDOM_SCENARIO_PREFIX.length)})`
+                  : 'Random',
+              },
+            ].map((choice) => (
+              <button
+                key={choice.id}
+                onClick={() => {
+                  // Picking Random again rolls a new seed
+                  const isRandom = choice.id.startsWith(RANDOM_SCENARIO_PREFIX)
+                  onSelectScenario(isRandom ? randomScenarioId(Math.floor(Math.random() * 100000)) : choice.id)
+                }}
+                onMouseEnter={() => setHovered(`scenario-${choice.id}`)}
+                onMouseLeave={() => setHovered(null)}
+                style={{
+                  ...menuItemBase,
+                  background: hovered === `scenario-${choice.id}` ? 'rgba(255, 255, 255, 0.08)' : 'transparent',
+                }}
+              >
+                <span>{choice.name}</span>
+                {choice.id === demoScenarioId && (
+                  <span
+                    style={{
+                      width: 6,
+                      height: 6,
+                      borderRadius: '50%',
+                      background: 'rgba(90, 140, 255, 0.8)',
+                      flexShrink: 0,
+                    }}
+                  />
+                )}
+              </button>
+            ))}
+          </>
+        )}
       </div>
     </>
   )
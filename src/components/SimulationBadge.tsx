@@ -0,0 +1,48 @@
+import { useState, useCallback, useSyncExternalStore } from 'react'
+import type { SimulationClock } from '../office/engine/simulationClock.js'
+
+interface SimulationBadgeProps {
+  clock: SimulationClock
+}
+
+/**
+ * "Paused" or the speed, next to the zoom buttons, while the simulation isn't running at
+ * normal speed (set from the debug view or its shortcuts). Clicking it goes
+ * back to running at 1×.
+ */
+export function SimulationBadge({ clock }: SimulationBadgeProps) {
+  const [hovered, setHovered] = useState(false)
+  // The keyboard and debug view change the clock outside React
+  const subscribe = useCallback((listener: () => void) => clock.onChange(listener), [clock])
+  useSyncExternalStore(subscribe, () => clock.revision)
+
+  if (!clock.paused && clock.speed === 1) return null
+
+  return (
+    <button
+      onClick={() => {
+        if (clock.paused) clock.togglePause()
+        clock.setSpeed(1)
+      }}
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
+      title="Run at normal speed"
+      style={{
+        position: 'absolute',
+        top: 8,
+        left: 56,
+        zIndex: 'var(--pixel-controls-z)',
+        padding: '3px 10px',
+        fontSize: '20px',
+        color: 'var(--pixel-text)',
+        background: hovered ? 'var(--pixel-btn-hover-bg)' : 'var(--pixel-bg)',
+        border: '2px solid var(--pixel-accent)',
+        borderRadius: 0,
+        boxShadow: 'var(--pixel-shadow)',
+        cursor: 'pointer',
+      }}
+    >
+      {clock.paused ? `Paused · tick ${clock.ticks}` : `${clock.speed}× speed`}
+    </button>
+  )
+}
@@ -0,0 +1,101 @@
+import { useState } from 'react'
+import type { OfficeState } from '../office/engine/officeState.js'
+import type { Room } from '../office/types.js'
+import { roomDisplayName } from '../office/layout/rooms.js'
+
+interface WorkspaceLegendProps {
+  officeState: OfficeState
+  /** Agents currently in the office (sub-agents excluded) */
+  agents: number[]
+}
+
+const rowBase: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'baseline',
+  gap: 6,
+  width: '100%',
+  padding: '3px 8px',
+  fontSize: '20px',
+  color: 'var(--pixel-text)',
+  background: 'transparent',
+  border: '2px solid transparent',
+  borderRadius: 0,
+  cursor: 'pointer',
+  textAlign: 'left',
+  whiteSpace: 'nowrap',
+}
+
+/**
+ * Workspace folders of a multi-root workspace, the rooms they're seated in and
+ * how many agents each has. Clicking a folder focuses it: agents outside it
+ * are dimmed until it's clicked again.
+ */
+export function WorkspaceLegend({ officeState, agents }: WorkspaceLegendProps) {
+  const [focused, setFocused] = useState<string | null>(officeState.focusedFolder)
+  const [hovered, setHovered] = useState<string | null>(null)
+  const folders = officeState.workspaceFolders
+  if (folders.length < 2) return null
+
+  const counts = new Map<string, number>()
+  for (const id of agents) {
+    const folder = officeState.characters.get(id)?.folderName
+    if (folder) counts.set(folder, (counts.get(folder) ?? 0) + 1)
+  }
+
+  // With several floors, say which floor each room is on
+  const roomLabel = ({ floor, room }: { floor: number; room: Room }) =>
+    officeState.floorCount > 1 ? `${officeState.getFloorName(floor)} · ${roomDisplayName(room)}` : roomDisplayName(room)
+
+  const toggle = (folder: string) => {
+    const next = focused === folder ? null : folder
+    officeState.setFocusedFolder(next)
+    setFocused(next)
+  }
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: 8,
+        right: 8,
+        zIndex: 'var(--pixel-controls-z)',
+        background: 'var(--pixel-bg)',
+        border: '2px solid var(--pixel-border)',
+        borderRadius: 0,
+        padding: '4px',
+        boxShadow: 'var(--pixel-shadow)',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 2,
+      }}
+    >
+      {folders.map((folder) => {
+        const rooms = officeState.getFolderRooms(folder)
+        const isFocused = focused === folder
+        return (
+          <button
+            key={folder}
+            onClick={() => toggle(folder)}
+            onMouseEnter={() => setHovered(folder)}
+            onMouseLeave={() => setHovered(null)}
+            title={isFocused ? 'Show all agents' : `Dim agents outside ${folder}`}
+            style={{
+              ...rowBase,
+              background: hovered === folder ? 'var(--pixel-btn-hover-bg)' : 'transparent',
+              border: isFocused ? '2px solid var(--pixel-accent)' : rowBase.border,
+              opacity: focused !== null && !isFocused ? 0.5 : 1,
+            }}
+          >
+            <span style={{ flex: 1 }}>{folder}</span>
+            <span style={{ fontSize: '16px', color: 'var(--pixel-text-dim)' }}>
+              {rooms.length > 0 ? rooms.map(roomLabel).join(', ') : 'no room'}
+            </span>
+            <span style={{ fontSize: '16px', color: 'var(--pixel-text-dim)', minWidth: 16, textAlign: 'right' }}>
+              {counts.get(folder) ?? 0}
+            </span>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
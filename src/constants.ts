@@ -1,4 +1,4 @@
-import type { FloorColor } from './office/types.js'
+import type { FloorColor, IdleActivity } from './office/types.js'
 
 // ── Grid & Layout ────────────────────────────────────────────
 export const TILE_SIZE = 16
@@ -6,17 +6,54 @@ export const DEFAULT_COLS = 20
 export const DEFAULT_ROWS = 11
 export const MAX_COLS = 64
 export const MAX_ROWS = 64
+/** Widest gap in a wall still treated as a doorway between two rooms */
+export const ROOM_DOORWAY_MAX_WIDTH = 3
 
 // ── Character Animation ─────────────────────────────────────
 export const WALK_SPEED_PX_PER_SEC = 48
 export const WALK_FRAME_DURATION_SEC = 0.15
 export const TYPE_FRAME_DURATION_SEC = 0.3
+export const THINK_FRAME_DURATION_SEC = 0.6
+export const REACTION_FRAME_DURATION_SEC = 0.15
+export const SLEEP_FRAME_DURATION_SEC = 1.2
+/** Mid-turn without a tool this long, a seated agent switches from typing to thinking */
+export const THINK_AFTER_SEC = 1.0
+export const ERROR_REACTION_SEC = 1.5
+export const CELEBRATE_SEC = 2.0
+/** Idle this long, an agent resting at its desk dozes off until its next turn */
+export const SLEEP_AFTER_IDLE_SEC = 180.0
 export const WANDER_PAUSE_MIN_SEC = 2.0
 export const WANDER_PAUSE_MAX_SEC = 20.0
 export const WANDER_MOVES_BEFORE_REST_MIN = 3
 export const WANDER_MOVES_BEFORE_REST_MAX = 6
 export const SEAT_REST_MIN_SEC = 120.0
 export const SEAT_REST_MAX_SEC = 240.0
+/** Relative odds of each idle pastime, among those available on the character's floor */
+export const IDLE_ACTIVITY_WEIGHTS: Record<IdleActivity, number> = {
+  water: 3,
+  browse: 2,
+  whiteboard: 1,
+  chat: 2,
+  wander: 3,
+}
+export const CHAT_DWELL_MIN_SEC = 5.0
+export const CHAT_DWELL_MAX_SEC = 10.0
+
+// ── Pathfinding ──────────────────────────────────────────────
+/** Let characters step diagonally (never cutting past a wall or furniture corner) */
+export const PATH_ALLOW_DIAGONAL = false
+/** Paths remembered per floor; the whole cache is dropped when walkable tiles change */
+export const PATH_CACHE_MAX_ENTRIES = 512
+
+// ── Collision Avoidance ─────────────────────────────────────
+/** How long a walker waits for another walker to clear its next tile before routing around it */
+export const COLLISION_WAIT_SEC = 0.4
+/** Longest detour (extra tiles) taken to get around characters in the way */
+export const COLLISION_DETOUR_MAX_TILES = 8
+/** Blocked this long, a walker steps aside */
+export const COLLISION_SIDESTEP_SEC = 1.2
+/** Blocked this long, a walker gives up and passes through (keeps tight corridors from locking up) */
+export const COLLISION_GIVE_UP_SEC = 3.0
 
 // ── Matrix Effect ────────────────────────────────────────────
 export const MATRIX_EFFECT_DURATION_SEC = 0.3
@@ -49,6 +86,17 @@ export const BUTTON_LINE_WIDTH_ZOOM_FACTOR = 0.5
 export const BUBBLE_FADE_DURATION_SEC = 0.5
 export const BUBBLE_SITTING_OFFSET_PX = 10
 export const BUBBLE_VERTICAL_OFFSET_PX = 24
+/** Z's rising over a sleeping character: a new one every SLEEP_Z_CYCLE_SEC / SLEEP_Z_COUNT seconds */
+export const SLEEP_Z_CYCLE_SEC = 2.4
+export const SLEEP_Z_COUNT = 3
+export const SLEEP_Z_RISE_PX = 10
+export const SLEEP_Z_DRIFT_PX = 4
+/** Floor and furniture layers bigger than this (device pixels) aren't cached; the map is redrawn every frame */
+export const STATIC_LAYER_MAX_PIXELS = 4096 * 2048
+/** While the debug view is open, one frame in this many is drawn without the cached layers, to compare frame times */
+export const FRAME_TIMING_SAMPLE_INTERVAL = 30
+/** Weight of the newest frame in the running frame-time averages */
+export const FRAME_TIMING_SMOOTHING = 0.1
 export const FALLBACK_FLOOR_COLOR = '#808080'
 
 // ── Rendering - Overlay Colors (canvas, not CSS) ─────────────
@@ -66,6 +114,31 @@ export const GHOST_INVALID_TINT = '#ff0000'
 export const SELECTION_HIGHLIGHT_COLOR = '#007fd4'
 export const DELETE_BUTTON_BG = 'rgba(200, 50, 50, 0.85)'
 export const ROTATE_BUTTON_BG = 'rgba(50, 120, 200, 0.85)'
+export const SUBAGENT_TETHER_COLOR = 'rgba(180, 200, 255, 0.35)'
+/** Dash pattern in sprite pixels (scaled by zoom) */
+export const SUBAGENT_TETHER_DASH: [number, number] = [2, 2]
+/** Height above the feet where the tether attaches (roughly the waist) */
+export const SUBAGENT_TETHER_ANCHOR_PX = 8
+export const ZONE_TINT_ALPHA = 0.18
+export const ZONE_BORDER_ALPHA = 0.6
+export const ZONE_LABEL_FONT_PX = 5
+export const ZONE_LABEL_BG = 'rgba(20, 20, 35, 0.75)'
+/** Tints offered for new zones, cycled in order */
+export const ZONE_COLORS = ['#5a8cff', '#50c878', '#e0a030', '#d05090', '#40c0c0', '#a070e0']
+export const ROOM_LABEL_FONT_PX = 6
+export const ROOM_LABEL_COLOR = 'rgba(255, 255, 255, 0.85)'
+/** Unnamed rooms show their placeholder name dimmed */
+export const ROOM_LABEL_UNNAMED_COLOR = 'rgba(255, 255, 255, 0.4)'
+export const ROOM_HIGHLIGHT_FILL = 'rgba(90, 140, 255, 0.2)'
+/** Opacity of agents outside the workspace folder focused in the legend */
+export const FOLDER_DIM_ALPHA = 0.25
+
+// ── Sprite Cache ────────────────────────────────────────────
+/** Least recently used sprites are dropped past this many bytes (canvases at 4 bytes per pixel) */
+export const SPRITE_CACHE_BUDGET_BYTES = 128 * 1024 * 1024
+/** Canvases of a zoom level not drawn at for this long are dropped */
+export const SPRITE_CACHE_ZOOM_IDLE_SEC = 10
+export const SPRITE_CACHE_SWEEP_INTERVAL_SEC = 1
 
 // ── Camera ───────────────────────────────────────────────────
 export const CAMERA_FOLLOW_LERP = 0.1
@@ -98,6 +171,12 @@ export const NOTIFICATION_VOLUME = 0.14
 
 // ── Game Logic ───────────────────────────────────────────────
 export const MAX_DELTA_TIME_SEC = 0.1
+/** Length of one simulation tick; frame time is spent in ticks this long */
+export const SIM_TICK_SEC = 1 / 60
+/** Speeds the simulation can run at (debug view, or [ and ] with it open) */
+export const SIM_SPEEDS = [0.5, 1, 2, 4] as const
+/** A character that moved further than this in one tick jumped (spawn, floor change) and is drawn where it landed */
+export const INTERPOLATION_SNAP_PX = 8
 export const WAITING_BUBBLE_DURATION_SEC = 2.0
 export const DISMISS_BUBBLE_FAST_FADE_SEC = 0.3
 export const INACTIVE_SEAT_TIMER_MIN_SEC = 3.0
@@ -107,7 +186,60 @@ export const HUE_SHIFT_MIN_DEG = 45
 export const HUE_SHIFT_RANGE_DEG = 271
 export const AUTO_ON_FACING_DEPTH = 3
 export const AUTO_ON_SIDE_DEPTH = 2
+/** Chance an idle wander stays inside the character's current room */
+export const WANDER_SAME_ROOM_CHANCE = 0.75
 export const CHARACTER_HIT_HALF_WIDTH = 8
 export const CHARACTER_HIT_HEIGHT = 24
 export const TOOL_OVERLAY_VERTICAL_OFFSET = 32
 export const PULSE_ANIMATION_DURATION_SEC = 1.5
+
+// ── Agent Team Messages ─────────────────────────────────────
+/** How long the sender stands at the recipient while the envelope shows */
+export const MESSAGE_DELIVER_SEC = 1.5
+export const MESSAGE_BUBBLE_DURATION_SEC = 2.5
+export const MESSAGE_LINK_DURATION_SEC = 4.0
+/** Final stretch of the link line that fades out */
+export const MESSAGE_LINK_FADE_SEC = 1.0
+export const MESSAGE_LINK_COLOR = 'rgba(90, 160, 255, 0.7)'
+/** Recent messages kept for the debug view */
+export const AGENT_MESSAGE_HISTORY_MAX = 50
+
+// ── Text Bubbles ────────────────────────────────────────────
+/** How long each snippet shows; it fades out over the last BUBBLE_FADE_DURATION_SEC */
+export const TEXT_BUBBLE_DURATION_SEC = 4.0
+/** Snippets waiting their turn per agent — the oldest are dropped beyond this */
+export const TEXT_BUBBLE_QUEUE_MAX = 3
+/** Longer snippets are cut short with an ellipsis before wrapping */
+export const TEXT_BUBBLE_MAX_CHARS = 120
+export const TEXT_BUBBLE_MAX_WIDTH_PX = 72
+export const TEXT_BUBBLE_MAX_LINES = 3
+export const TEXT_BUBBLE_FONT_PX = 5
+export const TEXT_BUBBLE_LINE_GAP_PX = 1
+export const TEXT_BUBBLE_PADDING_PX = 2
+export const TEXT_BUBBLE_BORDER_COLOR = '#555566'
+export const TEXT_BUBBLE_FILL_COLOR = '#EEEEFF'
+export const TEXT_BUBBLE_TEXT_COLOR = '#222233'
+
+// ── Host Protocol ───────────────────────────────────────────
+export const HOST_HANDSHAKE_TIMEOUT_MS = 1500
+export const AGENT_PROFILES_STORAGE_KEY = 'pixel-agents.agentProfiles'
+
+// ── Transport ───────────────────────────────────────────────
+export const TRANSPORT_QUEUE_MAX = 500
+export const WS_DEFAULT_URL = 'ws://localhost:3579'
+export const WS_RECONNECT_MIN_MS = 500
+export const WS_RECONNECT_MAX_MS = 10000
+export const BROADCAST_CHANNEL_NAME = 'pixel-agents'
+
+// ── Transcript Ingestion ────────────────────────────────────
+export const TRANSCRIPT_AGENT_ID_BASE = 1000
+/** Most of a transcript's first line used to tell same-named files apart */
+export const TRANSCRIPT_IDENTITY_MAX_BYTES = 1024
+export const BASH_COMMAND_DISPLAY_MAX_LENGTH = 30
+export const TASK_DESCRIPTION_DISPLAY_MAX_LENGTH = 40
+
+// ── Replay ──────────────────────────────────────────────────
+export const REPLAY_TICK_MS = 100
+export const REPLAY_SPEEDS = [1, 2, 4, 8, 16, 32] as const
+/** How long a downloaded recording's blob URL outlives the click; some webviews start the download later */
+export const RECORDING_URL_REVOKE_DELAY_MS = 1000
@@ -0,0 +1,58 @@
+/**
+ * Demo mode: a stand-in host used when nothing answers the handshake.
+ *
+ * Plays a scripted scenario (see scenario/scenario.ts) that emits the same
+ * HostMessages a real host would, so the office is driven through the regular
+ * message dispatcher in useExtensionMessages. Pick a scenario with
+ * `?scenario=<id>` (a bundled id or `random:<seed>`) or from the Settings menu.
+ */
+
+import type { HostMessage } from './messageProtocol.js'
+import type { LegacyOfficeLayout, OfficeBuilding } from './office/types.js'
+import { runScenario } from './scenario/scenarioRunner.js'
+import { DEFAULT_SCENARIO_ID, randomScenarioId, resolveScenario } from './scenario/bundledScenarios.js'
+
+/** Scenario requested through the URL, if any */
+export function getInitialScenarioId(search = window.location.search): string {
+  return new URLSearchParams(search).get('scenario') || DEFAULT_SCENARIO_ID
+}
+
+/**
+ * Start the demo host. Returns a stop function; pass `closeAgents` when a real
+ * host takes over (or another scenario starts) so the demo characters leave.
+ * The layout is only sent when `loadLayout` is set, so switching scenarios
+ * keeps the current office.
+ */
+export function startDemoMode(
+  dispatch: (msg: HostMessage) => void,
+  scenarioId = getInitialScenarioId(),
+  loadLayout = true,
+): (closeAgents?: boolean) => void {
+  let stopped = false
+  let stopScenario: ((closeAgents?: boolean) => void) | null = null
+
+  const layoutPromise = loadLayout
+    ? fetch('./assets/default-layout.json')
+        .then((res) => {
+          if (!res.ok) throw new Error('not found')
+          return res.json() as Promise<OfficeBuilding | LegacyOfficeLayout>
+        })
+        .catch(() => null) // fall back to the built-in default layout
+    : Promise.resolve(undefined)
+
+  const scenarioPromise = resolveScenario(scenarioId).catch((err: unknown) => {
+    console.warn(`[Webview] Demo scenario "${scenarioId}" failed to load — using a random one:`, err)
+    return resolveScenario(randomScenarioId(1))
+  })
+
+  Promise.all([layoutPromise, scenarioPromise]).then(([layout, scenario]) => {
+    if (stopped) return
+    if (layout !== undefined) dispatch({ type: 'layoutLoaded', layout })
+    stopScenario = runScenario(scenario, dispatch)
+  })
+
+  return (closeAgents = false) => {
+    stopped = true
+    stopScenario?.(closeAgents)
+  }
+}
@@ -3,13 +3,14 @@ import type { OfficeState } from '../office/engine/officeState.js'
 import type { EditorState } from '../office/editor/editorState.js'
 import { EditTool } from '../office/types.js'
 import { TileType } from '../office/types.js'
-import type { OfficeLayout, EditTool as EditToolType, TileType as TileTypeVal, FloorColor, PlacedFurniture } from '../office/types.js'
-import { paintTile, placeFurniture, removeFurniture, moveFurniture, rotateFurniture, toggleFurnitureState, canPlaceFurniture, getWallPlacementRow, expandLayout } from '../office/editor/editorActions.js'
+import type { OfficeLayout, OfficeBuilding, EditTool as EditToolType, TileType as TileTypeVal, FloorColor, PlacedFurniture, FloorZone } from '../office/types.js'
+import { paintTile, paintZone, upsertZone, removeZone, nameRoom, assignRoomFolder, addFloor, removeFloor, placeFurniture, removeFurniture, moveFurniture, rotateFurniture, toggleFurnitureState, canPlaceFurniture, getWallPlacementRow, expandLayout } from '../office/editor/editorActions.js'
 import type { ExpandDirection } from '../office/editor/editorActions.js'
 import { getCatalogEntry, getRotatedType, getToggledType } from '../office/layout/furnitureCatalog.js'
 import { defaultZoom } from '../office/toolUtils.js'
+import { invalidateSprites } from '../office/sprites/spriteCache.js'
 import { vscode } from '../vscodeApi.js'
-import { LAYOUT_SAVE_DEBOUNCE_MS, ZOOM_MIN, ZOOM_MAX } from '../constants.js'
+import { LAYOUT_SAVE_DEBOUNCE_MS, ZOOM_MIN, ZOOM_MAX, ZONE_COLORS } from '../constants.js'
 
 export interface EditorActions {
   isEditMode: boolean
@@ -18,7 +19,7 @@ export interface EditorActions {
   zoom: number
   panRef: React.MutableRefObject<{ x: number; y: number }>
   saveTimerRef: React.MutableRefObject<ReturnType<typeof setTimeout> | null>
-  setLastSavedLayout: (layout: OfficeLayout) => void
+  setLastSavedLayout: (building: OfficeBuilding) => void
   handleOpenClaude: () => void
   handleToggleEditMode: () => void
   handleToolChange: (tool: EditToolType) => void
@@ -26,7 +27,28 @@ export interface EditorActions {
   handleFloorColorChange: (color: FloorColor) => void
   handleWallColorChange: (color: FloorColor) => void
   handleSelectedFurnitureColorChange: (color: FloorColor | null) => void
+  /** Bind the selected desk/chair to a working directory (null unbinds) */
+  handleSelectedFurnitureDirectoryChange: (directory: string | null) => void
   handleFurnitureTypeChange: (type: string) => void // FurnitureType enum or asset ID
+  /** Pick the zone the zone tool paints */
+  handleZoneSelect: (id: string | null) => void
+  /** Create a zone and select it for painting */
+  handleZoneAdd: () => void
+  /** Rename a zone, retint it or tie it to a branch/worktree */
+  handleZoneUpdate: (zone: FloorZone) => void
+  handleZoneDelete: (id: string) => void
+  /** Name (or with null, unname) the room picked with the room tool */
+  handleRoomRename: (name: string | null) => void
+  /** Assign the picked room to a workspace folder (null = automatic) */
+  handleRoomFolderChange: (folder: string | null) => void
+  /** Show another floor (and edit it, in edit mode) */
+  handleFloorChange: (index: number) => void
+  /** Add an empty floor on top and switch to it */
+  handleFloorAdd: () => void
+  /** Remove the floor on screen */
+  handleFloorRemove: () => void
+  /** Name (or with null, unname) the floor on screen */
+  handleFloorRename: (name: string | null) => void
   handleDeleteSelected: () => void
   handleRotateSelected: () => void
   handleToggleState: () => void
@@ -51,33 +73,41 @@ export function useEditorActions(
   const [zoom, setZoom] = useState(defaultZoom)
   const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const panRef = useRef({ x: 0, y: 0 })
-  const lastSavedLayoutRef = useRef<OfficeLayout | null>(null)
+  const lastSavedLayoutRef = useRef<OfficeBuilding | null>(null)
 
   // Called by useExtensionMessages on layoutLoaded to set the initial checkpoint
-  const setLastSavedLayout = useCallback((layout: OfficeLayout) => {
-    lastSavedLayoutRef.current = structuredClone(layout)
+  const setLastSavedLayout = useCallback((building: OfficeBuilding) => {
+    lastSavedLayoutRef.current = structuredClone(building)
   }, [])
 
-  // Debounced layout save
-  const saveLayout = useCallback((layout: OfficeLayout) => {
+  // Debounced layout save (every floor goes in the one layout file)
+  const saveLayout = useCallback((building: OfficeBuilding) => {
     if (saveTimerRef.current) clearTimeout(saveTimerRef.current)
     saveTimerRef.current = setTimeout(() => {
-      vscode.postMessage({ type: 'saveLayout', layout })
+      vscode.postMessage({ type: 'saveLayout', layout: building })
     }, LAYOUT_SAVE_DEBOUNCE_MS)
   }, [])
 
-  // Apply a layout edit: push undo, clear redo, rebuild state, save, mark dirty
-  const applyEdit = useCallback((newLayout: OfficeLayout) => {
+  // Apply an edit to the whole building: push undo, clear redo, rebuild state, save, mark dirty
+  const applyBuildingEdit = useCallback((building: OfficeBuilding) => {
     const os = getOfficeState()
-    editorState.pushUndo(os.getLayout())
+    editorState.pushUndo(os.getBuilding())
     editorState.clearRedo()
     editorState.isDirty = true
     setIsDirty(true)
-    os.rebuildFromLayout(newLayout)
-    saveLayout(newLayout)
+    os.loadBuilding(building)
+    saveLayout(building)
     setEditorTick((n) => n + 1)
   }, [getOfficeState, editorState, saveLayout])
 
+  // Apply an edit to the floor on screen
+  const applyEdit = useCallback((newLayout: OfficeLayout) => {
+    const os = getOfficeState()
+    const building = os.getBuilding()
+    building.floors[os.currentFloor] = newLayout
+    applyBuildingEdit(building)
+  }, [getOfficeState, applyBuildingEdit])
+
   const handleOpenClaude = useCallback(() => {
     vscode.postMessage({ type: 'openClaude' })
   }, [])
@@ -138,6 +168,8 @@ export function useEditorActions(
 
   const handleWallColorChange = useCallback((color: FloorColor) => {
     editorState.wallColor = color
+    // Every wall is about to change color; the old color's sprites won't be drawn again
+    invalidateSprites('wall')
 
     // Update all existing wall tiles to the new color
     const os = getOfficeState()
@@ -154,7 +186,7 @@ export function useEditorActions(
     if (changed) {
       // Push undo only once per editing session (first slider touch)
       if (!wallColorEditActiveRef.current) {
-        editorState.pushUndo(layout)
+        editorState.pushUndo(os.getBuilding())
         editorState.clearRedo()
         wallColorEditActiveRef.current = true
       }
@@ -162,7 +194,7 @@ export function useEditorActions(
       editorState.isDirty = true
       setIsDirty(true)
       os.rebuildFromLayout(newLayout)
-      saveLayout(newLayout)
+      saveLayout(os.getBuilding())
     }
     setEditorTick((n) => n + 1)
   }, [editorState, getOfficeState, saveLayout])
@@ -179,7 +211,7 @@ export function useEditorActions(
 
     // Push undo only once per selection (first slider touch)
     if (colorEditUidRef.current !== uid) {
-      editorState.pushUndo(layout)
+      editorState.pushUndo(os.getBuilding())
       editorState.clearRedo()
       colorEditUidRef.current = uid
     }
@@ -193,10 +225,23 @@ export function useEditorActions(
     editorState.isDirty = true
     setIsDirty(true)
     os.rebuildFromLayout(newLayout)
-    saveLayout(newLayout)
+    saveLayout(os.getBuilding())
     setEditorTick((n) => n + 1)
   }, [getOfficeState, editorState, saveLayout])
 
+  const handleSelectedFurnitureDirectoryChange = useCallback((directory: string | null) => {
+    const uid = editorState.selectedFurnitureUid
+    if (!uid) return
+    const layout = getOfficeState().getLayout()
+    const current = layout.furniture.find((f) => f.uid === uid)
+    if (!current || (current.directory ?? null) === directory) return
+    // Update binding on the placed furniture item (null removes it)
+    const newFurniture = layout.furniture.map((f) =>
+      f.uid === uid ? { ...f, directory: directory ?? undefined } : f,
+    )
+    applyEdit({ ...layout, furniture: newFurniture })
+  }, [getOfficeState, editorState, applyEdit])
+
   const handleFurnitureTypeChange = useCallback((type: string) => {
     // Clicking the same item deselects it (no ghost), stays in furniture mode
     if (editorState.selectedFurnitureType === type) {
@@ -208,6 +253,37 @@ export function useEditorActions(
     setEditorTick((n) => n + 1)
   }, [editorState])
 
+  const handleFloorChange = useCallback((index: number) => {
+    getOfficeState().setCurrentFloor(index)
+    // Selections and in-progress edits belong to the floor being left
+    editorState.clearSelection()
+    editorState.clearGhost()
+    editorState.clearDrag()
+    editorState.selectRoomTile(null)
+    setEditorTick((n) => n + 1)
+  }, [getOfficeState, editorState])
+
+  const handleFloorAdd = useCallback(() => {
+    const os = getOfficeState()
+    applyBuildingEdit(addFloor(os.getBuilding()))
+    handleFloorChange(os.floorCount - 1)
+  }, [getOfficeState, applyBuildingEdit, handleFloorChange])
+
+  const handleFloorRemove = useCallback(() => {
+    const os = getOfficeState()
+    const building = os.getBuilding()
+    const next = removeFloor(building, os.currentFloor)
+    if (next === building) return
+    applyBuildingEdit(next)
+    handleFloorChange(os.currentFloor)
+  }, [getOfficeState, applyBuildingEdit, handleFloorChange])
+
+  const handleFloorRename = useCallback((name: string | null) => {
+    const layout = getOfficeState().getLayout()
+    if ((layout.name ?? null) === name) return
+    applyEdit({ ...layout, name: name ?? undefined })
+  }, [getOfficeState, applyEdit])
+
   const handleDeleteSelected = useCallback(() => {
     const uid = editorState.selectedFurnitureUid
     if (!uid) return
@@ -264,9 +340,9 @@ export function useEditorActions(
     const prev = editorState.popUndo()
     if (!prev) return
     const os = getOfficeState()
-    // Push current layout to redo stack before restoring
-    editorState.pushRedo(os.getLayout())
-    os.rebuildFromLayout(prev)
+    // Push current building to redo stack before restoring
+    editorState.pushRedo(os.getBuilding())
+    os.loadBuilding(prev)
     saveLayout(prev)
     editorState.isDirty = true
     setIsDirty(true)
@@ -277,9 +353,9 @@ export function useEditorActions(
     const next = editorState.popRedo()
     if (!next) return
     const os = getOfficeState()
-    // Push current layout to undo stack before restoring
-    editorState.pushUndo(os.getLayout())
-    os.rebuildFromLayout(next)
+    // Push current building to undo stack before restoring
+    editorState.pushUndo(os.getBuilding())
+    os.loadBuilding(next)
     saveLayout(next)
     editorState.isDirty = true
     setIsDirty(true)
@@ -289,10 +365,10 @@ export function useEditorActions(
   const handleReset = useCallback(() => {
     if (!lastSavedLayoutRef.current) return
     const saved = structuredClone(lastSavedLayoutRef.current)
-    applyEdit(saved)
+    applyBuildingEdit(saved)
     editorState.reset()
     setIsDirty(false)
-  }, [editorState, applyEdit])
+  }, [editorState, applyBuildingEdit])
 
   const handleSave = useCallback(() => {
     // Flush any pending debounced save immediately
@@ -301,9 +377,9 @@ export function useEditorActions(
       saveTimerRef.current = null
     }
     const os = getOfficeState()
-    const layout = os.getLayout()
-    lastSavedLayoutRef.current = structuredClone(layout)
-    vscode.postMessage({ type: 'saveLayout', layout })
+    const building = os.getBuilding()
+    lastSavedLayoutRef.current = structuredClone(building)
+    vscode.postMessage({ type: 'saveLayout', layout: building })
     editorState.isDirty = false
     setIsDirty(false)
   }, [getOfficeState, editorState])
@@ -407,6 +483,19 @@ export function useEditorActions(
           }
         }
       }
+    } else if (editorState.activeTool === EditTool.ZONE_PAINT) {
+      if (col < 0 || col >= layout.cols || row < 0 || row >= layout.rows || !editorState.selectedZoneId) return
+      const tile = layout.tiles[row * layout.cols + col]
+      // Zones cover floor only
+      if (tile === TileType.WALL || tile === TileType.VOID) return
+      const newLayout = paintZone(layout, col, row, editorState.selectedZoneId)
+      if (newLayout !== layout) {
+        applyEdit(newLayout)
+      }
+    } else if (editorState.activeTool === EditTool.ROOM_NAME) {
+      const room = getOfficeState().getRoomAt(col, row)
+      editorState.selectRoomTile(room ? { col, row } : null)
+      setEditorTick((n) => n + 1)
     } else if (editorState.activeTool === EditTool.ERASE) {
       if (col < 0 || col >= layout.cols || row < 0 || row >= layout.rows) return
       const idx = row * layout.cols + col
@@ -486,6 +575,12 @@ export function useEditorActions(
     const os = getOfficeState()
     const layout = os.getLayout()
     if (col < 0 || col >= layout.cols || row < 0 || row >= layout.rows) return
+    // Zone tool: right-click takes the tile out of its zone
+    if (editorState.activeTool === EditTool.ZONE_PAINT) {
+      const newLayout = paintZone(layout, col, row, null)
+      if (newLayout !== layout) applyEdit(newLayout)
+      return
+    }
     const idx = row * layout.cols + col
     // Only erase non-VOID tiles
     if (layout.tiles[idx] === TileType.VOID) return
@@ -493,8 +588,53 @@ export function useEditorActions(
     if (newLayout !== layout) {
       applyEdit(newLayout)
     }
+  }, [getOfficeState, editorState, applyEdit])
+
+  const handleZoneSelect = useCallback((id: string | null) => {
+    editorState.selectZone(id)
+    setEditorTick((n) => n + 1)
+  }, [editorState])
+
+  const handleZoneAdd = useCallback(() => {
+    const layout = getOfficeState().getLayout()
+    const count = layout.zones?.length ?? 0
+    const zone: FloorZone = {
+      id: `z-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      label: `Zone ${count + 1}`,
+      color: ZONE_COLORS[count % ZONE_COLORS.length],
+    }
+    editorState.selectZone(zone.id)
+    applyEdit(upsertZone(layout, zone))
+  }, [getOfficeState, editorState, applyEdit])
+
+  const handleZoneUpdate = useCallback((zone: FloorZone) => {
+    const layout = getOfficeState().getLayout()
+    const current = layout.zones?.find((z) => z.id === zone.id)
+    if (!current || (current.label === zone.label && current.worktree === zone.worktree && current.color === zone.color)) return
+    applyEdit(upsertZone(layout, zone))
   }, [getOfficeState, applyEdit])
 
+  const handleZoneDelete = useCallback((id: string) => {
+    if (editorState.selectedZoneId === id) editorState.selectZone(null)
+    applyEdit(removeZone(getOfficeState().getLayout(), id))
+  }, [getOfficeState, editorState, applyEdit])
+
+  const handleRoomRename = useCallback((name: string | null) => {
+    const tile = editorState.selectedRoomTile
+    if (!tile) return
+    const officeState = getOfficeState()
+    if ((officeState.getRoomAt(tile.col, tile.row)?.name ?? null) === name) return
+    applyEdit(nameRoom(officeState.getLayout(), tile.col, tile.row, name))
+  }, [getOfficeState, editorState, applyEdit])
+
+  const handleRoomFolderChange = useCallback((folder: string | null) => {
+    const tile = editorState.selectedRoomTile
+    if (!tile) return
+    const officeState = getOfficeState()
+    if ((officeState.getRoomAt(tile.col, tile.row)?.folder ?? null) === folder) return
+    applyEdit(assignRoomFolder(officeState.getLayout(), tile.col, tile.row, folder))
+  }, [getOfficeState, editorState, applyEdit])
+
   return {
     isEditMode,
     editorTick,
@@ -510,7 +650,18 @@ export function useEditorActions(
     handleFloorColorChange,
     handleWallColorChange,
     handleSelectedFurnitureColorChange,
+    handleSelectedFurnitureDirectoryChange,
     handleFurnitureTypeChange,
+    handleZoneSelect,
+    handleZoneAdd,
+    handleZoneUpdate,
+    handleZoneDelete,
+    handleRoomRename,
+    handleRoomFolderChange,
+    handleFloorChange,
+    handleFloorAdd,
+    handleFloorRemove,
+    handleFloorRename,
     handleDeleteSelected,
     handleRotateSelected,
     handleToggleState,
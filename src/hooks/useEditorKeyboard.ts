@@ -16,6 +16,9 @@ export function useEditorKeyboard(
   useEffect(() => {
     if (!isEditMode) return
     const handler = (e: KeyboardEvent) => {
+      // Typing in a field (e.g. a desk's directory) isn't an editor shortcut
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') && (target as HTMLInputElement).type !== 'range') return
       if (e.key === 'Escape') {
         // Multi-stage Esc: deselect item → close tool → deselect placed → close editor
         if (editorState.activeTool === EditTool.FURNITURE_PICK) {
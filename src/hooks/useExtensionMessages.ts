@@ -1,15 +1,23 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useCallback } from 'react'
 import type { OfficeState } from '../office/engine/officeState.js'
-import type { OfficeLayout, ToolActivity } from '../office/types.js'
-import { migrateLayoutColors } from '../office/layout/layoutSerializer.js'
+import type { OfficeBuilding, ToolActivity } from '../office/types.js'
+import type { AgentMeta, HostMessage, PermissionDecision, WorkspaceFolder } from '../messageProtocol.js'
+import type { AgentActivityState, AgentMessageEntry, SubagentCharacter } from '../agentActivity.js'
+import type { Recording } from '../replay/recording.js'
+import { PROTOCOL_VERSION } from '../messageProtocol.js'
+import { migrateBuilding } from '../office/layout/layoutSerializer.js'
+import { applyAgentMessage, activitySnapshotMessages, EMPTY_AGENT_ACTIVITY } from '../agentActivity.js'
+import { EventRecorder } from '../replay/eventRecorder.js'
+import { AgentProfileStore, fallbackIdentity } from '../profiles/agentProfiles.js'
+import type { AgentProfile } from '../profiles/agentProfiles.js'
 import { loadAssets } from '../assetLoader.js'
+import { startDemoMode, getInitialScenarioId } from '../demoMode.js'
+import { setSoundEnabled, playDoneSound } from '../notificationSound.js'
+import { vscode, transport } from '../vscodeApi.js'
+import { HOST_HANDSHAKE_TIMEOUT_MS } from '../constants.js'
 
-export interface SubagentCharacter {
-  id: number
-  parentAgentId: number
-  parentToolId: string
-  label: string
-}
+export type { WorkspaceFolder } from '../messageProtocol.js'
+export type { AgentMessageEntry, SubagentCharacter } from '../agentActivity.js'
 
 export interface FurnitureAsset {
   id: string
@@ -29,11 +37,6 @@ export interface FurnitureAsset {
   backgroundTiles?: number
 }
 
-export interface WorkspaceFolder {
-  name: string
-  path: string
-}
-
 export interface ExtensionMessageState {
   agents: number[]
   selectedAgent: number | null
@@ -43,148 +46,233 @@ export interface ExtensionMessageState {
   subagentCharacters: SubagentCharacter[]
   layoutReady: boolean
   workspaceFolders: WorkspaceFolder[]
+  /** Display names for agents that have one */
+  agentNames: Record<number, string>
+  /** Presentation per agent (identity, role, looks) */
+  agentMeta: Record<number, AgentMeta>
+  /** Recent agent-team messages, oldest first */
+  agentMessages: AgentMessageEntry[]
+  /** True when no host answered the handshake and the demo is driving the office */
+  isDemoMode: boolean
+  /** Scenario the demo is playing */
+  demoScenarioId: string
+  /** Switch the demo to another scenario (ignored once a host is connected) */
+  playDemoScenario: (id: string) => void
+  /** Save an agent's profile under its identity and apply it right away */
+  saveAgentProfile: (id: number, profile: Omit<AgentProfile, 'identity'>) => void
+  /** Answer a permission prompt; the prompt stays open until the host acknowledges */
+  respondToPermission: (id: number, toolId: string, decision: PermissionDecision) => void
+  /** Feed a message from a local source (e.g. a dropped transcript) through the dispatcher */
+  injectHostMessage: (msg: HostMessage) => void
+  isRecording: boolean
+  /** Start capturing agent events (seeded with the agents already present) */
+  startRecording: () => void
+  /** Stop capturing and return the recording, or null if none was running */
+  stopRecording: () => Recording | null
 }
 
-/** Demo agent names used for display */
-const DEMO_AGENTS = [
-  { id: 1, name: 'Alice' },
-  { id: 2, name: 'Bob' },
-  { id: 3, name: 'Carol' },
-  { id: 4, name: 'Dave' },
-]
-
-/** Tools that simulate coding activity */
-const DEMO_TOOLS = ['Read', 'Edit', 'Bash', 'Grep', 'Write', 'Glob', 'WebFetch']
 
 export function useExtensionMessages(
   getOfficeState: () => OfficeState,
-  onLayoutLoaded?: (layout: OfficeLayout) => void,
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  _isEditDirty?: () => boolean,
+  onLayoutLoaded?: (building: OfficeBuilding) => void,
+  isEditDirty?: () => boolean,
 ): ExtensionMessageState {
-  const [agents, setAgents] = useState<number[]>([])
-  const [selectedAgent, setSelectedAgent] = useState<number | null>(null)
-  const [agentTools, setAgentTools] = useState<Record<number, ToolActivity[]>>({})
-  const [agentStatuses, setAgentStatuses] = useState<Record<number, string>>({})
-  const [subagentTools] = useState<Record<number, Record<string, ToolActivity[]>>>({})
-  const [subagentCharacters] = useState<SubagentCharacter[]>([])
+  const [activity, setActivity] = useState<AgentActivityState>(EMPTY_AGENT_ACTIVITY)
   const [layoutReady, setLayoutReady] = useState(false)
-  const [workspaceFolders] = useState<WorkspaceFolder[]>([])
-
-  const initDone = useRef(false)
+  const [isDemoMode, setIsDemoMode] = useState(false)
+  const [demoScenarioId, setDemoScenarioId] = useState(getInitialScenarioId)
+  const [recorder] = useState(() => new EventRecorder())
+  const [profiles] = useState(() => new AgentProfileStore())
+  const [isRecording, setIsRecording] = useState(false)
 
+  // Read through a ref so a changing callback doesn't restart the handshake
+  const isEditDirtyRef = useRef(isEditDirty)
   useEffect(() => {
-    if (initDone.current) return
-    initDone.current = true
+    isEditDirtyRef.current = isEditDirty
+  })
+
+  // Latest activity, for seeding recordings outside of render
+  const activityRef = useRef(activity)
+
+  // Set once the listener is live; local messages before that are dropped. They
+  // skip the handshake, so a dropped transcript doesn't count as a host answering
+  const injectRef = useRef<((msg: HostMessage) => void) | null>(null)
+  const injectHostMessage = useCallback((msg: HostMessage) => {
+    injectRef.current?.(msg)
+  }, [])
+
+  // Set while the demo is running
+  const playScenarioRef = useRef<((id: string) => void) | null>(null)
+  const playDemoScenario = useCallback((id: string) => {
+    if (!playScenarioRef.current) return
+    playScenarioRef.current(id)
+    setDemoScenarioId(id)
+  }, [])
+
+  // The demo has no host behind it, so it acknowledges permission answers itself
+  const demoDispatchRef = useRef<((msg: HostMessage) => void) | null>(null)
+  const respondToPermission = useCallback((id: number, toolId: string, decision: PermissionDecision) => {
+    vscode.postMessage({ type: 'permissionResponse', id, toolId, decision })
+    demoDispatchRef.current?.({ type: 'agentToolPermissionClear', id })
+  }, [])
+
+  // Set once the listener is live, for changes made in the webview itself
+  const dispatchRef = useRef<((msg: HostMessage) => void) | null>(null)
+  const saveAgentProfile = useCallback((id: number, profile: Omit<AgentProfile, 'identity'>) => {
+    const identity = activityRef.current.agentMeta[id]?.identity ?? fallbackIdentity(id)
+    profiles.save({ identity, ...profile })
+    dispatchRef.current?.({ type: 'agentMeta', id, meta: { identity, ...profile } })
+  }, [profiles])
+
+  const startRecording = useCallback(() => {
+    recorder.start(getOfficeState().getBuilding(), activitySnapshotMessages(activityRef.current))
+    setIsRecording(true)
+  }, [recorder, getOfficeState])
+
+  const stopRecording = useCallback(() => {
+    setIsRecording(false)
+    return recorder.stop()
+  }, [recorder])
 
+  useEffect(() => {
     const os = getOfficeState()
+    let disposed = false
+    let hostAnswered = false
+    let handshakeTimer: ReturnType<typeof setTimeout> | null = null
+    let stopDemo: ((closeAgents?: boolean) => void) | null = null
+    let layoutApplied = false
 
-    // Load PNG assets and layout in parallel, then create demo agents
-    Promise.all([
-      loadAssets(),
-      fetch('./assets/default-layout.json')
-        .then((res) => {
-          if (!res.ok) throw new Error('not found')
-          return res.json()
-        })
-        .then((rawLayout: OfficeLayout) => {
-          const layout = rawLayout.version === 1 ? migrateLayoutColors(rawLayout) : null
-          if (layout) {
-            os.rebuildFromLayout(layout)
-            onLayoutLoaded?.(layout)
+    const dispatch = (raw: HostMessage) => {
+      // Known agents arrive with their saved profile applied (and are recorded that way)
+      const msg = profiles.enrich(raw)
+      recorder.record(msg)
+      switch (msg.type) {
+        case 'hostReady': {
+          if (msg.protocolVersion !== PROTOCOL_VERSION) {
+            console.warn(`[Webview] Host protocol v${msg.protocolVersion}, webview expects v${PROTOCOL_VERSION}`)
+          }
+          return
+        }
+        case 'layoutLoaded': {
+          // Don't clobber unsaved edits with a layout pushed from another window
+          if (layoutApplied && isEditDirtyRef.current?.()) {
+            console.log('[Webview] Skipping external layout update — editor has unsaved changes')
+            return
+          }
+          // Single-floor layouts saved before floors existed become a one-floor building
+          const building = migrateBuilding(msg.layout)
+          // Agents reported before the layout are re-seated by the rebuild
+          if (building) {
+            os.loadBuilding(building)
+            onLayoutLoaded?.(building)
           } else {
-            onLayoutLoaded?.(os.getLayout())
+            onLayoutLoaded?.(os.getBuilding())
           }
-        })
-        .catch(() => {
-          // Use built-in default layout
-          onLayoutLoaded?.(os.getLayout())
-        }),
-    ]).then(() => {
-      // Add demo agents after assets and layout are ready
-      const agentIds = DEMO_AGENTS.map((a) => a.id)
-      for (const agent of DEMO_AGENTS) {
-        os.addAgent(agent.id, undefined, undefined, undefined, true)
+          layoutApplied = true
+          setLayoutReady(true)
+          return
+        }
+        case 'settingsLoaded': {
+          setSoundEnabled(msg.soundEnabled)
+          return
+        }
+        case 'agentProfilesLoaded': {
+          profiles.load(msg.profiles)
+          return
+        }
+        case 'agentStatus': {
+          if (msg.status === 'waiting') playDoneSound()
+          break
+        }
+      }
+      const next = applyAgentMessage(activityRef.current, msg, os)
+      if (next !== activityRef.current) {
+        activityRef.current = next
+        setActivity(next)
       }
-      setAgents(agentIds)
-      setSelectedAgent(null)
-      setLayoutReady(true)
+    }
 
-      // Start all agents as active (typing at their desks)
-      for (const agent of DEMO_AGENTS) {
-        os.setAgentActive(agent.id, true)
+    const handler = (msg: HostMessage) => {
+      if (!hostAnswered) {
+        hostAnswered = true
+        if (handshakeTimer) clearTimeout(handshakeTimer)
+        // A host showed up after the demo started — hand the office over
+        if (stopDemo) {
+          stopDemo(true)
+          stopDemo = null
+          playScenarioRef.current = null
+          demoDispatchRef.current = null
+          setIsDemoMode(false)
+        }
       }
+      dispatch(msg)
+    }
 
-      // Start demo activity cycle
-      startDemoCycle(os, agentIds, setAgentTools, setAgentStatuses)
-    })
-  }, [getOfficeState, onLayoutLoaded])
+    // Re-announce after a reconnect so a restarted host resends its state
+    const handleConnectionChange = (connected: boolean) => {
+      if (connected && hostAnswered) {
+        vscode.postMessage({ type: 'webviewReady', protocolVersion: PROTOCOL_VERSION })
+      }
+    }
 
-  return { agents, selectedAgent, agentTools, agentStatuses, subagentTools, subagentCharacters, layoutReady, workspaceFolders }
-}
+    let unsubscribeMessages: (() => void) | null = null
+    let unsubscribeConnection: (() => void) | null = null
 
-/** Simulate agent activity: periodically toggle active/inactive and cycle tools */
-function startDemoCycle(
-  os: OfficeState,
-  agentIds: number[],
-  setAgentTools: React.Dispatch<React.SetStateAction<Record<number, ToolActivity[]>>>,
-  setAgentStatuses: React.Dispatch<React.SetStateAction<Record<number, string>>>,
-): void {
-  let toolCounter = 0
-
-  // Give each agent an initial tool
-  for (const id of agentIds) {
-    const tool = DEMO_TOOLS[Math.floor(Math.random() * DEMO_TOOLS.length)]
-    os.setAgentTool(id, tool)
-    setAgentTools((prev) => ({
-      ...prev,
-      [id]: [{ toolId: `t-${toolCounter++}`, status: `Using ${tool}`, done: false }],
-    }))
-  }
+    // Load PNG assets first so the host's layout and agents render with real sprites
+    loadAssets().then(() => {
+      if (disposed) return
+      unsubscribeMessages = transport.onMessage(handler)
+      injectRef.current = dispatch
+      dispatchRef.current = dispatch
+      unsubscribeConnection = transport.onConnectionChange(handleConnectionChange)
+      vscode.postMessage({ type: 'webviewReady', protocolVersion: PROTOCOL_VERSION })
+      handshakeTimer = setTimeout(() => {
+        if (disposed || hostAnswered) return
+        console.log(`[Webview] No host answered over ${transport.kind} — starting demo mode`)
+        setIsDemoMode(true)
+        stopDemo = startDemoMode(dispatch)
+        demoDispatchRef.current = dispatch
+        playScenarioRef.current = (id) => {
+          stopDemo?.(true)
+          stopDemo = startDemoMode(dispatch, id, false)
+        }
+      }, HOST_HANDSHAKE_TIMEOUT_MS)
+    })
 
-  // Periodically cycle agent states
-  const interval = setInterval(() => {
-    const id = agentIds[Math.floor(Math.random() * agentIds.length)]
-    const ch = os.characters.get(id)
-    if (!ch) return
-
-    if (ch.isActive) {
-      // 30% chance to go idle (take a break)
-      if (Math.random() < 0.3) {
-        os.setAgentActive(id, false)
-        os.setAgentTool(id, null)
-        setAgentTools((prev) => {
-          const next = { ...prev }
-          delete next[id]
-          return next
-        })
-        setAgentStatuses((prev) => ({ ...prev, [id]: 'idle' }))
-      } else {
-        // Switch to a different tool
-        const tool = DEMO_TOOLS[Math.floor(Math.random() * DEMO_TOOLS.length)]
-        os.setAgentTool(id, tool)
-        setAgentTools((prev) => ({
-          ...prev,
-          [id]: [{ toolId: `t-${toolCounter++}`, status: `Using ${tool}`, done: false }],
-        }))
-      }
-    } else {
-      // Inactive agent comes back to work
-      os.setAgentActive(id, true)
-      const tool = DEMO_TOOLS[Math.floor(Math.random() * DEMO_TOOLS.length)]
-      os.setAgentTool(id, tool)
-      setAgentTools((prev) => ({
-        ...prev,
-        [id]: [{ toolId: `t-${toolCounter++}`, status: `Using ${tool}`, done: false }],
-      }))
-      setAgentStatuses((prev) => {
-        const next = { ...prev }
-        delete next[id]
-        return next
-      })
+    return () => {
+      disposed = true
+      injectRef.current = null
+      dispatchRef.current = null
+      playScenarioRef.current = null
+      demoDispatchRef.current = null
+      unsubscribeMessages?.()
+      unsubscribeConnection?.()
+      if (handshakeTimer) clearTimeout(handshakeTimer)
+      stopDemo?.()
     }
-  }, 4000 + Math.random() * 3000)
+  }, [getOfficeState, onLayoutLoaded, recorder, profiles])
 
-  // Store interval on window for cleanup (not strictly necessary for SPA)
-  ;(window as unknown as Record<string, unknown>).__demoInterval = interval
+  const { agents, selectedAgent, agentTools, agentStatuses, subagentTools, subagentCharacters, workspaceFolders, agentNames, agentMeta, agentMessages } = activity
+  return {
+    agents,
+    selectedAgent,
+    agentTools,
+    agentStatuses,
+    subagentTools,
+    subagentCharacters,
+    layoutReady,
+    workspaceFolders,
+    agentNames,
+    agentMeta,
+    agentMessages,
+    isDemoMode,
+    demoScenarioId,
+    playDemoScenario,
+    respondToPermission,
+    saveAgentProfile,
+    injectHostMessage,
+    isRecording,
+    startRecording,
+    stopRecording,
+  }
 }
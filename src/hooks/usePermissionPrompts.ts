@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { OfficeState } from '../office/engine/officeState.js'
+import type { ToolActivity } from '../office/types.js'
+
+export interface PermissionPrompts {
+  /** Agents with a tool waiting for approval, in agent order */
+  awaitingIds: number[]
+  /** Agent whose prompt is open, or null */
+  promptAgentId: number | null
+  /** The tool the open prompt is about */
+  promptTool: ToolActivity | null
+  openPrompt: (id: number) => void
+  closePrompt: () => void
+}
+
+/** Tool waiting for approval, if any */
+function pendingTool(tools: ToolActivity[] | undefined): ToolActivity | null {
+  return tools?.find((t) => t.permissionWait && !t.done) ?? null
+}
+
+/**
+ * Permission popover state. A prompt stays open until the host acknowledges
+ * (the tool's `permissionWait` clears). Press P to jump to the next agent
+ * awaiting permission, Shift+P for the previous one, Esc to close.
+ */
+export function usePermissionPrompts(
+  agents: number[],
+  agentTools: Record<number, ToolActivity[]>,
+  officeState: OfficeState,
+  enabled: boolean,
+): PermissionPrompts {
+  const [openId, setOpenId] = useState<number | null>(null)
+
+  const awaitingIds = enabled ? agents.filter((id) => pendingTool(agentTools[id]) !== null) : []
+  const promptAgentId = openId !== null && awaitingIds.includes(openId) ? openId : null
+  const promptTool = promptAgentId !== null ? pendingTool(agentTools[promptAgentId]) : null
+
+  const openPrompt = useCallback((id: number) => setOpenId(id), [])
+  const closePrompt = useCallback(() => setOpenId(null), [])
+
+  const awaitingKey = awaitingIds.join(',')
+  useEffect(() => {
+    if (!enabled) return
+    const ids = awaitingKey ? awaitingKey.split(',').map(Number) : []
+    const handler = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return
+      if (e.key === 'Escape') {
+        setOpenId(null)
+        return
+      }
+      if ((e.key !== 'p' && e.key !== 'P') || e.ctrlKey || e.metaKey || e.altKey || ids.length === 0) return
+      const idx = openId !== null ? ids.indexOf(openId) : -1
+      const step = e.shiftKey ? -1 : 1
+      const next = ids[(idx + step + ids.length) % ids.length]
+      officeState.selectedAgentId = next
+      officeState.cameraFollowId = next
+      setOpenId(next)
+    }
+    window.addEventListener('keydown', handler)
+    return () => window.removeEventListener('keydown', handler)
+  }, [enabled, awaitingKey, openId, officeState])
+
+  return { awaitingIds, promptAgentId, promptTool, openPrompt, closePrompt }
+}
@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { Recording } from '../replay/recording.js'
+import { ReplayPlayer } from '../replay/replayPlayer.js'
+import { readRecordingFile } from '../replay/recording.js'
+import { REPLAY_TICK_MS } from '../constants.js'
+
+export interface ReplayControls {
+  /** Active player, or null when showing the live office */
+  player: ReplayPlayer | null
+  isPlaying: boolean
+  speed: number
+  currentMs: number
+  openRecording: (recording: Recording) => void
+  openRecordingFile: (file: File) => void
+  closeReplay: () => void
+  togglePlay: () => void
+  setSpeed: (speed: number) => void
+  seek: (ms: number) => void
+}
+
+export function useReplay(): ReplayControls {
+  const [player, setPlayer] = useState<ReplayPlayer | null>(null)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [speed, setSpeed] = useState(1)
+  // Player time mirrored into state so the scrubber re-renders
+  const [currentMs, setCurrentMs] = useState(0)
+
+  const openRecording = useCallback((recording: Recording) => {
+    setPlayer(new ReplayPlayer(recording))
+    setCurrentMs(0)
+    setIsPlaying(true)
+  }, [])
+
+  const openRecordingFile = useCallback((file: File) => {
+    readRecordingFile(file)
+      .then(openRecording)
+      .catch((err: unknown) => {
+        console.warn(`[Webview] Could not load replay ${file.name}:`, err)
+      })
+  }, [openRecording])
+
+  const closeReplay = useCallback(() => {
+    setPlayer(null)
+    setIsPlaying(false)
+  }, [])
+
+  const togglePlay = useCallback(() => {
+    if (!player) return
+    if (!isPlaying && player.isAtEnd) {
+      player.seek(0)
+      setCurrentMs(0)
+    }
+    setIsPlaying(!isPlaying)
+  }, [player, isPlaying])
+
+  const seek = useCallback((ms: number) => {
+    if (!player) return
+    player.seek(ms)
+    setCurrentMs(player.currentMs)
+  }, [player])
+
+  useEffect(() => {
+    if (!player || !isPlaying) return
+    let last = performance.now()
+    const interval = setInterval(() => {
+      const now = performance.now()
+      player.advance((now - last) * speed)
+      last = now
+      setCurrentMs(player.currentMs)
+      if (player.isAtEnd) setIsPlaying(false)
+    }, REPLAY_TICK_MS)
+    return () => clearInterval(interval)
+  }, [player, isPlaying, speed])
+
+  return { player, isPlaying, speed, currentMs, openRecording, openRecordingFile, closeReplay, togglePlay, setSpeed, seek }
+}
@@ -0,0 +1,32 @@
+import { useEffect } from 'react'
+import type { OfficeState } from '../office/engine/officeState.js'
+
+/**
+ * Simulation shortcuts while the debug view is open: Space pauses and resumes,
+ * `.` steps one tick (pausing first), `[` and `]` slow down and speed up.
+ * SimulationBadge shows when the office isn't running at normal speed.
+ */
+export function useSimulationKeyboard(officeState: OfficeState, enabled: boolean): void {
+  useEffect(() => {
+    if (!enabled) return
+    const clock = officeState.clock
+    const handler = (e: KeyboardEvent) => {
+      // Space on a focused button clicks it; fields take their own keys
+      const target = e.target as HTMLElement | null
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON'].includes(target.tagName))) return
+      if (e.ctrlKey || e.metaKey || e.altKey) return
+      if (e.key === ' ') {
+        e.preventDefault()
+        clock.togglePause()
+      } else if (e.key === '.') {
+        clock.step()
+      } else if (e.key === '[') {
+        clock.shiftSpeed(-1)
+      } else if (e.key === ']') {
+        clock.shiftSpeed(1)
+      }
+    }
+    window.addEventListener('keydown', handler)
+    return () => window.removeEventListener('keydown', handler)
+  }, [officeState, enabled])
+}
@@ -0,0 +1,45 @@
+import { useState, useCallback } from 'react'
+import type { HostMessage } from '../messageProtocol.js'
+import { TranscriptIngest } from '../transcript/transcriptIngest.js'
+
+export interface TranscriptDrop {
+  isDragOver: boolean
+  ingestFiles: (files: FileList | File[]) => void
+  handleDragOver: (e: React.DragEvent) => void
+  handleDragLeave: (e: React.DragEvent) => void
+  handleDrop: (e: React.DragEvent) => void
+}
+
+/** Drag-and-drop / file-picker entry point for Claude Code `.jsonl` transcripts */
+export function useTranscriptDrop(injectHostMessage: (msg: HostMessage) => void): TranscriptDrop {
+  const [ingest] = useState(() => new TranscriptIngest(injectHostMessage))
+  const [isDragOver, setIsDragOver] = useState(false)
+
+  const ingestFiles = useCallback((files: FileList | File[]) => {
+    ingest.ingestFiles(Array.from(files)).then((count) => {
+      if (count === 0) console.warn('[Transcript] No .jsonl files in drop')
+    }).catch((err) => console.error('[Transcript] Failed to read transcript:', err))
+  }, [ingest])
+
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'copy'
+    setIsDragOver(true)
+  }, [])
+
+  const handleDragLeave = useCallback((e: React.DragEvent) => {
+    // Ignore leave events fired when moving between child elements
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return
+    setIsDragOver(false)
+  }, [])
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return
+    e.preventDefault()
+    setIsDragOver(false)
+    ingestFiles(e.dataTransfer.files)
+  }, [ingestFiles])
+
+  return { isDragOver, ingestFiles, handleDragOver, handleDragLeave, handleDrop }
+}
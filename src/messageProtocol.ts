@@ -0,0 +1,132 @@
+/**
+ * Typed message protocol between the webview and its host (VS Code extension
+ * or any other backend that watches agent sessions).
+ *
+ * Handshake: the webview posts `webviewReady` once assets are loaded. The host
+ * answers with `hostReady` (or any other host message) and then streams layout,
+ * settings and agent events. If nothing answers within HOST_HANDSHAKE_TIMEOUT_MS
+ * the webview falls back to demo mode.
+ */
+
+import type { ActivityKind, AgentAccessory, LegacyOfficeLayout, OfficeBuilding } from './office/types.js'
+import type { Recording } from './replay/recording.js'
+import type { AgentProfile } from './profiles/agentProfiles.js'
+
+/** Bump when a message shape changes incompatibly */
+export const PROTOCOL_VERSION = 2
+
+export interface WorkspaceFolder {
+  name: string
+  path: string
+}
+
+/** Agent status reported by the host. 'active' clears any previous status. */
+export type AgentStatus = 'active' | 'waiting' | 'idle'
+
+/** Answer to a permission prompt. 'alwaysAllow' approves and stops asking for this tool. */
+export type PermissionDecision = 'approve' | 'deny' | 'alwaysAllow'
+
+/** Optional presentation hints for a new agent (scripted demos, saved seats, profiles) */
+export interface AgentMeta {
+  /** Stable identity across sessions — the key saved agent profiles are stored under */
+  identity?: string
+  name?: string
+  palette?: number
+  hueShift?: number
+  seatId?: string
+  role?: string
+  accessories?: AgentAccessory[]
+  /** Working directory the agent runs in — it sits at a desk bound to it when there is one */
+  cwd?: string
+  /** Git worktree path — the agent sits in the zone tied to it */
+  worktree?: string
+  /** Checked-out branch, shown under the agent and matched against zones */
+  branch?: string
+}
+
+// ── Host → webview ──────────────────────────────────────────
+
+export type HostMessage =
+  | { type: 'hostReady'; protocolVersion: number }
+  | { type: 'layoutLoaded'; layout: OfficeBuilding | LegacyOfficeLayout | null }
+  | { type: 'settingsLoaded'; soundEnabled: boolean }
+  | { type: 'workspaceFolders'; folders: WorkspaceFolder[] }
+  /** Agents that already existed when the webview connected (no spawn effect) */
+  | { type: 'existingAgents'; agents: number[]; folderNames?: Record<number, string>; agentMeta?: Record<number, AgentMeta> }
+  | { type: 'agentCreated'; id: number; folderName?: string; meta?: AgentMeta }
+  | { type: 'agentClosed'; id: number }
+  | { type: 'agentSelected'; id: number }
+  | { type: 'agentStatus'; id: number; status: AgentStatus }
+  /** `activity` is the canonical kind; hosts that omit it get it inferred from `status` */
+  | { type: 'agentToolStart'; id: number; toolId: string; status: string; activity?: ActivityKind }
+  /** `error` is set when the tool's result was an error */
+  | { type: 'agentToolDone'; id: number; toolId: string; error?: boolean }
+  | { type: 'agentToolsClear'; id: number }
+  | { type: 'agentToolPermission'; id: number }
+  /** Also the acknowledgement of a `permissionResponse` */
+  | { type: 'agentToolPermissionClear'; id: number }
+  | { type: 'subagentToolStart'; id: number; parentToolId: string; toolId: string; status: string; activity?: ActivityKind }
+  | { type: 'subagentToolDone'; id: number; parentToolId: string; toolId: string }
+  | { type: 'subagentClear'; id: number; parentToolId: string }
+  /** Something the agent said, e.g. the last sentence of its reply — shown in a text bubble */
+  | { type: 'agentSpeech'; id: number; text: string }
+  /** Agent-team message from agent `id` to `toId` (omitted for a broadcast to the whole team) */
+  | { type: 'agentMessage'; id: number; toId?: number; summary?: string }
+  /** Saved agent profiles — send before the agents so they arrive looking right */
+  | { type: 'agentProfilesLoaded'; profiles: AgentProfile[] }
+  /** An existing agent's presentation changed (renamed, new skin, profile edit) */
+  | { type: 'agentMeta'; id: number; meta: AgentMeta }
+
+export type HostMessageType = HostMessage['type']
+
+// ── Webview → host ──────────────────────────────────────────
+
+export type WebviewMessage =
+  | { type: 'webviewReady'; protocolVersion: number }
+  | { type: 'openClaude'; folderPath?: string }
+  | { type: 'focusAgent'; id: number }
+  | { type: 'closeAgent'; id: number }
+  /** Answer to the permission prompt for `toolId`; the host acknowledges with agentToolPermissionClear */
+  | { type: 'permissionResponse'; id: number; toolId: string; decision: PermissionDecision }
+  | { type: 'saveLayout'; layout: OfficeBuilding }
+  | { type: 'saveAgentSeats'; seats: Record<number, { palette: number; seatId: string | null }> }
+  /** The user moved an agent to a desk bound to another directory — the host decides whether to follow */
+  | { type: 'moveAgentToDirectory'; id: number; directory: string }
+  | { type: 'openSessionsFolder' }
+  | { type: 'exportLayout' }
+  | { type: 'importLayout' }
+  /** Ask the host to save a session recording (browser builds download it instead) */
+  | { type: 'exportRecording'; recording: Recording }
+  | { type: 'setSoundEnabled'; enabled: boolean }
+  | { type: 'saveAgentProfiles'; profiles: AgentProfile[] }
+
+const HOST_MESSAGE_TYPES: ReadonlySet<string> = new Set<HostMessageType>([
+  'hostReady',
+  'layoutLoaded',
+  'settingsLoaded',
+  'workspaceFolders',
+  'existingAgents',
+  'agentCreated',
+  'agentClosed',
+  'agentSelected',
+  'agentStatus',
+  'agentToolStart',
+  'agentToolDone',
+  'agentToolsClear',
+  'agentToolPermission',
+  'agentToolPermissionClear',
+  'subagentToolStart',
+  'subagentToolDone',
+  'subagentClear',
+  'agentSpeech',
+  'agentMessage',
+  'agentProfilesLoaded',
+  'agentMeta',
+])
+
+/** Narrow an arbitrary `postMessage` payload to a known host message */
+export function isHostMessage(data: unknown): data is HostMessage {
+  if (!data || typeof data !== 'object') return false
+  const type = (data as { type?: unknown }).type
+  return typeof type === 'string' && HOST_MESSAGE_TYPES.has(type)
+}
@@ -7,84 +7,67 @@
  */
 
 import type { SpriteData, FloorColor } from './types.js'
-
-/** Generic colorized sprite cache: arbitrary string key → SpriteData */
-const colorizeCache = new Map<string, SpriteData>()
+import { getCachedSpriteData } from './sprites/spriteCache.js'
+import { createSprite } from './sprites/packedSprite.js'
+import type { SpriteGroup } from './sprites/spriteCache.js'
 
 /**
- * Get a color-adjusted sprite from cache, or compute and cache it.
+ * Get a color-adjusted sprite from the sprite cache, or compute and cache it.
  * Dispatches to colorize or adjust mode based on `color.colorize`.
- * Caller provides a unique cache key that must include the colorize flag.
+ * Caller provides a cache key, unique within the group, that must include the colorize flag.
  */
-export function getColorizedSprite(cacheKey: string, sprite: SpriteData, color: FloorColor): SpriteData {
-  const cached = colorizeCache.get(cacheKey)
-  if (cached) return cached
-  const result = color.colorize ? colorizeSprite(sprite, color) : adjustSprite(sprite, color)
-  colorizeCache.set(cacheKey, result)
-  return result
-}
-
-/** Clear all cached colorized sprites (e.g., on asset reload) */
-export function clearColorizeCache(): void {
-  colorizeCache.clear()
+export function getColorizedSprite(group: SpriteGroup, cacheKey: string, sprite: SpriteData, color: FloorColor): SpriteData {
+  return getCachedSpriteData(group, cacheKey, () => (color.colorize ? colorizeSprite(sprite, color) : adjustSprite(sprite, color)))
 }
 
 /**
  * Colorize a sprite using HSL transformation.
  *
  * Algorithm (Photoshop Colorize-style):
- * 1. Parse each pixel's color as perceived luminance (0-1)
+ * 1. Read each pixel's color as perceived luminance (0-1)
  * 2. Apply contrast: stretch/compress around midpoint 0.5
  * 3. Apply brightness: shift lightness up/down
  * 4. Create HSL color with user's hue + saturation
- * 5. Convert HSL -> RGB -> hex
+ * 5. Convert HSL -> RGB
  */
 export function colorizeSprite(sprite: SpriteData, color: FloorColor): SpriteData {
   const { h, s, b, c } = color
-  const result: SpriteData = []
-
-  for (const row of sprite) {
-    const newRow: string[] = []
-    for (const pixel of row) {
-      if (pixel === '') {
-        newRow.push('')
-        continue
-      }
-
-      // Parse hex to get RGB values
-      const r = parseInt(pixel.slice(1, 3), 16)
-      const g = parseInt(pixel.slice(3, 5), 16)
-      const bv = parseInt(pixel.slice(5, 7), 16)
-      // Use perceived luminance for grayscale
-      let lightness = (0.299 * r + 0.587 * g + 0.114 * bv) / 255
-
-      // Apply contrast: expand/compress around 0.5
-      if (c !== 0) {
-        const factor = (100 + c) / 100
-        lightness = 0.5 + (lightness - 0.5) * factor
-      }
-
-      // Apply brightness: shift up/down
-      if (b !== 0) {
-        lightness = lightness + b / 200
-      }
-
-      // Clamp
-      lightness = Math.max(0, Math.min(1, lightness))
-
-      // Convert HSL to RGB
-      const satFrac = s / 100
-      const hex = hslToHex(h, satFrac, lightness)
-      newRow.push(hex)
+  const result = createSprite(sprite.width, sprite.height)
+  const src = sprite.data
+  const out = result.data
+
+  for (let i = 0; i < src.length; i += 4) {
+    if (src[i + 3] === 0) continue
+
+    // Use perceived luminance for grayscale
+    let lightness = (0.299 * src[i] + 0.587 * src[i + 1] + 0.114 * src[i + 2]) / 255
+
+    // Apply contrast: expand/compress around 0.5
+    if (c !== 0) {
+      const factor = (100 + c) / 100
+      lightness = 0.5 + (lightness - 0.5) * factor
+    }
+
+    // Apply brightness: shift up/down
+    if (b !== 0) {
+      lightness = lightness + b / 200
     }
-    result.push(newRow)
+
+    // Clamp
+    lightness = Math.max(0, Math.min(1, lightness))
+
+    // Convert HSL to RGB
+    const satFrac = s / 100
+    hslToRgb(h, satFrac, lightness, out, i)
+    // Colorized pixels are opaque, even where the source was translucent
+    out[i + 3] = 255
   }
 
   return result
 }
 
-/** Convert HSL (h: 0-360, s: 0-1, l: 0-1) to #RRGGBB hex string */
-function hslToHex(h: number, s: number, l: number): string {
+/** Convert HSL (h: 0-360, s: 0-1, l: 0-1) to RGB, written to out[i..i+2] */
+function hslToRgb(h: number, s: number, l: number, out: Uint8ClampedArray, i: number): void {
   const c = (1 - Math.abs(2 * l - 1)) * s
   const hp = h / 60
   const x = c * (1 - Math.abs(hp % 2 - 1))
@@ -97,16 +80,11 @@ function hslToHex(h: number, s: number, l: number): string {
   else if (hp < 5) { r1 = x; g1 = 0; b1 = c }
   else { r1 = c; g1 = 0; b1 = x }
 
+  // Uint8ClampedArray clamps to 0-255 on write
   const m = l - c / 2
-  const r = Math.round((r1 + m) * 255)
-  const g = Math.round((g1 + m) * 255)
-  const bOut = Math.round((b1 + m) * 255)
-
-  return `#${clamp255(r).toString(16).padStart(2, '0')}${clamp255(g).toString(16).padStart(2, '0')}${clamp255(bOut).toString(16).padStart(2, '0')}`.toUpperCase()
-}
-
-function clamp255(v: number): number {
-  return Math.max(0, Math.min(255, v))
+  out[i] = Math.round((r1 + m) * 255)
+  out[i + 1] = Math.round((g1 + m) * 255)
+  out[i + 2] = Math.round((b1 + m) * 255)
 }
 
 /** Convert RGB (0-255 each) to HSL (h: 0-360, s: 0-1, l: 0-1) */
@@ -134,45 +112,37 @@ function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
  */
 export function adjustSprite(sprite: SpriteData, color: FloorColor): SpriteData {
   const { h: hShift, s: sShift, b, c } = color
-  const result: SpriteData = []
-
-  for (const row of sprite) {
-    const newRow: string[] = []
-    for (const pixel of row) {
-      if (pixel === '') {
-        newRow.push('')
-        continue
-      }
-
-      const r = parseInt(pixel.slice(1, 3), 16)
-      const g = parseInt(pixel.slice(3, 5), 16)
-      const bv = parseInt(pixel.slice(5, 7), 16)
-      const [origH, origS, origL] = rgbToHsl(r, g, bv)
-
-      // Shift hue
-      const newH = ((origH + hShift) % 360 + 360) % 360
-
-      // Shift saturation
-      const newS = Math.max(0, Math.min(1, origS + sShift / 100))
-
-      // Apply contrast: expand/compress around 0.5
-      let lightness = origL
-      if (c !== 0) {
-        const factor = (100 + c) / 100
-        lightness = 0.5 + (lightness - 0.5) * factor
-      }
-
-      // Apply brightness
-      if (b !== 0) {
-        lightness = lightness + b / 200
-      }
-
-      lightness = Math.max(0, Math.min(1, lightness))
-
-      const hex = hslToHex(newH, newS, lightness)
-      newRow.push(hex)
+  const result = createSprite(sprite.width, sprite.height)
+  const src = sprite.data
+  const out = result.data
+
+  for (let i = 0; i < src.length; i += 4) {
+    if (src[i + 3] === 0) continue
+
+    const [origH, origS, origL] = rgbToHsl(src[i], src[i + 1], src[i + 2])
+
+    // Shift hue
+    const newH = ((origH + hShift) % 360 + 360) % 360
+
+    // Shift saturation
+    const newS = Math.max(0, Math.min(1, origS + sShift / 100))
+
+    // Apply contrast: expand/compress around 0.5
+    let lightness = origL
+    if (c !== 0) {
+      const factor = (100 + c) / 100
+      lightness = 0.5 + (lightness - 0.5) * factor
+    }
+
+    // Apply brightness
+    if (b !== 0) {
+      lightness = lightness + b / 200
     }
-    result.push(newRow)
+
+    lightness = Math.max(0, Math.min(1, lightness))
+
+    hslToRgb(newH, newS, lightness, out, i)
+    out[i + 3] = 255
   }
 
   return result
@@ -1,9 +1,10 @@
-import { useRef, useEffect, useCallback } from 'react'
+import { useRef, useEffect, useCallback, useState } from 'react'
 import type { OfficeState } from '../engine/officeState.js'
 import type { EditorState } from '../editor/editorState.js'
-import type { EditorRenderState, SelectionRenderState, DeleteButtonBounds, RotateButtonBounds } from '../engine/renderer.js'
-import { startGameLoop } from '../engine/gameLoop.js'
-import { renderFrame } from '../engine/renderer.js'
+import type { EditorRenderState, SelectionRenderState, DeleteButtonBounds, RotateButtonBounds, FrameInput } from '../engine/renderer.js'
+import { startGameLoop, startFrameLoop } from '../engine/gameLoop.js'
+import { drawFrame } from '../engine/renderer.js'
+import { acquireWorkerRenderer, isWorkerRendererRequested } from '../engine/workerRenderer.js'
 import { TILE_SIZE, EditTool } from '../types.js'
 import { CAMERA_FOLLOW_LERP, CAMERA_FOLLOW_SNAP_THRESHOLD, ZOOM_MIN, ZOOM_MAX, ZOOM_SCROLL_THRESHOLD, PAN_MARGIN_FRACTION } from '../../constants.js'
 import { getCatalogEntry, isRotatable } from '../layout/furnitureCatalog.js'
@@ -26,9 +27,15 @@ interface OfficeCanvasProps {
   zoom: number
   onZoomChange: (zoom: number) => void
   panRef: React.MutableRefObject<{ x: number; y: number }>
+  /** Replays: selection only, no seat reassignment */
+  readOnly?: boolean
+  /** Right-click on an agent (client coordinates of the click) */
+  onAgentContextMenu?: (agentId: number, clientX: number, clientY: number) => void
+  /** Debug view is open: sample full redraws for its frame-time comparison */
+  isDebugMode?: boolean
 }
 
-export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, onEditorTileAction, onEditorEraseAction, onEditorSelectionChange, onDeleteSelected, onRotateSelected, onDragMove, editorTick: _editorTick, zoom, onZoomChange, panRef }: OfficeCanvasProps) {
+export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, onEditorTileAction, onEditorEraseAction, onEditorSelectionChange, onDeleteSelected, onRotateSelected, onDragMove, editorTick: _editorTick, zoom, onZoomChange, panRef, readOnly, onAgentContextMenu, isDebugMode }: OfficeCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
   const offsetRef = useRef({ x: 0, y: 0 })
@@ -42,6 +49,18 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
   const isEraseDraggingRef = useRef(false)
   // Zoom scroll accumulator for trackpad pinch sensitivity
   const zoomAccumulatorRef = useRef(0)
+  // Agent being dragged to another desk (pressed tile, and whether it has left it)
+  const agentDragRef = useRef<{ id: number; col: number; row: number; moved: boolean } | null>(null)
+  // A finished agent drag also fires a click, which must not toggle selection
+  const suppressClickRef = useRef(false)
+  // Bound directory under the cursor, shown as a tooltip
+  const [hoverDirectory, setHoverDirectory] = useState<{ text: string; x: number; y: number } | null>(null)
+  const hoverDirectoryTileRef = useRef<string | null>(null)
+  // Canvas backing-store size in device pixels (the canvas itself can't be read or resized once a worker owns it)
+  const sizeRef = useRef({ width: 0, height: 0 })
+  // Draw in a worker if asked to; false for good once it turns out unsupported
+  const [workerRendering, setWorkerRendering] = useState(isWorkerRendererRequested)
+  const transferredRef = useRef(false)
 
   // Clamp pan so the map edge can't go past a margin inside the viewport
   const clampPan = useCallback((px: number, py: number): { x: number; y: number } => {
@@ -50,10 +69,11 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
     const layout = officeState.getLayout()
     const mapW = layout.cols * TILE_SIZE * zoom
     const mapH = layout.rows * TILE_SIZE * zoom
-    const marginX = canvas.width * PAN_MARGIN_FRACTION
-    const marginY = canvas.height * PAN_MARGIN_FRACTION
-    const maxPanX = (mapW / 2) + canvas.width / 2 - marginX
-    const maxPanY = (mapH / 2) + canvas.height / 2 - marginY
+    const { width, height } = sizeRef.current
+    const marginX = width * PAN_MARGIN_FRACTION
+    const marginY = height * PAN_MARGIN_FRACTION
+    const maxPanX = (mapW / 2) + width / 2 - marginX
+    const maxPanY = (mapH / 2) + height / 2 - marginY
     return {
       x: Math.max(-maxPanX, Math.min(maxPanX, px)),
       y: Math.max(-maxPanY, Math.min(maxPanY, py)),
@@ -67,8 +87,12 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
     if (!canvas || !container) return
     const rect = container.getBoundingClientRect()
     const dpr = window.devicePixelRatio || 1
-    canvas.width = Math.round(rect.width * dpr)
-    canvas.height = Math.round(rect.height * dpr)
+    sizeRef.current = { width: Math.round(rect.width * dpr), height: Math.round(rect.height * dpr) }
+    // A worker-owned canvas is resized by the worker when it draws the next frame
+    if (!transferredRef.current) {
+      canvas.width = sizeRef.current.width
+      canvas.height = sizeRef.current.height
+    }
     canvas.style.width = `${rect.width}px`
     canvas.style.height = `${rect.height}px`
     // No ctx.scale(dpr) — we render directly in device pixels
@@ -85,19 +109,21 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
       observer.observe(containerRef.current)
     }
 
-    const stop = startGameLoop(canvas, {
-      update: (dt) => {
-        officeState.update(dt)
+    const frameLoop = {
+      update: (dt: number) => {
+        officeState.advance(dt)
       },
-      render: (ctx) => {
+      /** Build this frame and hand it to `draw` (on this canvas, or posted to the render worker) */
+      render: (draw: (frame: FrameInput) => { offsetX: number; offsetY: number }) => {
         // Canvas dimensions are in device pixels
-        const w = canvas.width
-        const h = canvas.height
+        const w = sizeRef.current.width
+        const h = sizeRef.current.height
 
         // Build editor render state
         let editorRender: EditorRenderState | undefined
         if (isEditMode) {
           const showGhostBorder = editorState.activeTool === EditTool.TILE_PAINT || editorState.activeTool === EditTool.WALL_PAINT || editorState.activeTool === EditTool.ERASE
+          const roomTile = editorState.activeTool === EditTool.ROOM_NAME ? editorState.selectedRoomTile : null
           editorRender = {
             showGrid: true,
             ghostSprite: null,
@@ -115,6 +141,9 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
             showGhostBorder,
             ghostBorderHoverCol: showGhostBorder ? editorState.ghostCol : -999,
             ghostBorderHoverRow: showGhostBorder ? editorState.ghostRow : -999,
+            rooms: officeState.rooms.rooms,
+            roomFolders: officeState.rooms.rooms.map((r) => officeState.getRoomFolder(r.id)),
+            selectedRoomId: roomTile ? officeState.getRoomAt(roomTile.col, roomTile.row)?.id ?? null : null,
           }
 
           // Ghost preview for furniture placement
@@ -172,9 +201,12 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
           }
         }
 
+        // Characters where they are drawn between simulation ticks
+        const drawnCharacters = officeState.getInterpolatedCharacters()
+
         // Camera follow: smoothly center on followed agent
         if (officeState.cameraFollowId !== null) {
-          const followCh = officeState.characters.get(officeState.cameraFollowId)
+          const followCh = drawnCharacters.get(officeState.cameraFollowId)
           if (followCh) {
             const layout = officeState.getLayout()
             const mapW = layout.cols * TILE_SIZE * zoom
@@ -199,39 +231,63 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
           selectedAgentId: officeState.selectedAgentId,
           hoveredAgentId: officeState.hoveredAgentId,
           hoveredTile: officeState.hoveredTile,
-          seats: officeState.seats,
-          characters: officeState.characters,
+          seats: officeState.getFloorSeats(),
+          characters: drawnCharacters,
+          focusedFolder: officeState.focusedFolder,
         }
 
-        const { offsetX, offsetY } = renderFrame(
-          ctx,
-          w,
-          h,
-          officeState.tileMap,
-          officeState.furniture,
-          officeState.getCharacters(),
+        const { offsetX, offsetY } = draw({
+          canvasWidth: w,
+          canvasHeight: h,
+          tileMap: officeState.tileMap,
+          furniture: officeState.furniture,
+          characters: [...drawnCharacters.values()].filter((ch) => ch.floor === officeState.currentFloor),
           zoom,
-          panRef.current.x,
-          panRef.current.y,
-          selectionRender,
-          editorRender,
-          officeState.getLayout().tileColors,
-          officeState.getLayout().cols,
-          officeState.getLayout().rows,
-        )
+          panX: panRef.current.x,
+          panY: panRef.current.y,
+          selection: selectionRender,
+          editor: editorRender,
+          tileColors: officeState.getLayout().tileColors,
+          layoutCols: officeState.getLayout().cols,
+          layoutRows: officeState.getLayout().rows,
+          zones: officeState.getLayout().zones,
+          tileZones: officeState.getLayout().tileZones,
+          sampleFullRedraws: isDebugMode,
+        })
         offsetRef.current = { x: offsetX, y: offsetY }
 
         // Store delete/rotate button bounds for hit-testing
         deleteButtonBoundsRef.current = editorRender?.deleteButtonBounds ?? null
         rotateButtonBoundsRef.current = editorRender?.rotateButtonBounds ?? null
       },
-    })
+    }
+
+    // Simulation and hit-testing stay here either way; only the drawing moves to the worker
+    const worker = workerRendering
+      ? acquireWorkerRenderer(canvas, () => {
+        // The old canvas belongs to the dead worker: swap in a fresh one and draw here
+        transferredRef.current = false
+        setWorkerRendering(false)
+      })
+      : null
+    if (worker) transferredRef.current = true
+    else if (workerRendering) setWorkerRendering(false)
+    const stop = worker
+      ? startFrameLoop((dt) => {
+        frameLoop.update(dt)
+        frameLoop.render((frame) => worker.draw(frame))
+      })
+      : startGameLoop(canvas, {
+        update: frameLoop.update,
+        render: (ctx) => frameLoop.render((frame) => drawFrame(ctx, frame)),
+      })
 
     return () => {
       stop()
+      worker?.release()
       observer.disconnect()
     }
-  }, [officeState, resizeCanvas, isEditMode, editorState, _editorTick, zoom, panRef])
+  }, [officeState, resizeCanvas, isEditMode, editorState, _editorTick, zoom, panRef, workerRendering, isDebugMode])
 
   // Convert CSS mouse coords to world (sprite pixel) coords
   const screenToWorld = useCallback(
@@ -272,6 +328,40 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
     [screenToWorld, officeState, isEditMode, editorState],
   )
 
+  // Show the directory bound to the hovered desk/seat (updates only when the tile changes)
+  const updateHoverDirectory = useCallback(
+    (clientX: number, clientY: number, tile: { col: number; row: number } | null) => {
+      const text = tile ? officeState.getDirectoryAtTile(tile.col, tile.row) : null
+      const key = text && tile ? `${tile.col},${tile.row}` : null
+      if (key === hoverDirectoryTileRef.current) return
+      hoverDirectoryTileRef.current = key
+      const rect = containerRef.current?.getBoundingClientRect()
+      setHoverDirectory(text && rect ? { text, x: clientX - rect.left, y: clientY - rect.top } : null)
+    },
+    [officeState],
+  )
+
+  // Reassign an agent to a seat, persist seats, and tell the host if the desk belongs to another directory
+  const moveAgentToSeat = useCallback(
+    (agentId: number, seatId: string) => {
+      const changesDirectory = officeState.seatChangesDirectory(agentId, seatId)
+      officeState.reassignSeat(agentId, seatId)
+      officeState.deselectAgent()
+      // Persist seat assignments (exclude sub-agents)
+      const seats: Record<number, { palette: number; seatId: string | null }> = {}
+      for (const ch of officeState.characters.values()) {
+        if (ch.isSubagent) continue
+        seats[ch.id] = { palette: ch.palette, seatId: ch.seatId }
+      }
+      vscode.postMessage({ type: 'saveAgentSeats', seats })
+      const directory = officeState.seats.get(seatId)?.directory
+      if (changesDirectory && directory) {
+        vscode.postMessage({ type: 'moveAgentToDirectory', id: agentId, directory })
+      }
+    },
+    [officeState],
+  )
+
   // Check if device-pixel coords hit the delete button
   const hitTestDeleteButton = useCallback((deviceX: number, deviceY: number): boolean => {
     const bounds = deleteButtonBoundsRef.current
@@ -317,12 +407,12 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
             }
           }
 
-          // Paint on drag (tile/wall/erase paint tool only, not during furniture drag)
-          if (editorState.isDragging && (editorState.activeTool === EditTool.TILE_PAINT || editorState.activeTool === EditTool.WALL_PAINT || editorState.activeTool === EditTool.ERASE) && !editorState.dragUid) {
+          // Paint on drag (tile/wall/erase/zone paint tool only, not during furniture drag)
+          if (editorState.isDragging && (editorState.activeTool === EditTool.TILE_PAINT || editorState.activeTool === EditTool.WALL_PAINT || editorState.activeTool === EditTool.ERASE || editorState.activeTool === EditTool.ZONE_PAINT) && !editorState.dragUid) {
             onEditorTileAction(tile.col, tile.row)
           }
           // Right-click erase drag
-          if (isEraseDraggingRef.current && (editorState.activeTool === EditTool.TILE_PAINT || editorState.activeTool === EditTool.WALL_PAINT || editorState.activeTool === EditTool.ERASE)) {
+          if (isEraseDraggingRef.current && (editorState.activeTool === EditTool.TILE_PAINT || editorState.activeTool === EditTool.WALL_PAINT || editorState.activeTool === EditTool.ERASE || editorState.activeTool === EditTool.ZONE_PAINT)) {
             const layout = officeState.getLayout()
             if (tile.col >= 0 && tile.col < layout.cols && tile.row >= 0 && tile.row < layout.rows) {
               onEditorEraseAction(tile.col, tile.row)
@@ -332,6 +422,7 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
           editorState.ghostCol = -1
           editorState.ghostRow = -1
         }
+        updateHoverDirectory(e.clientX, e.clientY, tile)
 
         // Cursor: show grab during drag, pointer over delete button, crosshair otherwise
         const canvas = canvasRef.current
@@ -373,10 +464,20 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
       const hitId = officeState.getCharacterAt(pos.worldX, pos.worldY)
       const tile = screenToTile(e.clientX, e.clientY)
       officeState.hoveredTile = tile
+      updateHoverDirectory(e.clientX, e.clientY, tile)
+      const drag = agentDragRef.current
+      if (drag && tile && !drag.moved && (tile.col !== drag.col || tile.row !== drag.row)) {
+        // Selecting the dragged agent lights up the seats it can be dropped on
+        drag.moved = true
+        officeState.selectedAgentId = drag.id
+        officeState.cameraFollowId = null
+      }
       const canvas = canvasRef.current
       if (canvas) {
         let cursor = 'default'
-        if (hitId !== null) {
+        if (drag?.moved) {
+          cursor = 'grabbing'
+        } else if (hitId !== null) {
           cursor = 'pointer'
         } else if (officeState.selectedAgentId !== null && tile) {
           // Check if hovering over a clickable seat (available or own)
@@ -395,7 +496,7 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
       }
       officeState.hoveredAgentId = hitId
     },
-    [officeState, screenToWorld, screenToTile, isEditMode, editorState, onEditorTileAction, onEditorEraseAction, panRef, hitTestDeleteButton, hitTestRotateButton, clampPan],
+    [officeState, screenToWorld, screenToTile, isEditMode, editorState, onEditorTileAction, onEditorEraseAction, panRef, hitTestDeleteButton, hitTestRotateButton, clampPan, updateHoverDirectory],
   )
 
   const handleMouseDown = useCallback(
@@ -421,7 +522,7 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
       // Right-click in edit mode for erasing
       if (e.button === 2 && isEditMode) {
         const tile = screenToTile(e.clientX, e.clientY)
-        if (tile && (editorState.activeTool === EditTool.TILE_PAINT || editorState.activeTool === EditTool.WALL_PAINT || editorState.activeTool === EditTool.ERASE)) {
+        if (tile && (editorState.activeTool === EditTool.TILE_PAINT || editorState.activeTool === EditTool.WALL_PAINT || editorState.activeTool === EditTool.ERASE || editorState.activeTool === EditTool.ZONE_PAINT)) {
           const layout = officeState.getLayout()
           if (tile.col >= 0 && tile.col < layout.cols && tile.row >= 0 && tile.row < layout.rows) {
             isEraseDraggingRef.current = true
@@ -431,7 +532,18 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
         return
       }
 
-      if (!isEditMode) return
+      if (!isEditMode) {
+        // Pressing on an agent may start dragging it to another desk
+        if (e.button === 0 && !readOnly) {
+          const pos = screenToWorld(e.clientX, e.clientY)
+          const hitId = pos ? officeState.getCharacterAt(pos.worldX, pos.worldY) : null
+          const tile = screenToTile(e.clientX, e.clientY)
+          if (hitId !== null && hitId > 0 && tile) {
+            agentDragRef.current = { id: hitId, col: tile.col, row: tile.row, moved: false }
+          }
+        }
+        return
+      }
 
       // Check rotate/delete button hit first
       const pos = screenToWorld(e.clientX, e.clientY)
@@ -483,7 +595,7 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
         onEditorTileAction(tile.col, tile.row)
       }
     },
-    [officeState, isEditMode, editorState, screenToTile, screenToWorld, onEditorTileAction, onEditorEraseAction, onEditorSelectionChange, onDeleteSelected, onRotateSelected, hitTestDeleteButton, hitTestRotateButton, panRef],
+    [officeState, isEditMode, editorState, screenToTile, screenToWorld, onEditorTileAction, onEditorEraseAction, onEditorSelectionChange, onDeleteSelected, onRotateSelected, hitTestDeleteButton, hitTestRotateButton, panRef, readOnly],
   )
 
   const handleMouseUp = useCallback(
@@ -499,6 +611,25 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
         return
       }
 
+      // Drop a dragged agent on a free seat (or its own)
+      const drag = agentDragRef.current
+      agentDragRef.current = null
+      if (drag?.moved) {
+        suppressClickRef.current = true
+        const tile = screenToTile(e.clientX, e.clientY)
+        const seatId = tile ? officeState.getSeatAtTile(tile.col, tile.row) : null
+        const seat = seatId ? officeState.seats.get(seatId) : undefined
+        if (seatId && seat && !seat.assigned) {
+          moveAgentToSeat(drag.id, seatId)
+        } else {
+          if (seatId && officeState.characters.get(drag.id)?.seatId === seatId) officeState.sendToSeat(drag.id)
+          officeState.deselectAgent()
+        }
+        const canvas = canvasRef.current
+        if (canvas) canvas.style.cursor = 'default'
+        return
+      }
+
       // Handle drag-to-move completion
       if (editorState.dragUid) {
         if (editorState.isDragMoving) {
@@ -537,19 +668,25 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
       editorState.isDragging = false
       editorState.wallDragAdding = null
     },
-    [editorState, isEditMode, officeState, onDragMove, onEditorSelectionChange],
+    [editorState, isEditMode, officeState, onDragMove, onEditorSelectionChange, screenToTile, moveAgentToSeat],
   )
 
   const handleClick = useCallback(
     (e: React.MouseEvent) => {
       if (isEditMode) return // handled by mouseDown/mouseUp
+      if (suppressClickRef.current) {
+        suppressClickRef.current = false
+        return
+      }
       const pos = screenToWorld(e.clientX, e.clientY)
       if (!pos) return
 
       const hitId = officeState.getCharacterAt(pos.worldX, pos.worldY)
       if (hitId !== null) {
-        // Dismiss any active bubble on click
-        officeState.dismissBubble(hitId)
+        // Dismiss any active bubble on click — permission bubbles stay until answered
+        if (officeState.characters.get(hitId)?.bubbleType !== 'permission') {
+          officeState.dismissBubble(hitId)
+        }
         // Toggle selection: click same agent deselects, different agent selects
         if (officeState.selectedAgentId === hitId) {
           officeState.selectedAgentId = null
@@ -566,7 +703,7 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
       if (officeState.selectedAgentId !== null) {
         const selectedCh = officeState.characters.get(officeState.selectedAgentId)
         // Skip seat reassignment for sub-agents
-        if (selectedCh && !selectedCh.isSubagent) {
+        if (selectedCh && !selectedCh.isSubagent && !readOnly) {
           const tile = screenToTile(e.clientX, e.clientY)
           if (tile) {
             const seatId = officeState.getSeatAtTile(tile.col, tile.row)
@@ -581,16 +718,7 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
                   return
                 } else if (!seat.assigned) {
                   // Clicked available seat — reassign
-                  officeState.reassignSeat(officeState.selectedAgentId, seatId)
-                  officeState.selectedAgentId = null
-                  officeState.cameraFollowId = null
-                  // Persist seat assignments (exclude sub-agents)
-                  const seats: Record<number, { palette: number; seatId: string | null }> = {}
-                  for (const ch of officeState.characters.values()) {
-                    if (ch.isSubagent) continue
-                    seats[ch.id] = { palette: ch.palette, seatId: ch.seatId }
-                  }
-                  vscode.postMessage({ type: 'saveAgentSeats', seats })
+                  moveAgentToSeat(officeState.selectedAgentId, seatId)
                   return
                 }
               }
@@ -602,12 +730,15 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
         officeState.cameraFollowId = null
       }
     },
-    [officeState, onClick, screenToWorld, screenToTile, isEditMode],
+    [officeState, onClick, screenToWorld, screenToTile, isEditMode, readOnly, moveAgentToSeat],
   )
 
   const handleMouseLeave = useCallback(() => {
     isPanningRef.current = false
     isEraseDraggingRef.current = false
+    agentDragRef.current = null
+    hoverDirectoryTileRef.current = null
+    setHoverDirectory(null)
     editorState.isDragging = false
     editorState.wallDragAdding = null
     editorState.clearDrag()
@@ -620,6 +751,13 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
   const handleContextMenu = useCallback((e: React.MouseEvent) => {
     e.preventDefault()
     if (isEditMode) return
+    // Right-click on an agent opens its menu
+    const pos = screenToWorld(e.clientX, e.clientY)
+    const hitId = pos ? officeState.getCharacterAt(pos.worldX, pos.worldY) : null
+    if (hitId !== null && hitId > 0 && !readOnly && onAgentContextMenu) {
+      onAgentContextMenu(hitId, e.clientX, e.clientY)
+      return
+    }
     // Right-click to walk selected agent to tile
     if (officeState.selectedAgentId !== null) {
       const tile = screenToTile(e.clientX, e.clientY)
@@ -627,7 +765,7 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
         officeState.walkToTile(officeState.selectedAgentId, tile.col, tile.row)
       }
     }
-  }, [isEditMode, officeState, screenToTile])
+  }, [isEditMode, officeState, screenToTile, screenToWorld, readOnly, onAgentContextMenu])
 
   // Wheel: Ctrl+wheel to zoom, plain wheel/trackpad to pan
   const handleWheel = useCallback(
@@ -674,6 +812,7 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
       }}
     >
       <canvas
+        key={workerRendering ? 'worker' : 'main'}
         ref={canvasRef}
         onMouseMove={handleMouseMove}
         onMouseDown={handleMouseDown}
@@ -685,6 +824,27 @@ export function OfficeCanvas({ officeState, onClick, isEditMode, editorState, on
         onContextMenu={handleContextMenu}
         style={{ display: 'block' }}
       />
+      {hoverDirectory && (
+        <div
+          style={{
+            position: 'absolute',
+            left: hoverDirectory.x + 12,
+            top: hoverDirectory.y + 12,
+            background: 'var(--pixel-bg)',
+            border: '2px solid var(--pixel-border)',
+            borderRadius: 0,
+            padding: '2px 6px',
+            fontSize: '18px',
+            color: 'var(--pixel-text)',
+            boxShadow: 'var(--pixel-shadow)',
+            pointerEvents: 'none',
+            whiteSpace: 'nowrap',
+            zIndex: 'var(--pixel-overlay-z)',
+          }}
+        >
+          {hoverDirectory.text}
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,182 @@
+import { useState, useEffect } from 'react'
+import type { ToolActivity } from '../types.js'
+import type { OfficeState } from '../engine/officeState.js'
+import type { PermissionDecision } from '../../messageProtocol.js'
+import { TILE_SIZE } from '../types.js'
+import { isSittingState } from '../engine/characters.js'
+import { extractToolName } from '../toolUtils.js'
+import { TOOL_OVERLAY_VERTICAL_OFFSET, CHARACTER_SITTING_OFFSET_PX } from '../../constants.js'
+
+interface PermissionPromptProps {
+  officeState: OfficeState
+  agentId: number
+  tool: ToolActivity
+  agentName?: string
+  containerRef: React.RefObject<HTMLDivElement | null>
+  zoom: number
+  panRef: React.RefObject<{ x: number; y: number }>
+  onRespond: (decision: PermissionDecision) => void
+  onClose: () => void
+}
+
+const DECISIONS: Array<{ decision: PermissionDecision; label: string; background: string }> = [
+  { decision: 'approve', label: 'Approve', background: 'var(--pixel-agent-bg)' },
+  { decision: 'deny', label: 'Deny', background: 'var(--pixel-danger-bg)' },
+  { decision: 'alwaysAllow', label: 'Always allow', background: 'var(--pixel-btn-bg)' },
+]
+
+/** Status line without its leading verb: the command or file the tool wants to touch */
+function toolDetail(status: string): string {
+  const colon = status.indexOf(': ')
+  if (colon >= 0) return status.slice(colon + 2)
+  const space = status.indexOf(' ')
+  return space >= 0 ? status.slice(space + 1) : status
+}
+
+/** CSS position above the character's head, or null when it isn't on screen */
+function anchorPosition(
+  officeState: OfficeState,
+  agentId: number,
+  el: HTMLDivElement | null,
+  zoom: number,
+  pan: { x: number; y: number },
+): { x: number; y: number } | null {
+  const ch = officeState.characters.get(agentId)
+  if (!el || !ch || ch.floor !== officeState.currentFloor) return null
+  const rect = el.getBoundingClientRect()
+  const dpr = window.devicePixelRatio || 1
+  const canvasW = Math.round(rect.width * dpr)
+  const canvasH = Math.round(rect.height * dpr)
+  const layout = officeState.getLayout()
+  const mapW = layout.cols * TILE_SIZE * zoom
+  const mapH = layout.rows * TILE_SIZE * zoom
+  const deviceOffsetX = Math.floor((canvasW - mapW) / 2) + Math.round(pan.x)
+  const deviceOffsetY = Math.floor((canvasH - mapH) / 2) + Math.round(pan.y)
+  const sittingOffset = isSittingState(ch.state) ? CHARACTER_SITTING_OFFSET_PX : 0
+  return {
+    x: (deviceOffsetX + ch.x * zoom) / dpr,
+    y: (deviceOffsetY + (ch.y + sittingOffset - TOOL_OVERLAY_VERTICAL_OFFSET) * zoom) / dpr,
+  }
+}
+
+/**
+ * Approve / Deny / Always allow popover anchored above an agent waiting for
+ * permission. After answering it shows the choice until the host acknowledges,
+ * at which point the parent stops rendering it.
+ */
+export function PermissionPrompt({
+  officeState,
+  agentId,
+  tool,
+  agentName,
+  containerRef,
+  zoom,
+  panRef,
+  onRespond,
+  onClose,
+}: PermissionPromptProps) {
+  const [sent, setSent] = useState<PermissionDecision | null>(null)
+  const [hovered, setHovered] = useState<PermissionDecision | null>(null)
+  // Screen position, recomputed every frame so the popover follows the character
+  const [pos, setPos] = useState<{ x: number; y: number } | null>(null)
+  useEffect(() => {
+    let rafId = 0
+    const tick = () => {
+      setPos(anchorPosition(officeState, agentId, containerRef.current, zoom, panRef.current))
+      rafId = requestAnimationFrame(tick)
+    }
+    rafId = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(rafId)
+  }, [officeState, agentId, containerRef, zoom, panRef])
+
+  if (!pos) return null
+  const toolName = extractToolName(tool.status) ?? 'Tool'
+  const sentLabel = DECISIONS.find((d) => d.decision === sent)?.label
+
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      style={{
+        position: 'absolute',
+        left: pos.x,
+        // Sit above the tool overlay label
+        top: pos.y - 36,
+        transform: 'translate(-50%, -100%)',
+        background: 'var(--pixel-bg)',
+        border: '2px solid var(--pixel-status-permission)',
+        borderRadius: 0,
+        padding: '6px 8px',
+        boxShadow: 'var(--pixel-shadow)',
+        zIndex: 'var(--pixel-overlay-selected-z)',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 4,
+        minWidth: 180,
+        maxWidth: 280,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+        <span style={{ fontSize: '22px', color: 'var(--pixel-status-permission)', flex: 1 }}>
+          {toolName} needs approval
+        </span>
+        <button
+          onClick={onClose}
+          title="Close (Esc)"
+          style={{
+            background: 'none',
+            border: 'none',
+            color: 'var(--pixel-close-text)',
+            cursor: 'pointer',
+            padding: '0 2px',
+            fontSize: '26px',
+            lineHeight: 1,
+          }}
+        >
+          ×
+        </button>
+      </div>
+      {agentName && <span style={{ fontSize: '16px', color: 'var(--pixel-text-dim)' }}>{agentName}</span>}
+      <code
+        style={{
+          fontSize: '18px',
+          color: 'var(--pixel-text)',
+          background: 'rgba(0, 0, 0, 0.3)',
+          padding: '2px 4px',
+          overflowWrap: 'anywhere',
+        }}
+      >
+        {toolDetail(tool.status)}
+      </code>
+      {sentLabel ? (
+        <span style={{ fontSize: '18px', color: 'var(--pixel-text-dim)' }}>{sentLabel} sent — waiting for the agent...</span>
+      ) : (
+        <div style={{ display: 'flex', gap: 4 }}>
+          {DECISIONS.map(({ decision, label, background }) => (
+            <button
+              key={decision}
+              onClick={() => {
+                setSent(decision)
+                onRespond(decision)
+              }}
+              onMouseEnter={() => setHovered(decision)}
+              onMouseLeave={() => setHovered(null)}
+              style={{
+                flex: 1,
+                padding: '3px 6px',
+                fontSize: '18px',
+                color: 'var(--pixel-text)',
+                background: hovered === decision ? 'var(--pixel-btn-hover-bg)' : background,
+                border: '2px solid var(--pixel-border)',
+                borderRadius: 0,
+                cursor: 'pointer',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,13 +2,18 @@ import { useState, useEffect } from 'react'
 import type { ToolActivity } from '../types.js'
 import type { OfficeState } from '../engine/officeState.js'
 import type { SubagentCharacter } from '../../hooks/useExtensionMessages.js'
-import { TILE_SIZE, CharacterState } from '../types.js'
-import { TOOL_OVERLAY_VERTICAL_OFFSET, CHARACTER_SITTING_OFFSET_PX } from '../../constants.js'
+import type { AgentMeta } from '../../messageProtocol.js'
+import { TILE_SIZE } from '../types.js'
+import { isSittingState } from '../engine/characters.js'
+import { TOOL_OVERLAY_VERTICAL_OFFSET, CHARACTER_SITTING_OFFSET_PX, FOLDER_DIM_ALPHA } from '../../constants.js'
 
 interface ToolOverlayProps {
   officeState: OfficeState
   agents: number[]
   agentTools: Record<number, ToolActivity[]>
+  agentNames: Record<number, string>
+  agentMeta: Record<number, AgentMeta>
+  subagentTools: Record<number, Record<string, ToolActivity[]>>
   subagentCharacters: SubagentCharacter[]
   containerRef: React.RefObject<HTMLDivElement | null>
   zoom: number
@@ -44,6 +49,9 @@ export function ToolOverlay({
   officeState,
   agents,
   agentTools,
+  agentNames,
+  agentMeta,
+  subagentTools,
   subagentCharacters,
   containerRef,
   zoom,
@@ -83,7 +91,7 @@ export function ToolOverlay({
     <>
       {allIds.map((id) => {
         const ch = officeState.characters.get(id)
-        if (!ch) return null
+        if (!ch || ch.floor !== officeState.currentFloor) return null
 
         const isSelected = selectedId === id
         const isHovered = hoveredId === id
@@ -93,26 +101,32 @@ export function ToolOverlay({
         if (!isSelected && !isHovered) return null
 
         // Position above character
-        const sittingOffset = ch.state === CharacterState.TYPE ? CHARACTER_SITTING_OFFSET_PX : 0
+        const sittingOffset = isSittingState(ch.state) ? CHARACTER_SITTING_OFFSET_PX : 0
         const screenX = (deviceOffsetX + ch.x * zoom) / dpr
         const screenY = (deviceOffsetY + (ch.y + sittingOffset - TOOL_OVERLAY_VERTICAL_OFFSET) * zoom) / dpr
 
-        // Get activity text
+        // Get activity text — sub-agents show their own tools, keyed by the Task that spawned them
+        const sub = isSub ? subagentCharacters.find((s) => s.id === id) : undefined
         const subHasPermission = isSub && ch.bubbleType === 'permission'
+        const tools = sub ? subagentTools[sub.rootAgentId]?.[sub.parentToolId] : agentTools[id]
         let activityText: string
         if (isSub) {
           if (subHasPermission) {
             activityText = 'Needs approval'
           } else {
-            const sub = subagentCharacters.find((s) => s.id === id)
-            activityText = sub ? sub.label : 'Subtask'
+            const activeTool = tools && [...tools].reverse().find((t) => !t.done)
+            activityText = activeTool ? activeTool.status : sub ? sub.label : 'Subtask'
           }
         } else {
           activityText = getActivityText(id, agentTools, ch.isActive)
         }
 
+        // Name and role (or sub-agent task), workspace folder, branch and named room under the activity line
+        const meta = isSub ? undefined : agentMeta[id]
+        const roomName = officeState.getCharacterRoom(id)?.name
+        const subtitle = [isSub ? sub?.label : agentNames[id], meta?.role, ch.folderName, meta?.branch, roomName && `in ${roomName}`].filter(Boolean).join(' · ')
+
         // Determine dot color
-        const tools = agentTools[id]
         const hasPermission = subHasPermission || tools?.some((t) => t.permissionWait && !t.done)
         const hasActiveTools = tools?.some((t) => !t.done)
         const isActive = ch.isActive
@@ -137,6 +151,7 @@ export function ToolOverlay({
               alignItems: 'center',
               pointerEvents: isSelected ? 'auto' : 'none',
               zIndex: isSelected ? 'var(--pixel-overlay-selected-z)' : 'var(--pixel-overlay-z)',
+              opacity: officeState.isOutOfFocus(ch) ? FOLDER_DIM_ALPHA : 1,
             }}
           >
             <div
@@ -180,7 +195,7 @@ export function ToolOverlay({
                 >
                   {activityText}
                 </span>
-                {ch.folderName && (
+                {subtitle && (
                   <span
                     style={{
                       fontSize: '16px',
@@ -190,7 +205,7 @@ export function ToolOverlay({
                       display: 'block',
                     }}
                   >
-                    {ch.folderName}
+                    {subtitle}
                   </span>
                 )}
               </div>
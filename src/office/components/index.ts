@@ -1,2 +1,3 @@
 export { OfficeCanvas } from './OfficeCanvas.js'
 export { ToolOverlay } from './ToolOverlay.js'
+export { PermissionPrompt } from './PermissionPrompt.js'
@@ -1,10 +1,12 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { EditTool } from '../types.js'
-import type { TileType as TileTypeVal, FloorColor } from '../types.js'
+import type { TileType as TileTypeVal, FloorColor, FloorZone, Room } from '../types.js'
 import { getCatalogByCategory, buildDynamicCatalog, getActiveCategories } from '../layout/furnitureCatalog.js'
 import type { FurnitureCategory, LoadedAssetData } from '../layout/furnitureCatalog.js'
 import { getCachedSprite } from '../sprites/spriteCache.js'
 import { getColorizedFloorSprite, getFloorPatternCount, hasFloorSprites } from '../floorTiles.js'
+import { roomDisplayName } from '../layout/rooms.js'
+import { ZONE_COLORS } from '../../constants.js'
 
 const btnStyle: React.CSSProperties = {
   padding: '3px 8px',
@@ -46,6 +48,10 @@ interface EditorToolbarProps {
   selectedFurnitureType: string
   selectedFurnitureUid: string | null
   selectedFurnitureColor: FloorColor | null
+  /** Directory the selected desk/chair is bound to */
+  selectedFurnitureDirectory: string | null
+  /** Whether the selected item is a desk or chair (only those take a directory) */
+  canBindDirectory: boolean
   floorColor: FloorColor
   wallColor: FloorColor
   onToolChange: (tool: EditTool) => void
@@ -53,10 +59,34 @@ interface EditorToolbarProps {
   onFloorColorChange: (color: FloorColor) => void
   onWallColorChange: (color: FloorColor) => void
   onSelectedFurnitureColorChange: (color: FloorColor | null) => void
+  onSelectedFurnitureDirectoryChange: (directory: string | null) => void
   onFurnitureTypeChange: (type: string) => void
+  zones: FloorZone[]
+  selectedZoneId: string | null
+  onZoneSelect: (id: string | null) => void
+  onZoneAdd: () => void
+  onZoneUpdate: (zone: FloorZone) => void
+  onZoneDelete: (id: string) => void
+  /** Room picked with the room tool */
+  selectedRoom: Room | null
+  /** Folder the picked room hosts, whether assigned here or automatically */
+  selectedRoomFolder: string | null
+  workspaceFolders: string[]
+  onRoomRename: (name: string | null) => void
+  onRoomFolderChange: (folder: string | null) => void
   loadedAssets?: LoadedAssetData
 }
 
+const zoneInputStyle: React.CSSProperties = {
+  width: 140,
+  padding: '2px 4px',
+  fontSize: '20px',
+  color: 'rgba(255, 255, 255, 0.9)',
+  background: 'rgba(0, 0, 0, 0.3)',
+  border: '2px solid #4a4a6a',
+  borderRadius: 0,
+}
+
 /** Render a floor pattern preview at 2x (32x32 canvas showing the 16x16 tile) */
 function FloorPatternPreview({ patternIndex, color, selected, onClick }: {
   patternIndex: number
@@ -145,6 +175,8 @@ export function EditorToolbar({
   selectedFurnitureType,
   selectedFurnitureUid,
   selectedFurnitureColor,
+  selectedFurnitureDirectory,
+  canBindDirectory,
   floorColor,
   wallColor,
   onToolChange,
@@ -152,13 +184,26 @@ export function EditorToolbar({
   onFloorColorChange,
   onWallColorChange,
   onSelectedFurnitureColorChange,
+  onSelectedFurnitureDirectoryChange,
   onFurnitureTypeChange,
+  zones,
+  selectedZoneId,
+  onZoneSelect,
+  onZoneAdd,
+  onZoneUpdate,
+  onZoneDelete,
+  selectedRoom,
+  selectedRoomFolder,
+  workspaceFolders,
+  onRoomRename,
+  onRoomFolderChange,
   loadedAssets,
 }: EditorToolbarProps) {
   const [activeCategory, setActiveCategory] = useState<FurnitureCategory>('desks')
   const [showColor, setShowColor] = useState(false)
   const [showWallColor, setShowWallColor] = useState(false)
   const [showFurnitureColor, setShowFurnitureColor] = useState(false)
+  const [showDirectory, setShowDirectory] = useState(false)
 
   // Build dynamic catalog from loaded assets
   useEffect(() => {
@@ -209,6 +254,9 @@ export function EditorToolbar({
   const isWallActive = activeTool === EditTool.WALL_PAINT
   const isEraseActive = activeTool === EditTool.ERASE
   const isFurnitureActive = activeTool === EditTool.FURNITURE_PLACE || activeTool === EditTool.FURNITURE_PICK
+  const isZoneActive = activeTool === EditTool.ZONE_PAINT
+  const selectedZone = zones.find((z) => z.id === selectedZoneId) ?? null
+  const isRoomActive = activeTool === EditTool.ROOM_NAME
 
   return (
     <div
@@ -258,8 +306,145 @@ export function EditorToolbar({
         >
           Furniture
         </button>
+        <button
+          style={isZoneActive ? activeBtnStyle : btnStyle}
+          onClick={() => onToolChange(EditTool.ZONE_PAINT)}
+          title="Paint worktree zones"
+        >
+          Zones
+        </button>
+        <button
+          style={isRoomActive ? activeBtnStyle : btnStyle}
+          onClick={() => onToolChange(EditTool.ROOM_NAME)}
+          title="Name rooms"
+        >
+          Rooms
+        </button>
       </div>
 
+      {/* Sub-panel: Rooms — name field for the room picked on the canvas */}
+      {isRoomActive && (
+        <div style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+          {selectedRoom ? (
+            <>
+              <input
+                key={`${selectedRoom.id}:${selectedRoom.name ?? ''}`}
+                autoFocus
+                defaultValue={selectedRoom.name ?? ''}
+                placeholder={roomDisplayName({ ...selectedRoom, name: null })}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') e.currentTarget.blur()
+                }}
+                onBlur={(e) => onRoomRename(e.target.value.trim() || null)}
+                style={{ ...zoneInputStyle, width: 200 }}
+              />
+              {workspaceFolders.length > 0 && (
+                <select
+                  value={selectedRoom.folder ?? ''}
+                  onChange={(e) => onRoomFolderChange(e.target.value || null)}
+                  title="Workspace folder whose agents sit in this room"
+                  style={zoneInputStyle}
+                >
+                  <option value="">
+                    {selectedRoomFolder && !selectedRoom.folder ? `Auto (${selectedRoomFolder})` : 'Auto'}
+                  </option>
+                  {workspaceFolders.map((f) => (
+                    <option key={f} value={f}>
+                      {f}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </>
+          ) : (
+            <span style={{ fontSize: '18px', color: '#999' }}>Click a room to name it</span>
+          )}
+        </div>
+      )}
+
+      {/* Sub-panel: Zones — list just above the tool row, selected zone's settings above that */}
+      {isZoneActive && (
+        <div style={{ display: 'flex', flexDirection: 'column-reverse', gap: 6 }}>
+          <div style={{ display: 'flex', gap: 4, alignItems: 'center', flexWrap: 'wrap' }}>
+            {zones.map((zone) => (
+              <button
+                key={zone.id}
+                style={{ ...(zone.id === selectedZoneId ? activeBtnStyle : btnStyle), fontSize: '20px', borderLeft: `6px solid ${zone.color}` }}
+                onClick={() => onZoneSelect(zone.id === selectedZoneId ? null : zone.id)}
+                title={zone.worktree ? `Worktree: ${zone.worktree}` : 'Not tied to a worktree'}
+              >
+                {zone.label}
+              </button>
+            ))}
+            <button style={{ ...btnStyle, fontSize: '20px' }} onClick={onZoneAdd} title="Add a zone">
+              + Zone
+            </button>
+          </div>
+          {selectedZone && (
+            <div
+              key={selectedZone.id}
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 4,
+                padding: '4px 6px',
+                background: '#181828',
+                border: '2px solid #4a4a6a',
+                borderRadius: 0,
+              }}
+            >
+              {/* Uncontrolled inputs commit once, on Enter or blur */}
+              <div style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+                <input
+                  defaultValue={selectedZone.label}
+                  placeholder="Label"
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur()
+                  }}
+                  onBlur={(e) => onZoneUpdate({ ...selectedZone, label: e.target.value.trim() || selectedZone.label })}
+                  style={zoneInputStyle}
+                />
+                <input
+                  defaultValue={selectedZone.worktree ?? ''}
+                  placeholder="branch or worktree path"
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur()
+                  }}
+                  onBlur={(e) => onZoneUpdate({ ...selectedZone, worktree: e.target.value.trim() || undefined })}
+                  style={{ ...zoneInputStyle, width: 200 }}
+                />
+              </div>
+              <div style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+                {ZONE_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    onClick={() => onZoneUpdate({ ...selectedZone, color })}
+                    title={color}
+                    style={{
+                      width: 20,
+                      height: 20,
+                      padding: 0,
+                      background: color,
+                      border: color === selectedZone.color ? '2px solid #fff' : '2px solid transparent',
+                      borderRadius: 0,
+                      cursor: 'pointer',
+                    }}
+                  />
+                ))}
+                <button
+                  style={{ ...btnStyle, fontSize: '20px', padding: '2px 6px', marginLeft: 'auto' }}
+                  onClick={() => onZoneDelete(selectedZone.id)}
+                  title="Delete zone"
+                >
+                  Delete
+                </button>
+              </div>
+              <span style={{ fontSize: '18px', color: '#999' }}>Click floor to paint, right-click to clear</span>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Sub-panel: Floor tiles — stacked bottom-to-top via column-reverse */}
       {isFloorActive && (
         <div style={{ display: 'flex', flexDirection: 'column-reverse', gap: 6 }}>
@@ -440,7 +625,47 @@ export function EditorToolbar({
                 Clear
               </button>
             )}
+            {canBindDirectory && (
+              <button
+                style={showDirectory ? activeBtnStyle : btnStyle}
+                onClick={() => setShowDirectory((v) => !v)}
+                title={selectedFurnitureDirectory ?? 'Bind to a project directory'}
+              >
+                Folder{selectedFurnitureDirectory ? ' *' : ''}
+              </button>
+            )}
           </div>
+          {canBindDirectory && showDirectory && (
+            <div style={{
+              display: 'flex',
+              gap: 4,
+              alignItems: 'center',
+              padding: '4px 6px',
+              background: '#181828',
+              border: '2px solid #4a4a6a',
+              borderRadius: 0,
+            }}>
+              {/* Uncontrolled and keyed by item so edits commit once, on Enter or blur */}
+              <input
+                key={selectedFurnitureUid}
+                defaultValue={selectedFurnitureDirectory ?? ''}
+                placeholder="/path/to/project"
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') e.currentTarget.blur()
+                }}
+                onBlur={(e) => onSelectedFurnitureDirectoryChange(e.target.value.trim() || null)}
+                style={{
+                  width: 220,
+                  padding: '2px 4px',
+                  fontSize: '20px',
+                  color: 'rgba(255, 255, 255, 0.9)',
+                  background: 'rgba(0, 0, 0, 0.3)',
+                  border: '2px solid #4a4a6a',
+                  borderRadius: 0,
+                }}
+              />
+            </div>
+          )}
           {showFurnitureColor && (
             <div style={{
               display: 'flex',
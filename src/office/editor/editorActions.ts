@@ -1,8 +1,9 @@
 import { TileType, MAX_COLS, MAX_ROWS } from '../types.js'
 import { DEFAULT_NEUTRAL_COLOR } from '../../constants.js'
-import type { TileType as TileTypeVal, OfficeLayout, PlacedFurniture, FloorColor } from '../types.js'
+import type { TileType as TileTypeVal, OfficeLayout, OfficeBuilding, PlacedFurniture, FloorColor, FloorZone, RoomLabel } from '../types.js'
 import { getCatalogEntry, getRotatedType, getToggledType } from '../layout/furnitureCatalog.js'
 import { getPlacementBlockedTiles } from '../layout/layoutSerializer.js'
+import { detectRooms } from '../layout/rooms.js'
 
 /** Paint a single tile with pattern and color. Returns new layout (immutable). */
 export function paintTile(layout: OfficeLayout, col: number, row: number, tileType: TileTypeVal, color?: FloorColor): OfficeLayout {
@@ -29,6 +30,63 @@ export function paintTile(layout: OfficeLayout, col: number, row: number, tileTy
   return { ...layout, tiles, tileColors }
 }
 
+/** Assign a tile to a zone (null clears it). Returns new layout (immutable). */
+export function paintZone(layout: OfficeLayout, col: number, row: number, zoneId: string | null): OfficeLayout {
+  const idx = row * layout.cols + col
+  if (idx < 0 || idx >= layout.tiles.length) return layout
+  const existing = layout.tileZones || new Array(layout.tiles.length).fill(null)
+  if ((existing[idx] ?? null) === zoneId) return layout
+  const tileZones = [...existing]
+  tileZones[idx] = zoneId
+  return { ...layout, tileZones }
+}
+
+/** Add a zone or update one by id. Returns new layout (immutable). */
+export function upsertZone(layout: OfficeLayout, zone: FloorZone): OfficeLayout {
+  const zones = layout.zones || []
+  const exists = zones.some((z) => z.id === zone.id)
+  return { ...layout, zones: exists ? zones.map((z) => (z.id === zone.id ? zone : z)) : [...zones, zone] }
+}
+
+/** Remove a zone and clear its tiles. Returns new layout (immutable). */
+export function removeZone(layout: OfficeLayout, zoneId: string): OfficeLayout {
+  return {
+    ...layout,
+    zones: (layout.zones || []).filter((z) => z.id !== zoneId),
+    tileZones: layout.tileZones?.map((id) => (id === zoneId ? null : id)),
+  }
+}
+
+/**
+ * Update the label of the room containing a tile, merging `patch` into any
+ * label already inside that room. Labels left empty are dropped.
+ */
+function updateRoomLabel(layout: OfficeLayout, col: number, row: number, patch: Omit<RoomLabel, 'col' | 'row'>): OfficeLayout {
+  if (col < 0 || col >= layout.cols || row < 0 || row >= layout.rows) return layout
+  const { tileRoom } = detectRooms(layout)
+  const roomId = tileRoom[row * layout.cols + col]
+  if (roomId < 0) return layout
+  const inRoom = (l: RoomLabel) =>
+    l.col >= 0 && l.col < layout.cols && l.row >= 0 && l.row < layout.rows && tileRoom[l.row * layout.cols + l.col] === roomId
+  const labels = layout.roomNames || []
+  const existing = labels.find(inRoom)
+  const merged: RoomLabel = { ...existing, ...patch, col, row }
+  if (!merged.name) delete merged.name
+  if (!merged.folder) delete merged.folder
+  const kept = labels.filter((l) => !inRoom(l))
+  return { ...layout, roomNames: merged.name || merged.folder ? [...kept, merged] : kept }
+}
+
+/** Name the room containing a tile (null clears the name). Returns new layout (immutable). */
+export function nameRoom(layout: OfficeLayout, col: number, row: number, name: string | null): OfficeLayout {
+  return updateRoomLabel(layout, col, row, { name: name ?? undefined })
+}
+
+/** Assign the room containing a tile to a workspace folder (null clears it). Returns new layout (immutable). */
+export function assignRoomFolder(layout: OfficeLayout, col: number, row: number, folder: string | null): OfficeLayout {
+  return updateRoomLabel(layout, col, row, { folder: folder ?? undefined })
+}
+
 /** Place furniture. Returns new layout (immutable). */
 export function placeFurniture(layout: OfficeLayout, item: PlacedFurniture): OfficeLayout {
   if (!canPlaceFurniture(layout, item.type, item.col, item.row)) return layout
@@ -170,7 +228,7 @@ export function expandLayout(
   layout: OfficeLayout,
   direction: ExpandDirection,
 ): { layout: OfficeLayout; shift: { col: number; row: number } } | null {
-  const { cols, rows, tiles, furniture, tileColors } = layout
+  const { cols, rows, tiles, furniture, tileColors, tileZones } = layout
   const existingColors = tileColors || new Array(tiles.length).fill(null)
 
   let newCols = cols
@@ -195,6 +253,7 @@ export function expandLayout(
   // Build new tile array
   const newTiles: TileTypeVal[] = new Array(newCols * newRows).fill(TileType.VOID as TileTypeVal)
   const newColors: Array<FloorColor | null> = new Array(newCols * newRows).fill(null)
+  const newZones: Array<string | null> | undefined = tileZones ? new Array(newCols * newRows).fill(null) : undefined
 
   for (let r = 0; r < rows; r++) {
     for (let c = 0; c < cols; c++) {
@@ -202,6 +261,7 @@ export function expandLayout(
       const newIdx = (r + shiftRow) * newCols + (c + shiftCol)
       newTiles[newIdx] = tiles[oldIdx]
       newColors[newIdx] = existingColors[oldIdx]
+      if (newZones) newZones[newIdx] = tileZones![oldIdx] ?? null
     }
   }
 
@@ -211,9 +271,36 @@ export function expandLayout(
     col: f.col + shiftCol,
     row: f.row + shiftRow,
   }))
+  const newRoomNames = layout.roomNames?.map((l) => ({ ...l, col: l.col + shiftCol, row: l.row + shiftRow }))
 
   return {
-    layout: { ...layout, cols: newCols, rows: newRows, tiles: newTiles, tileColors: newColors, furniture: newFurniture },
+    layout: { ...layout, cols: newCols, rows: newRows, tiles: newTiles, tileColors: newColors, tileZones: newZones, roomNames: newRoomNames, furniture: newFurniture },
     shift: { col: shiftCol, row: shiftRow },
   }
 }
+
+/** Empty floor: walls around the edge, plain floor inside */
+export function createFloor(cols: number, rows: number): OfficeLayout {
+  const tiles: TileTypeVal[] = []
+  const tileColors: Array<FloorColor | null> = []
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const edge = r === 0 || r === rows - 1 || c === 0 || c === cols - 1
+      tiles.push(edge ? TileType.WALL : TileType.FLOOR_1)
+      tileColors.push(edge ? null : { ...DEFAULT_NEUTRAL_COLOR })
+    }
+  }
+  return { cols, rows, tiles, tileColors, furniture: [] }
+}
+
+/** Add an empty floor on top, the size of the current top floor */
+export function addFloor(building: OfficeBuilding): OfficeBuilding {
+  const top = building.floors[building.floors.length - 1]
+  return { ...building, floors: [...building.floors, createFloor(top.cols, top.rows)] }
+}
+
+/** Remove a floor. Returns the same building if it's the only one. */
+export function removeFloor(building: OfficeBuilding, index: number): OfficeBuilding {
+  if (building.floors.length <= 1 || index < 0 || index >= building.floors.length) return building
+  return { ...building, floors: building.floors.filter((_, i) => i !== index) }
+}
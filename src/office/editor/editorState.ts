@@ -1,5 +1,5 @@
 import { EditTool, TileType } from '../types.js'
-import type { TileType as TileTypeVal, OfficeLayout, FloorColor } from '../types.js'
+import type { TileType as TileTypeVal, OfficeBuilding, FloorColor } from '../types.js'
 import { UNDO_STACK_MAX_SIZE, DEFAULT_FLOOR_COLOR, DEFAULT_WALL_COLOR } from '../../constants.js'
 
 export class EditorState {
@@ -28,12 +28,18 @@ export class EditorState {
   // Selection
   selectedFurnitureUid: string | null = null
 
+  // Zone painted by the zone tool
+  selectedZoneId: string | null = null
+
+  // Tile picked by the room name tool (the room is whichever one contains it)
+  selectedRoomTile: { col: number; row: number } | null = null
+
   // Mouse drag state (tile paint)
   isDragging = false
 
-  // Undo / Redo stacks
-  undoStack: OfficeLayout[] = []
-  redoStack: OfficeLayout[] = []
+  // Undo / Redo stacks (whole buildings, so floor changes undo too)
+  undoStack: OfficeBuilding[] = []
+  redoStack: OfficeBuilding[] = []
 
   // Dirty flag — true when layout differs from last save
   isDirty = false
@@ -46,26 +52,26 @@ export class EditorState {
   dragOffsetRow = 0
   isDragMoving = false
 
-  pushUndo(layout: OfficeLayout): void {
-    this.undoStack.push(layout)
+  pushUndo(building: OfficeBuilding): void {
+    this.undoStack.push(building)
     // Limit undo stack size
     if (this.undoStack.length > UNDO_STACK_MAX_SIZE) {
       this.undoStack.shift()
     }
   }
 
-  popUndo(): OfficeLayout | null {
+  popUndo(): OfficeBuilding | null {
     return this.undoStack.pop() || null
   }
 
-  pushRedo(layout: OfficeLayout): void {
-    this.redoStack.push(layout)
+  pushRedo(building: OfficeBuilding): void {
+    this.redoStack.push(building)
     if (this.redoStack.length > UNDO_STACK_MAX_SIZE) {
       this.redoStack.shift()
     }
   }
 
-  popRedo(): OfficeLayout | null {
+  popRedo(): OfficeBuilding | null {
     return this.redoStack.pop() || null
   }
 
@@ -77,6 +83,14 @@ export class EditorState {
     this.selectedFurnitureUid = null
   }
 
+  selectZone(id: string | null): void {
+    this.selectedZoneId = id
+  }
+
+  selectRoomTile(tile: { col: number; row: number } | null): void {
+    this.selectedRoomTile = tile
+  }
+
   clearGhost(): void {
     this.ghostCol = -1
     this.ghostRow = -1
@@ -100,6 +114,8 @@ export class EditorState {
   reset(): void {
     this.activeTool = EditTool.SELECT
     this.selectedFurnitureUid = null
+    this.selectedZoneId = null
+    this.selectedRoomTile = null
     this.ghostCol = -1
     this.ghostRow = -1
     this.ghostValid = false
@@ -1,3 +1,3 @@
-export { paintTile, placeFurniture, removeFurniture, moveFurniture, canPlaceFurniture } from './editorActions.js'
+export { paintTile, paintZone, upsertZone, removeZone, nameRoom, assignRoomFolder, placeFurniture, removeFurniture, moveFurniture, canPlaceFurniture, createFloor, addFloor, removeFloor } from './editorActions.js'
 export { EditorState } from './editorState.js'
 export { EditorToolbar } from './EditorToolbar.js'
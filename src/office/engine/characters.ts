@@ -1,25 +1,43 @@
-import { CharacterState, Direction, TILE_SIZE } from '../types.js'
-import type { Character, Seat, SpriteData, TileType as TileTypeVal } from '../types.js'
+import { ActivityKind, CharacterState, Direction, IdleActivity, InteractionAnim, TILE_SIZE } from '../types.js'
+import type { Character, InteractionSpot, Seat, SpriteData } from '../types.js'
 import type { CharacterSprites } from '../sprites/spriteData.js'
-import { findPath } from '../layout/tileMap.js'
+import type { PathGrid, TilePath } from '../layout/tileMap.js'
+import type { TileReservations } from './tileReservations.js'
 import {
   WALK_SPEED_PX_PER_SEC,
   WALK_FRAME_DURATION_SEC,
   TYPE_FRAME_DURATION_SEC,
+  THINK_FRAME_DURATION_SEC,
+  REACTION_FRAME_DURATION_SEC,
+  SLEEP_FRAME_DURATION_SEC,
+  THINK_AFTER_SEC,
+  SLEEP_AFTER_IDLE_SEC,
   WANDER_PAUSE_MIN_SEC,
   WANDER_PAUSE_MAX_SEC,
   WANDER_MOVES_BEFORE_REST_MIN,
   WANDER_MOVES_BEFORE_REST_MAX,
   SEAT_REST_MIN_SEC,
   SEAT_REST_MAX_SEC,
+  COLLISION_WAIT_SEC,
+  COLLISION_DETOUR_MAX_TILES,
+  COLLISION_SIDESTEP_SEC,
+  COLLISION_GIVE_UP_SEC,
+  IDLE_ACTIVITY_WEIGHTS,
+  CHAT_DWELL_MIN_SEC,
+  CHAT_DWELL_MAX_SEC,
 } from '../../constants.js'
 
-/** Tools that show reading animation instead of typing */
-const READING_TOOLS = new Set(['Read', 'Grep', 'Glob', 'WebFetch', 'WebSearch'])
+/** Activity kinds that show reading animation instead of typing */
+const READING_ACTIVITIES = new Set<ActivityKind>([ActivityKind.READ, ActivityKind.SEARCH, ActivityKind.WEB])
 
-export function isReadingTool(tool: string | null): boolean {
-  if (!tool) return false
-  return READING_TOOLS.has(tool)
+export function isReadingTool(activity: ActivityKind | null): boolean {
+  if (!activity) return false
+  return READING_ACTIVITIES.has(activity)
+}
+
+/** States drawn sitting in the chair (lowered by the sitting offset) */
+export function isSittingState(state: CharacterState): boolean {
+  return state === CharacterState.TYPE || state === CharacterState.THINK || state === CharacterState.SLEEP
 }
 
 /** Pixel center of a tile */
@@ -30,7 +48,7 @@ function tileCenter(col: number, row: number): { x: number; y: number } {
   }
 }
 
-/** Direction from one tile to an adjacent tile */
+/** Direction from one tile to an adjacent tile (diagonal steps face sideways) */
 function directionBetween(fromCol: number, fromRow: number, toCol: number, toRow: number): Direction {
   const dc = toCol - fromCol
   const dr = toRow - fromRow
@@ -60,7 +78,11 @@ export function createCharacter(
     tileRow: row,
     path: [],
     moveProgress: 0,
+    blockedTimer: 0,
+    stateTimer: 0,
+    idleTime: 0,
     currentTool: null,
+    currentActivity: null,
     palette,
     hueShift,
     frame: 0,
@@ -72,24 +94,49 @@ export function createCharacter(
     seatId,
     bubbleType: null,
     bubbleTimer: 0,
+    bubbleText: null,
+    bubbleQueue: [],
+    textBubbles: true,
     seatTimer: 0,
     isSubagent: false,
     parentAgentId: null,
     matrixEffect: null,
     matrixEffectTimer: 0,
     matrixEffectSeeds: [],
+    accessories: [],
+    idlePlan: null,
+    interaction: null,
+    messageLink: null,
+    floor: seat ? seat.floor : 0,
+    travel: null,
   }
 }
 
+/** What an idle character can get up to on its floor */
+export interface IdleOptions {
+  /** Tiles to wander to */
+  wanderTiles: Array<{ col: number; row: number }>
+  /** Interaction points of the floor's furniture */
+  spots: InteractionSpot[]
+  /** Other idle characters on the floor, who might stop for a chat */
+  idlers: Character[]
+}
+
 export function updateCharacter(
   ch: Character,
   dt: number,
-  walkableTiles: Array<{ col: number; row: number }>,
+  idle: IdleOptions,
   seats: Map<string, Seat>,
-  tileMap: TileTypeVal[][],
-  blockedTiles: Set<string>,
+  paths: PathGrid,
+  traffic: TileReservations,
 ): void {
   ch.frameTimer += dt
+  // Own seat is blocked for everyone else but not for its owner
+  const ownSeat = ch.seatId ? seats.get(ch.seatId) : undefined
+  const through = ownSeat ? { col: ownSeat.seatCol, row: ownSeat.seatRow } : null
+  const findPath = (col: number, row: number) => paths.findPath(ch.tileCol, ch.tileRow, col, row, through)
+  const atSeat = through !== null && ch.tileCol === through.col && ch.tileRow === through.row
+  ch.idleTime = ch.isActive ? 0 : ch.idleTime + dt
 
   switch (ch.state) {
     case CharacterState.TYPE: {
@@ -97,29 +144,74 @@ export function updateCharacter(
         ch.frameTimer -= TYPE_FRAME_DURATION_SEC
         ch.frame = (ch.frame + 1) % 2
       }
+      if (ch.isActive) {
+        // Mid-turn with no tool running for a while — the agent is thinking
+        ch.stateTimer = ch.currentTool ? 0 : ch.stateTimer + dt
+        if (ch.stateTimer >= THINK_AFTER_SEC) enterState(ch, CharacterState.THINK)
+        break
+      }
       // If no longer active, stand up and start wandering (after seatTimer expires)
-      if (!ch.isActive) {
-        if (ch.seatTimer > 0) {
-          ch.seatTimer -= dt
-          break
-        }
-        ch.seatTimer = 0 // clear sentinel
-        ch.state = CharacterState.IDLE
-        ch.frame = 0
-        ch.frameTimer = 0
+      if (ch.seatTimer > 0) {
+        ch.seatTimer -= dt
+        // A rest long after the last turn ends in a nap
+        if (atSeat && ch.idleTime >= SLEEP_AFTER_IDLE_SEC) enterState(ch, CharacterState.SLEEP)
+        break
+      }
+      ch.seatTimer = 0 // clear sentinel
+      ch.state = CharacterState.IDLE
+      ch.frame = 0
+      ch.frameTimer = 0
+      ch.wanderTimer = randomRange(WANDER_PAUSE_MIN_SEC, WANDER_PAUSE_MAX_SEC)
+      ch.wanderCount = 0
+      ch.wanderLimit = randomInt(WANDER_MOVES_BEFORE_REST_MIN, WANDER_MOVES_BEFORE_REST_MAX)
+      break
+    }
+
+    case CharacterState.THINK: {
+      if (ch.frameTimer >= THINK_FRAME_DURATION_SEC) {
+        ch.frameTimer -= THINK_FRAME_DURATION_SEC
+        ch.frame = (ch.frame + 1) % 2
+      }
+      // Back to typing once a tool starts; typing also handles the end of the turn
+      if (ch.currentTool || !ch.isActive) enterState(ch, CharacterState.TYPE)
+      break
+    }
+
+    case CharacterState.SLEEP: {
+      if (ch.frameTimer >= SLEEP_FRAME_DURATION_SEC) {
+        ch.frameTimer -= SLEEP_FRAME_DURATION_SEC
+        ch.frame = (ch.frame + 1) % 2
+      }
+      // Woken by the next turn
+      if (ch.isActive) enterState(ch, CharacterState.TYPE)
+      break
+    }
+
+    case CharacterState.ERROR:
+    case CharacterState.CELEBRATE: {
+      if (ch.frameTimer >= REACTION_FRAME_DURATION_SEC) {
+        ch.frameTimer -= REACTION_FRAME_DURATION_SEC
+        ch.frame = (ch.frame + 1) % 2
+      }
+      ch.stateTimer -= dt
+      if (ch.stateTimer > 0) break
+      // Sit back down at the desk (or type in place without one), or carry on idling
+      if (atSeat || (!ch.seatId && ch.isActive)) {
+        enterState(ch, CharacterState.TYPE)
+        if (ownSeat) ch.dir = ownSeat.facingDir
+      } else {
+        enterState(ch, CharacterState.IDLE)
         ch.wanderTimer = randomRange(WANDER_PAUSE_MIN_SEC, WANDER_PAUSE_MAX_SEC)
-        ch.wanderCount = 0
-        ch.wanderLimit = randomInt(WANDER_MOVES_BEFORE_REST_MIN, WANDER_MOVES_BEFORE_REST_MAX)
       }
       break
     }
 
     case CharacterState.IDLE: {
-      // No idle animation — static pose
-      ch.frame = 0
       if (ch.seatTimer < 0) ch.seatTimer = 0 // clear turn-end sentinel
       // If became active, pathfind to seat
       if (ch.isActive) {
+        ch.idlePlan = null
+        ch.frame = 0
         if (!ch.seatId) {
           // No seat assigned — type in place
           ch.state = CharacterState.TYPE
@@ -129,7 +221,7 @@ export function updateCharacter(
         }
         const seat = seats.get(ch.seatId)
         if (seat) {
-          const path = findPath(ch.tileCol, ch.tileRow, seat.seatCol, seat.seatRow, tileMap, blockedTiles)
+          const path = findPath(seat.seatCol, seat.seatRow)
           if (path.length > 0) {
             ch.path = path
             ch.moveProgress = 0
@@ -146,6 +238,29 @@ export function updateCharacter(
         }
         break
       }
+      const plan = ch.idlePlan
+      if (plan) {
+        if (ch.tileCol === plan.col && ch.tileRow === plan.row) {
+          // Lingering at the spot
+          ch.dir = plan.facing
+          if (plan.anim === InteractionAnim.STAND) {
+            ch.frame = 0
+          } else if (ch.frameTimer >= TYPE_FRAME_DURATION_SEC) {
+            ch.frameTimer -= TYPE_FRAME_DURATION_SEC
+            ch.frame = (ch.frame + 1) % 2
+          }
+          plan.dwell -= dt
+          if (plan.dwell > 0) break
+          ch.wanderCount++
+        }
+        // Done — or never made it there
+        ch.idlePlan = null
+        ch.frame = 0
+        ch.wanderTimer = randomRange(WANDER_PAUSE_MIN_SEC, WANDER_PAUSE_MAX_SEC)
+        break
+      }
+      // No idle animation — static pose
+      ch.frame = 0
       // Countdown wander timer
       ch.wanderTimer -= dt
       if (ch.wanderTimer <= 0) {
@@ -153,7 +268,7 @@ export function updateCharacter(
         if (ch.wanderCount >= ch.wanderLimit && ch.seatId) {
           const seat = seats.get(ch.seatId)
           if (seat) {
-            const path = findPath(ch.tileCol, ch.tileRow, seat.seatCol, seat.seatRow, tileMap, blockedTiles)
+            const path = findPath(seat.seatCol, seat.seatRow)
             if (path.length > 0) {
               ch.path = path
               ch.moveProgress = 0
@@ -164,18 +279,7 @@ export function updateCharacter(
             }
           }
         }
-        if (walkableTiles.length > 0) {
-          const target = walkableTiles[Math.floor(Math.random() * walkableTiles.length)]
-          const path = findPath(ch.tileCol, ch.tileRow, target.col, target.row, tileMap, blockedTiles)
-          if (path.length > 0) {
-            ch.path = path
-            ch.moveProgress = 0
-            ch.state = CharacterState.WALK
-            ch.frame = 0
-            ch.frameTimer = 0
-            ch.wanderCount++
-          }
-        }
+        planIdle(ch, idle, paths, traffic, findPath)
         ch.wanderTimer = randomRange(WANDER_PAUSE_MIN_SEC, WANDER_PAUSE_MAX_SEC)
       }
       break
@@ -236,11 +340,18 @@ export function updateCharacter(
         break
       }
 
-      // Move toward next tile in path
+      // Move toward next tile in path, once it's ours
       const nextTile = ch.path[0]
       ch.dir = directionBetween(ch.tileCol, ch.tileRow, nextTile.col, nextTile.row)
+      if (ch.moveProgress === 0 && ch.blockedTimer < COLLISION_GIVE_UP_SEC && !traffic.reserve(ch.id, nextTile.col, nextTile.row)) {
+        stepBlocked(ch, dt, paths, traffic, through)
+        break
+      }
+      ch.blockedTimer = 0
 
-      ch.moveProgress += (WALK_SPEED_PX_PER_SEC / TILE_SIZE) * dt
+      // Diagonal steps are √2 tiles long
+      const stepLength = nextTile.col !== ch.tileCol && nextTile.row !== ch.tileRow ? Math.SQRT2 : 1
+      ch.moveProgress += (WALK_SPEED_PX_PER_SEC / TILE_SIZE / stepLength) * dt
 
       const fromCenter = tileCenter(ch.tileCol, ch.tileRow)
       const toCenter = tileCenter(nextTile.col, nextTile.row)
@@ -250,6 +361,7 @@ export function updateCharacter(
 
       if (ch.moveProgress >= 1) {
         // Arrived at next tile
+        traffic.release(ch.id, ch.tileCol, ch.tileRow)
         ch.tileCol = nextTile.col
         ch.tileRow = nextTile.row
         ch.x = toCenter.x
@@ -258,13 +370,14 @@ export function updateCharacter(
         ch.moveProgress = 0
       }
 
-      // If became active while wandering, repath to seat
-      if (ch.isActive && ch.seatId) {
+      // If became active while wandering, repath to seat (unless off delivering a message)
+      if (ch.isActive) ch.idlePlan = null
+      if (ch.isActive && ch.seatId && !ch.interaction) {
         const seat = seats.get(ch.seatId)
         if (seat) {
           const lastStep = ch.path[ch.path.length - 1]
           if (!lastStep || lastStep.col !== seat.seatCol || lastStep.row !== seat.seatRow) {
-            const newPath = findPath(ch.tileCol, ch.tileRow, seat.seatCol, seat.seatRow, tileMap, blockedTiles)
+            const newPath = findPath(seat.seatCol, seat.seatRow)
             if (newPath.length > 0) {
               ch.path = newPath
               ch.moveProgress = 0
@@ -277,18 +390,214 @@ export function updateCharacter(
   }
 }
 
+function enterState(ch: Character, state: CharacterState): void {
+  ch.state = state
+  ch.frame = 0
+  ch.frameTimer = 0
+  ch.stateTimer = 0
+}
+
+function startWalk(ch: Character, path: TilePath): void {
+  ch.path = path
+  ch.moveProgress = 0
+  ch.state = CharacterState.WALK
+  ch.frame = 0
+  ch.frameTimer = 0
+}
+
+/**
+ * Choose what an idle character does next — fetch water, browse the books,
+ * stand at the whiteboard, chat with another idle character or just wander —
+ * weighted by IDLE_ACTIVITY_WEIGHTS among what's on offer, and set off.
+ * Pastimes that turn out to be out of reach are skipped for the next pick.
+ */
+function planIdle(
+  ch: Character,
+  idle: IdleOptions,
+  paths: PathGrid,
+  traffic: TileReservations,
+  findPath: (col: number, row: number) => TilePath,
+): void {
+  const free = (col: number, row: number) => {
+    const holder = traffic.holderAt(col, row)
+    return !holder || holder.id === ch.id
+  }
+  const spotsBy = new Map<IdleActivity, InteractionSpot[]>()
+  for (const spot of idle.spots) {
+    if (!free(spot.col, spot.row)) continue
+    const list = spotsBy.get(spot.activity)
+    if (list) list.push(spot)
+    else spotsBy.set(spot.activity, [spot])
+  }
+  const partners = idle.idlers.filter((o) => o.id !== ch.id && !o.idlePlan)
+
+  const options: IdleActivity[] = [...spotsBy.keys()]
+  if (partners.length > 0) options.push(IdleActivity.CHAT)
+  if (idle.wanderTiles.length > 0) options.push(IdleActivity.WANDER)
+
+  while (options.length > 0) {
+    const total = options.reduce((sum, a) => sum + IDLE_ACTIVITY_WEIGHTS[a], 0)
+    let roll = Math.random() * total
+    let pick = options.length - 1
+    for (let i = 0; i < options.length; i++) {
+      roll -= IDLE_ACTIVITY_WEIGHTS[options[i]]
+      if (roll < 0) {
+        pick = i
+        break
+      }
+    }
+    const activity = options.splice(pick, 1)[0]
+
+    if (activity === IdleActivity.WANDER) {
+      const target = idle.wanderTiles[Math.floor(Math.random() * idle.wanderTiles.length)]
+      // Someone's standing there — stay put this time
+      const path = free(target.col, target.row) ? findPath(target.col, target.row) : []
+      if (path.length > 0) {
+        startWalk(ch, path)
+        ch.wanderCount++
+      }
+      return
+    }
+
+    if (activity === IdleActivity.CHAT) {
+      const partner = partners[Math.floor(Math.random() * partners.length)]
+      // Closest free tile beside the partner
+      let best: { col: number; row: number; path: TilePath } | null = null
+      for (const [dc, dr] of [[0, 1], [0, -1], [1, 0], [-1, 0]]) {
+        const col = partner.tileCol + dc
+        const row = partner.tileRow + dr
+        const here = col === ch.tileCol && row === ch.tileRow
+        if (!here && (!paths.isWalkable(col, row) || !free(col, row))) continue
+        const path = here ? [] : findPath(col, row)
+        if (!here && path.length === 0) continue
+        if (!best || path.length < best.path.length) best = { col, row, path }
+      }
+      if (!best) continue
+      const dwell = randomRange(CHAT_DWELL_MIN_SEC, CHAT_DWELL_MAX_SEC)
+      ch.idlePlan = {
+        activity,
+        col: best.col,
+        row: best.row,
+        facing: directionBetween(best.col, best.row, partner.tileCol, partner.tileRow),
+        anim: InteractionAnim.STAND,
+        dwell,
+        partnerId: partner.id,
+      }
+      // The partner waits where it is for the walk over, then chats as long
+      partner.idlePlan = {
+        activity,
+        col: partner.tileCol,
+        row: partner.tileRow,
+        facing: directionBetween(partner.tileCol, partner.tileRow, best.col, best.row),
+        anim: InteractionAnim.STAND,
+        dwell: dwell + (best.path.length * TILE_SIZE) / WALK_SPEED_PX_PER_SEC,
+        partnerId: ch.id,
+      }
+      if (best.path.length > 0) startWalk(ch, best.path)
+      return
+    }
+
+    const spots = spotsBy.get(activity)!
+    const spot = spots[Math.floor(Math.random() * spots.length)]
+    const here = spot.col === ch.tileCol && spot.row === ch.tileRow
+    const path = here ? [] : findPath(spot.col, spot.row)
+    if (!here && path.length === 0) continue
+    ch.idlePlan = {
+      activity,
+      col: spot.col,
+      row: spot.row,
+      facing: spot.facing,
+      anim: spot.anim,
+      dwell: randomRange(spot.dwellMinSec, spot.dwellMaxSec),
+    }
+    if (path.length > 0) startWalk(ch, path)
+    return
+  }
+}
+
+/**
+ * The next tile is taken. Walkers get a moment to clear it; characters standing
+ * in the way are routed around straight away, or — when they're standing on
+ * the destination — the walk ends a tile short. Still stuck, the walker steps
+ * aside, and in the end passes through rather than lock up a corridor.
+ */
+function stepBlocked(
+  ch: Character,
+  dt: number,
+  paths: PathGrid,
+  traffic: TileReservations,
+  through: { col: number; row: number } | null,
+): void {
+  const next = ch.path[0]
+  const dest = ch.path[ch.path.length - 1]
+  const holder = traffic.holderAt(next.col, next.row)
+  const standing = holder !== undefined && !holder.moving
+  if (standing && ch.path.length === 1) {
+    ch.path = []
+    ch.blockedTimer = 0
+    return
+  }
+
+  const before = ch.blockedTimer
+  ch.blockedTimer += dt
+  ch.frame = 1
+  ch.frameTimer = 0
+  const crossed = (sec: number) => before <= sec && ch.blockedTimer > sec
+
+  // Of two walkers in each other's way, only one (the higher id) reroutes, or they'd mirror each other
+  if (crossed(standing ? 0 : COLLISION_WAIT_SEC) && (standing || holder === undefined || ch.id > holder.id)) {
+    const avoid = traffic.standingTiles(ch.id)
+    avoid.add(`${next.col},${next.row}`)
+    const detour = paths.findPath(ch.tileCol, ch.tileRow, dest.col, dest.row, through, avoid)
+    if (detour.length > 0 && detour.length <= ch.path.length + COLLISION_DETOUR_MAX_TILES) {
+      ch.path = detour
+      ch.blockedTimer = 0
+    }
+    return
+  }
+
+  if (crossed(COLLISION_SIDESTEP_SEC)) {
+    // Step to a free tile beside the path, then carry on from there
+    const sides = next.col !== ch.tileCol ? [[0, -1], [0, 1]] : [[-1, 0], [1, 0]]
+    for (const [dc, dr] of sides) {
+      const col = ch.tileCol + dc
+      const row = ch.tileRow + dr
+      if (!paths.isWalkable(col, row) || traffic.holderAt(col, row)) continue
+      const rest: TilePath = col === dest.col && row === dest.row ? [] : paths.findPath(col, row, dest.col, dest.row, through)
+      ch.path = [{ col, row }, ...rest]
+      ch.blockedTimer = 0
+      return
+    }
+  }
+}
+
 /** Get the correct sprite frame for a character's current state and direction */
 export function getCharacterSprite(ch: Character, sprites: CharacterSprites): SpriteData {
   switch (ch.state) {
     case CharacterState.TYPE:
-      if (isReadingTool(ch.currentTool)) {
+      if (isReadingTool(ch.currentActivity)) {
         return sprites.reading[ch.dir][ch.frame % 2]
       }
       return sprites.typing[ch.dir][ch.frame % 2]
     case CharacterState.WALK:
       return sprites.walk[ch.dir][ch.frame % 4]
-    case CharacterState.IDLE:
+    case CharacterState.IDLE: {
+      // Lingering at a bookshelf or whiteboard
+      const plan = ch.idlePlan
+      if (plan && ch.tileCol === plan.col && ch.tileRow === plan.row) {
+        if (plan.anim === InteractionAnim.READ) return sprites.reading[ch.dir][ch.frame % 2]
+        if (plan.anim === InteractionAnim.TYPE) return sprites.typing[ch.dir][ch.frame % 2]
+      }
       return sprites.walk[ch.dir][1]
+    }
+    case CharacterState.THINK:
+      return sprites.thinking[ch.dir][ch.frame % 2]
+    case CharacterState.ERROR:
+      return sprites.error[ch.dir][ch.frame % 2]
+    case CharacterState.CELEBRATE:
+      return sprites.celebrate[ch.dir][ch.frame % 2]
+    case CharacterState.SLEEP:
+      return sprites.sleeping[ch.dir][ch.frame % 2]
     default:
       return sprites.walk[ch.dir][1]
   }
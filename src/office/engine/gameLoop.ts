@@ -12,6 +12,16 @@ export function startGameLoop(
   const ctx = canvas.getContext('2d')!
   ctx.imageSmoothingEnabled = false
 
+  return startFrameLoop((dt) => {
+    callbacks.update(dt)
+
+    ctx.imageSmoothingEnabled = false
+    callbacks.render(ctx)
+  })
+}
+
+/** Call `tick` once per animation frame with the clamped time since the last one; returns a stop function */
+export function startFrameLoop(tick: (dt: number) => void): () => void {
   let lastTime = 0
   let rafId = 0
   let stopped = false
@@ -21,10 +31,7 @@ export function startGameLoop(
     const dt = lastTime === 0 ? 0 : Math.min((time - lastTime) / 1000, MAX_DELTA_TIME_SEC)
     lastTime = time
 
-    callbacks.update(dt)
-
-    ctx.imageSmoothingEnabled = false
-    callbacks.render(ctx)
+    tick(dt)
 
     rafId = requestAnimationFrame(frame)
   }
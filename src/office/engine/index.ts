@@ -1,9 +1,12 @@
-export { createCharacter, updateCharacter, getCharacterSprite, isReadingTool } from './characters.js'
+export { createCharacter, updateCharacter, getCharacterSprite, isReadingTool, isSittingState } from './characters.js'
+export type { IdleOptions } from './characters.js'
 export { OfficeState } from './officeState.js'
-export { startGameLoop } from './gameLoop.js'
+export { startGameLoop, startFrameLoop } from './gameLoop.js'
 export type { GameLoopCallbacks } from './gameLoop.js'
+export { SimulationClock } from './simulationClock.js'
 export {
   renderFrame,
+  drawFrame,
   renderTileGrid,
   renderScene,
   renderGridOverlay,
@@ -11,4 +14,5 @@ export {
   renderSelectionHighlight,
   renderDeleteButton,
 } from './renderer.js'
-export type { EditorRenderState, SelectionRenderState, DeleteButtonBounds } from './renderer.js'
+export type { EditorRenderState, SelectionRenderState, DeleteButtonBounds, FrameInput } from './renderer.js'
+export { WorkerRenderer, acquireWorkerRenderer, isWorkerRendererRequested } from './workerRenderer.js'
@@ -1,5 +1,6 @@
 import type { Character, SpriteData } from '../types.js'
 import { MATRIX_EFFECT_DURATION } from '../types.js'
+import { pixelColor } from '../sprites/packedSprite.js'
 import {
   MATRIX_TRAIL_LENGTH,
   MATRIX_SPRITE_COLS,
@@ -55,8 +56,8 @@ export function renderMatrixEffect(
     const headRow = colProgress * totalSweep
 
     for (let row = 0; row < MATRIX_SPRITE_ROWS; row++) {
-      const pixel = spriteData[row]?.[col]
-      const hasPixel = pixel && pixel !== ''
+      const pixel = pixelColor(spriteData, col, row)
+      const hasPixel = pixel !== null
       const distFromHead = headRow - row
       const px = drawX + col * zoom
       const py = drawY + row * zoom
@@ -1,4 +1,4 @@
-import { TILE_SIZE, MATRIX_EFFECT_DURATION, CharacterState, Direction } from '../types.js'
+import { TILE_SIZE, MAX_COLS, MAX_ROWS, MATRIX_EFFECT_DURATION, CharacterState, Direction } from '../types.js'
 import {
   PALETTE_COUNT,
   HUE_SHIFT_MIN_DEG,
@@ -12,27 +12,107 @@ import {
   CHARACTER_SITTING_OFFSET_PX,
   CHARACTER_HIT_HALF_WIDTH,
   CHARACTER_HIT_HEIGHT,
+  MESSAGE_DELIVER_SEC,
+  MESSAGE_BUBBLE_DURATION_SEC,
+  MESSAGE_LINK_DURATION_SEC,
+  WANDER_SAME_ROOM_CHANCE,
+  PATH_ALLOW_DIAGONAL,
+  PATH_CACHE_MAX_ENTRIES,
+  ERROR_REACTION_SEC,
+  CELEBRATE_SEC,
+  TEXT_BUBBLE_DURATION_SEC,
+  TEXT_BUBBLE_QUEUE_MAX,
+  TEXT_BUBBLE_MAX_CHARS,
+  INTERPOLATION_SNAP_PX,
 } from '../../constants.js'
-import type { Character, Seat, FurnitureInstance, TileType as TileTypeVal, OfficeLayout, PlacedFurniture } from '../types.js'
-import { createCharacter, updateCharacter } from './characters.js'
+import type { ActivityKind, AgentAccessory, Character, Seat, FurnitureInstance, TileType as TileTypeVal, OfficeLayout, OfficeBuilding, PlacedFurniture, FloorZone, Room, Portal, InteractionSpot } from '../types.js'
+import { createCharacter, updateCharacter, isSittingState } from './characters.js'
 import { matrixEffectSeeds } from './matrixEffect.js'
-import { isWalkable, getWalkableTiles, findPath } from '../layout/tileMap.js'
+import { TileReservations } from './tileReservations.js'
+import { SimulationClock } from './simulationClock.js'
+import { isWalkable, getWalkableTiles, PathGrid } from '../layout/tileMap.js'
+import type { TilePath } from '../layout/tileMap.js'
 import {
-  createDefaultLayout,
+  createDefaultBuilding,
   layoutToTileMap,
   layoutToFurnitureInstances,
   layoutToSeats,
+  layoutToPortals,
+  layoutToInteractionSpots,
   getBlockedTiles,
+  directoryContains,
 } from '../layout/layoutSerializer.js'
 import { getCatalogEntry, getOnStateType } from '../layout/furnitureCatalog.js'
+import { detectRooms } from '../layout/rooms.js'
+import { invalidateSprites } from '../sprites/spriteCache.js'
+import type { RoomMap } from '../layout/rooms.js'
 
-export class OfficeState {
+/** Whether an agent is on the branch or worktree a zone is tied to */
+function zoneMatchesAgent(zone: FloorZone, agent: Pick<Character, 'cwd' | 'worktree' | 'branch'>): boolean {
+  if (!zone.worktree) return false
+  if (agent.branch === zone.worktree) return true
+  const path = agent.worktree ?? agent.cwd
+  return !!path && directoryContains(zone.worktree, path)
+}
+
+/** Furniture with anything overlapping an auto-on tile switched to its "on" variant */
+function applyAutoOn(furniture: PlacedFurniture[], autoOnTiles: Set<string>): PlacedFurniture[] {
+  if (autoOnTiles.size === 0) return furniture
+  return furniture.map((item) => {
+    const entry = getCatalogEntry(item.type)
+    if (!entry) return item
+    // Check if any tile of this furniture overlaps an auto-on tile
+    for (let dr = 0; dr < entry.footprintH; dr++) {
+      for (let dc = 0; dc < entry.footprintW; dc++) {
+        if (autoOnTiles.has(`${item.col + dc},${item.row + dr}`)) {
+          const onType = getOnStateType(item.type)
+          if (onType !== item.type) {
+            return { ...item, type: onType }
+          }
+          return item
+        }
+      }
+    }
+    return item
+  })
+}
+
+/** Everything derived from one floor's layout */
+interface FloorState {
   layout: OfficeLayout
   tileMap: TileTypeVal[][]
+  /** Seats on this floor (the same objects as in OfficeState.seats) */
   seats: Map<string, Seat>
   blockedTiles: Set<string>
+  /** Pathfinding over this floor, kept across rebuilds so its cache survives edits that don't move walls or furniture */
+  paths: PathGrid
+  /** Tiles characters stand on or are stepping into, refreshed every update */
+  traffic: TileReservations
   furniture: FurnitureInstance[]
+  /** Auto-on tiles the furniture was last built with, so unchanged sets skip the rebuild */
+  autoOnKey: string | null
   walkableTiles: Array<{ col: number; row: number }>
+  rooms: RoomMap
+  /** Walkable tiles of each room, indexed by room id */
+  roomWalkableTiles: Array<Array<{ col: number; row: number }>>
+  /** Folder each room hosts (assigned in the editor or auto-assigned), indexed by room id */
+  roomFolders: Array<string | null>
+  portals: Portal[]
+  /** Where idle characters can use the floor's furniture */
+  spots: InteractionSpot[]
+}
+
+export class OfficeState {
+  /** Floors, ground floor first */
+  private floors: FloorState[] = []
+  /** Floor shown on screen (and edited in the editor) */
+  currentFloor = 0
+  /** Seats on every floor */
+  seats: Map<string, Seat> = new Map()
+  /** Workspace folder names, in the host's order */
+  workspaceFolders: string[] = []
+  /** Workspace folder singled out in the legend; agents outside it are dimmed */
+  focusedFolder: string | null = null
   characters: Map<number, Character> = new Map()
   selectedAgentId: number | null = null
   cameraFollowId: number | null = null
@@ -43,29 +123,97 @@ export class OfficeState {
   /** Reverse lookup: sub-agent character ID → parent info */
   subagentMeta: Map<number, { parentAgentId: number; parentToolId: string }> = new Map()
   private nextSubagentId = -1
+  /** Runs update() in fixed ticks; paused, sped up or stepped from the debug view */
+  readonly clock = new SimulationClock()
+  /** Where each character was before the latest tick, to draw it between ticks */
+  private lastTickPositions = new Map<number, { x: number; y: number }>()
+
+  constructor(building?: OfficeBuilding) {
+    this.loadBuilding(building || createDefaultBuilding())
+  }
+
+  /** Tile map of the floor on screen */
+  get tileMap(): TileTypeVal[][] {
+    return this.view.tileMap
+  }
+
+  /** Furniture of the floor on screen */
+  get furniture(): FurnitureInstance[] {
+    return this.view.furniture
+  }
 
-  constructor(layout?: OfficeLayout) {
-    this.layout = layout || createDefaultLayout()
-    this.tileMap = layoutToTileMap(this.layout)
-    this.seats = layoutToSeats(this.layout.furniture)
-    this.blockedTiles = getBlockedTiles(this.layout.furniture)
-    this.furniture = layoutToFurnitureInstances(this.layout.furniture)
-    this.walkableTiles = getWalkableTiles(this.tileMap, this.blockedTiles)
+  /** Rooms of the floor on screen */
+  get rooms(): RoomMap {
+    return this.view.rooms
   }
 
-  /** Rebuild all derived state from a new layout. Reassigns existing characters.
+  private get view(): FloorState {
+    return this.floors[this.currentFloor]
+  }
+
+  private floorOf(ch: Character): FloorState {
+    return this.floors[ch.floor] ?? this.floors[0]
+  }
+
+  /** Replace every floor (layout loaded, undo/redo). Reassigns existing characters. */
+  loadBuilding(building: OfficeBuilding): void {
+    this.rebuild(building.floors)
+  }
+
+  /** Replace the layout of the floor on screen. Reassigns existing characters.
    *  @param shift Optional pixel shift to apply when grid expands left/up */
   rebuildFromLayout(layout: OfficeLayout, shift?: { col: number; row: number }): void {
-    this.layout = layout
-    this.tileMap = layoutToTileMap(layout)
-    this.seats = layoutToSeats(layout.furniture)
-    this.blockedTiles = getBlockedTiles(layout.furniture)
-    this.rebuildFurnitureInstances()
-    this.walkableTiles = getWalkableTiles(this.tileMap, this.blockedTiles)
+    const layouts = this.floors.map((f) => f.layout)
+    layouts[this.currentFloor] = layout
+    this.rebuild(layouts, shift)
+  }
+
+  private buildFloor(layout: OfficeLayout, index: number, paths?: PathGrid): FloorState {
+    const tileMap = layoutToTileMap(layout)
+    const blockedTiles = getBlockedTiles(layout.furniture)
+    if (paths) paths.update(tileMap, blockedTiles)
+    else paths = new PathGrid(tileMap, blockedTiles, { diagonal: PATH_ALLOW_DIAGONAL, cacheSize: PATH_CACHE_MAX_ENTRIES })
+    const walkableTiles = getWalkableTiles(tileMap, blockedTiles)
+    const rooms = detectRooms(layout)
+    const roomWalkableTiles: Array<Array<{ col: number; row: number }>> = rooms.rooms.map(() => [])
+    for (const t of walkableTiles) {
+      const id = rooms.tileRoom[t.row * layout.cols + t.col]
+      if (id >= 0) roomWalkableTiles[id].push(t)
+    }
+    return {
+      layout,
+      tileMap,
+      seats: layoutToSeats(layout.furniture, index),
+      blockedTiles,
+      paths,
+      traffic: new TileReservations(),
+      furniture: [],
+      autoOnKey: null,
+      walkableTiles,
+      rooms,
+      roomWalkableTiles,
+      roomFolders: rooms.rooms.map((r) => r.folder),
+      portals: layoutToPortals(layout),
+      spots: layoutToInteractionSpots(layout),
+    }
+  }
+
+  /** Rebuild all derived state from the floors' layouts. Reassigns existing characters. */
+  private rebuild(layouts: OfficeLayout[], shift?: { col: number; row: number }): void {
+    // Furniture is recolored from scratch below, so colors no longer in the layout don't linger
+    invalidateSprites('furniture')
+    this.floors = layouts.map((layout, i) => this.buildFloor(layout, i, this.floors[i]?.paths))
+    this.currentFloor = Math.min(this.currentFloor, this.floors.length - 1)
+    this.seats = new Map()
+    for (const floor of this.floors) {
+      for (const [uid, seat] of floor.seats) this.seats.set(uid, seat)
+    }
+    this.rebuildRoomFolders()
 
     // Shift character positions when grid expands left/up
     if (shift && (shift.col !== 0 || shift.row !== 0)) {
       for (const ch of this.characters.values()) {
+        if (ch.floor !== this.currentFloor) continue
         ch.tileCol += shift.col
         ch.tileRow += shift.row
         ch.x += shift.col * TILE_SIZE
@@ -76,6 +224,16 @@ export class OfficeState {
       }
     }
 
+    // Trips between floors are replanned against the new layout
+    for (const ch of this.characters.values()) {
+      ch.travel = null
+      if (ch.floor >= this.floors.length) {
+        // Floor was removed — move down to the ground floor
+        ch.floor = 0
+        this.relocateCharacterToWalkable(ch)
+      }
+    }
+
     // Reassign characters to new seats, preserving existing assignments when possible
     for (const seat of this.seats.values()) {
       seat.assigned = false
@@ -87,14 +245,7 @@ export class OfficeState {
         const seat = this.seats.get(ch.seatId)!
         if (!seat.assigned) {
           seat.assigned = true
-          // Snap character to seat position
-          ch.tileCol = seat.seatCol
-          ch.tileRow = seat.seatRow
-          const cx = seat.seatCol * TILE_SIZE + TILE_SIZE / 2
-          const cy = seat.seatRow * TILE_SIZE + TILE_SIZE / 2
-          ch.x = cx
-          ch.y = cy
-          ch.dir = seat.facingDir
+          this.placeAtSeat(ch, seat)
           continue
         }
       }
@@ -104,32 +255,43 @@ export class OfficeState {
     // Second pass: assign remaining characters to free seats
     for (const ch of this.characters.values()) {
       if (ch.seatId) continue
-      const seatId = this.findFreeSeat()
+      const seatId = this.findFreeSeat(ch)
       if (seatId) {
-        this.seats.get(seatId)!.assigned = true
-        ch.seatId = seatId
         const seat = this.seats.get(seatId)!
-        ch.tileCol = seat.seatCol
-        ch.tileRow = seat.seatRow
-        ch.x = seat.seatCol * TILE_SIZE + TILE_SIZE / 2
-        ch.y = seat.seatRow * TILE_SIZE + TILE_SIZE / 2
-        ch.dir = seat.facingDir
+        seat.assigned = true
+        ch.seatId = seatId
+        this.placeAtSeat(ch, seat)
       }
     }
 
     // Relocate any characters that ended up outside bounds or on non-walkable tiles
     for (const ch of this.characters.values()) {
       if (ch.seatId) continue // seated characters are fine
+      const { layout } = this.floorOf(ch)
       if (ch.tileCol < 0 || ch.tileCol >= layout.cols || ch.tileRow < 0 || ch.tileRow >= layout.rows) {
         this.relocateCharacterToWalkable(ch)
       }
     }
+
+    this.rebuildFurnitureInstances()
+  }
+
+  /** Snap a character onto a seat, on whichever floor it is */
+  private placeAtSeat(ch: Character, seat: Seat): void {
+    ch.floor = seat.floor
+    ch.tileCol = seat.seatCol
+    ch.tileRow = seat.seatRow
+    ch.x = seat.seatCol * TILE_SIZE + TILE_SIZE / 2
+    ch.y = seat.seatRow * TILE_SIZE + TILE_SIZE / 2
+    ch.dir = seat.facingDir
+    ch.travel = null
   }
 
-  /** Move a character to a random walkable tile */
+  /** Move a character to a random walkable tile on its floor */
   private relocateCharacterToWalkable(ch: Character): void {
-    if (this.walkableTiles.length === 0) return
-    const spawn = this.walkableTiles[Math.floor(Math.random() * this.walkableTiles.length)]
+    const { walkableTiles } = this.floorOf(ch)
+    if (walkableTiles.length === 0) return
+    const spawn = walkableTiles[Math.floor(Math.random() * walkableTiles.length)]
     ch.tileCol = spawn.col
     ch.tileRow = spawn.row
     ch.x = spawn.col * TILE_SIZE + TILE_SIZE / 2
@@ -138,34 +300,199 @@ export class OfficeState {
     ch.moveProgress = 0
   }
 
+  /** Layout of the floor on screen */
   getLayout(): OfficeLayout {
-    return this.layout
+    return this.view.layout
   }
 
-  /** Get the blocked-tile key for a character's own seat, or null */
-  private ownSeatKey(ch: Character): string | null {
-    if (!ch.seatId) return null
-    const seat = this.seats.get(ch.seatId)
-    if (!seat) return null
-    return `${seat.seatCol},${seat.seatRow}`
+  /** Every floor's layout, as saved */
+  getBuilding(): OfficeBuilding {
+    return { version: 2, floors: this.floors.map((f) => f.layout) }
+  }
+
+  get floorCount(): number {
+    return this.floors.length
+  }
+
+  /** Display name of a floor: its given name, or a numbered placeholder */
+  getFloorName(index: number): string {
+    return this.floors[index]?.layout.name || `Floor ${index + 1}`
+  }
+
+  /** Show another floor; stops following an agent who isn't on it */
+  setCurrentFloor(index: number): void {
+    if (index < 0 || index >= this.floors.length || index === this.currentFloor) return
+    this.currentFloor = index
+    this.hoveredTile = null
+    this.hoveredAgentId = null
+    const followed = this.cameraFollowId !== null ? this.characters.get(this.cameraFollowId) : undefined
+    if (followed && followed.floor !== index) this.cameraFollowId = null
+  }
+
+  /** Seats on the floor on screen */
+  getFloorSeats(): Map<string, Seat> {
+    return this.view.seats
   }
 
-  /** Temporarily unblock a character's own seat, run fn, then re-block */
-  private withOwnSeatUnblocked<T>(ch: Character, fn: () => T): T {
-    const key = this.ownSeatKey(ch)
-    if (key) this.blockedTiles.delete(key)
-    const result = fn()
-    if (key) this.blockedTiles.add(key)
-    return result
+  /** A character's own seat, or null */
+  private ownSeat(ch: Character): Seat | null {
+    return (ch.seatId && this.seats.get(ch.seatId)) || null
   }
 
-  private findFreeSeat(): string | null {
+  /** Path on a character's floor; its own seat is walkable to it (blocked for everyone else) */
+  private findPathFor(ch: Character, col: number, row: number): TilePath {
+    const seat = this.ownSeat(ch)
+    const through = seat && seat.floor === ch.floor ? { col: seat.seatCol, row: seat.seatRow } : null
+    return this.floorOf(ch).paths.findPath(ch.tileCol, ch.tileRow, col, row, through)
+  }
+
+  /**
+   * Pick a free seat for an agent. A desk bound to its working directory comes
+   * first (most specific binding wins), then its worktree's zone, then its
+   * workspace folder's room. Seats claimed by other directories, worktrees or
+   * folders are used only when nothing else is free. Ties go to the lowest
+   * floor, so agents spill onto the next floor once one is full.
+   */
+  private findFreeSeat(agent?: Pick<Character, 'cwd' | 'worktree' | 'branch' | 'folderName'>): string | null {
+    let best: string | null = null
+    let bestScore = -1
+    let bestDirLength = -1
     for (const [uid, seat] of this.seats) {
-      if (!seat.assigned) return uid
+      if (seat.assigned) continue
+      const dirMatch = !!seat.directory && !!agent?.cwd && directoryContains(seat.directory, agent.cwd)
+      const zone = this.getZoneAtTile(seat.seatCol, seat.seatRow, seat.floor)
+      const claimedZone = zone?.worktree ? zone : null
+      const zoneMatch = !!claimedZone && !!agent && zoneMatchesAgent(claimedZone, agent)
+      const roomFolder = this.getFolderAtTile(seat.seatCol, seat.seatRow, seat.floor)
+      const folderMatch = !!roomFolder && roomFolder === agent?.folderName
+      const score = (dirMatch ? 4 : seat.directory ? 0 : 2) + (zoneMatch ? 2 : claimedZone ? 0 : 1) + (folderMatch ? 2 : roomFolder ? 0 : 1)
+      const dirLength = dirMatch ? seat.directory!.length : 0
+      if (score > bestScore || (score === bestScore && dirLength > bestDirLength)) {
+        best = uid
+        bestScore = score
+        bestDirLength = dirLength
+      }
+    }
+    return best
+  }
+
+  /** Zone covering a tile (on the floor on screen unless given), or null */
+  getZoneAtTile(col: number, row: number, floor = this.currentFloor): FloorZone | null {
+    const { tileZones, zones, cols } = this.floors[floor].layout
+    const id = tileZones?.[row * cols + col]
+    return id ? zones?.find((z) => z.id === id) ?? null : null
+  }
+
+  /** Room containing a tile (on the floor on screen unless given), or null for walls, void and doorways */
+  getRoomAt(col: number, row: number, floor = this.currentFloor): Room | null {
+    const { layout, rooms } = this.floors[floor]
+    if (col < 0 || col >= layout.cols || row < 0 || row >= layout.rows) return null
+    const id = rooms.tileRoom[row * layout.cols + col]
+    return id >= 0 ? rooms.rooms[id] : null
+  }
+
+  /** Room a character is standing in, or null (e.g. mid-doorway) */
+  getCharacterRoom(id: number): Room | null {
+    const ch = this.characters.get(id)
+    return ch ? this.getRoomAt(ch.tileCol, ch.tileRow, ch.floor) : null
+  }
+
+  /**
+   * Work out which room hosts each workspace folder. Rooms assigned in the
+   * editor keep their folder; with several folders open, the rest are handed
+   * out to unassigned rooms on any floor, roomiest (most seats) first.
+   */
+  private rebuildRoomFolders(): void {
+    for (const floor of this.floors) {
+      floor.roomFolders = floor.rooms.rooms.map((r) => r.folder)
+    }
+    if (this.workspaceFolders.length < 2) return
+    const free: Array<{ floor: FloorState; room: Room; seats: number }> = []
+    for (const floor of this.floors) {
+      const { rooms, tileRoom } = floor.rooms
+      const seatCounts = rooms.map(() => 0)
+      for (const seat of floor.seats.values()) {
+        const id = tileRoom[seat.seatRow * floor.layout.cols + seat.seatCol]
+        if (id >= 0) seatCounts[id]++
+      }
+      for (const room of rooms) {
+        if (!room.folder && seatCounts[room.id] > 0) free.push({ floor, room, seats: seatCounts[room.id] })
+      }
+    }
+    free.sort((a, b) => b.seats - a.seats)
+    const placed = new Set(this.floors.flatMap((f) => f.roomFolders))
+    const unplaced = this.workspaceFolders.filter((f) => !placed.has(f))
+    for (let i = 0; i < unplaced.length && i < free.length; i++) {
+      free[i].floor.roomFolders[free[i].room.id] = unplaced[i]
+    }
+  }
+
+  /** Update the open workspace folders and re-map them onto rooms */
+  setWorkspaceFolders(names: string[]): void {
+    this.workspaceFolders = names
+    if (this.focusedFolder && !names.includes(this.focusedFolder)) this.focusedFolder = null
+    this.rebuildRoomFolders()
+  }
+
+  setFocusedFolder(folder: string | null): void {
+    this.focusedFolder = folder
+  }
+
+  /** Workspace folder hosted by a room (on the floor on screen unless given), or null */
+  getRoomFolder(roomId: number, floor = this.currentFloor): string | null {
+    return this.floors[floor].roomFolders[roomId] ?? null
+  }
+
+  /** Workspace folder hosted by the room containing a tile, or null */
+  getFolderAtTile(col: number, row: number, floor = this.currentFloor): string | null {
+    const room = this.getRoomAt(col, row, floor)
+    return room ? this.getRoomFolder(room.id, floor) : null
+  }
+
+  /** Rooms hosting a workspace folder, on every floor */
+  getFolderRooms(folder: string): Array<{ floor: number; room: Room }> {
+    return this.floors.flatMap((f, floor) =>
+      f.rooms.rooms.filter((r) => f.roomFolders[r.id] === folder).map((room) => ({ floor, room })),
+    )
+  }
+
+  /** Whether a character is dimmed because another folder is focused */
+  isOutOfFocus(ch: Character): boolean {
+    return this.focusedFolder !== null && ch.folderName !== this.focusedFolder
+  }
+
+  /** Wander targets for a character: usually its own room, sometimes anywhere on its floor */
+  private wanderTilesFor(ch: Character): Array<{ col: number; row: number }> {
+    const floor = this.floorOf(ch)
+    const room = this.getRoomAt(ch.tileCol, ch.tileRow, ch.floor)
+    const own = room ? floor.roomWalkableTiles[room.id] : undefined
+    if (own && own.length > 0 && Math.random() < WANDER_SAME_ROOM_CHANCE) return own
+    return floor.walkableTiles
+  }
+
+  /** Directory bound to the seat or furniture at a tile on the floor on screen, or null */
+  getDirectoryAtTile(col: number, row: number): string | null {
+    const seatId = this.getSeatAtTile(col, row)
+    const seatDir = seatId ? this.seats.get(seatId)?.directory : undefined
+    if (seatDir) return seatDir
+    for (const item of this.view.layout.furniture) {
+      if (!item.directory) continue
+      const entry = getCatalogEntry(item.type)
+      if (!entry) continue
+      if (col >= item.col && col < item.col + entry.footprintW && row >= item.row && row < item.row + entry.footprintH) {
+        return item.directory
+      }
     }
     return null
   }
 
+  /** Whether moving this agent to a seat takes it out of its working directory */
+  seatChangesDirectory(agentId: number, seatId: string): boolean {
+    const dir = this.seats.get(seatId)?.directory
+    const cwd = this.characters.get(agentId)?.cwd
+    return !!dir && (!cwd || !directoryContains(dir, cwd))
+  }
+
   /**
    * Pick a diverse palette for a new agent based on currently active agents.
    * First 6 agents each get a unique skin (random order). Beyond 6, skins
@@ -193,8 +520,10 @@ export class OfficeState {
     return { palette, hueShift }
   }
 
-  addAgent(id: number, preferredPalette?: number, preferredHueShift?: number, preferredSeatId?: string, skipSpawnEffect?: boolean, folderName?: string): void {
-    if (this.characters.has(id)) return
+  addAgent(id: number, preferredPalette?: number, preferredHueShift?: number, preferredSeatId?: string, skipSpawnEffect?: boolean, folderName?: string, checkout?: Pick<Character, 'cwd' | 'worktree' | 'branch'>): void {
+    // A despawning character with the same id is replaced (e.g. host reusing demo ids)
+    const existing = this.characters.get(id)
+    if (existing && existing.matrixEffect !== 'despawn') return
 
     let palette: number
     let hueShift: number
@@ -207,7 +536,7 @@ export class OfficeState {
       hueShift = pick.hueShift
     }
 
-    // Try preferred seat first, then any free seat
+    // Try preferred seat first, then a desk bound to the agent's directory or worktree, then any free seat
     let seatId: string | null = null
     if (preferredSeatId && this.seats.has(preferredSeatId)) {
       const seat = this.seats.get(preferredSeatId)!
@@ -216,7 +545,7 @@ export class OfficeState {
       }
     }
     if (!seatId) {
-      seatId = this.findFreeSeat()
+      seatId = this.findFreeSeat({ ...checkout, folderName })
     }
 
     let ch: Character
@@ -225,9 +554,10 @@ export class OfficeState {
       seat.assigned = true
       ch = createCharacter(id, palette, seatId, seat, hueShift)
     } else {
-      // No seats — spawn at random walkable tile
-      const spawn = this.walkableTiles.length > 0
-        ? this.walkableTiles[Math.floor(Math.random() * this.walkableTiles.length)]
+      // No seats — spawn at random walkable tile on the ground floor
+      const { walkableTiles } = this.floors[0]
+      const spawn = walkableTiles.length > 0
+        ? walkableTiles[Math.floor(Math.random() * walkableTiles.length)]
         : { col: 1, row: 1 }
       ch = createCharacter(id, palette, null, null, hueShift)
       ch.x = spawn.col * TILE_SIZE + TILE_SIZE / 2
@@ -239,6 +569,9 @@ export class OfficeState {
     if (folderName) {
       ch.folderName = folderName
     }
+    if (checkout?.cwd) ch.cwd = checkout.cwd
+    if (checkout?.worktree) ch.worktree = checkout.worktree
+    if (checkout?.branch) ch.branch = checkout.branch
     if (!skipSpawnEffect) {
       ch.matrixEffect = 'spawn'
       ch.matrixEffectTimer = 0
@@ -247,10 +580,14 @@ export class OfficeState {
     this.characters.set(id, ch)
   }
 
-  removeAgent(id: number): void {
+  removeAgent(id: number, skipDespawnEffect?: boolean): void {
     const ch = this.characters.get(id)
     if (!ch) return
-    if (ch.matrixEffect === 'despawn') return // already despawning
+    if (ch.matrixEffect === 'despawn') {
+      // Already despawning — seat was freed when it started
+      if (skipDespawnEffect) this.characters.delete(id)
+      return
+    }
     // Free seat and clear selection immediately
     if (ch.seatId) {
       const seat = this.seats.get(ch.seatId)
@@ -258,16 +595,21 @@ export class OfficeState {
     }
     if (this.selectedAgentId === id) this.selectedAgentId = null
     if (this.cameraFollowId === id) this.cameraFollowId = null
+    if (skipDespawnEffect) {
+      this.characters.delete(id)
+      return
+    }
     // Start despawn animation instead of immediate delete
     ch.matrixEffect = 'despawn'
     ch.matrixEffectTimer = 0
     ch.matrixEffectSeeds = matrixEffectSeeds()
     ch.bubbleType = null
+    ch.bubbleQueue = []
   }
 
-  /** Find seat uid at a given tile position, or null */
+  /** Find seat uid at a given tile position on the floor on screen, or null */
   getSeatAtTile(col: number, row: number): string | null {
-    for (const [uid, seat] of this.seats) {
+    for (const [uid, seat] of this.view.seats) {
       if (seat.seatCol === col && seat.seatRow === row) return uid
     }
     return null
@@ -287,18 +629,10 @@ export class OfficeState {
     if (!seat || seat.assigned) return
     seat.assigned = true
     ch.seatId = seatId
-    // Pathfind to new seat (unblock own seat tile for this query)
-    const path = this.withOwnSeatUnblocked(ch, () =>
-      findPath(ch.tileCol, ch.tileRow, seat.seatCol, seat.seatRow, this.tileMap, this.blockedTiles)
-    )
-    if (path.length > 0) {
-      ch.path = path
-      ch.moveProgress = 0
-      ch.state = CharacterState.WALK
-      ch.frame = 0
-      ch.frameTimer = 0
-    } else {
-      // Already at seat or no path — sit down
+    // Walk to the new seat, taking the stairs or elevator if it's on another floor
+    if (!this.startWalk(ch, seat.floor, seat.seatCol, seat.seatRow)) {
+      // Already at seat or no path — sit down (on the seat's floor, if there's no way up or down)
+      if (seat.floor !== ch.floor) this.placeAtSeat(ch, seat)
       ch.state = CharacterState.TYPE
       ch.dir = seat.facingDir
       ch.frame = 0
@@ -309,23 +643,21 @@ export class OfficeState {
     }
   }
 
+  /** Drop the selection and stop following it with the camera */
+  deselectAgent(): void {
+    this.selectedAgentId = null
+    this.cameraFollowId = null
+  }
+
   /** Send an agent back to their currently assigned seat */
   sendToSeat(agentId: number): void {
     const ch = this.characters.get(agentId)
     if (!ch || !ch.seatId) return
     const seat = this.seats.get(ch.seatId)
     if (!seat) return
-    const path = this.withOwnSeatUnblocked(ch, () =>
-      findPath(ch.tileCol, ch.tileRow, seat.seatCol, seat.seatRow, this.tileMap, this.blockedTiles)
-    )
-    if (path.length > 0) {
-      ch.path = path
-      ch.moveProgress = 0
-      ch.state = CharacterState.WALK
-      ch.frame = 0
-      ch.frameTimer = 0
-    } else {
+    if (!this.startWalk(ch, seat.floor, seat.seatCol, seat.seatRow)) {
       // Already at seat — sit down
+      if (seat.floor !== ch.floor) this.placeAtSeat(ch, seat)
       ch.state = CharacterState.TYPE
       ch.dir = seat.facingDir
       ch.frame = 0
@@ -336,29 +668,233 @@ export class OfficeState {
     }
   }
 
-  /** Walk an agent to an arbitrary walkable tile (right-click command) */
+  /** Walk an agent to an arbitrary walkable tile on the floor on screen (right-click command) */
   walkToTile(agentId: number, col: number, row: number): boolean {
     const ch = this.characters.get(agentId)
     if (!ch || ch.isSubagent) return false
-    if (!isWalkable(col, row, this.tileMap, this.blockedTiles)) {
+    if (!isWalkable(col, row, this.view.tileMap, this.view.blockedTiles)) {
       // Also allow walking to own seat tile (blocked for others but not self)
-      const key = this.ownSeatKey(ch)
-      if (!key || key !== `${col},${row}`) return false
+      const seat = this.ownSeat(ch)
+      if (!seat || seat.floor !== this.currentFloor || seat.seatCol !== col || seat.seatRow !== row) return false
     }
-    const path = this.withOwnSeatUnblocked(ch, () =>
-      findPath(ch.tileCol, ch.tileRow, col, row, this.tileMap, this.blockedTiles)
-    )
-    if (path.length === 0) return false
+    if (!this.startWalk(ch, this.currentFloor, col, row)) return false
+    ch.interaction = null
+    return true
+  }
+
+  private setPath(ch: Character, path: Array<{ col: number; row: number }>): void {
     ch.path = path
     ch.moveProgress = 0
     ch.state = CharacterState.WALK
     ch.frame = 0
     ch.frameTimer = 0
+  }
+
+  /**
+   * Start a character walking to a tile on any floor, by stairs or elevator if
+   * it's on another one. Returns false if it's already there or can't get there.
+   */
+  private startWalk(ch: Character, floor: number, col: number, row: number): boolean {
+    ch.travel = { floor, col, row }
+    return this.continueTravel(ch)
+  }
+
+  /**
+   * Next leg of a trip: on the destination floor, the path to the destination;
+   * elsewhere, the path to the nearest stairs or elevator toward it — or, when
+   * standing at one, the ride itself. Drops the trip and returns false when
+   * there's nowhere left to walk.
+   */
+  private continueTravel(ch: Character): boolean {
+    const travel = ch.travel
+    if (!travel) return false
+    const floor = this.floorOf(ch)
+    if (ch.floor === travel.floor) {
+      ch.travel = null
+      const path = this.findPathFor(ch, travel.col, travel.row)
+      if (path.length === 0) return false
+      this.setPath(ch, path)
+      return true
+    }
+
+    const next = this.nextFloorToward(ch.floor, travel.floor)
+    let bestPortal: Portal | null = null
+    let bestPath: Array<{ col: number; row: number }> | null = null
+    for (const portal of next !== null ? floor.portals : []) {
+      if (!this.portalLinks(portal, ch.floor, next!)) continue
+      if (portal.accessCol === ch.tileCol && portal.accessRow === ch.tileRow) {
+        bestPortal = portal
+        bestPath = []
+        break
+      }
+      const path = this.findPathFor(ch, portal.accessCol, portal.accessRow)
+      if (path.length > 0 && (!bestPath || path.length < bestPath.length)) {
+        bestPortal = portal
+        bestPath = path
+      }
+    }
+    if (!bestPortal || !bestPath) {
+      ch.travel = null
+      return false
+    }
+    if (bestPath.length > 0) {
+      this.setPath(ch, bestPath)
+      return true
+    }
+    this.changeFloor(ch, bestPortal, next!)
+    this.continueTravel(ch)
     return true
   }
 
-  /** Create a sub-agent character with the parent's palette. Returns the sub-agent ID. */
-  addSubagent(parentAgentId: number, parentToolId: string): number {
+  /** Whether a staircase or elevator on floor `from` goes to floor `to` */
+  private portalLinks(portal: Portal, from: number, to: number): boolean {
+    if (portal.kind === 'stairs' && Math.abs(to - from) !== 1) return false
+    return !!this.floors[to]?.portals.some((p) => p.kind === portal.kind)
+  }
+
+  /** First floor to go to on the way between two floors (fewest rides), or null if they aren't linked */
+  private nextFloorToward(from: number, to: number): number | null {
+    const cameFrom = new Map<number, number>([[from, from]])
+    const queue = [from]
+    while (queue.length > 0 && !cameFrom.has(to)) {
+      const f = queue.shift()!
+      for (let n = 0; n < this.floors.length; n++) {
+        if (cameFrom.has(n)) continue
+        if (!this.floors[f].portals.some((p) => this.portalLinks(p, f, n))) continue
+        cameFrom.set(n, f)
+        queue.push(n)
+      }
+    }
+    if (!cameFrom.has(to)) return null
+    let step = to
+    while (cameFrom.get(step) !== from) step = cameFrom.get(step)!
+    return step
+  }
+
+  /** Ride the stairs or elevator the character is standing at, stepping off the nearest matching one on `to` */
+  private changeFloor(ch: Character, from: Portal, to: number): void {
+    let arrival: Portal | null = null
+    let arrivalDist = Infinity
+    for (const p of this.floors[to].portals) {
+      if (p.kind !== from.kind) continue
+      const d = Math.abs(p.col - from.col) + Math.abs(p.row - from.row)
+      if (d < arrivalDist) {
+        arrival = p
+        arrivalDist = d
+      }
+    }
+    if (!arrival) return
+    ch.floor = to
+    ch.tileCol = arrival.accessCol
+    ch.tileRow = arrival.accessRow
+    ch.x = arrival.accessCol * TILE_SIZE + TILE_SIZE / 2
+    ch.y = arrival.accessRow * TILE_SIZE + TILE_SIZE / 2
+    ch.dir = Direction.DOWN
+    ch.path = []
+    ch.moveProgress = 0
+  }
+
+  /** Carry on with a trip between floors, or set off for the character's seat if it's on another floor */
+  private keepTravelling(ch: Character): void {
+    if (!ch.travel) {
+      const seat = this.ownSeat(ch)
+      if (!seat || seat.floor === ch.floor) return
+      ch.travel = { floor: seat.floor, col: seat.seatCol, row: seat.seatRow }
+      if (!this.continueTravel(ch)) this.placeAtSeat(ch, seat) // no way there — just show up
+      return
+    }
+    this.continueTravel(ch)
+  }
+
+  /**
+   * Play an agent-team message: the sender walks up to the recipient (or to a
+   * whiteboard for broadcasts, or when the recipient is on another floor or
+   * can't be reached), an envelope pops up, and a line links the pair for a
+   * few seconds.
+   */
+  sendAgentMessage(fromId: number, toId: number | null): void {
+    const ch = this.characters.get(fromId)
+    if (!ch || ch.matrixEffect) return
+    const to = toId !== null ? this.characters.get(toId) : undefined
+    const recipient = to && to.id !== fromId && !to.matrixEffect && to.floor === ch.floor ? to : null
+    const path =
+      (recipient ? this.pathNextTo(ch, [{ col: recipient.tileCol, row: recipient.tileRow }]) : null) ?? this.pathNextTo(ch, this.whiteboardTiles(this.floorOf(ch)))
+    ch.interaction = { toId: recipient ? recipient.id : null, phase: 'walk', timer: 0 }
+    ch.travel = null
+    if (path && path.length > 0) this.setPath(ch, path)
+    // Otherwise already there (or nowhere to go) — delivered on the next update
+  }
+
+  /** Tiles covered by a floor's whiteboards, where broadcast messages are posted */
+  private whiteboardTiles(floor: FloorState): Array<{ col: number; row: number }> {
+    const tiles: Array<{ col: number; row: number }> = []
+    for (const f of floor.layout.furniture) {
+      if (!/whiteboard/i.test(f.type)) continue
+      const entry = getCatalogEntry(f.type)
+      const w = entry?.footprintW ?? 1
+      const h = entry?.footprintH ?? 1
+      for (let dr = 0; dr < h; dr++) {
+        for (let dc = 0; dc < w; dc++) tiles.push({ col: f.col + dc, row: f.row + dr })
+      }
+    }
+    return tiles
+  }
+
+  /**
+   * Shortest path to a walkable tile next to any of `targets`: [] when already
+   * standing next to one, null when none can be reached.
+   */
+  private pathNextTo(ch: Character, targets: Array<{ col: number; row: number }>): Array<{ col: number; row: number }> | null {
+    const { paths } = this.floorOf(ch)
+    let best: Array<{ col: number; row: number }> | null = null
+    for (const t of targets) {
+      for (const [dc, dr] of [[0, 1], [0, -1], [1, 0], [-1, 0]]) {
+        const col = t.col + dc
+        const row = t.row + dr
+        if (col === ch.tileCol && row === ch.tileRow) return []
+        if (!paths.isWalkable(col, row)) continue
+        const path = this.findPathFor(ch, col, row)
+        if (path.length > 0 && (!best || path.length < best.length)) best = path
+      }
+    }
+    return best
+  }
+
+  /** Sender has arrived: face the recipient, show the envelope and link the pair */
+  private deliverMessage(ch: Character): void {
+    const interaction = ch.interaction
+    if (!interaction) return
+    interaction.phase = 'deliver'
+    interaction.timer = MESSAGE_DELIVER_SEC
+    ch.path = []
+    ch.moveProgress = 0
+    const to = interaction.toId !== null ? this.characters.get(interaction.toId) : undefined
+    // The envelope shows over whoever receives it — the sender itself for a broadcast
+    const bubbleCh = to ?? ch
+    if (bubbleCh.bubbleType !== 'permission') {
+      bubbleCh.bubbleType = 'message'
+      bubbleCh.bubbleTimer = MESSAGE_BUBBLE_DURATION_SEC
+    }
+    if (!to) {
+      if (!isSittingState(ch.state)) ch.dir = Direction.UP // facing the whiteboard
+      return
+    }
+    ch.messageLink = { peerId: to.id, timer: MESSAGE_LINK_DURATION_SEC }
+    if (!isSittingState(ch.state)) {
+      const dc = to.tileCol - ch.tileCol
+      const dr = to.tileRow - ch.tileRow
+      if (Math.abs(dc) > Math.abs(dr)) ch.dir = dc > 0 ? Direction.RIGHT : Direction.LEFT
+      else ch.dir = dr > 0 ? Direction.DOWN : Direction.UP
+    }
+  }
+
+  /**
+   * Create a sub-agent character with the parent's palette, seated as close to
+   * the parent as possible — on the parent's floor if there's room. The parent
+   * may itself be a sub-agent (nested Tasks).
+   * Returns the sub-agent ID.
+   */
+  addSubagent(parentAgentId: number, parentToolId: string, skipSpawnEffect?: boolean): number {
     const key = `${parentAgentId}:${parentToolId}`
     if (this.subagentIdMap.has(key)) return this.subagentIdMap.get(key)!
 
@@ -367,17 +903,18 @@ export class OfficeState {
     const palette = parentCh ? parentCh.palette : 0
     const hueShift = parentCh ? parentCh.hueShift : 0
 
-    // Find the free seat closest to the parent agent
+    // Find the free seat closest to the parent agent; any other floor is further than anywhere on its own
     const parentCol = parentCh ? parentCh.tileCol : 0
     const parentRow = parentCh ? parentCh.tileRow : 0
-    const dist = (c: number, r: number) =>
-      Math.abs(c - parentCol) + Math.abs(r - parentRow)
+    const parentFloor = parentCh ? parentCh.floor : 0
+    const dist = (c: number, r: number, floor = parentFloor) =>
+      Math.abs(c - parentCol) + Math.abs(r - parentRow) + Math.abs(floor - parentFloor) * (MAX_COLS + MAX_ROWS)
 
     let bestSeatId: string | null = null
     let bestDist = Infinity
     for (const [uid, seat] of this.seats) {
       if (!seat.assigned) {
-        const d = dist(seat.seatCol, seat.seatRow)
+        const d = dist(seat.seatCol, seat.seatRow, seat.floor)
         if (d < bestDist) {
           bestDist = d
           bestSeatId = uid
@@ -392,20 +929,22 @@ export class OfficeState {
       ch = createCharacter(id, palette, bestSeatId, seat, hueShift)
     } else {
       // No seats — spawn at closest walkable tile to parent
+      const { walkableTiles } = this.floors[parentFloor] ?? this.floors[0]
       let spawn = { col: 1, row: 1 }
-      if (this.walkableTiles.length > 0) {
-        let closest = this.walkableTiles[0]
+      if (walkableTiles.length > 0) {
+        let closest = walkableTiles[0]
         let closestDist = dist(closest.col, closest.row)
-        for (let i = 1; i < this.walkableTiles.length; i++) {
-          const d = dist(this.walkableTiles[i].col, this.walkableTiles[i].row)
+        for (let i = 1; i < walkableTiles.length; i++) {
+          const d = dist(walkableTiles[i].col, walkableTiles[i].row)
           if (d < closestDist) {
-            closest = this.walkableTiles[i]
+            closest = walkableTiles[i]
             closestDist = d
           }
         }
         spawn = closest
       }
       ch = createCharacter(id, palette, null, null, hueShift)
+      ch.floor = this.floors[parentFloor] ? parentFloor : 0
       ch.x = spawn.col * TILE_SIZE + TILE_SIZE / 2
       ch.y = spawn.row * TILE_SIZE + TILE_SIZE / 2
       ch.tileCol = spawn.col
@@ -413,9 +952,13 @@ export class OfficeState {
     }
     ch.isSubagent = true
     ch.parentAgentId = parentAgentId
-    ch.matrixEffect = 'spawn'
-    ch.matrixEffectTimer = 0
-    ch.matrixEffectSeeds = matrixEffectSeeds()
+    if (parentCh?.folderName) ch.folderName = parentCh.folderName
+    if (parentCh) ch.textBubbles = parentCh.textBubbles
+    if (!skipSpawnEffect) {
+      ch.matrixEffect = 'spawn'
+      ch.matrixEffectTimer = 0
+      ch.matrixEffectSeeds = matrixEffectSeeds()
+    }
     this.characters.set(id, ch)
 
     this.subagentIdMap.set(key, id)
@@ -423,70 +966,60 @@ export class OfficeState {
     return id
   }
 
-  /** Remove a specific sub-agent character and free its seat */
-  removeSubagent(parentAgentId: number, parentToolId: string): void {
-    const key = `${parentAgentId}:${parentToolId}`
-    const id = this.subagentIdMap.get(key)
+  /** Remove a specific sub-agent character (and any sub-agents it spawned) and free its seat */
+  removeSubagent(parentAgentId: number, parentToolId: string, skipDespawnEffect?: boolean): void {
+    const id = this.subagentIdMap.get(`${parentAgentId}:${parentToolId}`)
     if (id === undefined) return
+    this.despawnSubagent(id, skipDespawnEffect)
+  }
 
-    const ch = this.characters.get(id)
-    if (ch) {
-      if (ch.matrixEffect === 'despawn') {
-        // Already despawning — just clean up maps
-        this.subagentIdMap.delete(key)
-        this.subagentMeta.delete(id)
-        return
-      }
-      if (ch.seatId) {
-        const seat = this.seats.get(ch.seatId)
-        if (seat) seat.assigned = false
-      }
-      // Start despawn animation — keep character in map for rendering
-      ch.matrixEffect = 'despawn'
-      ch.matrixEffectTimer = 0
-      ch.matrixEffectSeeds = matrixEffectSeeds()
-      ch.bubbleType = null
+  /** Remove all sub-agents belonging to a parent agent, including nested ones */
+  removeAllSubagents(parentAgentId: number, skipDespawnEffect?: boolean): void {
+    for (const [id, meta] of [...this.subagentMeta]) {
+      if (meta.parentAgentId === parentAgentId) {
+        this.despawnSubagent(id, skipDespawnEffect)
+      }
+    }
+  }
+
+  private despawnSubagent(id: number, skipDespawnEffect?: boolean): void {
+    // Children first, while their parent link is still known
+    this.removeAllSubagents(id, skipDespawnEffect)
+
+    const meta = this.subagentMeta.get(id)
+    if (meta) {
+      // Clean up tracking maps immediately so keys don't collide
+      this.subagentIdMap.delete(`${meta.parentAgentId}:${meta.parentToolId}`)
+      this.subagentMeta.delete(id)
     }
-    // Clean up tracking maps immediately so keys don't collide
-    this.subagentIdMap.delete(key)
-    this.subagentMeta.delete(id)
     if (this.selectedAgentId === id) this.selectedAgentId = null
     if (this.cameraFollowId === id) this.cameraFollowId = null
-  }
 
-  /** Remove all sub-agents belonging to a parent agent */
-  removeAllSubagents(parentAgentId: number): void {
-    const toRemove: string[] = []
-    for (const [key, id] of this.subagentIdMap) {
-      const meta = this.subagentMeta.get(id)
-      if (meta && meta.parentAgentId === parentAgentId) {
-        const ch = this.characters.get(id)
-        if (ch) {
-          if (ch.matrixEffect === 'despawn') {
-            // Already despawning — just clean up maps
-            this.subagentMeta.delete(id)
-            toRemove.push(key)
-            continue
-          }
-          if (ch.seatId) {
-            const seat = this.seats.get(ch.seatId)
-            if (seat) seat.assigned = false
-          }
-          // Start despawn animation
-          ch.matrixEffect = 'despawn'
-          ch.matrixEffectTimer = 0
-          ch.matrixEffectSeeds = matrixEffectSeeds()
-          ch.bubbleType = null
-        }
-        this.subagentMeta.delete(id)
-        if (this.selectedAgentId === id) this.selectedAgentId = null
-        if (this.cameraFollowId === id) this.cameraFollowId = null
-        toRemove.push(key)
-      }
+    const ch = this.characters.get(id)
+    if (!ch) return
+    if (ch.matrixEffect !== 'despawn' && ch.seatId) {
+      const seat = this.seats.get(ch.seatId)
+      if (seat) seat.assigned = false
     }
-    for (const key of toRemove) {
-      this.subagentIdMap.delete(key)
+    if (skipDespawnEffect) {
+      this.characters.delete(id)
+      return
     }
+    if (ch.matrixEffect === 'despawn') return // already despawning
+    // Start despawn animation — keep character in map for rendering
+    ch.matrixEffect = 'despawn'
+    ch.matrixEffectTimer = 0
+    ch.matrixEffectSeeds = matrixEffectSeeds()
+    ch.bubbleType = null
+    ch.bubbleQueue = []
+  }
+
+  /** Sub-agent character spawned for a Task tool id, whichever agent started it */
+  findSubagentByToolId(parentToolId: string): number | null {
+    for (const [id, meta] of this.subagentMeta) {
+      if (meta.parentToolId === parentToolId) return id
+    }
+    return null
   }
 
   /** Look up the sub-agent character ID for a given parent+toolId, or null */
@@ -509,14 +1042,15 @@ export class OfficeState {
     }
   }
 
-  /** Rebuild furniture instances with auto-state applied (active agents turn electronics ON) */
+  /** Rebuild every floor's furniture instances with auto-state applied (active agents turn electronics ON) */
   private rebuildFurnitureInstances(): void {
-    // Collect tiles where active agents face desks
-    const autoOnTiles = new Set<string>()
+    // Collect tiles where active agents face desks, per floor
+    const autoOnByFloor = this.floors.map(() => new Set<string>())
     for (const ch of this.characters.values()) {
       if (!ch.isActive || !ch.seatId) continue
       const seat = this.seats.get(ch.seatId)
       if (!seat) continue
+      const autoOnTiles = autoOnByFloor[seat.floor]
       // Find the desk tile(s) the agent faces from their seat
       const dCol = seat.facingDir === Direction.RIGHT ? 1 : seat.facingDir === Direction.LEFT ? -1 : 0
       const dRow = seat.facingDir === Direction.DOWN ? 1 : seat.facingDir === Direction.UP ? -1 : 0
@@ -542,37 +1076,46 @@ export class OfficeState {
       }
     }
 
-    if (autoOnTiles.size === 0) {
-      this.furniture = layoutToFurnitureInstances(this.layout.furniture)
-      return
-    }
+    // Only floors whose auto-on tiles changed get new instances (the renderer caches by identity)
+    this.floors.forEach((floor, i) => {
+      const key = [...autoOnByFloor[i]].sort().join(';')
+      if (key === floor.autoOnKey) return
+      floor.autoOnKey = key
+      floor.furniture = layoutToFurnitureInstances(applyAutoOn(floor.layout.furniture, autoOnByFloor[i]))
+    })
+  }
 
-    // Build modified furniture list with auto-state applied
-    const modifiedFurniture: PlacedFurniture[] = this.layout.furniture.map((item) => {
-      const entry = getCatalogEntry(item.type)
-      if (!entry) return item
-      // Check if any tile of this furniture overlaps an auto-on tile
-      for (let dr = 0; dr < entry.footprintH; dr++) {
-        for (let dc = 0; dc < entry.footprintW; dc++) {
-          if (autoOnTiles.has(`${item.col + dc},${item.row + dr}`)) {
-            const onType = getOnStateType(item.type)
-            if (onType !== item.type) {
-              return { ...item, type: onType }
-            }
-            return item
-          }
-        }
+  /** Apply profile looks to a character; omitted fields are left alone. Sub-agents follow their parent's palette. */
+  setAgentLook(id: number, look: { palette?: number; hueShift?: number; accessories?: AgentAccessory[] }): void {
+    const ch = this.characters.get(id)
+    if (!ch) return
+    if (look.accessories) ch.accessories = [...look.accessories]
+    if (look.palette === undefined && look.hueShift === undefined) return
+    const palette = look.palette ?? ch.palette
+    const hueShift = look.hueShift ?? (look.palette !== undefined ? 0 : ch.hueShift)
+    for (const c of this.characters.values()) {
+      if (c === ch || (c.isSubagent && this.rootAgentOf(c.id) === id)) {
+        c.palette = palette
+        c.hueShift = hueShift
       }
-      return item
-    })
+    }
+  }
 
-    this.furniture = layoutToFurnitureInstances(modifiedFurniture)
+  /** Top-level agent a (possibly nested) sub-agent belongs to */
+  private rootAgentOf(id: number): number {
+    let meta = this.subagentMeta.get(id)
+    while (meta) {
+      id = meta.parentAgentId
+      meta = this.subagentMeta.get(id)
+    }
+    return id
   }
 
-  setAgentTool(id: number, tool: string | null): void {
+  setAgentTool(id: number, tool: string | null, activity: ActivityKind | null = null): void {
     const ch = this.characters.get(id)
     if (ch) {
       ch.currentTool = tool
+      ch.currentActivity = tool ? activity : null
     }
   }
 
@@ -600,21 +1143,119 @@ export class OfficeState {
     }
   }
 
-  /** Dismiss bubble on click — permission: instant, waiting: quick fade */
+  /**
+   * Show a short snippet over the agent — a sentence it said, the file it's
+   * editing, the command it's running. Snippets that arrive while another
+   * bubble is up wait their turn.
+   */
+  showTextBubble(id: number, text: string): void {
+    const ch = this.characters.get(id)
+    if (!ch || !ch.textBubbles) return
+    let snippet = text.replace(/\s+/g, ' ').trim()
+    if (!snippet) return
+    if (snippet.length > TEXT_BUBBLE_MAX_CHARS) snippet = snippet.slice(0, TEXT_BUBBLE_MAX_CHARS - 1).trimEnd() + '…'
+    // Skip a repeat of the snippet showing or last in line
+    const latest = ch.bubbleQueue.length > 0 ? ch.bubbleQueue[ch.bubbleQueue.length - 1] : ch.bubbleType === 'text' ? ch.bubbleText : null
+    if (snippet === latest) return
+    if (ch.bubbleType === null) {
+      this.showText(ch, snippet)
+    } else {
+      ch.bubbleQueue.push(snippet)
+      if (ch.bubbleQueue.length > TEXT_BUBBLE_QUEUE_MAX) ch.bubbleQueue.shift()
+    }
+  }
+
+  private showText(ch: Character, text: string): void {
+    ch.bubbleType = 'text'
+    ch.bubbleText = text
+    ch.bubbleTimer = TEXT_BUBBLE_DURATION_SEC
+  }
+
+  /** Turn text bubbles on or off for an agent and its sub-agents */
+  setTextBubbles(id: number, enabled: boolean): void {
+    for (const c of this.characters.values()) {
+      if (c.id !== id && !(c.isSubagent && this.rootAgentOf(c.id) === id)) continue
+      c.textBubbles = enabled
+      if (enabled) continue
+      c.bubbleQueue = []
+      if (c.bubbleType === 'text') {
+        c.bubbleType = null
+        c.bubbleTimer = 0
+        c.bubbleText = null
+      }
+    }
+  }
+
+  /** A tool failed: the agent jumps up with a red flash, then gets back to it */
+  showToolError(id: number): void {
+    const ch = this.characters.get(id)
+    if (ch) this.react(ch, CharacterState.ERROR, ERROR_REACTION_SEC)
+  }
+
+  /** The turn finished: a short cheer before the agent gets up or dozes off */
+  celebrate(id: number): void {
+    const ch = this.characters.get(id)
+    if (!ch) return
+    this.react(ch, CharacterState.CELEBRATE, CELEBRATE_SEC)
+    if (ch.state === CharacterState.CELEBRATE) ch.dir = Direction.DOWN // cheer facing the room
+  }
+
+  /** Play a short reaction where the character is — not mid-walk, mid-spawn or while handing over a message */
+  private react(ch: Character, state: CharacterState, sec: number): void {
+    if (ch.state === CharacterState.WALK || ch.matrixEffect || ch.interaction) return
+    ch.state = state
+    ch.stateTimer = sec
+    ch.frame = 0
+    ch.frameTimer = 0
+  }
+
+  /** Dismiss bubble on click — permission: instant, waiting/message/text: quick fade (and no more queued text) */
   dismissBubble(id: number): void {
     const ch = this.characters.get(id)
     if (!ch || !ch.bubbleType) return
     if (ch.bubbleType === 'permission') {
       ch.bubbleType = null
       ch.bubbleTimer = 0
-    } else if (ch.bubbleType === 'waiting') {
+    } else {
       // Trigger immediate fade (0.3s remaining)
       ch.bubbleTimer = Math.min(ch.bubbleTimer, DISMISS_BUBBLE_FAST_FADE_SEC)
+      ch.bubbleQueue = []
+    }
+  }
+
+  /** Record where every character stands, and the tile each walker is stepping into */
+  private refreshTraffic(): void {
+    for (const floor of this.floors) floor.traffic.clear()
+    for (const ch of this.characters.values()) {
+      if (ch.matrixEffect === 'despawn') continue
+      const traffic = this.floorOf(ch).traffic
+      const moving = ch.state === CharacterState.WALK
+      traffic.hold(ch.id, ch.tileCol, ch.tileRow, moving)
+      if (moving && ch.moveProgress > 0 && ch.path.length > 0) traffic.hold(ch.id, ch.path[0].col, ch.path[0].row, true)
+    }
+  }
+
+  /** Characters free for a chat, per floor: idle, standing still and not busy with anything else */
+  private idleCharactersByFloor(): Character[][] {
+    const idlers = this.floors.map((): Character[] => [])
+    for (const ch of this.characters.values()) {
+      if (ch.state !== CharacterState.IDLE || ch.isActive || ch.matrixEffect || ch.interaction || ch.travel) continue
+      idlers[ch.floor]?.push(ch)
     }
+    return idlers
+  }
+
+  /** Run the simulation for a frame `frameDt` seconds long, in fixed ticks */
+  advance(frameDt: number): void {
+    this.clock.advance(frameDt, (dt) => this.update(dt))
   }
 
   update(dt: number): void {
+    this.lastTickPositions.clear()
+    for (const ch of this.characters.values()) this.lastTickPositions.set(ch.id, { x: ch.x, y: ch.y })
     const toDelete: number[] = []
+    this.refreshTraffic()
+    const idlers = this.idleCharactersByFloor()
     for (const ch of this.characters.values()) {
       // Handle matrix effect animation
       if (ch.matrixEffect) {
@@ -633,39 +1274,88 @@ export class OfficeState {
         continue // skip normal FSM while effect is active
       }
 
-      // Temporarily unblock own seat so character can pathfind to it
-      this.withOwnSeatUnblocked(ch, () =>
-        updateCharacter(ch, dt, this.walkableTiles, this.seats, this.tileMap, this.blockedTiles)
-      )
+      if (ch.interaction?.phase === 'deliver') {
+        // Hold still while the message is handed over
+        ch.interaction.timer -= dt
+        if (ch.interaction.timer <= 0) ch.interaction = null
+      } else {
+        const floor = this.floorOf(ch)
+        const idle = { wanderTiles: this.wanderTilesFor(ch), spots: floor.spots, idlers: idlers[ch.floor] ?? [] }
+        updateCharacter(ch, dt, idle, floor.seats, floor.paths, floor.traffic)
+        if (ch.interaction?.phase === 'walk' && ch.state !== CharacterState.WALK) {
+          this.deliverMessage(ch)
+        } else if (!ch.interaction && ch.state !== CharacterState.WALK) {
+          this.keepTravelling(ch)
+        }
+      }
+
+      if (ch.messageLink) {
+        ch.messageLink.timer -= dt
+        if (ch.messageLink.timer <= 0) ch.messageLink = null
+      }
 
-      // Tick bubble timer for waiting bubbles
-      if (ch.bubbleType === 'waiting') {
+      // Tick bubble timer for waiting, message and text bubbles
+      if (ch.bubbleType === 'waiting' || ch.bubbleType === 'message' || ch.bubbleType === 'text') {
         ch.bubbleTimer -= dt
         if (ch.bubbleTimer <= 0) {
           ch.bubbleType = null
           ch.bubbleTimer = 0
+          ch.bubbleText = null
         }
       }
+      // Queued text goes up once the bubble is free
+      const queued = ch.bubbleType === null ? ch.bubbleQueue.shift() : undefined
+      if (queued !== undefined) this.showText(ch, queued)
     }
     // Remove characters that finished despawn
     for (const id of toDelete) {
       this.characters.delete(id)
     }
+    // The view goes wherever the followed agent goes
+    const followed = this.cameraFollowId !== null ? this.characters.get(this.cameraFollowId) : undefined
+    if (followed && followed.floor !== this.currentFloor) this.currentFloor = followed.floor
   }
 
   getCharacters(): Character[] {
     return Array.from(this.characters.values())
   }
 
-  /** Get character at pixel position (for hit testing). Returns id or null. */
+  /** Characters on the floor on screen */
+  getFloorCharacters(): Character[] {
+    return this.getCharacters().filter((ch) => ch.floor === this.currentFloor)
+  }
+
+  /**
+   * Every character placed where it's drawn this frame: `clock.alpha` of the
+   * way from its position before the latest tick to its position after it.
+   * Moved characters are copies, so the simulation and hit-testing keep the
+   * tick positions.
+   */
+  getInterpolatedCharacters(): Map<number, Character> {
+    const alpha = this.clock.alpha
+    if (alpha >= 1) return this.characters
+    const out = new Map<number, Character>()
+    for (const ch of this.characters.values()) {
+      const last = this.lastTickPositions.get(ch.id)
+      const moved = last !== undefined && (last.x !== ch.x || last.y !== ch.y)
+      if (!moved || Math.abs(ch.x - last.x) + Math.abs(ch.y - last.y) > INTERPOLATION_SNAP_PX) {
+        out.set(ch.id, ch)
+        continue
+      }
+      out.set(ch.id, { ...ch, x: last.x + (ch.x - last.x) * alpha, y: last.y + (ch.y - last.y) * alpha })
+    }
+    return out
+  }
+
+  /** Get character at pixel position on the floor on screen (for hit testing). Returns id or null. */
   getCharacterAt(worldX: number, worldY: number): number | null {
-    const chars = this.getCharacters().sort((a, b) => b.y - a.y)
+    const chars = this.getFloorCharacters().sort((a, b) => b.y - a.y)
     for (const ch of chars) {
       // Skip characters that are despawning
       if (ch.matrixEffect === 'despawn') continue
       // Character sprite is 16x24, anchored bottom-center
       // Apply sitting offset to match visual position
-      const sittingOffset = ch.state === CharacterState.TYPE ? CHARACTER_SITTING_OFFSET_PX : 0
+      const sittingOffset = isSittingState(ch.state) ? CHARACTER_SITTING_OFFSET_PX : 0
       const anchorY = ch.y + sittingOffset
       const left = ch.x - CHARACTER_HIT_HALF_WIDTH
       const right = ch.x + CHARACTER_HIT_HALF_WIDTH
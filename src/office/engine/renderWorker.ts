@@ -0,0 +1,85 @@
+/**
+ * Render worker: owns the office canvas (handed over with
+ * transferControlToOffscreen) and draws the frames the main thread posts.
+ * Only the latest frame is drawn if several arrive between paints.
+ */
+import fontUrl from '../../fonts/FSPixelSansUnicode-Regular.ttf?url'
+import { drawFrame, getFrameTimings } from './renderer.js'
+import { setCharacterTemplates } from '../sprites/spriteData.js'
+import { setFloorSprites } from '../floorTiles.js'
+import { setWallSprites } from '../wallTiles.js'
+import { forgetSprite, invalidateSprites, getSpriteCacheStats } from '../sprites/spriteCache.js'
+import { FRAME_TIMING_SAMPLE_INTERVAL } from '../../constants.js'
+import type { RenderWorkerRequest, RenderWorkerResponse, SceneSnapshot, FrameSnapshot } from './renderWorkerProtocol.js'
+
+// The DOM lib types `self` as a window; in here it's the worker scope
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<RenderWorkerRequest>) => void) | null
+  postMessage: (msg: RenderWorkerResponse) => void
+  fonts: FontFaceSet
+}
+
+let canvas: OffscreenCanvas | null = null
+let ctx: CanvasRenderingContext2D | null = null
+let scene: SceneSnapshot | null = null
+let pending: FrameSnapshot | null = null
+let scheduled = false
+let framesDrawn = 0
+
+// Workers don't see the page's @font-face; text falls back to sans-serif until this loads
+const font = new FontFace('FS Pixel Sans', `url(${fontUrl})`)
+scope.fonts.add(font)
+font.load().catch(() => {})
+
+function draw(): void {
+  scheduled = false
+  const frame = pending
+  pending = null
+  if (!canvas || !ctx || !scene || !frame) return
+  // Resizing clears the canvas, so only when the size actually changed
+  if (canvas.width !== frame.canvasWidth) canvas.width = frame.canvasWidth
+  if (canvas.height !== frame.canvasHeight) canvas.height = frame.canvasHeight
+  ctx.imageSmoothingEnabled = false
+  drawFrame(ctx, { ...scene, ...frame })
+  if (++framesDrawn % FRAME_TIMING_SAMPLE_INTERVAL === 0) {
+    scope.postMessage({ type: 'stats', timings: getFrameTimings(), spriteCache: getSpriteCacheStats() })
+  }
+}
+
+scope.onmessage = (e) => {
+  const msg = e.data
+  switch (msg.type) {
+    case 'init': {
+      canvas = msg.canvas
+      // Draws the same as the DOM context; typed as one so the render functions take it
+      ctx = canvas.getContext('2d') as unknown as CanvasRenderingContext2D | null
+      if (!ctx) scope.postMessage({ type: 'error', message: 'No 2D context on the OffscreenCanvas' })
+      break
+    }
+    case 'assets': {
+      if (msg.assets.characters) setCharacterTemplates(msg.assets.characters)
+      setFloorSprites(msg.assets.floors)
+      if (msg.assets.walls) setWallSprites(msg.assets.walls)
+      break
+    }
+    case 'scene': {
+      // Scenes arrive as fresh copies, so the old one's canvases would never be hit again;
+      // floor and wall colors may have changed too
+      if (scene) {
+        for (const f of scene.furniture) forgetSprite(f.sprite)
+        invalidateSprites('floor')
+        invalidateSprites('wall')
+      }
+      scene = msg.scene
+      break
+    }
+    case 'frame':
+      pending = msg.frame
+      if (!scheduled) {
+        scheduled = true
+        if (typeof requestAnimationFrame === 'function') requestAnimationFrame(draw)
+        else setTimeout(draw, 0)
+      }
+      break
+  }
+}
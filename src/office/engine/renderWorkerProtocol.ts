@@ -0,0 +1,33 @@
+import type { SpriteData } from '../types.js'
+import type { LoadedCharacterData } from '../sprites/spriteData.js'
+import type { FrameInput, FrameTimings } from './renderer.js'
+import type { SpriteCacheStats } from '../sprites/spriteCache.js'
+
+/**
+ * Messages between the office canvas (main thread) and the render worker,
+ * which draws into the canvas through an OffscreenCanvas. The main thread
+ * keeps the simulation and hit-testing; the worker only draws.
+ */
+
+/** The parts of a frame that change only with the layout or an auto-on flip; posted when they change */
+export type SceneSnapshot = Pick<FrameInput, 'tileMap' | 'furniture' | 'tileColors' | 'layoutCols' | 'layoutRows' | 'zones' | 'tileZones'>
+
+/** The rest of a frame, posted every frame */
+export type FrameSnapshot = Omit<FrameInput, keyof SceneSnapshot>
+
+/** Sprites loaded from PNGs on the main thread; the worker's modules start with none */
+export interface AssetSnapshot {
+  characters: LoadedCharacterData[] | null
+  floors: SpriteData[]
+  walls: SpriteData[] | null
+}
+
+export type RenderWorkerRequest =
+  | { type: 'init'; canvas: OffscreenCanvas }
+  | { type: 'assets'; assets: AssetSnapshot }
+  | { type: 'scene'; scene: SceneSnapshot }
+  | { type: 'frame'; frame: FrameSnapshot }
+
+export type RenderWorkerResponse =
+  | { type: 'stats'; timings: FrameTimings; spriteCache: SpriteCacheStats }
+  | { type: 'error'; message: string }
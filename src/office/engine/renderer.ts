@@ -1,8 +1,9 @@
 import { TileType, TILE_SIZE, CharacterState } from '../types.js'
-import type { TileType as TileTypeVal, FurnitureInstance, Character, SpriteData, Seat, FloorColor } from '../types.js'
-import { getCachedSprite, getOutlineSprite } from '../sprites/spriteCache.js'
-import { getCharacterSprites, BUBBLE_PERMISSION_SPRITE, BUBBLE_WAITING_SPRITE } from '../sprites/spriteData.js'
-import { getCharacterSprite } from './characters.js'
+import type { TileType as TileTypeVal, FurnitureInstance, Character, SpriteData, Seat, FloorColor, FloorZone, Room } from '../types.js'
+import { getCachedSprite, getOutlineSprite, createCanvas } from '../sprites/spriteCache.js'
+import type { SpriteCanvas } from '../sprites/spriteCache.js'
+import { getCharacterSprites, BUBBLE_PERMISSION_SPRITE, BUBBLE_WAITING_SPRITE, BUBBLE_MESSAGE_SPRITE, SLEEP_Z_SPRITE, ACCESSORY_SPRITES } from '../sprites/spriteData.js'
+import { getCharacterSprite, isSittingState } from './characters.js'
 import { renderMatrixEffect } from './matrixEffect.js'
 import { getColorizedFloorSprite, hasFloorSprites, WALL_COLOR } from '../floorTiles.js'
 import { hasWallSprites, getWallInstances, wallColorToHex } from '../wallTiles.js'
@@ -23,6 +24,18 @@ import {
   BUBBLE_FADE_DURATION_SEC,
   BUBBLE_SITTING_OFFSET_PX,
   BUBBLE_VERTICAL_OFFSET_PX,
+  SLEEP_Z_CYCLE_SEC,
+  SLEEP_Z_COUNT,
+  SLEEP_Z_RISE_PX,
+  SLEEP_Z_DRIFT_PX,
+  TEXT_BUBBLE_MAX_WIDTH_PX,
+  TEXT_BUBBLE_MAX_LINES,
+  TEXT_BUBBLE_FONT_PX,
+  TEXT_BUBBLE_LINE_GAP_PX,
+  TEXT_BUBBLE_PADDING_PX,
+  TEXT_BUBBLE_BORDER_COLOR,
+  TEXT_BUBBLE_FILL_COLOR,
+  TEXT_BUBBLE_TEXT_COLOR,
   FALLBACK_FLOOR_COLOR,
   SEAT_OWN_COLOR,
   SEAT_AVAILABLE_COLOR,
@@ -38,7 +51,25 @@ import {
   SELECTION_HIGHLIGHT_COLOR,
   DELETE_BUTTON_BG,
   ROTATE_BUTTON_BG,
+  SUBAGENT_TETHER_COLOR,
+  SUBAGENT_TETHER_DASH,
+  SUBAGENT_TETHER_ANCHOR_PX,
+  MESSAGE_LINK_COLOR,
+  MESSAGE_LINK_FADE_SEC,
+  ZONE_TINT_ALPHA,
+  ZONE_BORDER_ALPHA,
+  ZONE_LABEL_FONT_PX,
+  ZONE_LABEL_BG,
+  ROOM_LABEL_FONT_PX,
+  ROOM_LABEL_COLOR,
+  ROOM_LABEL_UNNAMED_COLOR,
+  ROOM_HIGHLIGHT_FILL,
+  FOLDER_DIM_ALPHA,
+  STATIC_LAYER_MAX_PIXELS,
+  FRAME_TIMING_SAMPLE_INTERVAL,
+  FRAME_TIMING_SMOOTHING,
 } from '../../constants.js'
+import { roomDisplayName } from '../layout/rooms.js'
 
 // ── Render functions ────────────────────────────────────────────
 
@@ -50,6 +81,8 @@ export function renderTileGrid(
   zoom: number,
   tileColors?: Array<FloorColor | null>,
   cols?: number,
+  zones?: FloorZone[],
+  tileZones?: Array<string | null>,
 ): void {
   const s = TILE_SIZE * zoom
   const useSpriteFloors = hasFloorSprites()
@@ -87,6 +120,94 @@ export function renderTileGrid(
     }
   }
 
+  if (zones && zones.length > 0 && tileZones) {
+    renderZones(ctx, tileMap, zones, tileZones, layoutCols, offsetX, offsetY, zoom)
+  }
+}
+
+/** Zone tint over floor tiles, an outline along zone edges, and a label at each zone's first tile */
+function renderZones(
+  ctx: CanvasRenderingContext2D,
+  tileMap: TileTypeVal[][],
+  zones: FloorZone[],
+  tileZones: Array<string | null>,
+  layoutCols: number,
+  offsetX: number,
+  offsetY: number,
+  zoom: number,
+): void {
+  const s = TILE_SIZE * zoom
+  const byId = new Map(zones.map((z) => [z.id, z]))
+  const zoneAt = (c: number, r: number): string | null => {
+    const tile = tileMap[r]?.[c]
+    if (tile === undefined || tile === TileType.VOID || tile === TileType.WALL) return null
+    const id = tileZones[r * layoutCols + c] ?? null
+    return id && byId.has(id) ? id : null
+  }
+  const labelTiles = new Map<string, { col: number; row: number }>()
+
+  ctx.save()
+  ctx.lineWidth = Math.max(1, Math.floor(zoom / 2))
+  for (let r = 0; r < tileMap.length; r++) {
+    for (let c = 0; c < tileMap[r].length; c++) {
+      const id = zoneAt(c, r)
+      if (!id) continue
+      const zone = byId.get(id)!
+      if (!labelTiles.has(id)) labelTiles.set(id, { col: c, row: r })
+      const x = offsetX + c * s
+      const y = offsetY + r * s
+      ctx.globalAlpha = ZONE_TINT_ALPHA
+      ctx.fillStyle = zone.color
+      ctx.fillRect(x, y, s, s)
+      ctx.globalAlpha = ZONE_BORDER_ALPHA
+      ctx.strokeStyle = zone.color
+      ctx.beginPath()
+      if (zoneAt(c, r - 1) !== id) { ctx.moveTo(x, y + 0.5); ctx.lineTo(x + s, y + 0.5) }
+      if (zoneAt(c, r + 1) !== id) { ctx.moveTo(x, y + s - 0.5); ctx.lineTo(x + s, y + s - 0.5) }
+      if (zoneAt(c - 1, r) !== id) { ctx.moveTo(x + 0.5, y); ctx.lineTo(x + 0.5, y + s) }
+      if (zoneAt(c + 1, r) !== id) { ctx.moveTo(x + s - 0.5, y); ctx.lineTo(x + s - 0.5, y + s) }
+      ctx.stroke()
+    }
+  }
+
+  ctx.globalAlpha = 1
+  ctx.font = `${ZONE_LABEL_FONT_PX * zoom}px 'FS Pixel Sans', sans-serif`
+  ctx.textBaseline = 'top'
+  const pad = Math.max(1, Math.floor(zoom / 2))
+  for (const [id, { col, row }] of labelTiles) {
+    const zone = byId.get(id)!
+    const text = zone.worktree ? `${zone.label} · ${zone.worktree}` : zone.label
+    const x = offsetX + col * s + pad
+    const y = offsetY + row * s + pad
+    const w = ctx.measureText(text).width
+    ctx.fillStyle = ZONE_LABEL_BG
+    ctx.fillRect(x, y, w + pad * 2, ZONE_LABEL_FONT_PX * zoom + pad * 2)
+    ctx.fillStyle = zone.color
+    ctx.fillText(text, x + pad, y + pad)
+  }
+  ctx.restore()
+}
+
+/** First non-transparent row of a sprite (top of the head for characters) */
+const spriteTopRows = new WeakMap<SpriteData, number>()
+function spriteTopRow(sprite: SpriteData): number {
+  let top = spriteTopRows.get(sprite)
+  if (top === undefined) {
+    const { data } = sprite
+    let first = 3
+    while (first < data.length && data[first] === 0) first += 4
+    top = first < data.length ? Math.floor((first >> 2) / sprite.width) : 0
+    spriteTopRows.set(sprite, top)
+  }
+  return top
+}
+
+/** Device-pixel box a drawable covers */
+interface DrawBounds {
+  x: number
+  y: number
+  w: number
+  h: number
 }
 
 interface ZDrawable {
@@ -94,41 +215,36 @@ interface ZDrawable {
   draw: (ctx: CanvasRenderingContext2D) => void
 }
 
-export function renderScene(
-  ctx: CanvasRenderingContext2D,
-  furniture: FurnitureInstance[],
+/** A character (or its outline) with the box it covers, to find the static pieces in front of it */
+interface CharacterDrawable extends ZDrawable {
+  bounds: DrawBounds
+}
+
+function overlaps(a: DrawBounds, b: DrawBounds): boolean {
+  return a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h
+}
+
+/** Characters, their selection/hover outlines and accessories, ready for z-sorting */
+function characterDrawables(
   characters: Character[],
   offsetX: number,
   offsetY: number,
   zoom: number,
   selectedAgentId: number | null,
   hoveredAgentId: number | null,
-): void {
-  const drawables: ZDrawable[] = []
-
-  // Furniture
-  for (const f of furniture) {
-    const cached = getCachedSprite(f.sprite, zoom)
-    const fx = offsetX + f.x * zoom
-    const fy = offsetY + f.y * zoom
-    drawables.push({
-      zY: f.zY,
-      draw: (c) => {
-        c.drawImage(cached, fx, fy)
-      },
-    })
-  }
-
-  // Characters
+  focusedFolder: string | null,
+): CharacterDrawable[] {
+  const drawables: CharacterDrawable[] = []
   for (const ch of characters) {
     const sprites = getCharacterSprites(ch.palette, ch.hueShift)
     const spriteData = getCharacterSprite(ch, sprites)
     const cached = getCachedSprite(spriteData, zoom)
     // Sitting offset: shift character down when seated so they visually sit in the chair
-    const sittingOffset = ch.state === CharacterState.TYPE ? CHARACTER_SITTING_OFFSET_PX : 0
+    const sittingOffset = isSittingState(ch.state) ? CHARACTER_SITTING_OFFSET_PX : 0
     // Anchor at bottom-center of character — round to integer device pixels
     const drawX = Math.round(offsetX + ch.x * zoom - cached.width / 2)
     const drawY = Math.round(offsetY + (ch.y + sittingOffset) * zoom - cached.height)
+    const spriteBounds = { x: drawX, y: drawY, w: cached.width, h: cached.height }
 
     // Sort characters by bottom of their tile (not center) so they render
     // in front of same-row furniture (e.g. chairs) but behind furniture
@@ -146,6 +262,7 @@ export function renderScene(
         draw: (c) => {
           renderMatrixEffect(c, mCh, mSpriteData, mDrawX, mDrawY, zoom)
         },
+        bounds: spriteBounds,
       })
       continue
     }
@@ -167,17 +284,48 @@ export function renderScene(
           c.drawImage(outlineCached, olDrawX, olDrawY)
           c.restore()
         },
+        bounds: { x: olDrawX, y: olDrawY, w: outlineCached.width, h: outlineCached.height },
       })
     }
 
+    // Accessories stack upwards from the top of the head
+    const accessories: Array<{ image: SpriteCanvas; x: number; y: number }> = []
+    const bounds = { ...spriteBounds }
+    let headY = drawY + spriteTopRow(spriteData) * zoom
+    for (const kind of ch.accessories) {
+      const acc = ACCESSORY_SPRITES[kind]
+      if (!acc) continue
+      const image = getCachedSprite(acc.sprite, zoom)
+      const y = headY + acc.overlap * zoom - image.height
+      const x = Math.round(offsetX + ch.x * zoom - image.width / 2)
+      accessories.push({ image, x, y })
+      headY = y
+      const right = Math.max(bounds.x + bounds.w, x + image.width)
+      const bottom = bounds.y + bounds.h
+      bounds.x = Math.min(bounds.x, x)
+      bounds.y = Math.min(bounds.y, y)
+      bounds.w = right - bounds.x
+      bounds.h = bottom - bounds.y
+    }
+
+    // Agents outside the focused workspace folder fade into the background
+    const alpha = focusedFolder !== null && ch.folderName !== focusedFolder ? FOLDER_DIM_ALPHA : 1
     drawables.push({
       zY: charZY,
       draw: (c) => {
+        c.save()
+        c.globalAlpha = alpha
         c.drawImage(cached, drawX, drawY)
+        for (const a of accessories) c.drawImage(a.image, a.x, a.y)
+        c.restore()
       },
+      bounds,
     })
   }
+  return drawables
+}
 
+function drawSorted(ctx: CanvasRenderingContext2D, drawables: ZDrawable[]): void {
   // Sort by Y (lower = in front = drawn later)
   drawables.sort((a, b) => a.zY - b.zY)
 
@@ -186,6 +334,216 @@ export function renderScene(
   }
 }
 
+export function renderScene(
+  ctx: CanvasRenderingContext2D,
+  furniture: FurnitureInstance[],
+  characters: Character[],
+  offsetX: number,
+  offsetY: number,
+  zoom: number,
+  selectedAgentId: number | null,
+  hoveredAgentId: number | null,
+  focusedFolder: string | null = null,
+): void {
+  const drawables: ZDrawable[] = []
+
+  // Furniture
+  for (const f of furniture) {
+    const cached = getCachedSprite(f.sprite, zoom)
+    const fx = offsetX + f.x * zoom
+    const fy = offsetY + f.y * zoom
+    drawables.push({
+      zY: f.zY,
+      draw: (c) => {
+        c.drawImage(cached, fx, fy)
+      },
+    })
+  }
+
+  // Characters
+  drawables.push(...characterDrawables(characters, offsetX, offsetY, zoom, selectedAgentId, hoveredAgentId, focusedFolder))
+
+  drawSorted(ctx, drawables)
+}
+
+// ── Static layers ───────────────────────────────────────────────
+
+/** A wall or furniture sprite baked into the objects layer, in device pixels from the map origin */
+interface StaticPiece {
+  image: SpriteCanvas
+  x: number
+  y: number
+  zY: number
+}
+
+/**
+ * The floor (tiles and zones) and the walls and furniture of the floor on
+ * screen, pre-rendered at one zoom. Rebuilt only when an input changes: a new
+ * tile map (rebuildFromLayout, switching floors), a new furniture list (an
+ * auto-on flip), the zoom, or floor/wall sprites finishing loading.
+ */
+interface StaticLayers {
+  tileMap: TileTypeVal[][]
+  furniture: FurnitureInstance[]
+  tileColors: Array<FloorColor | null> | undefined
+  zones: FloorZone[] | undefined
+  tileZones: Array<string | null> | undefined
+  zoom: number
+  spriteFloors: boolean
+  spriteWalls: boolean
+  /** Top-left of both layers relative to the map origin (tall walls and furniture poke above row 0) */
+  originX: number
+  originY: number
+  /** Both null when they'd exceed STATIC_LAYER_MAX_PIXELS; such maps are redrawn in full every frame */
+  floor: SpriteCanvas | null
+  objects: SpriteCanvas | null
+  /** Everything in the objects layer, sorted back to front */
+  pieces: StaticPiece[]
+}
+
+/** Layers per canvas, so the live office and a replay don't evict each other */
+const staticLayerCache = new WeakMap<CanvasRenderingContext2D, StaticLayers>()
+
+/** The cached layers for this canvas, rebuilt if any input changed */
+function getStaticLayers(
+  target: CanvasRenderingContext2D,
+  tileMap: TileTypeVal[][],
+  furniture: FurnitureInstance[],
+  zoom: number,
+  cols: number,
+  rows: number,
+  tileColors?: Array<FloorColor | null>,
+  zones?: FloorZone[],
+  tileZones?: Array<string | null>,
+): StaticLayers {
+  const spriteFloors = hasFloorSprites()
+  const spriteWalls = hasWallSprites()
+  const prev = staticLayerCache.get(target)
+  if (
+    prev &&
+    prev.tileMap === tileMap &&
+    prev.furniture === furniture &&
+    prev.tileColors === tileColors &&
+    prev.zones === zones &&
+    prev.tileZones === tileZones &&
+    prev.zoom === zoom &&
+    prev.spriteFloors === spriteFloors &&
+    prev.spriteWalls === spriteWalls
+  ) {
+    return prev
+  }
+
+  const walls = spriteWalls ? getWallInstances(tileMap, tileColors, cols) : []
+  const pieces: StaticPiece[] = [...walls, ...furniture].map((f) => ({
+    image: getCachedSprite(f.sprite, zoom),
+    x: f.x * zoom,
+    y: f.y * zoom,
+    zY: f.zY,
+  }))
+  pieces.sort((a, b) => a.zY - b.zY)
+
+  let minX = 0
+  let minY = 0
+  let maxX = cols * TILE_SIZE * zoom
+  let maxY = rows * TILE_SIZE * zoom
+  for (const p of pieces) {
+    minX = Math.min(minX, p.x)
+    minY = Math.min(minY, p.y)
+    maxX = Math.max(maxX, p.x + p.image.width)
+    maxY = Math.max(maxY, p.y + p.image.height)
+  }
+  const width = Math.ceil(maxX - minX)
+  const height = Math.ceil(maxY - minY)
+  let floor: SpriteCanvas | null = null
+  let objects: SpriteCanvas | null = null
+  if (width > 0 && height > 0 && width * height <= STATIC_LAYER_MAX_PIXELS) {
+    const floorLayer = createCanvas(width, height)
+    renderTileGrid(floorLayer.ctx, tileMap, -minX, -minY, zoom, tileColors, cols, zones, tileZones)
+    const objectsLayer = createCanvas(width, height)
+    for (const p of pieces) objectsLayer.ctx.drawImage(p.image, p.x - minX, p.y - minY)
+    floor = floorLayer.canvas
+    objects = objectsLayer.canvas
+  }
+
+  const layers: StaticLayers = {
+    tileMap,
+    furniture,
+    tileColors,
+    zones,
+    tileZones,
+    zoom,
+    spriteFloors,
+    spriteWalls,
+    originX: minX,
+    originY: minY,
+    floor,
+    objects,
+    pieces,
+  }
+  staticLayerCache.set(target, layers)
+  return layers
+}
+
+/**
+ * Characters over the cached objects layer. Walls and furniture that sort in
+ * front of a character and overlap it are drawn again, in z-order with the
+ * characters, so they still hide whoever stands behind them.
+ */
+function renderOverStaticLayers(
+  ctx: CanvasRenderingContext2D,
+  layers: StaticLayers,
+  characters: Character[],
+  offsetX: number,
+  offsetY: number,
+  zoom: number,
+  selectedAgentId: number | null,
+  hoveredAgentId: number | null,
+  focusedFolder: string | null,
+): void {
+  const chars = characterDrawables(characters, offsetX, offsetY, zoom, selectedAgentId, hoveredAgentId, focusedFolder)
+  // Pieces go first so ties sort the same way as in renderScene (furniture before characters)
+  const drawables: ZDrawable[] = []
+  for (const p of layers.pieces) {
+    const box = { x: offsetX + p.x, y: offsetY + p.y, w: p.image.width, h: p.image.height }
+    if (!chars.some((d) => d.zY < p.zY && overlaps(d.bounds, box))) continue
+    drawables.push({
+      zY: p.zY,
+      draw: (c) => {
+        c.drawImage(p.image, box.x, box.y)
+      },
+    })
+  }
+  drawables.push(...chars)
+  drawSorted(ctx, drawables)
+}
+
+// ── Frame timings ───────────────────────────────────────────────
+
+/** Average time spent drawing a frame, in ms: from the cached layers, and redrawing everything (null until measured) */
+export interface FrameTimings {
+  cachedMs: number | null
+  fullMs: number | null
+}
+
+const frameTimings: FrameTimings = { cachedMs: null, fullMs: null }
+let framesSinceFullRedraw = 0
+
+function recordFrameTime(kind: keyof FrameTimings, ms: number): void {
+  const prev = frameTimings[kind]
+  frameTimings[kind] = prev === null ? ms : prev + (ms - prev) * FRAME_TIMING_SMOOTHING
+}
+
+/** Latest frame timings, for the debug view */
+export function getFrameTimings(): FrameTimings {
+  return { ...frameTimings }
+}
+
+/** Take over timings measured elsewhere (frames drawn by the render worker) */
+export function reportFrameTimings(timings: FrameTimings): void {
+  frameTimings.cachedMs = timings.cachedMs
+  frameTimings.fullMs = timings.fullMs
+}
+
 // ── Seat indicators ─────────────────────────────────────────────
 
 export function renderSeatIndicators(
@@ -338,6 +696,44 @@ export function renderGhostPreview(
   ctx.restore()
 }
 
+/** Room names (and workspace folders) centered on each room's label tile; the selected room is tinted */
+export function renderRoomLabels(
+  ctx: CanvasRenderingContext2D,
+  rooms: Room[],
+  roomFolders: Array<string | null>,
+  selectedRoomId: number | null,
+  offsetX: number,
+  offsetY: number,
+  zoom: number,
+): void {
+  const s = TILE_SIZE * zoom
+  ctx.save()
+  const selected = selectedRoomId !== null ? rooms[selectedRoomId] : undefined
+  if (selected) {
+    ctx.fillStyle = ROOM_HIGHLIGHT_FILL
+    for (const t of selected.tiles) {
+      ctx.fillRect(offsetX + t.col * s, offsetY + t.row * s, s, s)
+    }
+  }
+  ctx.font = `${ROOM_LABEL_FONT_PX * zoom}px 'FS Pixel Sans', sans-serif`
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  const pad = Math.max(1, Math.floor(zoom / 2))
+  const h = ROOM_LABEL_FONT_PX * zoom + pad * 2
+  for (const room of rooms) {
+    const folder = roomFolders[room.id]
+    const text = folder ? `${roomDisplayName(room)} · ${folder}` : roomDisplayName(room)
+    const cx = offsetX + (room.labelTile.col + 0.5) * s
+    const cy = offsetY + (room.labelTile.row + 0.5) * s
+    const w = ctx.measureText(text).width + pad * 2
+    ctx.fillStyle = ZONE_LABEL_BG
+    ctx.fillRect(Math.round(cx - w / 2), Math.round(cy - h / 2), Math.round(w), h)
+    ctx.fillStyle = room.name ? ROOM_LABEL_COLOR : ROOM_LABEL_UNNAMED_COLOR
+    ctx.fillText(text, cx, cy)
+  }
+  ctx.restore()
+}
+
 export function renderSelectionHighlight(
   ctx: CanvasRenderingContext2D,
   col: number,
@@ -359,6 +755,26 @@ export function renderSelectionHighlight(
   ctx.restore()
 }
 
+function getDeleteButtonBounds(col: number, row: number, w: number, offsetX: number, offsetY: number, zoom: number): DeleteButtonBounds {
+  const s = TILE_SIZE * zoom
+  // Position at top-right corner of selected furniture
+  return {
+    cx: offsetX + (col + w) * s + 1,
+    cy: offsetY + row * s - 1,
+    radius: Math.max(BUTTON_MIN_RADIUS, zoom * BUTTON_RADIUS_ZOOM_FACTOR),
+  }
+}
+
+function getRotateButtonBounds(col: number, row: number, offsetX: number, offsetY: number, zoom: number): RotateButtonBounds {
+  const s = TILE_SIZE * zoom
+  // Position to the left of the delete button (which is at top-right corner)
+  return {
+    cx: offsetX + col * s - 1,
+    cy: offsetY + row * s - 1,
+    radius: Math.max(BUTTON_MIN_RADIUS, zoom * BUTTON_RADIUS_ZOOM_FACTOR),
+  }
+}
+
 export function renderDeleteButton(
   ctx: CanvasRenderingContext2D,
   col: number,
@@ -369,11 +785,7 @@ export function renderDeleteButton(
   offsetY: number,
   zoom: number,
 ): DeleteButtonBounds {
-  const s = TILE_SIZE * zoom
-  // Position at top-right corner of selected furniture
-  const cx = offsetX + (col + w) * s + 1
-  const cy = offsetY + row * s - 1
-  const radius = Math.max(BUTTON_MIN_RADIUS, zoom * BUTTON_RADIUS_ZOOM_FACTOR)
+  const { cx, cy, radius } = getDeleteButtonBounds(col, row, w, offsetX, offsetY, zoom)
 
   // Circle background
   ctx.save()
@@ -408,11 +820,7 @@ export function renderRotateButton(
   offsetY: number,
   zoom: number,
 ): RotateButtonBounds {
-  const s = TILE_SIZE * zoom
-  // Position to the left of the delete button (which is at top-right corner)
-  const radius = Math.max(BUTTON_MIN_RADIUS, zoom * BUTTON_RADIUS_ZOOM_FACTOR)
-  const cx = offsetX + col * s - 1
-  const cy = offsetY + row * s - 1
+  const { cx, cy, radius } = getRotateButtonBounds(col, row, offsetX, offsetY, zoom)
 
   // Circle background
   ctx.save()
@@ -445,6 +853,66 @@ export function renderRotateButton(
   return { cx, cy, radius }
 }
 
+// ── Sub-agent tethers ───────────────────────────────────────────
+
+/** Dotted line from each sub-agent to the character that spawned it (drawn under characters) */
+export function renderSubagentTethers(
+  ctx: CanvasRenderingContext2D,
+  characters: Character[],
+  offsetX: number,
+  offsetY: number,
+  zoom: number,
+): void {
+  const byId = new Map<number, Character>()
+  for (const ch of characters) byId.set(ch.id, ch)
+
+  ctx.save()
+  ctx.strokeStyle = SUBAGENT_TETHER_COLOR
+  ctx.lineWidth = Math.max(1, Math.round(zoom / 2))
+  ctx.setLineDash(SUBAGENT_TETHER_DASH.map((d) => d * zoom))
+  ctx.beginPath()
+  for (const ch of characters) {
+    if (!ch.isSubagent || ch.parentAgentId === null || ch.matrixEffect === 'despawn') continue
+    const parent = byId.get(ch.parentAgentId)
+    if (!parent || parent.matrixEffect === 'despawn') continue
+    const anchor = (c: Character) => (isSittingState(c.state) ? CHARACTER_SITTING_OFFSET_PX : 0) - SUBAGENT_TETHER_ANCHOR_PX
+    ctx.moveTo(Math.round(offsetX + parent.x * zoom), Math.round(offsetY + (parent.y + anchor(parent)) * zoom))
+    ctx.lineTo(Math.round(offsetX + ch.x * zoom), Math.round(offsetY + (ch.y + anchor(ch)) * zoom))
+  }
+  ctx.stroke()
+  ctx.restore()
+}
+
+// ── Agent team messages ─────────────────────────────────────────
+
+/** Line between the two sides of a just-delivered message, fading out at the end */
+export function renderMessageLinks(
+  ctx: CanvasRenderingContext2D,
+  characters: Character[],
+  offsetX: number,
+  offsetY: number,
+  zoom: number,
+): void {
+  const byId = new Map<number, Character>()
+  for (const ch of characters) byId.set(ch.id, ch)
+
+  ctx.save()
+  ctx.strokeStyle = MESSAGE_LINK_COLOR
+  ctx.lineWidth = Math.max(1, Math.round(zoom / 2))
+  for (const ch of characters) {
+    if (!ch.messageLink) continue
+    const peer = byId.get(ch.messageLink.peerId)
+    if (!peer || peer.matrixEffect === 'despawn') continue
+    const anchor = (c: Character) => (isSittingState(c.state) ? CHARACTER_SITTING_OFFSET_PX : 0) - SUBAGENT_TETHER_ANCHOR_PX
+    ctx.globalAlpha = Math.min(1, ch.messageLink.timer / MESSAGE_LINK_FADE_SEC)
+    ctx.beginPath()
+    ctx.moveTo(Math.round(offsetX + ch.x * zoom), Math.round(offsetY + (ch.y + anchor(ch)) * zoom))
+    ctx.lineTo(Math.round(offsetX + peer.x * zoom), Math.round(offsetY + (peer.y + anchor(peer)) * zoom))
+    ctx.stroke()
+  }
+  ctx.restore()
+}
+
 // ── Speech bubbles ──────────────────────────────────────────────
 
 export function renderBubbles(
@@ -457,23 +925,31 @@ export function renderBubbles(
   for (const ch of characters) {
     if (!ch.bubbleType) continue
 
-    const sprite = ch.bubbleType === 'permission'
-      ? BUBBLE_PERMISSION_SPRITE
-      : BUBBLE_WAITING_SPRITE
-
-    // Compute opacity: permission = full, waiting = fade in last 0.5s
+    // Compute opacity: permission = full, waiting/message/text = fade in last 0.5s
     let alpha = 1.0
-    if (ch.bubbleType === 'waiting' && ch.bubbleTimer < BUBBLE_FADE_DURATION_SEC) {
+    if (ch.bubbleType !== 'permission' && ch.bubbleTimer < BUBBLE_FADE_DURATION_SEC) {
       alpha = ch.bubbleTimer / BUBBLE_FADE_DURATION_SEC
     }
 
-    const cached = getCachedSprite(sprite, zoom)
     // Position: centered above the character's head
     // Character is anchored bottom-center at (ch.x, ch.y), sprite is 16x24
     // Place bubble above head with a small gap; follow sitting offset
-    const sittingOff = ch.state === CharacterState.TYPE ? BUBBLE_SITTING_OFFSET_PX : 0
+    const sittingOff = isSittingState(ch.state) ? BUBBLE_SITTING_OFFSET_PX : 0
+    const bottomY = offsetY + (ch.y + sittingOff - BUBBLE_VERTICAL_OFFSET_PX) * zoom - 1 * zoom
+
+    if (ch.bubbleType === 'text') {
+      if (ch.bubbleText) renderTextBubble(ctx, ch.bubbleText, offsetX + ch.x * zoom, bottomY, zoom, alpha)
+      continue
+    }
+
+    const sprite = ch.bubbleType === 'permission'
+      ? BUBBLE_PERMISSION_SPRITE
+      : ch.bubbleType === 'message'
+        ? BUBBLE_MESSAGE_SPRITE
+        : BUBBLE_WAITING_SPRITE
+    const cached = getCachedSprite(sprite, zoom)
     const bubbleX = Math.round(offsetX + ch.x * zoom - cached.width / 2)
-    const bubbleY = Math.round(offsetY + (ch.y + sittingOff - BUBBLE_VERTICAL_OFFSET_PX) * zoom - cached.height - 1 * zoom)
+    const bubbleY = Math.round(bottomY - cached.height)
 
     ctx.save()
     if (alpha < 1.0) ctx.globalAlpha = alpha
@@ -482,6 +958,101 @@ export function renderBubbles(
   }
 }
 
+/**
+ * Greedy word wrap to `maxWidth`. Words wider than a line are split, and text
+ * running past `maxLines` is cut short with an ellipsis.
+ */
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] {
+  const fits = (s: string) => ctx.measureText(s).width <= maxWidth
+  const lines: string[] = []
+  let line = ''
+  for (const word of text.split(' ')) {
+    const candidate = line ? `${line} ${word}` : word
+    if (fits(candidate)) {
+      line = candidate
+      continue
+    }
+    if (line) lines.push(line)
+    let rest = word
+    while (!fits(rest) && rest.length > 1) {
+      let n = rest.length - 1
+      while (n > 1 && !fits(rest.slice(0, n))) n--
+      lines.push(rest.slice(0, n))
+      rest = rest.slice(n)
+    }
+    line = rest
+    if (lines.length > maxLines) break
+  }
+  if (line) lines.push(line)
+  if (lines.length <= maxLines) return lines
+  const kept = lines.slice(0, maxLines)
+  let last = kept[maxLines - 1]
+  while (last && !fits(`${last}…`)) last = last.slice(0, -1)
+  kept[maxLines - 1] = `${last.trimEnd()}…`
+  return kept
+}
+
+/** Snippet in a bordered box with a tail, like the sprite bubbles; the tail's tip is at (centerX, bottomY) */
+function renderTextBubble(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  centerX: number,
+  bottomY: number,
+  zoom: number,
+  alpha: number,
+): void {
+  ctx.save()
+  ctx.globalAlpha = alpha
+  ctx.font = `${TEXT_BUBBLE_FONT_PX * zoom}px 'FS Pixel Sans', sans-serif`
+  ctx.textAlign = 'left'
+  ctx.textBaseline = 'top'
+  const lines = wrapText(ctx, text, TEXT_BUBBLE_MAX_WIDTH_PX * zoom, TEXT_BUBBLE_MAX_LINES)
+  const inset = (1 + TEXT_BUBBLE_PADDING_PX) * zoom // border + padding
+  const lineH = (TEXT_BUBBLE_FONT_PX + TEXT_BUBBLE_LINE_GAP_PX) * zoom
+  const textW = Math.ceil(Math.max(...lines.map((l) => ctx.measureText(l).width)))
+  const w = textW + inset * 2
+  const h = lines.length * lineH - TEXT_BUBBLE_LINE_GAP_PX * zoom + inset * 2
+  const tailX = Math.round(centerX - zoom / 2)
+  const tailY = Math.round(bottomY - 2 * zoom)
+  const x = Math.round(centerX - w / 2)
+  const y = tailY - h
+
+  ctx.fillStyle = TEXT_BUBBLE_BORDER_COLOR
+  ctx.fillRect(x, y, w, h)
+  ctx.fillRect(tailX - zoom, tailY, zoom * 3, zoom)
+  ctx.fillRect(tailX, tailY + zoom, zoom, zoom)
+  ctx.fillStyle = TEXT_BUBBLE_FILL_COLOR
+  ctx.fillRect(x + zoom, y + zoom, w - zoom * 2, h - zoom * 2)
+  ctx.fillStyle = TEXT_BUBBLE_TEXT_COLOR
+  lines.forEach((line, i) => ctx.fillText(line, x + inset, y + inset + i * lineH))
+  ctx.restore()
+}
+
+/** Z's drifting up from sleeping characters, each fading out as it rises */
+export function renderSleepZs(
+  ctx: CanvasRenderingContext2D,
+  characters: Character[],
+  offsetX: number,
+  offsetY: number,
+  zoom: number,
+): void {
+  const cached = getCachedSprite(SLEEP_Z_SPRITE, zoom)
+  for (const ch of characters) {
+    if (ch.state !== CharacterState.SLEEP || ch.matrixEffect) continue
+    const headY = ch.y + BUBBLE_SITTING_OFFSET_PX - BUBBLE_VERTICAL_OFFSET_PX
+    for (let i = 0; i < SLEEP_Z_COUNT; i++) {
+      // Staggered along the cycle, using time idle as the clock; they start just right of the head
+      const t = (ch.idleTime / SLEEP_Z_CYCLE_SEC + i / SLEEP_Z_COUNT) % 1
+      const x = Math.round(offsetX + (ch.x + 2 + t * SLEEP_Z_DRIFT_PX) * zoom)
+      const y = Math.round(offsetY + (headY - t * SLEEP_Z_RISE_PX) * zoom - cached.height)
+      ctx.save()
+      ctx.globalAlpha = 1 - t
+      ctx.drawImage(cached, x, y)
+      ctx.restore()
+    }
+  }
+}
+
 export interface ButtonBounds {
   /** Center X in device pixels */
   cx: number
@@ -516,6 +1087,12 @@ export interface EditorRenderState {
   ghostBorderHoverCol: number
   /** Hovered ghost border tile row (-1 to rows) */
   ghostBorderHoverRow: number
+  /** Detected rooms, labelled in the overlay */
+  rooms: Room[]
+  /** Workspace folder each room hosts, indexed by room id */
+  roomFolders: Array<string | null>
+  /** Room picked with the room tool, highlighted */
+  selectedRoomId: number | null
 }
 
 export interface SelectionRenderState {
@@ -524,6 +1101,83 @@ export interface SelectionRenderState {
   hoveredTile: { col: number; row: number } | null
   seats: Map<string, Seat>
   characters: Map<number, Character>
+  /** Workspace folder focused in the legend (others are dimmed), or null */
+  focusedFolder: string | null
+}
+
+/** Top-left of the map in device pixels: centered in the canvas, plus the pan */
+export function getMapOffset(
+  canvasWidth: number,
+  canvasHeight: number,
+  cols: number,
+  rows: number,
+  zoom: number,
+  panX: number,
+  panY: number,
+): { offsetX: number; offsetY: number } {
+  // Integer device pixels
+  const mapW = cols * TILE_SIZE * zoom
+  const mapH = rows * TILE_SIZE * zoom
+  return {
+    offsetX: Math.floor((canvasWidth - mapW) / 2) + Math.round(panX),
+    offsetY: Math.floor((canvasHeight - mapH) / 2) + Math.round(panY),
+  }
+}
+
+/** Set the editor's delete/rotate button bounds to where renderFrame draws them, without drawing */
+export function placeEditorButtons(editor: EditorRenderState, offsetX: number, offsetY: number, zoom: number): void {
+  if (!editor.hasSelection) {
+    editor.deleteButtonBounds = null
+    editor.rotateButtonBounds = null
+    return
+  }
+  editor.deleteButtonBounds = getDeleteButtonBounds(editor.selectedCol, editor.selectedRow, editor.selectedW, offsetX, offsetY, zoom)
+  editor.rotateButtonBounds = editor.isRotatable
+    ? getRotateButtonBounds(editor.selectedCol, editor.selectedRow, offsetX, offsetY, zoom)
+    : null
+}
+
+/** renderFrame's arguments as one object, which is what the render worker is sent */
+export interface FrameInput {
+  canvasWidth: number
+  canvasHeight: number
+  tileMap: TileTypeVal[][]
+  furniture: FurnitureInstance[]
+  characters: Character[]
+  zoom: number
+  panX: number
+  panY: number
+  selection?: SelectionRenderState
+  editor?: EditorRenderState
+  tileColors?: Array<FloorColor | null>
+  layoutCols?: number
+  layoutRows?: number
+  zones?: FloorZone[]
+  tileZones?: Array<string | null>
+  /** Draw one frame in FRAME_TIMING_SAMPLE_INTERVAL without the cached layers, to time both (debug view open) */
+  sampleFullRedraws?: boolean
+}
+
+export function drawFrame(ctx: CanvasRenderingContext2D, f: FrameInput): { offsetX: number; offsetY: number } {
+  return renderFrame(
+    ctx,
+    f.canvasWidth,
+    f.canvasHeight,
+    f.tileMap,
+    f.furniture,
+    f.characters,
+    f.zoom,
+    f.panX,
+    f.panY,
+    f.selection,
+    f.editor,
+    f.tileColors,
+    f.layoutCols,
+    f.layoutRows,
+    f.zones,
+    f.tileZones,
+    f.sampleFullRedraws,
+  )
 }
 
 export function renderFrame(
@@ -541,7 +1195,12 @@ export function renderFrame(
   tileColors?: Array<FloorColor | null>,
   layoutCols?: number,
   layoutRows?: number,
+  zones?: FloorZone[],
+  tileZones?: Array<string | null>,
+  sampleFullRedraws?: boolean,
 ): { offsetX: number; offsetY: number } {
+  const frameStart = performance.now()
+
   // Clear
   ctx.clearRect(0, 0, canvasWidth, canvasHeight)
 
@@ -549,34 +1208,53 @@ export function renderFrame(
   const cols = layoutCols ?? (tileMap.length > 0 ? tileMap[0].length : 0)
   const rows = layoutRows ?? tileMap.length
 
-  // Center map in viewport + pan offset (integer device pixels)
-  const mapW = cols * TILE_SIZE * zoom
-  const mapH = rows * TILE_SIZE * zoom
-  const offsetX = Math.floor((canvasWidth - mapW) / 2) + Math.round(panX)
-  const offsetY = Math.floor((canvasHeight - mapH) / 2) + Math.round(panY)
+  // Center map in viewport + pan offset
+  const { offsetX, offsetY } = getMapOffset(canvasWidth, canvasHeight, cols, rows, zoom, panX, panY)
+
+  // Floor, walls and furniture come from cached layers; while sampling, every
+  // FRAME_TIMING_SAMPLE_INTERVAL-th frame is drawn the full way instead, to time the two against each other
+  const layers = getStaticLayers(ctx, tileMap, furniture, zoom, cols, rows, tileColors, zones, tileZones)
+  const fullRedraw = !layers.floor || !layers.objects
+    || (sampleFullRedraws === true && ++framesSinceFullRedraw >= FRAME_TIMING_SAMPLE_INTERVAL)
+  if (fullRedraw) framesSinceFullRedraw = 0
+  const layerX = offsetX + layers.originX
+  const layerY = offsetY + layers.originY
 
   // Draw tiles (floor + wall base color)
-  renderTileGrid(ctx, tileMap, offsetX, offsetY, zoom, tileColors, layoutCols)
+  if (fullRedraw) {
+    renderTileGrid(ctx, tileMap, offsetX, offsetY, zoom, tileColors, layoutCols, zones, tileZones)
+  } else {
+    ctx.drawImage(layers.floor!, layerX, layerY)
+  }
 
   // Seat indicators (below furniture/characters, on top of floor)
   if (selection) {
     renderSeatIndicators(ctx, selection.seats, selection.characters, selection.selectedAgentId, selection.hoveredTile, offsetX, offsetY, zoom)
   }
 
-  // Build wall instances for z-sorting with furniture and characters
-  const wallInstances = hasWallSprites()
-    ? getWallInstances(tileMap, tileColors, layoutCols)
-    : []
-  const allFurniture = wallInstances.length > 0
-    ? [...wallInstances, ...furniture]
-    : furniture
+  // Sub-agent tethers and message links (on the floor, under furniture and characters)
+  renderSubagentTethers(ctx, characters, offsetX, offsetY, zoom)
+  renderMessageLinks(ctx, characters, offsetX, offsetY, zoom)
 
   // Draw walls + furniture + characters (z-sorted)
   const selectedId = selection?.selectedAgentId ?? null
   const hoveredId = selection?.hoveredAgentId ?? null
-  renderScene(ctx, allFurniture, characters, offsetX, offsetY, zoom, selectedId, hoveredId)
+  const focusedFolder = selection?.focusedFolder ?? null
+  if (fullRedraw) {
+    const wallInstances = hasWallSprites()
+      ? getWallInstances(tileMap, tileColors, layoutCols)
+      : []
+    const allFurniture = wallInstances.length > 0
+      ? [...wallInstances, ...furniture]
+      : furniture
+    renderScene(ctx, allFurniture, characters, offsetX, offsetY, zoom, selectedId, hoveredId, focusedFolder)
+  } else {
+    ctx.drawImage(layers.objects!, layerX, layerY)
+    renderOverStaticLayers(ctx, layers, characters, offsetX, offsetY, zoom, selectedId, hoveredId, focusedFolder)
+  }
 
-  // Speech bubbles (always on top of characters)
+  // Speech bubbles and sleep Z's (always on top of characters)
+  renderSleepZs(ctx, characters, offsetX, offsetY, zoom)
   renderBubbles(ctx, characters, offsetX, offsetY, zoom)
 
   // Editor overlays
@@ -584,6 +1262,7 @@ export function renderFrame(
     if (editor.showGrid) {
       renderGridOverlay(ctx, offsetX, offsetY, zoom, cols, rows, tileMap)
     }
+    renderRoomLabels(ctx, editor.rooms, editor.roomFolders, editor.selectedRoomId, offsetX, offsetY, zoom)
     if (editor.showGhostBorder) {
       renderGhostBorder(ctx, offsetX, offsetY, zoom, cols, rows, editor.ghostBorderHoverCol, editor.ghostBorderHoverRow)
     }
@@ -604,5 +1283,6 @@ export function renderFrame(
     }
   }
 
+  recordFrameTime(fullRedraw ? 'fullMs' : 'cachedMs', performance.now() - frameStart)
   return { offsetX, offsetY }
 }
@@ -0,0 +1,83 @@
+import { SIM_TICK_SEC, SIM_SPEEDS } from '../../constants.js'
+
+/** Slack for float error in the banked time, so 1/60 s frames come out as exactly one tick each */
+const TICK_EPSILON = 1e-9
+
+/**
+ * Fixed-timestep clock for the office simulation. Frame time, scaled by the
+ * speed, is banked and spent in SIM_TICK_SEC ticks, so characters behave the
+ * same at any frame rate; the remainder is `alpha`, how far the screen is
+ * between the last two ticks. While paused only ticks asked for with step() run.
+ */
+export class SimulationClock {
+  paused = false
+  speed = 1
+  /** Ticks run since the office was created */
+  ticks = 0
+  /** Bumped whenever listeners are told about a change; a snapshot for useSyncExternalStore */
+  revision = 0
+  private accumulator = 0
+  private pendingSteps = 0
+  private listeners = new Set<() => void>()
+
+  /** Run the ticks a frame `frameDt` seconds long is worth */
+  advance(frameDt: number, tick: (dt: number) => void): void {
+    if (!this.paused) this.accumulator += frameDt * this.speed
+    while (this.accumulator >= SIM_TICK_SEC - TICK_EPSILON) {
+      this.accumulator = Math.max(0, this.accumulator - SIM_TICK_SEC)
+      this.ticks++
+      tick(SIM_TICK_SEC)
+    }
+    if (this.pendingSteps === 0) return
+    for (; this.pendingSteps > 0; this.pendingSteps--) {
+      this.ticks++
+      tick(SIM_TICK_SEC)
+    }
+    this.changed()
+  }
+
+  /** 0-1 from the previous tick to the latest; 1 while paused, so the latest tick is shown as is */
+  get alpha(): number {
+    return this.paused ? 1 : this.accumulator / SIM_TICK_SEC
+  }
+
+  togglePause(): void {
+    this.paused = !this.paused
+    this.changed()
+  }
+
+  /** Pause and run exactly one tick on the next frame */
+  step(): void {
+    this.pendingSteps++
+    if (this.paused) return
+    this.paused = true
+    this.changed()
+  }
+
+  setSpeed(speed: number): void {
+    if (speed === this.speed) return
+    this.speed = speed
+    this.changed()
+  }
+
+  /** Move to the next slower (-1) or faster (+1) of SIM_SPEEDS */
+  shiftSpeed(direction: -1 | 1): void {
+    const index = SIM_SPEEDS.findIndex((s) => s >= this.speed)
+    const next = Math.max(0, Math.min(SIM_SPEEDS.length - 1, (index < 0 ? SIM_SPEEDS.length - 1 : index) + direction))
+    this.setSpeed(SIM_SPEEDS[next])
+  }
+
+  /**
+   * Subscribe to pausing, speed changes and single steps (not to ticks while
+   * running). Returns an unsubscribe function.
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private changed(): void {
+    this.revision++
+    for (const listener of this.listeners) listener()
+  }
+}
@@ -0,0 +1,53 @@
+/** Who holds a tile, and whether they're passing through or standing there */
+export interface TileHolder {
+  id: number
+  moving: boolean
+}
+
+/**
+ * Tiles held by the characters on one floor: the tile each one stands on,
+ * plus the tile a walker is stepping into. Rebuilt at the start of every
+ * update; walkers claim their next tile before leaving the current one, so
+ * two characters never share a tile.
+ */
+export class TileReservations {
+  private holders = new Map<string, TileHolder>()
+
+  clear(): void {
+    this.holders.clear()
+  }
+
+  /** Record a tile a character already occupies (first holder wins if several overlap) */
+  hold(id: number, col: number, row: number, moving: boolean): void {
+    const key = `${col},${row}`
+    if (!this.holders.has(key)) this.holders.set(key, { id, moving })
+  }
+
+  holderAt(col: number, row: number): TileHolder | undefined {
+    return this.holders.get(`${col},${row}`)
+  }
+
+  /** Claim a tile for the next step; false if someone else holds it */
+  reserve(id: number, col: number, row: number): boolean {
+    const key = `${col},${row}`
+    const holder = this.holders.get(key)
+    if (holder && holder.id !== id) return false
+    this.holders.set(key, { id, moving: true })
+    return true
+  }
+
+  /** Let go of a tile the character has stepped off */
+  release(id: number, col: number, row: number): void {
+    const key = `${col},${row}`
+    if (this.holders.get(key)?.id === id) this.holders.delete(key)
+  }
+
+  /** Tiles of characters standing still (other than `exceptId`), to path around */
+  standingTiles(exceptId: number): Set<string> {
+    const tiles = new Set<string>()
+    for (const [key, holder] of this.holders) {
+      if (!holder.moving && holder.id !== exceptId) tiles.add(key)
+    }
+    return tiles
+  }
+}
@@ -0,0 +1,143 @@
+import { getMapOffset, placeEditorButtons, reportFrameTimings } from './renderer.js'
+import type { FrameInput } from './renderer.js'
+import { getLoadedCharacterTemplates } from '../sprites/spriteData.js'
+import { getLoadedFloorSprites } from '../floorTiles.js'
+import { getLoadedWallSprites } from '../wallTiles.js'
+import { reportSpriteCacheStats } from '../sprites/spriteCache.js'
+import type { RenderWorkerRequest, RenderWorkerResponse, SceneSnapshot, AssetSnapshot } from './renderWorkerProtocol.js'
+
+/** `?renderer=worker` asks for the office to be drawn in a worker; it stays on the main thread otherwise */
+export function isWorkerRendererRequested(search: string = window.location.search): boolean {
+  return new URLSearchParams(search).get('renderer') === 'worker'
+}
+
+/**
+ * Main-thread end of the render worker for one canvas. Posts each frame,
+ * plus the scene and loaded sprites whenever they change, and lays the frame
+ * out locally so hit-testing doesn't wait on the worker.
+ */
+export class WorkerRenderer {
+  private scene: SceneSnapshot | null = null
+  private assets: AssetSnapshot | null = null
+  private users = 0
+  private failed = false
+  private onFail: () => void = () => {}
+  private readonly canvas: HTMLCanvasElement
+  private readonly worker: Worker
+
+  constructor(canvas: HTMLCanvasElement, worker: Worker) {
+    this.canvas = canvas
+    this.worker = worker
+    worker.onmessage = (e: MessageEvent<RenderWorkerResponse>) => {
+      const msg = e.data
+      if (msg.type === 'stats') {
+        reportFrameTimings(msg.timings)
+        reportSpriteCacheStats(msg.spriteCache)
+      } else {
+        this.fail(msg.message)
+      }
+    }
+    worker.onerror = (e) => {
+      e.preventDefault()
+      this.fail(e.message || 'Render worker failed to start')
+    }
+  }
+
+  /** Post a frame to draw. Returns the map offset and fills the editor's button bounds, like drawFrame. */
+  draw(frame: FrameInput): { offsetX: number; offsetY: number } {
+    const cols = frame.layoutCols ?? (frame.tileMap.length > 0 ? frame.tileMap[0].length : 0)
+    const rows = frame.layoutRows ?? frame.tileMap.length
+    const offset = getMapOffset(frame.canvasWidth, frame.canvasHeight, cols, rows, frame.zoom, frame.panX, frame.panY)
+    if (frame.editor) placeEditorButtons(frame.editor, offset.offsetX, offset.offsetY, frame.zoom)
+    if (this.failed) return offset
+
+    const assets: AssetSnapshot = {
+      characters: getLoadedCharacterTemplates(),
+      floors: getLoadedFloorSprites(),
+      walls: getLoadedWallSprites(),
+    }
+    const prevAssets = this.assets
+    if (!prevAssets || prevAssets.characters !== assets.characters || prevAssets.floors !== assets.floors || prevAssets.walls !== assets.walls) {
+      this.assets = assets
+      this.post({ type: 'assets', assets })
+    }
+
+    const { tileMap, furniture, tileColors, layoutCols, layoutRows, zones, tileZones, ...rest } = frame
+    const scene: SceneSnapshot = { tileMap, furniture, tileColors, layoutCols, layoutRows, zones, tileZones }
+    const prevScene = this.scene
+    if (!prevScene || (Object.keys(scene) as Array<keyof SceneSnapshot>).some((k) => scene[k] !== prevScene[k])) {
+      this.scene = scene
+      this.post({ type: 'scene', scene })
+    }
+
+    this.post({ type: 'frame', frame: rest })
+    return offset
+  }
+
+  /** Uses are counted so StrictMode's unmount/remount doesn't tear the worker down */
+  acquire(onFail: () => void): void {
+    this.users++
+    this.onFail = onFail
+  }
+
+  release(): void {
+    this.users--
+    // Deferred: a remount re-acquires in the same tick, and the canvas can't be handed over twice
+    setTimeout(() => {
+      if (this.users > 0) return
+      this.worker.terminate()
+      renderers.delete(this.canvas)
+    }, 0)
+  }
+
+  private post(msg: RenderWorkerRequest): void {
+    this.worker.postMessage(msg)
+  }
+
+  private fail(reason: string): void {
+    if (this.failed) return
+    this.failed = true
+    console.warn(`[Renderer] Render worker failed (${reason}), drawing on the main thread`)
+    this.worker.terminate()
+    renderers.delete(this.canvas)
+    this.onFail()
+  }
+}
+
+const renderers = new WeakMap<HTMLCanvasElement, WorkerRenderer>()
+
+/**
+ * The worker renderer for a canvas, handing the canvas over on first use.
+ * Null when workers or OffscreenCanvas aren't supported (or the worker can't
+ * be created); the caller then draws with startGameLoop instead. If the worker
+ * fails later, `onFail` is called: the canvas is no longer drawable from the
+ * main thread, so the caller must swap in a fresh one.
+ */
+export function acquireWorkerRenderer(canvas: HTMLCanvasElement, onFail: () => void): WorkerRenderer | null {
+  let renderer = renderers.get(canvas)
+  if (!renderer) {
+    if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined' || !canvas.transferControlToOffscreen) return null
+    let worker: Worker
+    try {
+      worker = new Worker(new URL('./renderWorker.ts', import.meta.url), { type: 'module' })
+    } catch (err) {
+      // e.g. VS Code webviews, where worker scripts aren't same-origin
+      console.warn('[Renderer] Render worker unavailable, drawing on the main thread:', err)
+      return null
+    }
+    let offscreen: OffscreenCanvas
+    try {
+      offscreen = canvas.transferControlToOffscreen()
+    } catch (err) {
+      console.warn('[Renderer] Canvas could not be handed to the render worker:', err)
+      worker.terminate()
+      return null
+    }
+    const init: RenderWorkerRequest = { type: 'init', canvas: offscreen }
+    worker.postMessage(init, [offscreen])
+    renderer = new WorkerRenderer(canvas, worker)
+    renderers.set(canvas, renderer)
+  }
+  renderer.acquire(onFail)
+  return renderer
+}
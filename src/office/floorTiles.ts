@@ -7,14 +7,13 @@
  */
 
 import type { SpriteData, FloorColor } from './types.js'
-import { getColorizedSprite, clearColorizeCache } from './colorize.js'
+import { getColorizedSprite } from './colorize.js'
+import { invalidateSprites } from './sprites/spriteCache.js'
+import { solidSprite } from './sprites/packedSprite.js'
 import { TILE_SIZE, FALLBACK_FLOOR_COLOR } from '../constants.js'
 
 /** Default solid gray 16×16 tile used when floors.png is not loaded */
-const DEFAULT_FLOOR_SPRITE: SpriteData = Array.from(
-  { length: TILE_SIZE },
-  () => Array(TILE_SIZE).fill(FALLBACK_FLOOR_COLOR) as string[],
-)
+const DEFAULT_FLOOR_SPRITE: SpriteData = solidSprite(TILE_SIZE, TILE_SIZE, FALLBACK_FLOOR_COLOR)
 
 /** Module-level storage for floor tile sprites (set once on load) */
 let floorSprites: SpriteData[] = []
@@ -25,7 +24,12 @@ export const WALL_COLOR = '#3A3A5C'
 /** Set floor tile sprites (called once when extension sends floorTilesLoaded) */
 export function setFloorSprites(sprites: SpriteData[]): void {
   floorSprites = sprites
-  clearColorizeCache()
+  invalidateSprites('floor')
+}
+
+/** Floor sprites set by setFloorSprites (empty if none; unlike getAllFloorSprites, no fallback) */
+export function getLoadedFloorSprites(): SpriteData[] {
+  return floorSprites
 }
 
 /** Get the raw (grayscale) floor sprite for a pattern index (1-7 -> array index 0-6).
@@ -65,10 +69,9 @@ export function getColorizedFloorSprite(patternIndex: number, color: FloorColor)
   const base = getFloorSprite(patternIndex)
   if (!base) {
     // Return a 16x16 magenta error tile
-    const err: SpriteData = Array.from({ length: 16 }, () => Array(16).fill('#FF00FF'))
-    return err
+    return solidSprite(16, 16, '#FF00FF')
   }
 
   // Floor tiles are always colorized (grayscale patterns need Photoshop-style Colorize)
-  return getColorizedSprite(key, base, { ...color, colorize: true })
+  return getColorizedSprite('floor', key, base, { ...color, colorize: true })
 }
@@ -1,5 +1,6 @@
-import { FurnitureType } from '../types.js'
-import type { FurnitureCatalogEntry, SpriteData } from '../types.js'
+import { Direction, FurnitureType, IdleActivity, InteractionAnim } from '../types.js'
+import type { FurnitureCatalogEntry, InteractionPoint, Portal, HexSpriteData } from '../types.js'
+import { spriteFromHex } from '../sprites/packedSprite.js'
 import {
   DESK_SQUARE_SPRITE,
   BOOKSHELF_SPRITE,
@@ -9,6 +10,8 @@ import {
   CHAIR_SPRITE,
   PC_SPRITE,
   LAMP_SPRITE,
+  STAIRS_SPRITE,
+  ELEVATOR_SPRITE,
 } from '../sprites/spriteData.js'
 
 export interface LoadedAssetData {
@@ -27,26 +30,58 @@ export interface LoadedAssetData {
     canPlaceOnSurfaces?: boolean
     backgroundTiles?: number
     canPlaceOnWalls?: boolean
+    interactions?: InteractionPoint[]
   }>
-  sprites: Record<string, SpriteData>
+  /** Hex matrices as sent in the asset JSON; packed when the catalog is built */
+  sprites: Record<string, HexSpriteData>
 }
 
-export type FurnitureCategory = 'desks' | 'chairs' | 'storage' | 'decor' | 'electronics' | 'wall' | 'misc'
+export type FurnitureCategory = 'desks' | 'chairs' | 'storage' | 'decor' | 'electronics' | 'wall' | 'transit' | 'misc'
 
 export interface CatalogEntryWithCategory extends FurnitureCatalogEntry {
   category: FurnitureCategory
 }
 
+// ── Interaction points ───────────────────────────────────────────
+type FurniturePastime = typeof IdleActivity.WATER | typeof IdleActivity.BROWSE | typeof IdleActivity.WHITEBOARD
+
+const PASTIMES: Record<FurniturePastime, Pick<InteractionPoint, 'anim' | 'dwellMinSec' | 'dwellMaxSec'>> = {
+  [IdleActivity.WATER]: { anim: InteractionAnim.STAND, dwellMinSec: 4, dwellMaxSec: 8 },
+  [IdleActivity.BROWSE]: { anim: InteractionAnim.READ, dwellMinSec: 8, dwellMaxSec: 16 },
+  [IdleActivity.WHITEBOARD]: { anim: InteractionAnim.TYPE, dwellMinSec: 6, dwellMaxSec: 12 },
+}
+
+/** Asset ids/labels that suggest a pastime, for asset packs that don't declare interaction points */
+const PASTIME_PATTERNS: Array<[RegExp, FurniturePastime]> = [
+  [/cooler|water|coffee|vending/i, IdleActivity.WATER],
+  [/book/i, IdleActivity.BROWSE],
+  [/whiteboard/i, IdleActivity.WHITEBOARD],
+]
+
+/** One point per column on the row below the footprint, facing up at the item */
+function pointsBelow(footprintW: number, footprintH: number, activity: FurniturePastime): InteractionPoint[] {
+  return Array.from({ length: footprintW }, (_, dc) => ({ dc, dr: footprintH, facing: Direction.UP, activity, ...PASTIMES[activity] }))
+}
+
+/** Interaction points guessed from a front-facing asset's id or label */
+function inferInteractions(asset: LoadedAssetData['catalog'][number]): InteractionPoint[] | undefined {
+  if (asset.orientation && asset.orientation !== 'front') return undefined
+  const match = PASTIME_PATTERNS.find(([pattern]) => pattern.test(asset.id) || pattern.test(asset.label))
+  return match ? pointsBelow(asset.footprintW, asset.footprintH, match[1]) : undefined
+}
+
 export const FURNITURE_CATALOG: CatalogEntryWithCategory[] = [
   // ── Original hand-drawn sprites ──
   { type: FurnitureType.DESK,       label: 'Desk',       footprintW: 2, footprintH: 2, sprite: DESK_SQUARE_SPRITE,  isDesk: true,  category: 'desks' },
-  { type: FurnitureType.BOOKSHELF,  label: 'Bookshelf',  footprintW: 1, footprintH: 2, sprite: BOOKSHELF_SPRITE,    isDesk: false, category: 'storage' },
+  { type: FurnitureType.BOOKSHELF,  label: 'Bookshelf',  footprintW: 1, footprintH: 2, sprite: BOOKSHELF_SPRITE,    isDesk: false, category: 'storage', interactions: pointsBelow(1, 2, IdleActivity.BROWSE) },
   { type: FurnitureType.PLANT,      label: 'Plant',      footprintW: 1, footprintH: 1, sprite: PLANT_SPRITE,        isDesk: false, category: 'decor' },
-  { type: FurnitureType.COOLER,     label: 'Cooler',     footprintW: 1, footprintH: 1, sprite: COOLER_SPRITE,       isDesk: false, category: 'misc' },
-  { type: FurnitureType.WHITEBOARD, label: 'Whiteboard', footprintW: 2, footprintH: 1, sprite: WHITEBOARD_SPRITE,   isDesk: false, category: 'decor' },
+  { type: FurnitureType.COOLER,     label: 'Cooler',     footprintW: 1, footprintH: 1, sprite: COOLER_SPRITE,       isDesk: false, category: 'misc',    interactions: pointsBelow(1, 1, IdleActivity.WATER) },
+  { type: FurnitureType.WHITEBOARD, label: 'Whiteboard', footprintW: 2, footprintH: 1, sprite: WHITEBOARD_SPRITE,   isDesk: false, category: 'decor',   interactions: pointsBelow(2, 1, IdleActivity.WHITEBOARD) },
   { type: FurnitureType.CHAIR,      label: 'Chair',      footprintW: 1, footprintH: 1, sprite: CHAIR_SPRITE,        isDesk: false, category: 'chairs' },
   { type: FurnitureType.PC,         label: 'PC',         footprintW: 1, footprintH: 1, sprite: PC_SPRITE,           isDesk: false, category: 'electronics' },
   { type: FurnitureType.LAMP,       label: 'Lamp',       footprintW: 1, footprintH: 1, sprite: LAMP_SPRITE,         isDesk: false, category: 'decor' },
+  { type: FurnitureType.STAIRS,     label: 'Stairs',     footprintW: 1, footprintH: 2, sprite: STAIRS_SPRITE,       isDesk: false, category: 'transit' },
+  { type: FurnitureType.ELEVATOR,   label: 'Elevator',   footprintW: 2, footprintH: 2, sprite: ELEVATOR_SPRITE,     isDesk: false, category: 'transit' },
 
 ]
 
@@ -80,18 +115,21 @@ let dynamicCategories: FurnitureCategory[] | null = null
 /**
  * Build catalog from loaded assets. Returns true if successful.
  * Once built, all getCatalog* functions use the dynamic catalog.
- * Uses ONLY custom assets (excludes hardcoded furniture when assets are loaded).
+ * Uses ONLY custom assets (excludes hardcoded furniture when assets are loaded),
+ * except for stairs and elevators, which asset packs don't provide.
  */
 export function buildDynamicCatalog(assets: LoadedAssetData): boolean {
   if (!assets?.catalog || !assets?.sprites) return false
 
   // Build all entries (including non-front variants)
   const allEntries = assets.catalog.map((asset) => {
-    const sprite = assets.sprites[asset.id]
-    if (!sprite) {
+    const hexSprite = assets.sprites[asset.id]
+    if (!hexSprite) {
       console.warn(`No sprite data for asset ${asset.id}`)
       return null
     }
+    const sprite = spriteFromHex(hexSprite)
+    const interactions = asset.interactions ?? inferInteractions(asset)
     return {
       type: asset.id,
       label: asset.label,
@@ -104,11 +142,19 @@ export function buildDynamicCatalog(assets: LoadedAssetData): boolean {
       ...(asset.canPlaceOnSurfaces ? { canPlaceOnSurfaces: true } : {}),
       ...(asset.backgroundTiles ? { backgroundTiles: asset.backgroundTiles } : {}),
       ...(asset.canPlaceOnWalls ? { canPlaceOnWalls: true } : {}),
+      ...(interactions ? { interactions } : {}),
     }
   }).filter((e): e is CatalogEntryWithCategory => e !== null)
 
   if (allEntries.length === 0) return false
 
+  // Floors can only be linked with the built-in stairs and elevator
+  for (const entry of FURNITURE_CATALOG) {
+    if (getPortalKind(entry.type) && !allEntries.some((e) => e.type === entry.type)) {
+      allEntries.push({ ...entry })
+    }
+  }
+
   // Build rotation groups from groupId + orientation metadata
   rotationGroups.clear()
   stateGroups.clear()
@@ -265,9 +311,17 @@ export const FURNITURE_CATEGORIES: Array<{ id: FurnitureCategory; label: string
   { id: 'electronics', label: 'Tech' },
   { id: 'decor', label: 'Decor' },
   { id: 'wall', label: 'Wall' },
+  { id: 'transit', label: 'Floors' },
   { id: 'misc', label: 'Misc' },
 ]
 
+/** Whether a furniture type links floors, and how */
+export function getPortalKind(type: string): Portal['kind'] | null {
+  if (type === FurnitureType.STAIRS) return 'stairs'
+  if (type === FurnitureType.ELEVATOR) return 'elevator'
+  return null
+}
+
 // ── Rotation helpers ─────────────────────────────────────────────
 
 /** Returns the next asset ID in the rotation group (cw or ccw), or null if not rotatable. */
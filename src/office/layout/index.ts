@@ -1,17 +1,25 @@
-export { FURNITURE_CATALOG, getCatalogEntry, getCatalogByCategory, FURNITURE_CATEGORIES } from './furnitureCatalog.js'
+export { FURNITURE_CATALOG, getCatalogEntry, getCatalogByCategory, getPortalKind, FURNITURE_CATEGORIES } from './furnitureCatalog.js'
 export type { FurnitureCategory, CatalogEntryWithCategory } from './furnitureCatalog.js'
 export {
   layoutToTileMap,
   layoutToFurnitureInstances,
   getBlockedTiles,
   layoutToSeats,
+  layoutToPortals,
+  layoutToInteractionSpots,
   getSeatTiles,
+  directoryContains,
   createDefaultLayout,
+  createDefaultBuilding,
+  migrateBuilding,
   serializeLayout,
   deserializeLayout,
 } from './layoutSerializer.js'
 export {
   isWalkable,
   getWalkableTiles,
-  findPath,
+  PathGrid,
 } from './tileMap.js'
+export type { TilePath, PathGridOptions } from './tileMap.js'
+export { detectRooms, roomDisplayName } from './rooms.js'
+export type { RoomMap } from './rooms.js'
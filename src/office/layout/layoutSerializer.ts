@@ -1,6 +1,6 @@
 import { TileType, FurnitureType, DEFAULT_COLS, DEFAULT_ROWS, TILE_SIZE, Direction } from '../types.js'
-import type { TileType as TileTypeVal, OfficeLayout, PlacedFurniture, Seat, FurnitureInstance, FloorColor } from '../types.js'
-import { getCatalogEntry } from './furnitureCatalog.js'
+import type { TileType as TileTypeVal, OfficeLayout, OfficeBuilding, LegacyOfficeLayout, PlacedFurniture, Seat, FurnitureInstance, FloorColor, Portal, InteractionSpot } from '../types.js'
+import { getCatalogEntry, getPortalKind } from './furnitureCatalog.js'
 import { getColorizedSprite } from '../colorize.js'
 
 /** Convert flat tile array from layout into 2D grid */
@@ -23,7 +23,7 @@ export function layoutToFurnitureInstances(furniture: PlacedFurniture[]): Furnit
   for (const item of furniture) {
     const entry = getCatalogEntry(item.type)
     if (!entry || !entry.isDesk) continue
-    const deskZY = item.row * TILE_SIZE + entry.sprite.length
+    const deskZY = item.row * TILE_SIZE + entry.sprite.height
     for (let dr = 0; dr < entry.footprintH; dr++) {
       for (let dc = 0; dc < entry.footprintW; dc++) {
         const key = `${item.col + dc},${item.row + dr}`
@@ -39,7 +39,7 @@ export function layoutToFurnitureInstances(furniture: PlacedFurniture[]): Furnit
     if (!entry) continue
     const x = item.col * TILE_SIZE
     const y = item.row * TILE_SIZE
-    const spriteH = entry.sprite.length
+    const spriteH = entry.sprite.height
     let zY = y + spriteH
 
     // Chair z-sorting: ensure characters sitting on chairs render correctly
@@ -69,7 +69,7 @@ export function layoutToFurnitureInstances(furniture: PlacedFurniture[]): Furnit
     let sprite = entry.sprite
     if (item.color) {
       const { h, s, b: bv, c: cv } = item.color
-      sprite = getColorizedSprite(`furn-${item.type}-${h}-${s}-${bv}-${cv}-${item.color.colorize ? 1 : 0}`, entry.sprite, item.color)
+      sprite = getColorizedSprite('furniture', `furn-${item.type}-${h}-${s}-${bv}-${cv}-${item.color.colorize ? 1 : 0}`, entry.sprite, item.color)
     }
 
     instances.push({ sprite, x, y, zY })
@@ -127,18 +127,22 @@ function orientationToFacing(orientation: string): Direction {
 }
 
 /** Generate seats from chair furniture.
- *  Facing priority: 1) chair orientation, 2) adjacent desk, 3) forward (DOWN). */
-export function layoutToSeats(furniture: PlacedFurniture[]): Map<string, Seat> {
+ *  Facing priority: 1) chair orientation, 2) adjacent desk, 3) forward (DOWN).
+ *  A seat's directory binding comes from its chair, else from an adjacent bound desk. */
+export function layoutToSeats(furniture: PlacedFurniture[], floor = 0): Map<string, Seat> {
   const seats = new Map<string, Seat>()
 
-  // Build set of all desk tiles
+  // Build set of all desk tiles, and the directory each bound desk tile carries
   const deskTiles = new Set<string>()
+  const deskDirectories = new Map<string, string>()
   for (const item of furniture) {
     const entry = getCatalogEntry(item.type)
     if (!entry || !entry.isDesk) continue
     for (let dr = 0; dr < entry.footprintH; dr++) {
       for (let dc = 0; dc < entry.footprintW; dc++) {
-        deskTiles.add(`${item.col + dc},${item.row + dr}`)
+        const key = `${item.col + dc},${item.row + dr}`
+        deskTiles.add(key)
+        if (item.directory) deskDirectories.set(key, item.directory)
       }
     }
   }
@@ -178,6 +182,14 @@ export function layoutToSeats(furniture: PlacedFurniture[]): Map<string, Seat> {
           }
         }
 
+        let directory = item.directory
+        if (!directory) {
+          for (const d of dirs) {
+            directory = deskDirectories.get(`${tileCol + d.dc},${tileRow + d.dr}`)
+            if (directory) break
+          }
+        }
+
         // First seat uses chair uid (backward compat), subsequent use uid:N
         const seatUid = seatCount === 0 ? item.uid : `${item.uid}:${seatCount}`
         seats.set(seatUid, {
@@ -186,6 +198,8 @@ export function layoutToSeats(furniture: PlacedFurniture[]): Map<string, Seat> {
           seatRow: tileRow,
           facingDir,
           assigned: false,
+          floor,
+          ...(directory ? { directory } : {}),
         })
         seatCount++
       }
@@ -195,6 +209,63 @@ export function layoutToSeats(furniture: PlacedFurniture[]): Map<string, Seat> {
   return seats
 }
 
+/** Whether a tile of the layout is floor with no furniture on it */
+function walkableIn(layout: OfficeLayout): (col: number, row: number) => boolean {
+  const blocked = getBlockedTiles(layout.furniture)
+  return (c, r) =>
+    c >= 0 && c < layout.cols && r >= 0 && r < layout.rows &&
+    layout.tiles[r * layout.cols + c] !== TileType.WALL &&
+    layout.tiles[r * layout.cols + c] !== TileType.VOID &&
+    !blocked.has(`${c},${r}`)
+}
+
+/**
+ * Stairs and elevators on a floor, each with the tile characters use to get on
+ * and off: in front of it if walkable, else beside or behind it. Portals with
+ * no walkable tile around them are left out.
+ */
+export function layoutToPortals(layout: OfficeLayout): Portal[] {
+  const walkable = walkableIn(layout)
+  const portals: Portal[] = []
+  for (const item of layout.furniture) {
+    const kind = getPortalKind(item.type)
+    const entry = kind ? getCatalogEntry(item.type) : undefined
+    if (!kind || !entry) continue
+    const w = entry.footprintW
+    const h = entry.footprintH
+    const candidates: Array<[number, number]> = []
+    for (let dc = 0; dc < w; dc++) candidates.push([item.col + dc, item.row + h])
+    for (let dr = h - 1; dr >= 0; dr--) candidates.push([item.col - 1, item.row + dr], [item.col + w, item.row + dr])
+    for (let dc = 0; dc < w; dc++) candidates.push([item.col + dc, item.row - 1])
+    const access = candidates.find(([c, r]) => walkable(c, r))
+    if (!access) continue
+    portals.push({ uid: item.uid, kind, col: item.col, row: item.row, accessCol: access[0], accessRow: access[1] })
+  }
+  return portals
+}
+
+/** Interaction points of the furniture on a floor that can be stood at */
+export function layoutToInteractionSpots(layout: OfficeLayout): InteractionSpot[] {
+  const walkable = walkableIn(layout)
+  const spots: InteractionSpot[] = []
+  for (const item of layout.furniture) {
+    for (const { dc, dr, ...point } of getCatalogEntry(item.type)?.interactions ?? []) {
+      const col = item.col + dc
+      const row = item.row + dr
+      if (walkable(col, row)) spots.push({ ...point, col, row, uid: item.uid })
+    }
+  }
+  return spots
+}
+
+/** Whether `path` is `directory` or somewhere inside it (either slash style, trailing slashes ignored) */
+export function directoryContains(directory: string, path: string): boolean {
+  const norm = (p: string) => p.replace(/\\/g, '/').replace(/\/+$/, '')
+  const dir = norm(directory)
+  const target = norm(path)
+  return target === dir || target.startsWith(`${dir}/`)
+}
+
 /** Get the set of tiles occupied by seats (so they can be excluded from blocked tiles) */
 export function getSeatTiles(seats: Map<string, Seat>): Set<string> {
   const tiles = new Set<string>()
@@ -264,31 +335,44 @@ export function createDefaultLayout(): OfficeLayout {
     { uid: 'chair-r-right', type: FurnitureType.CHAIR, col: 15, row: 3 },
   ]
 
-  return { version: 1, cols: DEFAULT_COLS, rows: DEFAULT_ROWS, tiles, tileColors, furniture }
+  return { cols: DEFAULT_COLS, rows: DEFAULT_ROWS, tiles, tileColors, furniture }
 }
 
-/** Serialize layout to JSON string */
-export function serializeLayout(layout: OfficeLayout): string {
-  return JSON.stringify(layout)
+/** Create the default building: the default office as its only floor */
+export function createDefaultBuilding(): OfficeBuilding {
+  return { version: 2, floors: [createDefaultLayout()] }
 }
 
-/** Deserialize layout from JSON string, migrating old tile types if needed */
-export function deserializeLayout(json: string): OfficeLayout | null {
+/** Serialize building to JSON string */
+export function serializeLayout(building: OfficeBuilding): string {
+  return JSON.stringify(building)
+}
+
+/** Deserialize building from JSON string, migrating old layouts if needed */
+export function deserializeLayout(json: string): OfficeBuilding | null {
   try {
-    const obj = JSON.parse(json)
-    if (obj && obj.version === 1 && Array.isArray(obj.tiles) && Array.isArray(obj.furniture)) {
-      return migrateLayout(obj as OfficeLayout)
-    }
+    return migrateBuilding(JSON.parse(json))
   } catch { /* ignore parse errors */ }
   return null
 }
 
 /**
- * Ensure layout has tileColors. If missing, generate defaults based on tile types.
+ * Bring a saved layout up to the current version: a version 1 (single-floor)
+ * layout becomes the only floor of a building, and floors missing tileColors
+ * get defaults based on tile types. Returns null if it isn't a layout at all.
  * Exported for use by message handlers that receive layouts over the wire.
  */
-export function migrateLayoutColors(layout: OfficeLayout): OfficeLayout {
-  return migrateLayout(layout)
+export function migrateBuilding(raw: OfficeBuilding | LegacyOfficeLayout | null | undefined): OfficeBuilding | null {
+  const isFloor = (f: OfficeLayout | undefined) => !!f && Array.isArray(f.tiles) && Array.isArray(f.furniture)
+  if (raw?.version === 1 && isFloor(raw)) {
+    const floor: OfficeLayout & Partial<LegacyOfficeLayout> = { ...raw }
+    delete floor.version
+    return { version: 2, floors: [migrateLayout(floor)] }
+  }
+  if (raw?.version === 2 && Array.isArray(raw.floors) && raw.floors.length > 0 && raw.floors.every(isFloor)) {
+    return { version: 2, floors: raw.floors.map(migrateLayout) }
+  }
+  return null
 }
 
 /**
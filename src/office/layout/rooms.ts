@@ -0,0 +1,118 @@
+import { TileType } from '../types.js'
+import type { OfficeLayout, Room } from '../types.js'
+import { ROOM_DOORWAY_MAX_WIDTH } from '../../constants.js'
+
+export interface RoomMap {
+  rooms: Room[]
+  /** Room index per tile (row-major, like layout.tiles); -1 for walls, void and doorways */
+  tileRoom: Int32Array
+}
+
+/**
+ * Split the floor into rooms: flood fill over floor tiles (furniture ignored),
+ * stopping at walls and at doorways. Rooms take their name and workspace
+ * folder from the layout's room labels.
+ */
+export function detectRooms(layout: OfficeLayout): RoomMap {
+  const { cols, rows, tiles } = layout
+  const isFloor = (c: number, r: number): boolean => {
+    if (c < 0 || c >= cols || r < 0 || r >= rows) return false
+    const t = tiles[r * cols + c]
+    return t !== TileType.WALL && t !== TileType.VOID
+  }
+  const isWall = (c: number, r: number): boolean =>
+    c >= 0 && c < cols && r >= 0 && r < rows && tiles[r * cols + c] === TileType.WALL
+
+  /**
+   * A doorway is a short gap in a wall line: walking along the wall's direction
+   * from the tile, both ends hit a wall that carries on past the gap.
+   */
+  const isDoorway = (c: number, r: number): boolean => {
+    for (const [dc, dr] of [[0, 1], [1, 0]]) {
+      let lo = 0
+      while (lo < ROOM_DOORWAY_MAX_WIDTH && isFloor(c - dc * (lo + 1), r - dr * (lo + 1))) lo++
+      let hi = 0
+      while (hi < ROOM_DOORWAY_MAX_WIDTH && isFloor(c + dc * (hi + 1), r + dr * (hi + 1))) hi++
+      if (lo + hi + 1 > ROOM_DOORWAY_MAX_WIDTH) continue
+      const startC = c - dc * (lo + 1)
+      const startR = r - dr * (lo + 1)
+      const endC = c + dc * (hi + 1)
+      const endR = r + dr * (hi + 1)
+      if (isWall(startC, startR) && isWall(startC - dc, startR - dr) && isWall(endC, endR) && isWall(endC + dc, endR + dr)) {
+        return true
+      }
+    }
+    return false
+  }
+
+  const tileRoom = new Int32Array(cols * rows).fill(-1)
+  const doorway = new Uint8Array(cols * rows)
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (isFloor(c, r) && isDoorway(c, r)) doorway[r * cols + c] = 1
+    }
+  }
+
+  const rooms: Room[] = []
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const start = r * cols + c
+      if (tileRoom[start] !== -1 || doorway[start] || !isFloor(c, r)) continue
+      const id = rooms.length
+      const roomTiles: Array<{ col: number; row: number }> = []
+      const stack = [start]
+      tileRoom[start] = id
+      while (stack.length > 0) {
+        const idx = stack.pop()!
+        const tc = idx % cols
+        const tr = Math.floor(idx / cols)
+        roomTiles.push({ col: tc, row: tr })
+        for (const [nc, nr] of [[tc, tr - 1], [tc, tr + 1], [tc - 1, tr], [tc + 1, tr]]) {
+          if (!isFloor(nc, nr)) continue
+          const nIdx = nr * cols + nc
+          if (tileRoom[nIdx] !== -1 || doorway[nIdx]) continue
+          tileRoom[nIdx] = id
+          stack.push(nIdx)
+        }
+      }
+      rooms.push({ id, name: null, folder: null, tiles: roomTiles, labelTile: centralTile(roomTiles) })
+    }
+  }
+
+  for (const label of layout.roomNames || []) {
+    if (label.col < 0 || label.col >= cols || label.row < 0 || label.row >= rows) continue
+    const id = tileRoom[label.row * cols + label.col]
+    if (id < 0) continue
+    if (label.name) rooms[id].name = label.name
+    if (label.folder) rooms[id].folder = label.folder
+  }
+
+  return { rooms, tileRoom }
+}
+
+/** Room tile closest to the room's centroid (rooms needn't be convex) */
+function centralTile(tiles: Array<{ col: number; row: number }>): { col: number; row: number } {
+  let sumC = 0
+  let sumR = 0
+  for (const t of tiles) {
+    sumC += t.col
+    sumR += t.row
+  }
+  const cc = sumC / tiles.length
+  const cr = sumR / tiles.length
+  let best = tiles[0]
+  let bestDist = Infinity
+  for (const t of tiles) {
+    const d = (t.col - cc) ** 2 + (t.row - cr) ** 2
+    if (d < bestDist) {
+      best = t
+      bestDist = d
+    }
+  }
+  return best
+}
+
+/** Display name: the given name, or a numbered placeholder */
+export function roomDisplayName(room: Room): string {
+  return room.name ?? `Room ${room.id + 1}`
+}
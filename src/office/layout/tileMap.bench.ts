@@ -0,0 +1,127 @@
+/**
+ * Pathfinding benchmark: the old string-keyed BFS against PathGrid's A*
+ * (cold, cached and with diagonals) on a furnished 64×64 office.
+ *
+ * Not part of the app bundle. Run with `npm run bench`.
+ */
+import { TileType } from '../types.js'
+import type { TileType as TileTypeVal } from '../types.js'
+import { isWalkable, getWalkableTiles, PathGrid } from './tileMap.js'
+import type { TilePath } from './tileMap.js'
+import { MAX_COLS, MAX_ROWS } from '../../constants.js'
+
+const QUERIES = 2000
+const ROUNDS = 5
+
+/** Deterministic PRNG so every run measures the same map and queries */
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/** The BFS findPath used before PathGrid, kept verbatim as the baseline */
+function findPathBfs(
+  startCol: number,
+  startRow: number,
+  endCol: number,
+  endRow: number,
+  tileMap: TileTypeVal[][],
+  blockedTiles: Set<string>,
+): TilePath {
+  if (startCol === endCol && startRow === endRow) return []
+  const key = (c: number, r: number) => `${c},${r}`
+  const startKey = key(startCol, startRow)
+  const endKey = key(endCol, endRow)
+  if (!isWalkable(endCol, endRow, tileMap, blockedTiles)) return []
+  const visited = new Set<string>([startKey])
+  const parent = new Map<string, string>()
+  const queue: TilePath = [{ col: startCol, row: startRow }]
+  const dirs = [
+    { dc: 0, dr: -1 },
+    { dc: 0, dr: 1 },
+    { dc: -1, dr: 0 },
+    { dc: 1, dr: 0 },
+  ]
+  while (queue.length > 0) {
+    const curr = queue.shift()!
+    const currKey = key(curr.col, curr.row)
+    if (currKey === endKey) {
+      const path: TilePath = []
+      let k = endKey
+      while (k !== startKey) {
+        const [c, r] = k.split(',').map(Number)
+        path.unshift({ col: c, row: r })
+        k = parent.get(k)!
+      }
+      return path
+    }
+    for (const d of dirs) {
+      const nc = curr.col + d.dc
+      const nr = curr.row + d.dr
+      const nk = key(nc, nr)
+      if (visited.has(nk)) continue
+      if (!isWalkable(nc, nr, tileMap, blockedTiles)) continue
+      visited.add(nk)
+      parent.set(nk, currKey)
+      queue.push({ col: nc, row: nr })
+    }
+  }
+  return []
+}
+
+/** Walled grid split into rooms with doorways, scattered with 2×2 furniture */
+function buildOffice(random: () => number): { tileMap: TileTypeVal[][]; blockedTiles: Set<string> } {
+  const tileMap: TileTypeVal[][] = []
+  for (let r = 0; r < MAX_ROWS; r++) {
+    const row: TileTypeVal[] = []
+    for (let c = 0; c < MAX_COLS; c++) {
+      const border = r === 0 || c === 0 || r === MAX_ROWS - 1 || c === MAX_COLS - 1
+      const innerWall = (c % 16 === 0 && r % 16 !== 8) || (r % 16 === 0 && c % 16 !== 8)
+      row.push(border || innerWall ? TileType.WALL : TileType.FLOOR_1)
+    }
+    tileMap.push(row)
+  }
+  const blockedTiles = new Set<string>()
+  for (let i = 0; i < 300; i++) {
+    const col = 1 + Math.floor(random() * (MAX_COLS - 3))
+    const row = 1 + Math.floor(random() * (MAX_ROWS - 3))
+    if (col % 16 >= 7 && col % 16 <= 9) continue // keep doorways clear
+    if (row % 16 >= 7 && row % 16 <= 9) continue
+    for (const [dc, dr] of [[0, 0], [1, 0], [0, 1], [1, 1]]) blockedTiles.add(`${col + dc},${row + dr}`)
+  }
+  return { tileMap, blockedTiles }
+}
+
+function time(label: string, run: () => number): { label: string; msPerQuery: number; tilesWalked: number } {
+  let best = Infinity
+  let tilesWalked = 0
+  for (let round = 0; round < ROUNDS; round++) {
+    const start = performance.now()
+    tilesWalked = run()
+    best = Math.min(best, performance.now() - start)
+  }
+  return { label, msPerQuery: +(best / QUERIES).toFixed(4), tilesWalked }
+}
+
+const random = mulberry32(42)
+const { tileMap, blockedTiles } = buildOffice(random)
+const walkable = getWalkableTiles(tileMap, blockedTiles)
+const pick = () => walkable[Math.floor(random() * walkable.length)]
+const queries = Array.from({ length: QUERIES }, () => [pick(), pick()])
+const sum = (find: (a: { col: number; row: number }, b: { col: number; row: number }) => TilePath) =>
+  queries.reduce((n, [a, b]) => n + find(a, b).length, 0)
+
+const uncached = new PathGrid(tileMap, blockedTiles)
+const cached = new PathGrid(tileMap, blockedTiles, { cacheSize: QUERIES })
+const diagonal = new PathGrid(tileMap, blockedTiles, { diagonal: true })
+
+console.table([
+  time('BFS (string keys)', () => sum((a, b) => findPathBfs(a.col, a.row, b.col, b.row, tileMap, blockedTiles))),
+  time('A*', () => sum((a, b) => uncached.findPath(a.col, a.row, b.col, b.row))),
+  time('A* cached', () => sum((a, b) => cached.findPath(a.col, a.row, b.col, b.row))),
+  time('A* diagonal', () => sum((a, b) => diagonal.findPath(a.col, a.row, b.col, b.row))),
+])
@@ -34,72 +34,230 @@ export function getWalkableTiles(
   return tiles
 }
 
-/** BFS pathfinding on 4-connected grid (no diagonals). Returns path excluding start, including end. */
-export function findPath(
-  startCol: number,
-  startRow: number,
-  endCol: number,
-  endRow: number,
-  tileMap: TileType[][],
-  blockedTiles: Set<string>,
-): Array<{ col: number; row: number }> {
-  if (startCol === endCol && startRow === endRow) return []
-
-  const key = (c: number, r: number) => `${c},${r}`
-  const startKey = key(startCol, startRow)
-  const endKey = key(endCol, endRow)
-
-  // End must be walkable (or be a chair tile which may be adjacent to desk)
-  // We allow the end tile even if it's not strictly walkable for chair positions
-  const endWalkable = isWalkable(endCol, endRow, tileMap, blockedTiles)
-  if (!endWalkable) {
-    // If the end is a desk tile, we still can't path there
-    return []
+export type TilePath = Array<{ col: number; row: number }>
+
+export interface PathGridOptions {
+  /** Allow diagonal steps; a diagonal is only taken when both tiles beside it are walkable */
+  diagonal?: boolean
+  /** Paths remembered until the walkable tiles change */
+  cacheSize?: number
+}
+
+const ORTHOGONAL_STEPS: ReadonlyArray<readonly [number, number]> = [[0, -1], [0, 1], [-1, 0], [1, 0]]
+const DIAGONAL_STEPS: ReadonlyArray<readonly [number, number]> = [[-1, -1], [1, -1], [-1, 1], [1, 1]]
+
+/**
+ * A* pathfinding over one floor. Walkability is flattened into a typed array
+ * (row-major, like layout.tiles), the open set is a binary heap and search
+ * scratch is reused between calls. Found paths are cached until `update` sees
+ * a different set of walkable tiles.
+ */
+export class PathGrid {
+  cols = 0
+  rows = 0
+  private walkable = new Uint8Array(0)
+  private readonly diagonal: boolean
+  private readonly cacheSize: number
+  private cache = new Map<number, TilePath>()
+
+  // Search scratch: a tile's g/parent are valid for the current search when its stamp matches
+  private searchId = 0
+  private stamp = new Uint32Array(0)
+  private closed = new Uint32Array(0)
+  private g = new Float64Array(0)
+  private parent = new Int32Array(0)
+  private heapIdx = new Int32Array(0)
+  private heapF = new Float64Array(0)
+  private heapG = new Float64Array(0)
+  private heapSize = 0
+
+  constructor(tileMap: TileType[][], blockedTiles: Set<string>, options: PathGridOptions = {}) {
+    this.diagonal = options.diagonal ?? false
+    this.cacheSize = options.cacheSize ?? 0
+    this.update(tileMap, blockedTiles)
+  }
+
+  /** Re-read walkability; cached paths are dropped only if it changed */
+  update(tileMap: TileType[][], blockedTiles: Set<string>): void {
+    const rows = tileMap.length
+    const cols = rows > 0 ? tileMap[0].length : 0
+    const walkable = new Uint8Array(cols * rows)
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        if (isWalkable(c, r, tileMap, blockedTiles)) walkable[r * cols + c] = 1
+      }
+    }
+    if (cols === this.cols && rows === this.rows && walkable.every((w, i) => w === this.walkable[i])) return
+    this.cache.clear()
+    this.walkable = walkable
+    if (cols * rows !== this.cols * this.rows) {
+      const n = cols * rows
+      this.stamp = new Uint32Array(n)
+      this.closed = new Uint32Array(n)
+      this.g = new Float64Array(n)
+      this.parent = new Int32Array(n)
+      // Stale heap entries are skipped rather than removed, so a tile can be queued once per neighbour
+      const cap = n * (this.diagonal ? 8 : 4) + 1
+      this.heapIdx = new Int32Array(cap)
+      this.heapF = new Float64Array(cap)
+      this.heapG = new Float64Array(cap)
+      this.searchId = 0
+    }
+    this.cols = cols
+    this.rows = rows
+  }
+
+  isWalkable(col: number, row: number): boolean {
+    return col >= 0 && col < this.cols && row >= 0 && row < this.rows && this.walkable[row * this.cols + col] === 1
+  }
+
+  /**
+   * Shortest path excluding start, including end; [] when already there or
+   * unreachable. `through` is a blocked tile the walker may still use, such as
+   * its own seat; `avoid` are extra tiles (`"col,row"`) to route around, such
+   * as characters in the way — those paths aren't cached.
+   */
+  findPath(
+    startCol: number,
+    startRow: number,
+    endCol: number,
+    endRow: number,
+    through: { col: number; row: number } | null = null,
+    avoid: ReadonlySet<string> | null = null,
+  ): TilePath {
+    if (startCol === endCol && startRow === endRow) return []
+    const cols = this.cols
+    const throughIdx = through && this.inBounds(through.col, through.row) ? through.row * cols + through.col : -1
+    const open = (c: number, r: number): boolean =>
+      this.isWalkable(c, r) || (throughIdx >= 0 && r * cols + c === throughIdx && c >= 0 && c < cols)
+    const passable = avoid && avoid.size > 0 ? (c: number, r: number) => open(c, r) && !avoid.has(`${c},${r}`) : open
+    if (!this.inBounds(startCol, startRow) || !passable(endCol, endRow)) return []
+
+    const n = cols * this.rows
+    const start = startRow * cols + startCol
+    const end = endRow * cols + endCol
+    if (passable !== open) return this.search(start, end, passable)
+    const key = (start * n + end) * (n + 1) + throughIdx + 1
+    const cached = this.cache.get(key)
+    if (cached) {
+      // Refresh recency, hand out a copy (characters consume their path)
+      this.cache.delete(key)
+      this.cache.set(key, cached)
+      return cached.slice()
+    }
+
+    const path = this.search(start, end, passable)
+    if (this.cacheSize > 0) {
+      if (this.cache.size >= this.cacheSize) this.cache.delete(this.cache.keys().next().value!)
+      this.cache.set(key, path)
+    }
+    return path.slice()
   }
 
-  const visited = new Set<string>()
-  visited.add(startKey)
-
-  const parent = new Map<string, string>()
-  const queue: Array<{ col: number; row: number }> = [{ col: startCol, row: startRow }]
-
-  const dirs = [
-    { dc: 0, dr: -1 }, // up
-    { dc: 0, dr: 1 },  // down
-    { dc: -1, dr: 0 }, // left
-    { dc: 1, dr: 0 },  // right
-  ]
-
-  while (queue.length > 0) {
-    const curr = queue.shift()!
-    const currKey = key(curr.col, curr.row)
-
-    if (currKey === endKey) {
-      // Reconstruct path
-      const path: Array<{ col: number; row: number }> = []
-      let k = endKey
-      while (k !== startKey) {
-        const [c, r] = k.split(',').map(Number)
-        path.unshift({ col: c, row: r })
-        k = parent.get(k)!
+  private inBounds(col: number, row: number): boolean {
+    return col >= 0 && col < this.cols && row >= 0 && row < this.rows
+  }
+
+  private search(start: number, end: number, passable: (c: number, r: number) => boolean): TilePath {
+    const cols = this.cols
+    const endCol = end % cols
+    const endRow = Math.floor(end / cols)
+    const heuristic = (c: number, r: number): number => {
+      const dc = Math.abs(c - endCol)
+      const dr = Math.abs(r - endRow)
+      // Octile distance with diagonals, Manhattan without
+      return this.diagonal ? Math.max(dc, dr) + (Math.SQRT2 - 1) * Math.min(dc, dr) : dc + dr
+    }
+
+    const id = ++this.searchId
+    this.heapSize = 0
+    this.stamp[start] = id
+    this.g[start] = 0
+    this.parent[start] = -1
+    this.push(start, heuristic(start % cols, Math.floor(start / cols)), 0)
+
+    while (this.heapSize > 0) {
+      const curr = this.pop()
+      if (this.closed[curr] === id) continue
+      this.closed[curr] = id
+      if (curr === end) break
+      const cc = curr % cols
+      const cr = Math.floor(curr / cols)
+      const gCurr = this.g[curr]
+
+      for (let i = 0; i < (this.diagonal ? 8 : 4); i++) {
+        const [dc, dr] = i < 4 ? ORTHOGONAL_STEPS[i] : DIAGONAL_STEPS[i - 4]
+        const nc = cc + dc
+        const nr = cr + dr
+        if (!passable(nc, nr)) continue
+        // No cutting corners: both tiles beside a diagonal step must be walkable
+        if (dc !== 0 && dr !== 0 && (!passable(cc + dc, cr) || !passable(cc, cr + dr))) continue
+        const next = nr * cols + nc
+        if (this.closed[next] === id) continue
+        const gNext = gCurr + (dc !== 0 && dr !== 0 ? Math.SQRT2 : 1)
+        if (this.stamp[next] === id && this.g[next] <= gNext) continue
+        this.stamp[next] = id
+        this.g[next] = gNext
+        this.parent[next] = curr
+        this.push(next, gNext + heuristic(nc, nr), gNext)
       }
-      return path
     }
 
-    for (const d of dirs) {
-      const nc = curr.col + d.dc
-      const nr = curr.row + d.dr
-      const nk = key(nc, nr)
+    if (this.closed[end] !== id) return []
+    const path: TilePath = []
+    for (let idx = end; idx !== start; idx = this.parent[idx]) {
+      path.push({ col: idx % cols, row: Math.floor(idx / cols) })
+    }
+    return path.reverse()
+  }
 
-      if (visited.has(nk)) continue
-      if (!isWalkable(nc, nr, tileMap, blockedTiles)) continue
+  /** Heap order: lowest f first, then highest g (prefers tiles nearer the goal) */
+  private before(a: number, b: number): boolean {
+    return this.heapF[a] < this.heapF[b] || (this.heapF[a] === this.heapF[b] && this.heapG[a] > this.heapG[b])
+  }
 
-      visited.add(nk)
-      parent.set(nk, currKey)
-      queue.push({ col: nc, row: nr })
+  private swap(a: number, b: number): void {
+    const idx = this.heapIdx[a]
+    const f = this.heapF[a]
+    const g = this.heapG[a]
+    this.heapIdx[a] = this.heapIdx[b]
+    this.heapF[a] = this.heapF[b]
+    this.heapG[a] = this.heapG[b]
+    this.heapIdx[b] = idx
+    this.heapF[b] = f
+    this.heapG[b] = g
+  }
+
+  private push(idx: number, f: number, g: number): void {
+    let i = this.heapSize++
+    this.heapIdx[i] = idx
+    this.heapF[i] = f
+    this.heapG[i] = g
+    while (i > 0) {
+      const up = (i - 1) >> 1
+      if (!this.before(i, up)) break
+      this.swap(i, up)
+      i = up
     }
   }
 
-  // No path found
-  return []
+  private pop(): number {
+    const top = this.heapIdx[0]
+    this.heapSize--
+    if (this.heapSize > 0) {
+      this.swap(0, this.heapSize)
+      let i = 0
+      for (;;) {
+        const l = 2 * i + 1
+        const r = l + 1
+        let best = i
+        if (l < this.heapSize && this.before(l, best)) best = l
+        if (r < this.heapSize && this.before(r, best)) best = r
+        if (best === i) break
+        this.swap(i, best)
+        i = best
+      }
+    }
+    return top
+  }
 }
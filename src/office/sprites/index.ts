@@ -1,4 +1,14 @@
-export { getCachedSprite, getOutlineSprite } from './spriteCache.js'
+export { getCachedSprite, getOutlineSprite, invalidateSprites, forgetSprite, getSpriteCacheStats } from './spriteCache.js'
+export type { SpriteGroup, SpriteCacheStats } from './spriteCache.js'
+export {
+  createSprite,
+  solidSprite,
+  spriteFromHex,
+  spriteToHex,
+  spriteFromPixels,
+  spriteToImageData,
+  spriteToImageBitmap,
+} from './packedSprite.js'
 export {
   DESK_SQUARE_SPRITE,
   BOOKSHELF_SPRITE,
@@ -0,0 +1,295 @@
+/**
+ * Sprite benchmark: the old hex-string matrices against packed RGBA sprites
+ * for asset loading (cutting sheets into frames, hue-shifting characters,
+ * colorizing floors and walls) and for a zoom change (re-rendering every
+ * sprite and outline at the new zoom).
+ *
+ * Node has no canvas, so rendering goes into a minimal software context that
+ * parses fillStyle and fills rects the way a 2D canvas does; absolute times
+ * differ in a browser, but the per-pixel calls the old path makes don't.
+ *
+ * Not part of the app bundle. Run with `npm run bench`.
+ */
+import type { FloorColor, HexSpriteData, SpriteData } from '../types.js'
+import { adjustSprite, colorizeSprite } from '../colorize.js'
+import { spriteFromPixels, spriteToHex, spriteToImageData } from './packedSprite.js'
+import { getOutlineSprite } from './spriteCache.js'
+
+const ROUNDS = 5
+const ZOOM = 4
+const ALPHA_THRESHOLD = 128
+const HUE_SHIFTS = [0, 45, 90, 135, 180, 225]
+const FLOOR_COLOR: FloorColor = { h: 200, s: 40, b: 10, c: 20, colorize: true }
+
+/** Deterministic PRNG so every run measures the same pixels */
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// ── Software canvas ─────────────────────────────────────────────
+
+class BenchImageData {
+  readonly width: number
+  readonly height: number
+  readonly data: Uint8ClampedArray
+  constructor(width: number, height: number) {
+    this.width = width
+    this.height = height
+    this.data = new Uint8ClampedArray(width * height * 4)
+  }
+}
+globalThis.ImageData ??= BenchImageData as unknown as typeof ImageData
+
+/** Just enough of CanvasRenderingContext2D for sprite rendering */
+class SoftContext {
+  readonly width: number
+  readonly data: Uint8ClampedArray
+  private color = [0, 0, 0]
+  constructor(width: number, height: number) {
+    this.width = width
+    this.data = new Uint8ClampedArray(width * height * 4)
+  }
+  set fillStyle(hex: string) {
+    this.color = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16))
+  }
+  fillRect(x: number, y: number, w: number, h: number): void {
+    const [r, g, b] = this.color
+    for (let py = y; py < y + h; py++) {
+      for (let px = x; px < x + w; px++) {
+        const i = (py * this.width + px) * 4
+        this.data[i] = r
+        this.data[i + 1] = g
+        this.data[i + 2] = b
+        this.data[i + 3] = 255
+      }
+    }
+  }
+  putImageData(image: ImageData, x: number, y: number): void {
+    for (let row = 0; row < image.height; row++) {
+      const start = row * image.width * 4
+      this.data.set(image.data.subarray(start, start + image.width * 4), ((y + row) * this.width + x) * 4)
+    }
+  }
+}
+
+// ── Old hex-matrix code paths, as the baseline ──────────────────
+
+function extractHexSprite(data: Uint8ClampedArray, imgWidth: number, x: number, y: number, w: number, h: number): HexSpriteData {
+  const rows: string[][] = []
+  for (let row = 0; row < h; row++) {
+    const cols: string[] = []
+    for (let col = 0; col < w; col++) {
+      const idx = ((y + row) * imgWidth + (x + col)) * 4
+      const r = data[idx]
+      const g = data[idx + 1]
+      const b = data[idx + 2]
+      const a = data[idx + 3]
+      if (a < ALPHA_THRESHOLD) {
+        cols.push('')
+      } else {
+        cols.push(
+          `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`,
+        )
+      }
+    }
+    rows.push(cols)
+  }
+  return rows
+}
+
+function hslToHex(h: number, s: number, l: number): string {
+  const c = (1 - Math.abs(2 * l - 1)) * s
+  const hp = h / 60
+  const x = c * (1 - Math.abs(hp % 2 - 1))
+  let r1 = 0, g1 = 0, b1 = 0
+  if (hp < 1) { r1 = c; g1 = x; b1 = 0 }
+  else if (hp < 2) { r1 = x; g1 = c; b1 = 0 }
+  else if (hp < 3) { r1 = 0; g1 = c; b1 = x }
+  else if (hp < 4) { r1 = 0; g1 = x; b1 = c }
+  else if (hp < 5) { r1 = x; g1 = 0; b1 = c }
+  else { r1 = c; g1 = 0; b1 = x }
+  const m = l - c / 2
+  const clamp255 = (v: number) => Math.max(0, Math.min(255, v))
+  const hex = (v: number) => clamp255(Math.round((v + m) * 255)).toString(16).padStart(2, '0')
+  return `#${hex(r1)}${hex(g1)}${hex(b1)}`.toUpperCase()
+}
+
+function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
+  const rf = r / 255, gf = g / 255, bf = b / 255
+  const max = Math.max(rf, gf, bf), min = Math.min(rf, gf, bf)
+  const l = (max + min) / 2
+  if (max === min) return [0, 0, l]
+  const d = max - min
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min)
+  let h = 0
+  if (max === rf) h = ((gf - bf) / d + (gf < bf ? 6 : 0)) * 60
+  else if (max === gf) h = ((bf - rf) / d + 2) * 60
+  else h = ((rf - gf) / d + 4) * 60
+  return [h, s, l]
+}
+
+function adjustHexSprite(sprite: HexSpriteData, color: FloorColor): HexSpriteData {
+  const { h: hShift, s: sShift, b, c } = color
+  return sprite.map((row) =>
+    row.map((pixel) => {
+      if (pixel === '') return ''
+      const [origH, origS, origL] = rgbToHsl(
+        parseInt(pixel.slice(1, 3), 16),
+        parseInt(pixel.slice(3, 5), 16),
+        parseInt(pixel.slice(5, 7), 16),
+      )
+      let lightness = origL
+      if (c !== 0) lightness = 0.5 + (lightness - 0.5) * ((100 + c) / 100)
+      if (b !== 0) lightness = lightness + b / 200
+      lightness = Math.max(0, Math.min(1, lightness))
+      return hslToHex(((origH + hShift) % 360 + 360) % 360, Math.max(0, Math.min(1, origS + sShift / 100)), lightness)
+    }),
+  )
+}
+
+function colorizeHexSprite(sprite: HexSpriteData, color: FloorColor): HexSpriteData {
+  const { h, s, b, c } = color
+  return sprite.map((row) =>
+    row.map((pixel) => {
+      if (pixel === '') return ''
+      let lightness =
+        (0.299 * parseInt(pixel.slice(1, 3), 16) + 0.587 * parseInt(pixel.slice(3, 5), 16) + 0.114 * parseInt(pixel.slice(5, 7), 16)) / 255
+      if (c !== 0) lightness = 0.5 + (lightness - 0.5) * ((100 + c) / 100)
+      if (b !== 0) lightness = lightness + b / 200
+      return hslToHex(h, s / 100, Math.max(0, Math.min(1, lightness)))
+    }),
+  )
+}
+
+function outlineHexSprite(sprite: HexSpriteData): HexSpriteData {
+  const rows = sprite.length
+  const cols = sprite[0].length
+  const outline: string[][] = []
+  for (let r = 0; r < rows + 2; r++) outline.push(new Array<string>(cols + 2).fill(''))
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (sprite[r][c] === '') continue
+      if (outline[r][c + 1] === '') outline[r][c + 1] = '#FFFFFF'
+      if (outline[r + 2][c + 1] === '') outline[r + 2][c + 1] = '#FFFFFF'
+      if (outline[r + 1][c] === '') outline[r + 1][c] = '#FFFFFF'
+      if (outline[r + 1][c + 2] === '') outline[r + 1][c + 2] = '#FFFFFF'
+    }
+  }
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (sprite[r][c] !== '') outline[r + 1][c + 1] = ''
+    }
+  }
+  return outline
+}
+
+function renderHexSprite(sprite: HexSpriteData, zoom: number): SoftContext {
+  const ctx = new SoftContext(sprite[0].length * zoom, sprite.length * zoom)
+  for (let r = 0; r < sprite.length; r++) {
+    for (let c = 0; c < sprite[r].length; c++) {
+      const color = sprite[r][c]
+      if (color === '') continue
+      ctx.fillStyle = color
+      ctx.fillRect(c * zoom, r * zoom, zoom, zoom)
+    }
+  }
+  return ctx
+}
+
+// ── New packed code paths ───────────────────────────────────────
+
+function renderPackedSprite(sprite: SpriteData, zoom: number): SoftContext {
+  const ctx = new SoftContext(sprite.width * zoom, sprite.height * zoom)
+  ctx.putImageData(spriteToImageData(sprite, zoom), 0, 0)
+  return ctx
+}
+
+/** A fresh object each call, so getOutlineSprite's cache never hits */
+function outlinePackedSprite(sprite: SpriteData): SpriteData {
+  return getOutlineSprite({ ...sprite })
+}
+
+// ── Assets ──────────────────────────────────────────────────────
+
+interface Sheet {
+  pixels: Uint8ClampedArray
+  width: number
+  frames: Array<[x: number, y: number, w: number, h: number]>
+}
+
+/** A sheet of `cols`×`rows` frames, about 40% transparent like the character PNGs */
+function buildSheet(random: () => number, cols: number, rows: number, w: number, h: number): Sheet {
+  const width = cols * w
+  const pixels = new Uint8ClampedArray(width * rows * h * 4)
+  for (let i = 0; i < pixels.length; i += 4) {
+    pixels[i] = random() * 256
+    pixels[i + 1] = random() * 256
+    pixels[i + 2] = random() * 256
+    pixels[i + 3] = random() < 0.4 ? 0 : 255
+  }
+  const frames: Sheet['frames'] = []
+  for (let r = 0; r < rows; r++) for (let c = 0; c < cols; c++) frames.push([c * w, r * h, w, h])
+  return { pixels, width, frames }
+}
+
+const random = mulberry32(42)
+const characterSheets = Array.from({ length: 6 }, () => buildSheet(random, 15, 3, 16, 32))
+const wallSheet = buildSheet(random, 4, 4, 16, 32)
+const floorSheet = buildSheet(random, 7, 1, 16, 16)
+const furnitureSheet = buildSheet(random, 10, 6, 32, 32)
+const allSheets = [...characterSheets, wallSheet, floorSheet, furnitureSheet]
+
+const cutHex = (sheet: Sheet) => sheet.frames.map(([x, y, w, h]) => extractHexSprite(sheet.pixels, sheet.width, x, y, w, h))
+const cutPacked = (sheet: Sheet) =>
+  sheet.frames.map(([x, y, w, h]) => spriteFromPixels(sheet.pixels, sheet.width, x, y, w, h, ALPHA_THRESHOLD))
+
+const hexSprites = allSheets.flatMap(cutHex)
+const packedSprites = allSheets.flatMap(cutPacked)
+const hexCharacters = characterSheets.flatMap(cutHex)
+const packedCharacters = characterSheets.flatMap(cutPacked)
+const hexTiles = [wallSheet, floorSheet].flatMap(cutHex)
+const packedTiles = [wallSheet, floorSheet].flatMap(cutPacked)
+
+// Both paths must agree before their times mean anything
+const check = (label: string, hex: HexSpriteData, packed: SpriteData) => {
+  if (JSON.stringify(hex).toUpperCase() !== JSON.stringify(spriteToHex(packed))) throw new Error(`${label}: outputs differ`)
+}
+check('cut', hexSprites[0], packedSprites[0])
+check('hue shift', adjustHexSprite(hexCharacters[0], { h: 90, s: 0, b: 0, c: 0 }), adjustSprite(packedCharacters[0], { h: 90, s: 0, b: 0, c: 0 }))
+check('colorize', colorizeHexSprite(hexTiles[0], FLOOR_COLOR), colorizeSprite(packedTiles[0], FLOOR_COLOR))
+check('outline', outlineHexSprite(hexCharacters[0]), outlinePackedSprite(packedCharacters[0]))
+
+// ── Timing ──────────────────────────────────────────────────────
+
+function time(run: () => unknown): number {
+  let best = Infinity
+  for (let round = 0; round < ROUNDS; round++) {
+    const start = performance.now()
+    run()
+    best = Math.min(best, performance.now() - start)
+  }
+  return best
+}
+
+function compare(label: string, hex: () => unknown, packed: () => unknown) {
+  const hexMs = time(hex)
+  const packedMs = time(packed)
+  return { label, hexMs: +hexMs.toFixed(2), packedMs: +packedMs.toFixed(2), speedup: `${(hexMs / packedMs).toFixed(1)}x` }
+}
+
+const hueShift = (sprites: unknown[], shift: (s: never, color: FloorColor) => unknown) =>
+  HUE_SHIFTS.forEach((h) => sprites.forEach((s) => shift(s as never, { h, s: 0, b: 0, c: 0 })))
+
+console.log(`${packedSprites.length} sprites, ${packedCharacters.length} character frames, zoom ${ZOOM}`)
+console.table([
+  compare('load: cut sheets', () => allSheets.map(cutHex), () => allSheets.map(cutPacked)),
+  compare('load: hue-shift characters', () => hueShift(hexCharacters, adjustHexSprite), () => hueShift(packedCharacters, adjustSprite)),
+  compare('load: colorize floors + walls', () => hexTiles.map((s) => colorizeHexSprite(s, FLOOR_COLOR)), () => packedTiles.map((s) => colorizeSprite(s, FLOOR_COLOR))),
+  compare('zoom: render all sprites', () => hexSprites.map((s) => renderHexSprite(s, ZOOM)), () => packedSprites.map((s) => renderPackedSprite(s, ZOOM))),
+  compare('zoom: render outlines', () => hexCharacters.map((s) => renderHexSprite(outlineHexSprite(s), ZOOM)), () => packedCharacters.map((s) => renderPackedSprite(outlinePackedSprite(s), ZOOM))),
+])
@@ -0,0 +1,156 @@
+/**
+ * Packed RGBA sprites: creation, conversion from the legacy hex matrices
+ * (hand-drawn sprites, sprites in asset JSON) and from decoded images, and
+ * turning a sprite into ImageData or an ImageBitmap at a zoom.
+ */
+
+import type { SpriteData, HexSpriteData } from '../types.js'
+
+/** A fully transparent sprite */
+export function createSprite(width: number, height: number): SpriteData {
+  return { width, height, data: new Uint8ClampedArray(width * height * 4) }
+}
+
+/** A sprite filled with one '#RRGGBB' color */
+export function solidSprite(width: number, height: number, hex: string): SpriteData {
+  const sprite = createSprite(width, height)
+  const value = parseInt(hex.slice(1, 7), 16)
+  const { data } = sprite
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = value >> 16
+    data[i + 1] = (value >> 8) & 0xff
+    data[i + 2] = value & 0xff
+    data[i + 3] = 255
+  }
+  return sprite
+}
+
+/** Pack a hex matrix ('#RRGGBB', '#RRGGBBAA' or '' for transparent) */
+export function spriteFromHex(rows: HexSpriteData): SpriteData {
+  const height = rows.length
+  const width = rows[0]?.length ?? 0
+  const sprite = createSprite(width, height)
+  const { data } = sprite
+  for (let r = 0; r < height; r++) {
+    const row = rows[r]
+    for (let c = 0; c < width; c++) {
+      const hex = row[c]
+      if (!hex) continue
+      const i = (r * width + c) * 4
+      const value = parseInt(hex.slice(1, 7), 16)
+      data[i] = value >> 16
+      data[i + 1] = (value >> 8) & 0xff
+      data[i + 2] = value & 0xff
+      data[i + 3] = hex.length === 9 ? parseInt(hex.slice(7, 9), 16) : 255
+    }
+  }
+  return sprite
+}
+
+/** Unpack to a hex matrix ('#RRGGBB', with an alpha byte only when not opaque) */
+export function spriteToHex(sprite: SpriteData): HexSpriteData {
+  const { width, height, data } = sprite
+  const hex = (v: number) => v.toString(16).padStart(2, '0').toUpperCase()
+  const rows: HexSpriteData = []
+  for (let r = 0; r < height; r++) {
+    const row: string[] = []
+    for (let c = 0; c < width; c++) {
+      const i = (r * width + c) * 4
+      const a = data[i + 3]
+      row.push(a === 0 ? '' : `#${hex(data[i])}${hex(data[i + 1])}${hex(data[i + 2])}${a === 255 ? '' : hex(a)}`)
+    }
+    rows.push(row)
+  }
+  return rows
+}
+
+/**
+ * Cut a `w`×`h` sprite out of decoded image pixels (e.g. from getImageData).
+ * Pixels below `alphaThreshold` become transparent and the rest opaque, so
+ * sprites stay crisp however the PNG was exported.
+ */
+export function spriteFromPixels(
+  pixels: Uint8ClampedArray,
+  imageWidth: number,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  alphaThreshold: number,
+): SpriteData {
+  const sprite = createSprite(w, h)
+  const { data } = sprite
+  for (let row = 0; row < h; row++) {
+    const start = ((y + row) * imageWidth + x) * 4
+    data.set(pixels.subarray(start, start + w * 4), row * w * 4)
+  }
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < alphaThreshold) {
+      data[i] = data[i + 1] = data[i + 2] = data[i + 3] = 0
+    } else {
+      data[i + 3] = 255
+    }
+  }
+  return sprite
+}
+
+/** Whether the pixel at (col, row) is drawn; false outside the sprite */
+export function isPixelOpaque(sprite: SpriteData, col: number, row: number): boolean {
+  if (col < 0 || row < 0 || col >= sprite.width || row >= sprite.height) return false
+  return sprite.data[(row * sprite.width + col) * 4 + 3] !== 0
+}
+
+/** CSS color of the pixel at (col, row), or null where it's transparent or outside the sprite */
+export function pixelColor(sprite: SpriteData, col: number, row: number): string | null {
+  if (!isPixelOpaque(sprite, col, row)) return null
+  const i = (row * sprite.width + col) * 4
+  const { data } = sprite
+  return data[i + 3] === 255
+    ? `rgb(${data[i]}, ${data[i + 1]}, ${data[i + 2]})`
+    : `rgba(${data[i]}, ${data[i + 1]}, ${data[i + 2]}, ${data[i + 3] / 255})`
+}
+
+/** The sprite mirrored left to right */
+export function flipSprite(sprite: SpriteData): SpriteData {
+  const { width, height } = sprite
+  const out = createSprite(width, height)
+  const src = new Uint32Array(sprite.data.buffer, sprite.data.byteOffset, width * height)
+  const dst = new Uint32Array(out.data.buffer)
+  for (let r = 0; r < height; r++) {
+    const rowStart = r * width
+    for (let c = 0; c < width; c++) dst[rowStart + c] = src[rowStart + width - 1 - c]
+  }
+  return out
+}
+
+/**
+ * The sprite's pixels scaled up `zoom` times (each pixel a zoom×zoom block),
+ * ready for putImageData. Copies whole pixels as 32-bit words, so byte order
+ * doesn't matter.
+ */
+export function spriteToImageData(sprite: SpriteData, zoom = 1): ImageData {
+  const { width, height } = sprite
+  const outWidth = width * zoom
+  const image = new ImageData(outWidth, height * zoom)
+  if (zoom === 1) {
+    image.data.set(sprite.data)
+    return image
+  }
+  const src = new Uint32Array(sprite.data.buffer, sprite.data.byteOffset, width * height)
+  const dst = new Uint32Array(image.data.buffer)
+  for (let r = 0; r < height; r++) {
+    const rowStart = r * zoom * outWidth
+    for (let c = 0; c < width; c++) {
+      const pixel = src[r * width + c]
+      if (pixel !== 0) dst.fill(pixel, rowStart + c * zoom, rowStart + (c + 1) * zoom)
+    }
+    // The other rows of the block are copies of the first
+    for (let k = 1; k < zoom; k++) dst.copyWithin(rowStart + k * outWidth, rowStart, rowStart + outWidth)
+  }
+  return image
+}
+
+/** The sprite scaled up `zoom` times as an ImageBitmap, for callers that can wait for the decode */
+export function spriteToImageBitmap(sprite: SpriteData, zoom = 1): Promise<ImageBitmap> {
+  return createImageBitmap(spriteToImageData(sprite, zoom))
+}
@@ -1,6 +1,30 @@
 import type { SpriteData } from '../types.js'
+import { createSprite, spriteToImageData } from './packedSprite.js'
+import {
+  SPRITE_CACHE_BUDGET_BYTES,
+  SPRITE_CACHE_ZOOM_IDLE_SEC,
+  SPRITE_CACHE_SWEEP_INTERVAL_SEC,
+} from '../../constants.js'
 
-const zoomCaches = new Map<number, WeakMap<SpriteData, HTMLCanvasElement>>()
+/** A canvas sprites are drawn into: a DOM canvas, or an OffscreenCanvas in the render worker (no document there) */
+export type SpriteCanvas = HTMLCanvasElement | OffscreenCanvas
+
+/** A blank canvas with smoothing off, on the main thread or in a worker */
+export function createCanvas(width: number, height: number): { canvas: SpriteCanvas; ctx: CanvasRenderingContext2D } {
+  if (typeof document === 'undefined') {
+    const canvas = new OffscreenCanvas(width, height)
+    // Draws the same as the DOM context; typed as one so the render functions take either
+    const ctx = canvas.getContext('2d')! as unknown as CanvasRenderingContext2D
+    ctx.imageSmoothingEnabled = false
+    return { canvas, ctx }
+  }
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')!
+  ctx.imageSmoothingEnabled = false
+  return { canvas, ctx }
+}
 
 // ── Outline sprite generation ─────────────────────────────────
 
@@ -11,33 +35,29 @@ export function getOutlineSprite(sprite: SpriteData): SpriteData {
   const cached = outlineCache.get(sprite)
   if (cached) return cached
 
-  const rows = sprite.length
-  const cols = sprite[0].length
+  const { width: cols, height: rows, data } = sprite
   // Expanded grid: +2 in each dimension for 1px border
-  const outline: string[][] = []
-  for (let r = 0; r < rows + 2; r++) {
-    outline.push(new Array<string>(cols + 2).fill(''))
-  }
+  const outlineCols = cols + 2
+  const outline = createSprite(outlineCols, rows + 2)
+  // One word per pixel; 0xffffffff is opaque white in either byte order
+  const out = new Uint32Array(outline.data.buffer)
 
   // For each opaque pixel, mark its 4 cardinal neighbors as white
   for (let r = 0; r < rows; r++) {
     for (let c = 0; c < cols; c++) {
-      if (sprite[r][c] === '') continue
-      const er = r + 1
-      const ec = c + 1
-      if (outline[er - 1][ec] === '') outline[er - 1][ec] = '#FFFFFF'
-      if (outline[er + 1][ec] === '') outline[er + 1][ec] = '#FFFFFF'
-      if (outline[er][ec - 1] === '') outline[er][ec - 1] = '#FFFFFF'
-      if (outline[er][ec + 1] === '') outline[er][ec + 1] = '#FFFFFF'
+      if (data[(r * cols + c) * 4 + 3] === 0) continue
+      const e = (r + 1) * outlineCols + c + 1
+      out[e - outlineCols] = 0xffffffff
+      out[e + outlineCols] = 0xffffffff
+      out[e - 1] = 0xffffffff
+      out[e + 1] = 0xffffffff
     }
   }
 
   // Clear pixels that overlap with original opaque pixels
   for (let r = 0; r < rows; r++) {
     for (let c = 0; c < cols; c++) {
-      if (sprite[r][c] !== '') {
-        outline[r + 1][c + 1] = ''
-      }
+      if (data[(r * cols + c) * 4 + 3] !== 0) out[(r + 1) * outlineCols + c + 1] = 0
     }
   }
 
@@ -45,33 +65,193 @@ export function getOutlineSprite(sprite: SpriteData): SpriteData {
   return outline
 }
 
-export function getCachedSprite(sprite: SpriteData, zoom: number): HTMLCanvasElement {
-  let cache = zoomCaches.get(zoom)
-  if (!cache) {
-    cache = new WeakMap()
-    zoomCaches.set(zoom, cache)
+function renderSprite(sprite: SpriteData, zoom: number): SpriteCanvas {
+  const { canvas, ctx } = createCanvas(sprite.width * zoom, sprite.height * zoom)
+  if (canvas.width > 0 && canvas.height > 0) ctx.putImageData(spriteToImageData(sprite, zoom), 0, 0)
+  return canvas
+}
+
+// ── Sprite cache service ──────────────────────────────────────
+
+/** What recolored sprite data was made for; invalidateSprites drops a whole group */
+export type SpriteGroup = 'floor' | 'wall' | 'furniture'
+
+interface CacheEntry {
+  value: SpriteCanvas | SpriteData
+  bytes: number
+  /** Zoom of a rendered canvas; null for recolored sprite data */
+  zoom: number | null
+  group: SpriteGroup | null
+}
+
+export interface SpriteCacheStats {
+  hits: number
+  misses: number
+  /** Entries dropped for the budget or an idle zoom level (not invalidations) */
+  evictions: number
+  entries: number
+  bytes: number
+  budgetBytes: number
+  /** Zoom levels with canvases in the cache */
+  zooms: number[]
+}
+
+/**
+ * One LRU store for every cached sprite: sprites rendered to canvases at a
+ * zoom (keyed by sprite and zoom) and recolored sprite data (keyed by a
+ * string). The least recently used entries go once the total passes
+ * SPRITE_CACHE_BUDGET_BYTES, and all canvases of a zoom level go once it
+ * hasn't been drawn at for SPRITE_CACHE_ZOOM_IDLE_SEC.
+ */
+class SpriteCache {
+  /** Map order is recency: oldest first */
+  private entries = new Map<string, CacheEntry>()
+  private spriteIds = new WeakMap<SpriteData, number>()
+  private nextSpriteId = 1
+  /** Every zoom that may have canvases in the cache, with when it was last drawn at */
+  private zoomLastUsed = new Map<number, number>()
+  private lastSweep = 0
+  private bytes = 0
+  private hits = 0
+  private misses = 0
+  private evictions = 0
+
+  canvas(sprite: SpriteData, zoom: number): SpriteCanvas {
+    const now = performance.now()
+    this.zoomLastUsed.set(zoom, now)
+    // Sweep on hits too: once the current zoom is fully cached every lookup hits
+    if (now - this.lastSweep >= SPRITE_CACHE_SWEEP_INTERVAL_SEC * 1000) this.evictIdleZooms(now)
+    const key = `${zoom}:${this.spriteId(sprite)}`
+    const hit = this.touch(key)
+    if (hit) return hit.value as SpriteCanvas
+
+    this.misses++
+    const canvas = renderSprite(sprite, zoom)
+    this.add(key, { value: canvas, bytes: canvas.width * canvas.height * 4, zoom, group: null })
+    return canvas
   }
 
-  const cached = cache.get(sprite)
-  if (cached) return cached
+  data(group: SpriteGroup, key: string, build: () => SpriteData): SpriteData {
+    const fullKey = `${group}:${key}`
+    const hit = this.touch(fullKey)
+    if (hit) return hit.value as SpriteData
 
-  const rows = sprite.length
-  const cols = sprite[0].length
-  const canvas = document.createElement('canvas')
-  canvas.width = cols * zoom
-  canvas.height = rows * zoom
-  const ctx = canvas.getContext('2d')!
-  ctx.imageSmoothingEnabled = false
+    this.misses++
+    const sprite = build()
+    this.add(fullKey, { value: sprite, bytes: sprite.data.byteLength, zoom: null, group })
+    return sprite
+  }
 
-  for (let r = 0; r < rows; r++) {
-    for (let c = 0; c < cols; c++) {
-      const color = sprite[r][c]
-      if (color === '') continue
-      ctx.fillStyle = color
-      ctx.fillRect(c * zoom, r * zoom, zoom, zoom)
+  /** Drop a group's recolored sprites and everything rendered from them */
+  invalidate(group: SpriteGroup): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.group !== group) continue
+      this.remove(key, entry)
+      this.forget(entry.value as SpriteData)
     }
   }
 
-  cache.set(sprite, canvas)
-  return canvas
+  /** Drop the canvases rendered from a sprite, at every zoom */
+  forget(sprite: SpriteData): void {
+    const id = this.spriteIds.get(sprite)
+    if (id === undefined) return
+    for (const zoom of this.zoomLastUsed.keys()) {
+      const key = `${zoom}:${id}`
+      const entry = this.entries.get(key)
+      if (entry) this.remove(key, entry)
+    }
+  }
+
+  stats(): SpriteCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      entries: this.entries.size,
+      bytes: this.bytes,
+      budgetBytes: SPRITE_CACHE_BUDGET_BYTES,
+      zooms: [...this.zoomLastUsed.keys()].sort((a, b) => a - b),
+    }
+  }
+
+  private spriteId(sprite: SpriteData): number {
+    let id = this.spriteIds.get(sprite)
+    if (id === undefined) {
+      id = this.nextSpriteId++
+      this.spriteIds.set(sprite, id)
+    }
+    return id
+  }
+
+  private touch(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+    this.hits++
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return entry
+  }
+
+  private add(key: string, entry: CacheEntry): void {
+    this.entries.set(key, entry)
+    this.bytes += entry.bytes
+    // Never evict the entry just added, even if it alone is over budget
+    for (const [oldKey, old] of this.entries) {
+      if (this.bytes <= SPRITE_CACHE_BUDGET_BYTES || oldKey === key) break
+      this.remove(oldKey, old)
+      this.evictions++
+    }
+  }
+
+  private remove(key: string, entry: CacheEntry): void {
+    this.entries.delete(key)
+    this.bytes -= entry.bytes
+  }
+
+  private evictIdleZooms(now: number): void {
+    this.lastSweep = now
+    for (const [zoom, lastUsed] of this.zoomLastUsed) {
+      if (now - lastUsed < SPRITE_CACHE_ZOOM_IDLE_SEC * 1000) continue
+      for (const [key, entry] of this.entries) {
+        if (entry.zoom !== zoom) continue
+        this.remove(key, entry)
+        this.evictions++
+      }
+      this.zoomLastUsed.delete(zoom)
+    }
+  }
+}
+
+const cache = new SpriteCache()
+/** Stats posted by the render worker, which holds the cache frames are drawn from while it's in use */
+let reportedStats: SpriteCacheStats | null = null
+
+/** The sprite drawn at a zoom, as a canvas */
+export function getCachedSprite(sprite: SpriteData, zoom: number): SpriteCanvas {
+  return cache.canvas(sprite, zoom)
+}
+
+/** Sprite data cached under `group` and `key`, made with `build` on a miss */
+export function getCachedSpriteData(group: SpriteGroup, key: string, build: () => SpriteData): SpriteData {
+  return cache.data(group, key, build)
+}
+
+/** Drop every recolored sprite of a group (and its canvases), e.g. after the colors it was made for changed */
+export function invalidateSprites(group: SpriteGroup): void {
+  cache.invalidate(group)
+}
+
+/** Drop the canvases of a sprite that won't be drawn again */
+export function forgetSprite(sprite: SpriteData): void {
+  cache.forget(sprite)
+}
+
+/** Stats of the cache frames are drawn from: the render worker's while it draws, else this thread's */
+export function getSpriteCacheStats(): SpriteCacheStats {
+  return reportedStats ?? cache.stats()
+}
+
+/** Take over stats from the render worker */
+export function reportSpriteCacheStats(stats: SpriteCacheStats): void {
+  reportedStats = stats
 }
@@ -1,6 +1,7 @@
-import type { Direction, SpriteData, FloorColor } from '../types.js'
+import type { AgentAccessory, Direction, SpriteData, FloorColor } from '../types.js'
 import { Direction as Dir } from '../types.js'
 import { adjustSprite } from '../colorize.js'
+import { createSprite, flipSprite, spriteFromHex } from './packedSprite.js'
 
 // ── Color Palettes ──────────────────────────────────────────────
 const _ = '' // transparent
@@ -8,7 +9,7 @@ const _ = '' // transparent
 // ── Furniture Sprites ───────────────────────────────────────────
 
 /** Square desk: 32x32 pixels (2x2 tiles) — top-down wood surface */
-export const DESK_SQUARE_SPRITE: SpriteData = (() => {
+export const DESK_SQUARE_SPRITE: SpriteData = spriteFromHex((() => {
   const W = '#8B6914' // wood edge
   const L = '#A07828' // lighter wood
   const S = '#B8922E' // surface
@@ -51,10 +52,10 @@ export const DESK_SQUARE_SPRITE: SpriteData = (() => {
   rows.push(new Array(32).fill(_))
   rows.push(new Array(32).fill(_))
   return rows
-})()
+})())
 
 /** Plant in pot: 16x24 */
-export const PLANT_SPRITE: SpriteData = (() => {
+export const PLANT_SPRITE: SpriteData = spriteFromHex((() => {
   const G = '#3D8B37'
   const D = '#2D6B27'
   const T = '#6B4E0A'
@@ -86,10 +87,10 @@ export const PLANT_SPRITE: SpriteData = (() => {
     [_, _, _, _, _, _, R, R, R, _, _, _, _, _, _, _],
     [_, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _],
   ]
-})()
+})())
 
 /** Bookshelf: 16x32 (1 tile wide, 2 tiles tall) */
-export const BOOKSHELF_SPRITE: SpriteData = (() => {
+export const BOOKSHELF_SPRITE: SpriteData = spriteFromHex((() => {
   const W = '#8B6914'
   const D = '#6B4E0A'
   const R = '#CC4444'
@@ -131,10 +132,10 @@ export const BOOKSHELF_SPRITE: SpriteData = (() => {
     [W, W, W, W, W, W, W, W, W, W, W, W, W, W, W, W],
     [_, W, W, W, W, W, W, W, W, W, W, W, W, W, W, _],
   ]
-})()
+})())
 
 /** Water cooler: 16x24 */
-export const COOLER_SPRITE: SpriteData = (() => {
+export const COOLER_SPRITE: SpriteData = spriteFromHex((() => {
   const W = '#CCDDEE'
   const L = '#88BBDD'
   const D = '#999999'
@@ -165,10 +166,10 @@ export const COOLER_SPRITE: SpriteData = (() => {
     [_, _, _, _, D, D, D, D, D, D, D, D, _, _, _, _],
     [_, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _],
   ]
-})()
+})())
 
 /** Whiteboard: 32x16 (2 tiles wide, 1 tile tall) — hangs on wall */
-export const WHITEBOARD_SPRITE: SpriteData = (() => {
+export const WHITEBOARD_SPRITE: SpriteData = spriteFromHex((() => {
   const F = '#AAAAAA'
   const W = '#EEEEFF'
   const M = '#CC4444'
@@ -191,10 +192,10 @@ export const WHITEBOARD_SPRITE: SpriteData = (() => {
     [_, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _],
     [_, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _],
   ]
-})()
+})())
 
 /** Chair: 16x16 — top-down desk chair */
-export const CHAIR_SPRITE: SpriteData = (() => {
+export const CHAIR_SPRITE: SpriteData = spriteFromHex((() => {
   const W = '#8B6914'
   const D = '#6B4E0A'
   const B = '#5C3D0A'
@@ -217,10 +218,10 @@ export const CHAIR_SPRITE: SpriteData = (() => {
     [_, _, _, _, _, D, _, _, _, _, D, _, _, _, _, _],
     [_, _, _, _, _, D, _, _, _, _, D, _, _, _, _, _],
   ]
-})()
+})())
 
 /** PC monitor: 16x16 — top-down monitor on stand */
-export const PC_SPRITE: SpriteData = (() => {
+export const PC_SPRITE: SpriteData = spriteFromHex((() => {
   const F = '#555555'
   const S = '#3A3A5C'
   const B = '#6688CC'
@@ -243,10 +244,10 @@ export const PC_SPRITE: SpriteData = (() => {
     [_, _, _, _, _, D, D, D, D, D, D, _, _, _, _, _],
     [_, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _],
   ]
-})()
+})())
 
 /** Desk lamp: 16x16 — top-down lamp with light cone */
-export const LAMP_SPRITE: SpriteData = (() => {
+export const LAMP_SPRITE: SpriteData = spriteFromHex((() => {
   const Y = '#FFDD55'
   const L = '#FFEE88'
   const D = '#888888'
@@ -270,12 +271,98 @@ export const LAMP_SPRITE: SpriteData = (() => {
     [_, _, _, _, _, B, B, B, B, B, B, _, _, _, _, _],
     [_, _, _, _, _, _, _, _, _, _, _, _, _, _, _, _],
   ]
-})()
+})())
+
+/** Stairs: 16x32 — treads climbing away from the viewer, with an up arrow */
+export const STAIRS_SPRITE: SpriteData = spriteFromHex((() => {
+  const R = '#5A4A3A'
+  const L = '#B8A080'
+  const T = '#9A8262'
+  const D = '#6E5A44'
+  const A = '#E8D8A0'
+  return [
+    [_, R, R, R, R, R, R, R, R, R, R, R, R, R, R, _],
+    [R, T, T, T, T, T, T, T, T, T, T, T, T, T, T, R],
+    [R, T, T, T, T, T, T, T, T, T, T, T, T, T, T, R],
+    [R, D, D, D, D, D, D, D, D, D, D, D, D, D, D, R],
+    [R, L, L, L, L, L, L, L, L, L, L, L, L, L, L, R],
+    [R, T, T, T, T, T, T, T, T, T, T, T, T, T, T, R],
+    [R, T, T, T, T, T, T, A, A, T, T, T, T, T, T, R],
+    [R, D, D, D, D, D, A, A, A, A, D, D, D, D, D, R],
+    [R, L, L, L, L, A, A, A, A, A, A, L, L, L, L, R],
+    [R, T, T, T, T, T, T, A, A, T, T, T, T, T, T, R],
+    [R, T, T, T, T, T, T, A, A, T, T, T, T, T, T, R],
+    [R, D, D, D, D, D, D, A, A, D, D, D, D, D, D, R],
+    [R, L, L, L, L, L, L, L, L, L, L, L, L, L, L, R],
+    [R, T, T, T, T, T, T, T, T, T, T, T, T, T, T, R],
+    [R, T, T, T, T, T, T, T, T, T, T, T, T, T, T, R],
+    [R, D, D, D, D, D, D, D, D, D, D, D, D, D, D, R],
+    [R, L, L, L, L, L, L, L, L, L, L, L, L, L, L, R],
+    [R, T, T, T, T, T, T, T, T, T, T, T, T, T, T, R],
+    [R, T, T, T, T, T, T, T, T, T, T, T, T, T, T, R],
+    [R, D, D, D, D, D, D, D, D, D, D, D, D, D, D, R],
+    [R, L, L, L, L, L, L, L, L, L, L, L, L, L, L, R],
+    [R, T, T, T, T, T, T, T, T, T, T, T, T, T, T, R],
+    [R, T, T, T, T, T, T, T, T, T, T, T, T, T, T, R],
+    [R, D, D, D, D, D, D, D, D, D, D, D, D, D, D, R],
+    [R, L, L, L, L, L, L, L, L, L, L, L, L, L, L, R],
+    [R, T, T, T, T, T, T, T, T, T, T, T, T, T, T, R],
+    [R, T, T, T, T, T, T, T, T, T, T, T, T, T, T, R],
+    [R, D, D, D, D, D, D, D, D, D, D, D, D, D, D, R],
+    [R, L, L, L, L, L, L, L, L, L, L, L, L, L, L, R],
+    [R, T, T, T, T, T, T, T, T, T, T, T, T, T, T, R],
+    [R, T, T, T, T, T, T, T, T, T, T, T, T, T, T, R],
+    [_, R, R, R, R, R, R, R, R, R, R, R, R, R, R, _],
+  ]
+})())
+
+/** Elevator: 32x32 — steel frame, closed sliding doors and a floor indicator */
+export const ELEVATOR_SPRITE: SpriteData = spriteFromHex((() => {
+  const F = '#555566'
+  const S = '#A0A8B8'
+  const D = '#6A7080'
+  const L = '#C8D0E0'
+  const G = '#66DD88'
+  return [
+    [_, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, _],
+    [F, F, F, F, F, F, F, F, F, F, F, F, G, G, G, G, G, G, G, G, F, F, F, F, F, F, F, F, F, F, F, F],
+    [F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F],
+    [F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F],
+    [F, F, F, F, S, S, S, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, S, S, S, F, F, F, F],
+    [F, F, F, F, S, S, S, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, S, S, S, F, F, F, F],
+    [F, F, F, F, S, S, S, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, S, S, S, F, F, F, F],
+    [F, F, F, F, S, S, S, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, S, S, S, F, F, F, F],
+    [F, F, F, F, S, S, L, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, L, S, S, F, F, F, F],
+    [F, F, F, F, S, S, L, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, L, S, S, F, F, F, F],
+    [F, F, F, F, S, S, L, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, L, S, S, F, F, F, F],
+    [F, F, F, F, S, S, L, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, L, S, S, F, F, F, F],
+    [F, F, F, F, S, S, L, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, L, S, S, F, F, F, F],
+    [F, F, F, F, S, S, L, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, L, S, S, F, F, F, F],
+    [F, F, F, F, S, S, L, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, L, S, S, F, F, F, F],
+    [F, F, F, F, S, S, L, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, L, S, S, F, F, F, F],
+    [F, F, F, F, S, S, L, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, L, S, S, F, F, F, F],
+    [F, F, F, F, S, S, L, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, L, S, S, F, F, F, F],
+    [F, F, F, F, S, S, L, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, L, S, S, F, F, F, F],
+    [F, F, F, F, S, S, L, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, L, S, S, F, F, F, F],
+    [F, F, F, F, S, S, L, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, L, S, S, F, F, F, F],
+    [F, F, F, F, S, S, L, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, L, S, S, F, F, F, F],
+    [F, F, F, F, S, S, L, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, L, S, S, F, F, F, F],
+    [F, F, F, F, S, S, L, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, L, S, S, F, F, F, F],
+    [F, F, F, F, S, S, L, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, L, S, S, F, F, F, F],
+    [F, F, F, F, S, S, L, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, L, S, S, F, F, F, F],
+    [F, F, F, F, S, S, S, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, S, S, S, F, F, F, F],
+    [F, F, F, F, S, S, S, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, S, S, S, F, F, F, F],
+    [F, F, F, F, S, S, S, S, S, S, S, S, S, S, S, D, D, S, S, S, S, S, S, S, S, S, S, S, F, F, F, F],
+    [F, F, D, D, D, D, D, D, D, D, D, D, D, D, D, D, D, D, D, D, D, D, D, D, D, D, D, D, D, D, F, F],
+    [F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F],
+    [_, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, F, _],
+  ]
+})())
 
 // ── Speech Bubble Sprites ───────────────────────────────────────
 
 /** Permission bubble: white square with "..." in amber, and a tail pointer (11x13) */
-export const BUBBLE_PERMISSION_SPRITE: SpriteData = (() => {
+export const BUBBLE_PERMISSION_SPRITE: SpriteData = spriteFromHex((() => {
   const B = '#555566' // border
   const F = '#EEEEFF' // fill
   const A = '#CCA700' // amber dots
@@ -294,10 +381,10 @@ export const BUBBLE_PERMISSION_SPRITE: SpriteData = (() => {
     [_, _, _, _, _, B, _, _, _, _, _],
     [_, _, _, _, _, _, _, _, _, _, _],
   ]
-})()
+})())
 
 /** Waiting bubble: white square with green checkmark, and a tail pointer (11x13) */
-export const BUBBLE_WAITING_SPRITE: SpriteData = (() => {
+export const BUBBLE_WAITING_SPRITE: SpriteData = spriteFromHex((() => {
   const B = '#555566' // border
   const F = '#EEEEFF' // fill
   const G = '#44BB66' // green check
@@ -316,7 +403,87 @@ export const BUBBLE_WAITING_SPRITE: SpriteData = (() => {
     [_, _, _, _, _, B, _, _, _, _, _],
     [_, _, _, _, _, _, _, _, _, _, _],
   ]
-})()
+})())
+
+/** Message bubble: white square with a blue envelope, and a tail pointer (11x13) */
+export const BUBBLE_MESSAGE_SPRITE: SpriteData = spriteFromHex((() => {
+  const B = '#555566' // border
+  const F = '#EEEEFF' // fill
+  const E = '#4477CC' // envelope
+  return [
+    [_, B, B, B, B, B, B, B, B, B, _],
+    [B, F, F, F, F, F, F, F, F, F, B],
+    [B, F, E, E, E, E, E, E, E, F, B],
+    [B, F, E, E, F, F, F, E, E, F, B],
+    [B, F, E, F, E, F, E, F, E, F, B],
+    [B, F, E, F, F, E, F, F, E, F, B],
+    [B, F, E, F, F, F, F, F, E, F, B],
+    [B, F, E, E, E, E, E, E, E, F, B],
+    [B, F, F, F, F, F, F, F, F, F, B],
+    [_, B, B, B, B, B, B, B, B, B, _],
+    [_, _, _, _, B, B, B, _, _, _, _],
+    [_, _, _, _, _, B, _, _, _, _, _],
+    [_, _, _, _, _, _, _, _, _, _, _],
+  ]
+})())
+
+/** Sleep "z", drawn rising and fading over dozing characters (4x4) */
+export const SLEEP_Z_SPRITE: SpriteData = spriteFromHex((() => {
+  const Z = '#DDDDFF'
+  return [
+    [Z, Z, Z, Z],
+    [_, _, Z, _],
+    [_, Z, _, _],
+    [Z, Z, Z, Z],
+  ]
+})())
+
+// ── Accessories ─────────────────────────────────────────────────
+
+/**
+ * Head accessories. `overlap` is how many rows reach down over the top of the
+ * head, so a hat sits on the hair while a halo floats above it.
+ */
+export const ACCESSORY_SPRITES: Record<AgentAccessory, { sprite: SpriteData; overlap: number }> = {
+  hat: (() => {
+    const B = '#222233' // band
+    const T = '#444455' // top
+    return {
+      overlap: 2,
+      sprite: spriteFromHex([
+        [_, _, T, T, T, T, T, T, _, _],
+        [_, _, T, T, T, T, T, T, _, _],
+        [_, _, T, T, T, T, T, T, _, _],
+        [_, _, B, B, B, B, B, B, _, _],
+        [T, T, T, T, T, T, T, T, T, T],
+      ]),
+    }
+  })(),
+  crown: (() => {
+    const G = '#FFCC33' // gold
+    const R = '#DD3344' // jewel
+    return {
+      overlap: 1,
+      sprite: spriteFromHex([
+        [G, _, _, G, _, _, G],
+        [G, G, _, G, _, G, G],
+        [G, G, G, R, G, G, G],
+        [G, G, G, G, G, G, G],
+      ]),
+    }
+  })(),
+  halo: (() => {
+    const Y = '#FFEE88'
+    return {
+      overlap: -1,
+      sprite: spriteFromHex([
+        [_, Y, Y, Y, Y, Y, Y, _],
+        [Y, _, _, _, _, _, _, Y],
+        [_, Y, Y, Y, Y, Y, Y, _],
+      ]),
+    }
+  })(),
+}
 
 // ── Character Sprites ───────────────────────────────────────────
 // 16x24 characters with palette substitution
@@ -351,7 +518,7 @@ type TemplateCell = typeof H | typeof K | typeof S | typeof P | typeof O | typeo
 
 /** Resolve a template to SpriteData using a palette */
 function resolveTemplate(template: TemplateCell[][], palette: CharPalette): SpriteData {
-  return template.map((row) =>
+  return spriteFromHex(template.map((row) =>
     row.map((cell) => {
       if (cell === _) return ''
       if (cell === E) return E
@@ -362,7 +529,7 @@ function resolveTemplate(template: TemplateCell[][], palette: CharPalette): Spri
       if (cell === O) return palette.shoes
       return cell
     }),
-  )
+  ))
 }
 
 /** Flip a template horizontally (for generating left sprites from right) */
@@ -987,7 +1154,11 @@ export const CHARACTER_TEMPLATES = {
 // Loaded character sprites (from PNG assets)
 // ════════════════════════════════════════════════════════════════
 
-interface LoadedCharacterData {
+/**
+ * Frames per direction in sheet order: walk1-3, type1-2, read1-2, then
+ * optionally think1-2, error1-2, celebrate1-2, sleep1-2.
+ */
+export interface LoadedCharacterData {
   down: SpriteData[]
   up: SpriteData[]
   right: SpriteData[]
@@ -1002,51 +1173,136 @@ export function setCharacterTemplates(data: LoadedCharacterData[]): void {
   spriteCache.clear()
 }
 
-/** Flip a SpriteData horizontally (for generating left sprites from right) */
-function flipSpriteHorizontal(sprite: SpriteData): SpriteData {
-  return sprite.map((row) => [...row].reverse())
+/** Character sprites set by setCharacterTemplates, or null while the procedural ones are in use */
+export function getLoadedCharacterTemplates(): LoadedCharacterData[] | null {
+  return loadedCharacters
 }
 
 // ════════════════════════════════════════════════════════════════
 // Sprite resolution + caching
 // ════════════════════════════════════════════════════════════════
 
+type FramePair = [SpriteData, SpriteData]
+type WalkFrames = [SpriteData, SpriteData, SpriteData, SpriteData]
+
 export interface CharacterSprites {
-  walk: Record<Direction, [SpriteData, SpriteData, SpriteData, SpriteData]>
-  typing: Record<Direction, [SpriteData, SpriteData]>
-  reading: Record<Direction, [SpriteData, SpriteData]>
+  walk: Record<Direction, WalkFrames>
+  typing: Record<Direction, FramePair>
+  reading: Record<Direction, FramePair>
+  thinking: Record<Direction, FramePair>
+  error: Record<Direction, FramePair>
+  celebrate: Record<Direction, FramePair>
+  sleeping: Record<Direction, FramePair>
+}
+
+type StateSprites = Pick<CharacterSprites, 'thinking' | 'error' | 'celebrate' | 'sleeping'>
+type BaseSprites = Omit<CharacterSprites, keyof StateSprites>
+
+/** Sheet column of the first of each extra state's two frames */
+const LOADED_STATE_FRAMES: Record<keyof StateSprites, number> = {
+  thinking: 7,
+  error: 9,
+  celebrate: 11,
+  sleeping: 13,
 }
 
+const DIRECTIONS: Direction[] = [Dir.DOWN, Dir.UP, Dir.RIGHT, Dir.LEFT]
+
 const spriteCache = new Map<string, CharacterSprites>()
 
-/** Apply hue shift to every sprite in a CharacterSprites set */
-function hueShiftSprites(sprites: CharacterSprites, hueShift: number): CharacterSprites {
+/** Apply `fn` to every frame of every direction */
+function mapFrames<T extends SpriteData[]>(frames: Record<Direction, T>, fn: (s: SpriteData) => SpriteData): Record<Direction, T> {
+  const out = {} as Record<Direction, T>
+  for (const dir of DIRECTIONS) out[dir] = frames[dir].map(fn) as T
+  return out
+}
+
+/** Apply hue shift to every sprite in a (possibly partial) CharacterSprites set */
+function hueShiftSprites<T extends Partial<CharacterSprites>>(sprites: T, hueShift: number): T {
   const color: FloorColor = { h: hueShift, s: 0, b: 0, c: 0 }
   const shift = (s: SpriteData) => adjustSprite(s, color)
-  const shiftWalk = (arr: [SpriteData, SpriteData, SpriteData, SpriteData]): [SpriteData, SpriteData, SpriteData, SpriteData] =>
-    [shift(arr[0]), shift(arr[1]), shift(arr[2]), shift(arr[3])]
-  const shiftPair = (arr: [SpriteData, SpriteData]): [SpriteData, SpriteData] =>
-    [shift(arr[0]), shift(arr[1])]
+  const out: Record<string, Record<Direction, SpriteData[]>> = {}
+  for (const [key, frames] of Object.entries(sprites) as Array<[string, Record<Direction, SpriteData[]>]>) {
+    out[key] = mapFrames(frames, shift)
+  }
+  return out as T
+}
+
+// ── Procedural state frames ─────────────────────────────────────
+// For sheets (and the built-in templates) without think/error/celebrate/sleep frames
+
+const ERROR_TINT = '#FF3030'
+const ERROR_TINT_AMOUNT = 0.5
+const CELEBRATE_JUMP_PX = 3
+const SLEEP_DIM: FloorColor = { h: 0, s: -30, b: -30, c: 0 }
+
+/** Lift a sprite `px` pixels (it's drawn bottom-anchored, so pad below) */
+function raiseSprite(sprite: SpriteData, px: number): SpriteData {
+  const out = createSprite(sprite.width, sprite.height + px)
+  out.data.set(sprite.data)
+  return out
+}
+
+/** Drop a sprite's pixels `px` rows within its frame */
+function lowerSprite(sprite: SpriteData, px: number): SpriteData {
+  const out = createSprite(sprite.width, sprite.height)
+  const rowBytes = sprite.width * 4
+  out.data.set(sprite.data.subarray(0, (sprite.height - px) * rowBytes), px * rowBytes)
+  return out
+}
+
+/** Blend every opaque pixel `amount` (0-1) of the way toward `hex` */
+function tintSprite(sprite: SpriteData, hex: string, amount: number): SpriteData {
+  const target = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16))
+  const out = createSprite(sprite.width, sprite.height)
+  const src = sprite.data
+  for (let i = 0; i < src.length; i += 4) {
+    if (src[i + 3] === 0) continue
+    for (let k = 0; k < 3; k++) out.data[i + k] = Math.round(src[i + k] + (target[k] - src[i + k]) * amount)
+    out.data[i + 3] = src[i + 3]
+  }
+  return out
+}
+
+/**
+ * Think: seated with hands off the keys, bobbing slowly. Error: standing,
+ * flashing red. Celebrate: jumping on the spot. Sleep: slumped and dimmed.
+ */
+function proceduralStateSprites(base: BaseSprites): StateSprites {
+  const each = (build: (dir: Direction) => FramePair) => {
+    const out = {} as Record<Direction, FramePair>
+    for (const dir of DIRECTIONS) out[dir] = build(dir)
+    return out
+  }
   return {
-    walk: {
-      [Dir.DOWN]: shiftWalk(sprites.walk[Dir.DOWN]),
-      [Dir.UP]: shiftWalk(sprites.walk[Dir.UP]),
-      [Dir.RIGHT]: shiftWalk(sprites.walk[Dir.RIGHT]),
-      [Dir.LEFT]: shiftWalk(sprites.walk[Dir.LEFT]),
-    } as Record<Direction, [SpriteData, SpriteData, SpriteData, SpriteData]>,
-    typing: {
-      [Dir.DOWN]: shiftPair(sprites.typing[Dir.DOWN]),
-      [Dir.UP]: shiftPair(sprites.typing[Dir.UP]),
-      [Dir.RIGHT]: shiftPair(sprites.typing[Dir.RIGHT]),
-      [Dir.LEFT]: shiftPair(sprites.typing[Dir.LEFT]),
-    } as Record<Direction, [SpriteData, SpriteData]>,
-    reading: {
-      [Dir.DOWN]: shiftPair(sprites.reading[Dir.DOWN]),
-      [Dir.UP]: shiftPair(sprites.reading[Dir.UP]),
-      [Dir.RIGHT]: shiftPair(sprites.reading[Dir.RIGHT]),
-      [Dir.LEFT]: shiftPair(sprites.reading[Dir.LEFT]),
-    } as Record<Direction, [SpriteData, SpriteData]>,
+    thinking: each((dir) => [base.typing[dir][0], raiseSprite(base.typing[dir][0], 1)]),
+    error: each((dir) => [base.walk[dir][1], tintSprite(base.walk[dir][1], ERROR_TINT, ERROR_TINT_AMOUNT)]),
+    celebrate: each((dir) => [base.walk[dir][1], raiseSprite(base.walk[dir][0], CELEBRATE_JUMP_PX)]),
+    sleeping: each((dir) => {
+      const dimmed = adjustSprite(base.typing[dir][0], SLEEP_DIM)
+      return [dimmed, lowerSprite(dimmed, 1)]
+    }),
+  }
+}
+
+/** Extra state frames a loaded sheet provides (states whose frames it lacks are left out) */
+function loadedStateSprites(char: LoadedCharacterData): Partial<StateSprites> {
+  const out: Partial<StateSprites> = {}
+  const flip = flipSprite
+  for (const key of Object.keys(LOADED_STATE_FRAMES) as Array<keyof StateSprites>) {
+    const f = LOADED_STATE_FRAMES[key]
+    if ([char.down, char.up, char.right].some((frames) => frames.length < f + 2)) continue
+    const d = char.down
+    const u = char.up
+    const rt = char.right
+    out[key] = {
+      [Dir.DOWN]: [d[f], d[f + 1]],
+      [Dir.UP]: [u[f], u[f + 1]],
+      [Dir.RIGHT]: [rt[f], rt[f + 1]],
+      [Dir.LEFT]: [flip(rt[f]), flip(rt[f + 1])],
+    }
   }
+  return out
 }
 
 export function getCharacterSprites(paletteIndex: number, hueShift = 0): CharacterSprites {
@@ -1054,7 +1310,8 @@ export function getCharacterSprites(paletteIndex: number, hueShift = 0): Charact
   const cached = spriteCache.get(cacheKey)
   if (cached) return cached
 
-  let sprites: CharacterSprites
+  let base: BaseSprites
+  let states: Partial<StateSprites> = {}
 
   if (loadedCharacters) {
     // Use pre-colored character sprites directly (no palette swapping)
@@ -1062,9 +1319,9 @@ export function getCharacterSprites(paletteIndex: number, hueShift = 0): Charact
     const d = char.down
     const u = char.up
     const rt = char.right
-    const flip = flipSpriteHorizontal
+    const flip = flipSprite
 
-    sprites = {
+    base = {
       walk: {
         [Dir.DOWN]: [d[0], d[1], d[2], d[1]],
         [Dir.UP]: [u[0], u[1], u[2], u[1]],
@@ -1084,13 +1341,14 @@ export function getCharacterSprites(paletteIndex: number, hueShift = 0): Charact
         [Dir.LEFT]: [flip(rt[5]), flip(rt[6])],
       },
     }
+    states = loadedStateSprites(char)
   } else {
     // Fallback: use hardcoded templates with palette swapping
     const pal = CHARACTER_PALETTES[paletteIndex % CHARACTER_PALETTES.length]
     const r = (t: TemplateCell[][]) => resolveTemplate(t, pal)
     const rf = (t: TemplateCell[][]) => resolveTemplate(flipHorizontal(t), pal)
 
-    sprites = {
+    base = {
       walk: {
         [Dir.DOWN]: [r(CHAR_WALK_DOWN_1), r(CHAR_WALK_DOWN_2), r(CHAR_WALK_DOWN_3), r(CHAR_WALK_DOWN_2)],
         [Dir.UP]: [r(CHAR_WALK_UP_1), r(CHAR_WALK_UP_2), r(CHAR_WALK_UP_3), r(CHAR_WALK_UP_2)],
@@ -1114,9 +1372,12 @@ export function getCharacterSprites(paletteIndex: number, hueShift = 0): Charact
 
   // Apply hue shift if non-zero
   if (hueShift !== 0) {
-    sprites = hueShiftSprites(sprites, hueShift)
+    base = hueShiftSprites(base, hueShift)
+    states = hueShiftSprites(states, hueShift)
   }
 
+  // Fill in states the sheet has no frames for (after the hue shift, so the error flash stays red)
+  const sprites: CharacterSprites = { ...base, ...proceduralStateSprites(base), ...states }
   spriteCache.set(cacheKey, sprites)
   return sprites
 }
@@ -1,24 +1,24 @@
-/** Map status prefixes back to tool names for animation selection */
-export const STATUS_TO_TOOL: Record<string, string> = {
-  'Reading': 'Read',
-  'Searching': 'Grep',
-  'Globbing': 'Glob',
-  'Fetching': 'WebFetch',
-  'Searching web': 'WebSearch',
-  'Writing': 'Write',
-  'Editing': 'Edit',
-  'Running': 'Bash',
-  'Task': 'Task',
-}
+import type { ActivityKind } from './types.js'
+import { getToolActivity, getToolFromStatus } from '../adapters/registry.js'
 
+/** Tool name behind a status line, as recognized by the framework adapters */
 export function extractToolName(status: string): string | null {
-  for (const [prefix, tool] of Object.entries(STATUS_TO_TOOL)) {
-    if (status.startsWith(prefix)) return tool
-  }
+  const tool = getToolFromStatus(status)
+  if (tool) return tool
   const first = status.split(/[\s:]/)[0]
   return first || null
 }
 
+/**
+ * Canonical activity for a tool status: the kind the host sent when it has
+ * one, otherwise the adapters' classification of the extracted tool name.
+ */
+export function extractToolActivity(status: string, activity?: ActivityKind): ActivityKind | null {
+  if (activity) return activity
+  const tool = extractToolName(status)
+  return tool ? getToolActivity(tool) : null
+}
+
 import { ZOOM_DEFAULT_DPR_FACTOR, ZOOM_MIN } from '../constants.js'
 
 /** Compute a default integer zoom level (device pixels per sprite pixel) */
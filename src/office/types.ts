@@ -38,6 +38,14 @@ export const CharacterState = {
   IDLE: 'idle',
   WALK: 'walk',
   TYPE: 'type',
+  /** Mid-turn at the desk with no tool running */
+  THINK: 'think',
+  /** Short flustered reaction to a tool that failed */
+  ERROR: 'error',
+  /** Short cheer when a turn finishes */
+  CELEBRATE: 'celebrate',
+  /** Dozing at the desk after a long time idle */
+  SLEEP: 'sleep',
 } as const
 export type CharacterState = (typeof CharacterState)[keyof typeof CharacterState]
 
@@ -49,8 +57,56 @@ export const Direction = {
 } as const
 export type Direction = (typeof Direction)[keyof typeof Direction]
 
-/** 2D array of hex color strings (or '' for transparent). [row][col] */
-export type SpriteData = string[][]
+/** Canonical activity model every agent framework's tools are normalized to */
+export const ActivityKind = {
+  READ: 'read',
+  WRITE: 'write',
+  EXECUTE: 'execute',
+  SEARCH: 'search',
+  WEB: 'web',
+  DELEGATE: 'delegate',
+  THINK: 'think',
+} as const
+export type ActivityKind = (typeof ActivityKind)[keyof typeof ActivityKind]
+
+/** Pastimes an idle character picks between */
+export const IdleActivity = {
+  WATER: 'water',
+  BROWSE: 'browse',
+  WHITEBOARD: 'whiteboard',
+  CHAT: 'chat',
+  WANDER: 'wander',
+} as const
+export type IdleActivity = (typeof IdleActivity)[keyof typeof IdleActivity]
+
+/** Animation played while lingering at an interaction point */
+export const InteractionAnim = {
+  STAND: 'stand',
+  READ: 'read',
+  TYPE: 'type',
+} as const
+export type InteractionAnim = (typeof InteractionAnim)[keyof typeof InteractionAnim]
+
+/** Cosmetic items drawn on top of a character's head (set through agent profiles) */
+export const AgentAccessory = {
+  HAT: 'hat',
+  CROWN: 'crown',
+  HALO: 'halo',
+} as const
+export type AgentAccessory = (typeof AgentAccessory)[keyof typeof AgentAccessory]
+
+/**
+ * A sprite's pixels packed row by row as RGBA bytes (`data[(row * width + col) * 4]`
+ * is red), alpha 0 for transparent. Helpers are in sprites/packedSprite.ts.
+ */
+export interface SpriteData {
+  width: number
+  height: number
+  data: Uint8ClampedArray
+}
+
+/** Legacy sprite format: 2D array of hex color strings (or '' for transparent). [row][col] */
+export type HexSpriteData = string[][]
 
 export interface Seat {
   /** Chair furniture uid */
@@ -62,6 +118,10 @@ export interface Seat {
   /** Direction character faces when sitting (toward adjacent desk) */
   facingDir: Direction
   assigned: boolean
+  /** Working directory this seat is bound to (from the chair or the desk it faces) */
+  directory?: string
+  /** Index of the floor the seat is on */
+  floor: number
 }
 
 export interface FurnitureInstance {
@@ -77,6 +137,8 @@ export interface FurnitureInstance {
 export interface ToolActivity {
   toolId: string
   status: string
+  /** Canonical kind, when the host or adapter reported one */
+  activity?: ActivityKind
   done: boolean
   permissionWait?: boolean
 }
@@ -91,6 +153,8 @@ export const FurnitureType = {
   CHAIR: 'chair',
   PC: 'pc',
   LAMP: 'lamp',
+  STAIRS: 'stairs',
+  ELEVATOR: 'elevator',
 } as const
 export type FurnitureType = (typeof FurnitureType)[keyof typeof FurnitureType]
 
@@ -102,6 +166,8 @@ export const EditTool = {
   SELECT: 'select',
   EYEDROPPER: 'eyedropper',
   ERASE: 'erase',
+  ZONE_PAINT: 'zone_paint',
+  ROOM_NAME: 'room_name',
 } as const
 export type EditTool = (typeof EditTool)[keyof typeof EditTool]
 
@@ -121,6 +187,30 @@ export interface FurnitureCatalogEntry {
   backgroundTiles?: number
   /** Whether this item can be placed on wall tiles */
   canPlaceOnWalls?: boolean
+  /** Spots where idle characters use this item */
+  interactions?: InteractionPoint[]
+}
+
+/** Where an idle character stands to use a piece of furniture, and what it does there */
+export interface InteractionPoint {
+  /** Tile offset from the item's top-left tile (usually just outside the footprint) */
+  dc: number
+  dr: number
+  /** Direction faced while using it */
+  facing: Direction
+  activity: IdleActivity
+  anim: InteractionAnim
+  /** Seconds spent there */
+  dwellMinSec: number
+  dwellMaxSec: number
+}
+
+/** An interaction point of a placed item, in floor tiles */
+export interface InteractionSpot extends Omit<InteractionPoint, 'dc' | 'dr'> {
+  col: number
+  row: number
+  /** Furniture it belongs to */
+  uid: string
 }
 
 export interface PlacedFurniture {
@@ -130,16 +220,107 @@ export interface PlacedFurniture {
   row: number
   /** Optional color override for furniture */
   color?: FloorColor
+  /** Working directory bound to this desk or chair — agents working there sit here */
+  directory?: string
+}
+
+/** Named region of floor, optionally tied to a git branch or worktree */
+export interface FloorZone {
+  id: string
+  label: string
+  /** Branch name or worktree path — agents reporting it are seated inside the zone */
+  worktree?: string
+  /** Tint drawn over the zone's floor (hex) */
+  color: string
 }
 
+/** Name and workspace folder given to a detected room, anchored at a tile inside it */
+export interface RoomLabel {
+  col: number
+  row: number
+  name?: string
+  /** Workspace folder (by name) whose agents are seated in this room */
+  folder?: string
+}
+
+/** Region of floor enclosed by walls and doorways — detected from the tiles, not stored */
+export interface Room {
+  /** Index in detection order; only stable until the layout changes */
+  id: number
+  /** From the layout's room labels, or null if unnamed */
+  name: string | null
+  /** Workspace folder the room was assigned to in the editor, or null */
+  folder: string | null
+  tiles: Array<{ col: number; row: number }>
+  /** Room tile nearest the centroid, where its label goes */
+  labelTile: { col: number; row: number }
+}
+
+/** One floor of the office: its grid, furniture, zones and rooms */
 export interface OfficeLayout {
-  version: 1
+  /** Floor name shown in the floor switcher */
+  name?: string
   cols: number
   rows: number
   tiles: TileType[]
   furniture: PlacedFurniture[]
   /** Per-tile color settings, parallel to tiles array. null = wall/no color */
   tileColors?: Array<FloorColor | null>
+  /** Named floor zones (worktree areas) */
+  zones?: FloorZone[]
+  /** Per-tile zone id, parallel to tiles array. null = outside any zone */
+  tileZones?: Array<string | null>
+  /** Room names (rooms themselves are detected from walls and doorways) */
+  roomNames?: RoomLabel[]
+}
+
+/** Saved office: one layout per floor, ground floor first */
+export interface OfficeBuilding {
+  version: 2
+  floors: OfficeLayout[]
+}
+
+/** Single-floor layout file written before floors existed */
+export type LegacyOfficeLayout = OfficeLayout & { version: 1 }
+
+/**
+ * Stairs or elevator on a floor. Stairs link to the floors directly above and
+ * below, elevators to every floor that has one.
+ */
+export interface Portal {
+  uid: string
+  kind: 'stairs' | 'elevator'
+  /** Footprint top-left */
+  col: number
+  row: number
+  /** Walkable tile in front of it, where characters step on and off */
+  accessCol: number
+  accessRow: number
+}
+
+/**
+ * A message one agent is delivering to another (agent teams). The sender walks
+ * over, then stands facing the recipient while the envelope shows.
+ */
+export interface AgentInteraction {
+  /** Recipient character, or null for a broadcast (delivered at a whiteboard) */
+  toId: number | null
+  phase: 'walk' | 'deliver'
+  /** Seconds left in the deliver phase */
+  timer: number
+}
+
+/** An idle character's current pastime: walking to its tile, then lingering there */
+export interface IdlePlan {
+  activity: IdleActivity
+  col: number
+  row: number
+  facing: Direction
+  anim: InteractionAnim
+  /** Seconds left to linger once there */
+  dwell: number
+  /** The other side of a chat */
+  partnerId?: number
 }
 
 export interface Character {
@@ -157,8 +338,16 @@ export interface Character {
   path: Array<{ col: number; row: number }>
   /** 0-1 lerp between current tile and next tile */
   moveProgress: number
-  /** Current tool name for typing vs reading animation, or null */
+  /** Seconds spent waiting for someone to clear the next tile of the path */
+  blockedTimer: number
+  /** Seconds left in an ERROR or CELEBRATE reaction; at the desk, seconds spent without a tool before thinking */
+  stateTimer: number
+  /** Seconds since the agent last worked (0 while active) */
+  idleTime: number
+  /** Current tool name, or null */
   currentTool: string | null
+  /** Canonical kind of the current tool — picks typing vs reading animation */
+  currentActivity: ActivityKind | null
   /** Palette index (0-5) */
   palette: number
   /** Hue shift in degrees (0 = no shift, ≥45 for repeated palettes) */
@@ -178,14 +367,20 @@ export interface Character {
   /** Assigned seat uid, or null if no seat */
   seatId: string | null
   /** Active speech bubble type, or null if none showing */
-  bubbleType: 'permission' | 'waiting' | null
-  /** Countdown timer for bubble (waiting: 2→0, permission: unused) */
+  bubbleType: 'permission' | 'waiting' | 'message' | 'text' | null
+  /** Countdown timer for bubble (waiting/message/text: counts down to 0, permission: unused) */
   bubbleTimer: number
+  /** Snippet shown in a text bubble */
+  bubbleText: string | null
+  /** Text snippets waiting for the bubble to free up, oldest first */
+  bubbleQueue: string[]
+  /** Whether this agent shows text bubbles (toggled from its context menu) */
+  textBubbles: boolean
   /** Timer to stay seated while inactive after seat reassignment (counts down to 0) */
   seatTimer: number
   /** Whether this character represents a sub-agent (spawned by Task tool) */
   isSubagent: boolean
-  /** Parent agent ID if this is a sub-agent, null otherwise */
+  /** Parent character ID if this is a sub-agent (negative when the parent is itself a sub-agent), null otherwise */
   parentAgentId: number | null
   /** Active matrix spawn/despawn effect, or null */
   matrixEffect: 'spawn' | 'despawn' | null
@@ -193,6 +388,24 @@ export interface Character {
   matrixEffectTimer: number
   /** Per-column random seeds (16 values) for staggered rain timing */
   matrixEffectSeeds: number[]
+  /** Accessories drawn over the head, from the agent's profile */
+  accessories: AgentAccessory[]
+  /** Idle pastime under way, or null */
+  idlePlan: IdlePlan | null
+  /** Message this character is on its way to deliver, or null */
+  interaction: AgentInteraction | null
+  /** Line to the other side of a just-delivered message, fading out over `timer` seconds */
+  messageLink: { peerId: number; timer: number } | null
+  /** Index of the floor the character is on */
+  floor: number
+  /** Tile on another floor the character is making its way to via stairs or an elevator, or null */
+  travel: { floor: number; col: number; row: number } | null
   /** Workspace folder name (only set for multi-root workspaces) */
   folderName?: string
+  /** Working directory the agent runs in, when the host reports it */
+  cwd?: string
+  /** Git worktree path the agent works in */
+  worktree?: string
+  /** Git branch checked out where the agent works */
+  branch?: string
 }
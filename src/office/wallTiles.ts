@@ -12,6 +12,7 @@
 import type { SpriteData, TileType as TileTypeVal, FloorColor, FurnitureInstance } from './types.js'
 import { TileType, TILE_SIZE } from './types.js'
 import { getColorizedSprite } from './colorize.js'
+import { invalidateSprites } from './sprites/spriteCache.js'
 
 /** 16 wall sprites indexed by bitmask (0-15) */
 let wallSprites: SpriteData[] | null = null
@@ -19,6 +20,12 @@ let wallSprites: SpriteData[] | null = null
 /** Set wall sprites (called once when extension sends wallTilesLoaded) */
 export function setWallSprites(sprites: SpriteData[]): void {
   wallSprites = sprites
+  invalidateSprites('wall')
+}
+
+/** Wall sprites set by setWallSprites, or null if not loaded */
+export function getLoadedWallSprites(): SpriteData[] | null {
+  return wallSprites
 }
 
 /** Check if wall sprites have been loaded */
@@ -51,7 +58,7 @@ export function getWallSprite(
   if (!sprite) return null
 
   // Anchor sprite at bottom of tile — tall sprites extend upward
-  return { sprite, offsetY: TILE_SIZE - sprite.length }
+  return { sprite, offsetY: TILE_SIZE - sprite.height }
 }
 
 /**
@@ -81,9 +88,9 @@ export function getColorizedWallSprite(
   if (!sprite) return null
 
   const cacheKey = `wall-${mask}-${color.h}-${color.s}-${color.b}-${color.c}`
-  const colorized = getColorizedSprite(cacheKey, sprite, { ...color, colorize: true })
+  const colorized = getColorizedSprite('wall', cacheKey, sprite, { ...color, colorize: true })
 
-  return { sprite: colorized, offsetY: TILE_SIZE - sprite.length }
+  return { sprite: colorized, offsetY: TILE_SIZE - sprite.height }
 }
 
 /**
@@ -0,0 +1,100 @@
+/**
+ * Agent profiles: how a known agent looks and where it sits, kept across sessions.
+ *
+ * Hosts report a stable `identity` in AgentMeta (an agent definition, a session
+ * name...). When an agent with a stored profile shows up, the profile is laid
+ * over what the host sent, so the same agent keeps its name, skin and desk.
+ * Profiles are saved through the host (`saveAgentProfiles`) and mirrored to
+ * localStorage for browser builds without a host that stores them.
+ */
+
+import type { AgentMeta, HostMessage } from '../messageProtocol.js'
+import type { AgentAccessory } from '../office/types.js'
+import { vscode } from '../vscodeApi.js'
+import { AGENT_PROFILES_STORAGE_KEY } from '../constants.js'
+
+export interface AgentProfile {
+  /** Stable identity from AgentMeta.identity */
+  identity: string
+  name?: string
+  palette?: number
+  hueShift?: number
+  /** Home desk: seat uid the agent goes to when it arrives */
+  seatId?: string
+  /** What the agent is for, shown under its name */
+  role?: string
+  accessories?: AgentAccessory[]
+}
+
+/** Identity used for agents whose host doesn't report one — only stable for as long as the id is */
+export function fallbackIdentity(id: number): string {
+  return `agent:${id}`
+}
+
+/** Lay a profile over host-provided meta; profile fields win */
+export function applyProfile(meta: AgentMeta | undefined, profile: AgentProfile): AgentMeta {
+  const { identity, ...look } = profile
+  const merged: AgentMeta = { ...meta, identity }
+  for (const [key, value] of Object.entries(look)) {
+    if (value !== undefined) (merged as Record<string, unknown>)[key] = value
+  }
+  return merged
+}
+
+export class AgentProfileStore {
+  private profiles = new Map<string, AgentProfile>()
+
+  constructor() {
+    try {
+      const raw = localStorage.getItem(AGENT_PROFILES_STORAGE_KEY)
+      if (raw) this.load(JSON.parse(raw) as AgentProfile[])
+    } catch {
+      // Storage unavailable or corrupt — start empty
+    }
+  }
+
+  /** Replace all profiles (e.g. with the ones the host has stored) */
+  load(profiles: AgentProfile[]): void {
+    this.profiles.clear()
+    for (const p of profiles) {
+      if (p && typeof p.identity === 'string') this.profiles.set(p.identity, p)
+    }
+  }
+
+  get(identity: string): AgentProfile | undefined {
+    return this.profiles.get(identity)
+  }
+
+  list(): AgentProfile[] {
+    return [...this.profiles.values()]
+  }
+
+  /** Create or replace a profile and persist the whole set */
+  save(profile: AgentProfile): void {
+    this.profiles.set(profile.identity, profile)
+    const profiles = this.list()
+    vscode.postMessage({ type: 'saveAgentProfiles', profiles })
+    try {
+      localStorage.setItem(AGENT_PROFILES_STORAGE_KEY, JSON.stringify(profiles))
+    } catch {
+      // Quota or privacy mode — the host copy still applies
+    }
+  }
+
+  /** Apply stored profiles to the agents an `existingAgents` / `agentCreated` message reports */
+  enrich(msg: HostMessage): HostMessage {
+    if (msg.type === 'agentCreated') {
+      const profile = this.get(msg.meta?.identity ?? fallbackIdentity(msg.id))
+      return profile ? { ...msg, meta: applyProfile(msg.meta, profile) } : msg
+    }
+    if (msg.type === 'existingAgents') {
+      let agentMeta = msg.agentMeta
+      for (const id of msg.agents) {
+        const profile = this.get(msg.agentMeta?.[id]?.identity ?? fallbackIdentity(id))
+        if (profile) agentMeta = { ...agentMeta, [id]: applyProfile(agentMeta?.[id], profile) }
+      }
+      return agentMeta === msg.agentMeta ? msg : { ...msg, agentMeta }
+    }
+    return msg
+  }
+}
@@ -0,0 +1,49 @@
+import type { HostMessage } from '../messageProtocol.js'
+import type { OfficeBuilding } from '../office/types.js'
+import type { RecordedEvent, Recording } from './recording.js'
+import { RECORDING_VERSION, isRecordedMessage } from './recording.js'
+
+/** Captures agent events with timestamps while recording is on */
+export class EventRecorder {
+  private startedAt = 0
+  private layout: OfficeBuilding | null = null
+  private events: RecordedEvent[] = []
+
+  get isRecording(): boolean {
+    return this.layout !== null
+  }
+
+  get eventCount(): number {
+    return this.events.length
+  }
+
+  /**
+   * Start a new recording. `snapshot` recreates the agents already in the
+   * office and is stored at t=0.
+   */
+  start(layout: OfficeBuilding, snapshot: HostMessage[]): void {
+    this.startedAt = Date.now()
+    this.layout = layout
+    this.events = snapshot.map((msg) => ({ t: 0, msg }))
+  }
+
+  record(msg: HostMessage): void {
+    if (!this.layout || !isRecordedMessage(msg)) return
+    this.events.push({ t: Date.now() - this.startedAt, msg })
+  }
+
+  /** Stop and return the finished recording (null when not recording) */
+  stop(): Recording | null {
+    if (!this.layout) return null
+    const recording: Recording = {
+      version: RECORDING_VERSION,
+      startedAt: this.startedAt,
+      durationMs: Date.now() - this.startedAt,
+      layout: this.layout,
+      events: this.events,
+    }
+    this.layout = null
+    this.events = []
+    return recording
+  }
+}
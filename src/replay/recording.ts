@@ -0,0 +1,110 @@
+/**
+ * Session recording format.
+ *
+ * A recording is the office layout (every floor) at the moment recording started plus every
+ * agent-related HostMessage that followed, each stamped with its offset from
+ * the start. Replaying the events through applyAgentMessage rebuilds the
+ * office at any point in time.
+ */
+
+import type { HostMessage } from '../messageProtocol.js'
+import type { OfficeBuilding, LegacyOfficeLayout } from '../office/types.js'
+import { isHostMessage } from '../messageProtocol.js'
+import { migrateBuilding } from '../office/layout/layoutSerializer.js'
+import { vscode, transport } from '../vscodeApi.js'
+import { RECORDING_URL_REVOKE_DELAY_MS } from '../constants.js'
+
+/** Bump when the recording shape changes incompatibly */
+export const RECORDING_VERSION = 1
+
+export interface RecordedEvent {
+  /** Milliseconds since the recording started */
+  t: number
+  msg: HostMessage
+}
+
+export interface Recording {
+  version: typeof RECORDING_VERSION
+  /** Wall-clock start time (epoch ms) */
+  startedAt: number
+  durationMs: number
+  layout: OfficeBuilding
+  /** Events in time order; the first ones at t=0 recreate agents already present */
+  events: RecordedEvent[]
+}
+
+/** Message types that change agent state and are worth recording */
+const RECORDED_TYPES = new Set<HostMessage['type']>([
+  'existingAgents',
+  'agentCreated',
+  'agentClosed',
+  'agentSelected',
+  'agentStatus',
+  'agentToolStart',
+  'agentToolDone',
+  'agentToolsClear',
+  'agentToolPermission',
+  'agentToolPermissionClear',
+  'subagentToolStart',
+  'subagentToolDone',
+  'subagentClear',
+  'agentSpeech',
+  'agentMessage',
+  'agentMeta',
+  'workspaceFolders',
+])
+
+export function isRecordedMessage(msg: HostMessage): boolean {
+  return RECORDED_TYPES.has(msg.type)
+}
+
+/** Validate parsed JSON as a recording. Throws with a readable reason. */
+export function parseRecording(data: unknown): Recording {
+  if (!data || typeof data !== 'object') throw new Error('not a recording')
+  const rec = data as Omit<Partial<Recording>, 'layout'> & { layout?: OfficeBuilding | LegacyOfficeLayout }
+  if (rec.version !== RECORDING_VERSION) throw new Error(`unsupported recording version ${String(rec.version)}`)
+  // Recordings made before floors existed carry a single-floor layout
+  const layout = migrateBuilding(rec.layout)
+  if (!layout) throw new Error('recording has no layout')
+  if (!Array.isArray(rec.events)) throw new Error('recording has no events')
+  const events: RecordedEvent[] = []
+  for (const e of rec.events as unknown[]) {
+    const ev = e as Partial<RecordedEvent> | null
+    // Skip malformed entries rather than reject the whole file
+    if (!ev || typeof ev.t !== 'number' || !isHostMessage(ev.msg) || !isRecordedMessage(ev.msg)) continue
+    events.push({ t: ev.t, msg: ev.msg })
+  }
+  events.sort((a, b) => a.t - b.t)
+  const lastT = events.length > 0 ? events[events.length - 1].t : 0
+  return {
+    version: RECORDING_VERSION,
+    startedAt: typeof rec.startedAt === 'number' ? rec.startedAt : 0,
+    durationMs: Math.max(typeof rec.durationMs === 'number' ? rec.durationMs : 0, lastT),
+    layout,
+    events,
+  }
+}
+
+export async function readRecordingFile(file: File): Promise<Recording> {
+  return parseRecording(JSON.parse(await file.text()))
+}
+
+/** Hand a finished recording to the host, or download it when running in a browser */
+export function exportRecording(recording: Recording): void {
+  if (transport.kind === 'vscode') {
+    vscode.postMessage({ type: 'exportRecording', recording })
+    return
+  }
+  const stamp = new Date(recording.startedAt).toISOString().replace(/[:.]/g, '-')
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `pixel-agents-${stamp}.replay.json`
+  document.body.appendChild(a)
+  a.click()
+  setTimeout(() => {
+    a.remove()
+    URL.revokeObjectURL(url)
+  }, RECORDING_URL_REVOKE_DELAY_MS)
+}
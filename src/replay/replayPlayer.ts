@@ -0,0 +1,78 @@
+/**
+ * Replay player: drives its own OfficeState from a Recording.
+ *
+ * Playing forward applies events as the clock passes them. Seeking backwards
+ * clears the office and re-applies everything up to the target time without
+ * spawn/despawn effects, so the scrubber can jump anywhere. The live office and
+ * its layout are never touched.
+ */
+
+import type { AgentActivityState } from '../agentActivity.js'
+import type { Recording } from './recording.js'
+import { OfficeState } from '../office/engine/officeState.js'
+import { applyAgentMessage, EMPTY_AGENT_ACTIVITY } from '../agentActivity.js'
+
+export class ReplayPlayer {
+  readonly recording: Recording
+  readonly officeState: OfficeState
+  activity: AgentActivityState = EMPTY_AGENT_ACTIVITY
+  /** Index of the next event to apply */
+  private cursor = 0
+  private timeMs = 0
+
+  constructor(recording: Recording) {
+    this.recording = recording
+    this.officeState = new OfficeState(recording.layout)
+    this.seek(0)
+  }
+
+  get currentMs(): number {
+    return this.timeMs
+  }
+
+  get durationMs(): number {
+    return this.recording.durationMs
+  }
+
+  get isAtEnd(): boolean {
+    return this.timeMs >= this.recording.durationMs
+  }
+
+  /** Advance the clock, applying events with their normal effects */
+  advance(dtMs: number): void {
+    this.applyUntil(Math.min(this.timeMs + dtMs, this.durationMs), false)
+  }
+
+  /** Jump to a point in time, rebuilding the office when going backwards */
+  seek(ms: number): void {
+    const target = Math.max(0, Math.min(ms, this.durationMs))
+    if (target < this.timeMs || this.cursor === 0) {
+      this.reset()
+    }
+    this.applyUntil(target, true)
+  }
+
+  private reset(): void {
+    const os = this.officeState
+    for (const ch of os.getCharacters()) {
+      if (!ch.isSubagent) os.removeAllSubagents(ch.id, true)
+    }
+    for (const ch of os.getCharacters()) {
+      os.removeAgent(ch.id, true)
+    }
+    os.selectedAgentId = null
+    os.cameraFollowId = null
+    this.activity = EMPTY_AGENT_ACTIVITY
+    this.cursor = 0
+    this.timeMs = 0
+  }
+
+  private applyUntil(ms: number, skipEffects: boolean): void {
+    const { events } = this.recording
+    while (this.cursor < events.length && events[this.cursor].t <= ms) {
+      this.activity = applyAgentMessage(this.activity, events[this.cursor].msg, this.officeState, skipEffects)
+      this.cursor++
+    }
+    this.timeMs = ms
+  }
+}
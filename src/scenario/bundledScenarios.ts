@@ -0,0 +1,32 @@
+import type { Scenario } from './scenario.js'
+import { loadScenario } from './scenario.js'
+import { generateScenario } from './scenarioGenerator.js'
+
+export interface ScenarioChoice {
+  id: string
+  name: string
+}
+
+/** Scenarios shipped in assets/scenarios/<id>.json */
+export const BUNDLED_SCENARIOS: ScenarioChoice[] = [
+  { id: 'code-review', name: 'Code Review' },
+  { id: 'big-refactor', name: 'Big Refactor (Sub-agents)' },
+]
+
+export const DEFAULT_SCENARIO_ID = 'code-review'
+
+/** Prefix for generated scenarios: `random:<seed>` */
+export const RANDOM_SCENARIO_PREFIX = 'random:'
+
+export function randomScenarioId(seed: number): string {
+  return `${RANDOM_SCENARIO_PREFIX}${seed}`
+}
+
+/** Resolve a scenario id to a bundled file or a seeded random scenario */
+export function resolveScenario(id: string): Promise<Scenario> {
+  if (id.startsWith(RANDOM_SCENARIO_PREFIX)) {
+    const seed = Number(id.slice(RANDOM_SCENARIO_PREFIX.length))
+    return Promise.resolve(generateScenario(Number.isFinite(seed) ? seed : 1))
+  }
+  return loadScenario(`./assets/scenarios/${encodeURIComponent(id)}.json`)
+}
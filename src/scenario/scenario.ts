@@ -0,0 +1,134 @@
+/**
+ * Scripted demo scenarios.
+ *
+ * A scenario declares the agents in the office and a timeline of what they do.
+ * Times are seconds from the start of the scenario; looping scenarios restart
+ * after `durationSec`. Seats are furniture uids of the loaded layout — an
+ * unknown or taken seat falls back to any free one.
+ *
+ * Step kinds:
+ * - `tool`       start a tool (the agent's previous tool finishes)
+ * - `permission` the current tool waits for approval
+ * - `approve`    approval granted
+ * - `think`      the current tool finishes; the agent thinks until its next tool
+ * - `fail`       the current tool finishes with an error
+ * - `spawn`      start a Task tool; its sub-agent is referred to by `task`
+ * - `subtool`    the sub-agent for `task` starts a tool
+ * - `despawn`    the sub-agent for `task` finishes (its Task tool completes)
+ * - `waiting`    turn finished, agent waits for the user
+ * - `idle`       agent goes idle
+ * - `leave`      agent closes; it rejoins on the next loop
+ * - `message`    agent messages teammate `to` (omit `to` to broadcast); `text` is the summary
+ * - `say`        agent says `text`, shown in a text bubble
+ */
+
+export interface ScenarioAgent {
+  id: number
+  name: string
+  palette?: number
+  hueShift?: number
+  seat?: string
+  folder?: string
+  role?: string
+  /** Seconds after the start at which the agent arrives (absent = present from the start) */
+  joinAt?: number
+}
+
+interface StepBase {
+  at: number
+  agent: number
+}
+
+export type ScenarioStep =
+  | (StepBase & { do: 'tool'; status: string })
+  | (StepBase & { do: 'permission' })
+  | (StepBase & { do: 'approve' })
+  | (StepBase & { do: 'think' })
+  | (StepBase & { do: 'fail' })
+  | (StepBase & { do: 'spawn'; task: string })
+  | (StepBase & { do: 'subtool'; task: string; status: string })
+  | (StepBase & { do: 'despawn'; task: string })
+  | (StepBase & { do: 'waiting' })
+  | (StepBase & { do: 'idle' })
+  | (StepBase & { do: 'leave' })
+  | (StepBase & { do: 'message'; to?: number; text?: string })
+  | (StepBase & { do: 'say'; text: string })
+
+export type ScenarioStepKind = ScenarioStep['do']
+
+export interface Scenario {
+  name: string
+  description?: string
+  /** Length of one pass of the timeline */
+  durationSec: number
+  loop: boolean
+  agents: ScenarioAgent[]
+  /** Sorted by `at` */
+  steps: ScenarioStep[]
+}
+
+const STEP_KINDS = new Set<string>(['tool', 'permission', 'approve', 'think', 'fail', 'spawn', 'subtool', 'despawn', 'waiting', 'idle', 'leave', 'message', 'say'])
+
+/** Seconds of quiet after the last step before a loop restarts (when durationSec is omitted) */
+const DEFAULT_TAIL_SEC = 5
+
+/** Validate parsed JSON as a scenario. Throws with a readable reason. */
+export function parseScenario(data: unknown): Scenario {
+  if (!data || typeof data !== 'object') throw new Error('not a scenario')
+  const raw = data as Record<string, unknown>
+  if (!Array.isArray(raw.agents) || raw.agents.length === 0) throw new Error('scenario has no agents')
+  if (!Array.isArray(raw.steps)) throw new Error('scenario has no steps')
+
+  const agents: ScenarioAgent[] = []
+  const ids = new Set<number>()
+  for (const a of raw.agents as Array<Partial<ScenarioAgent>>) {
+    if (!a || typeof a.id !== 'number' || typeof a.name !== 'string') throw new Error('agent needs a numeric id and a name')
+    if (ids.has(a.id)) throw new Error(`duplicate agent id ${a.id}`)
+    ids.add(a.id)
+    agents.push({
+      id: a.id,
+      name: a.name,
+      palette: typeof a.palette === 'number' ? a.palette : undefined,
+      hueShift: typeof a.hueShift === 'number' ? a.hueShift : undefined,
+      seat: typeof a.seat === 'string' ? a.seat : undefined,
+      folder: typeof a.folder === 'string' ? a.folder : undefined,
+      role: typeof a.role === 'string' ? a.role : undefined,
+      joinAt: typeof a.joinAt === 'number' ? a.joinAt : undefined,
+    })
+  }
+
+  const steps: ScenarioStep[] = []
+  for (const s of raw.steps as Array<Record<string, unknown>>) {
+    if (!s || typeof s.at !== 'number' || typeof s.agent !== 'number' || typeof s.do !== 'string') {
+      throw new Error('step needs `at`, `agent` and `do`')
+    }
+    if (!STEP_KINDS.has(s.do)) throw new Error(`unknown step kind "${s.do}"`)
+    if (!ids.has(s.agent)) throw new Error(`step refers to unknown agent ${s.agent}`)
+    if ((s.do === 'tool' || s.do === 'subtool') && typeof s.status !== 'string') throw new Error(`${s.do} step needs a status`)
+    if ((s.do === 'spawn' || s.do === 'subtool' || s.do === 'despawn') && typeof s.task !== 'string') throw new Error(`${s.do} step needs a task`)
+    if (s.do === 'say' && typeof s.text !== 'string') throw new Error('say step needs a text')
+    if (s.do === 'message' && s.to !== undefined && !ids.has(s.to as number)) throw new Error(`message step refers to unknown agent ${String(s.to)}`)
+    steps.push(s as unknown as ScenarioStep)
+  }
+  // Stable sort keeps same-time steps in file order
+  steps.sort((a, b) => a.at - b.at)
+
+  const lastAt = Math.max(
+    steps.length > 0 ? steps[steps.length - 1].at : 0,
+    ...agents.map((a) => a.joinAt ?? 0),
+  )
+  return {
+    name: typeof raw.name === 'string' ? raw.name : 'Untitled scenario',
+    description: typeof raw.description === 'string' ? raw.description : undefined,
+    durationSec: typeof raw.durationSec === 'number' && raw.durationSec > lastAt ? raw.durationSec : lastAt + DEFAULT_TAIL_SEC,
+    loop: raw.loop !== false,
+    agents,
+    steps,
+  }
+}
+
+export async function loadScenario(url: string): Promise<Scenario> {
+  const res = await fetch(url)
+  if (!res.ok) throw new Error(`${url}: ${res.status}`)
+  return parseScenario(await res.json())
+}
@@ -0,0 +1,102 @@
+import type { Scenario, ScenarioAgent, ScenarioStep } from './scenario.js'
+import { PALETTE_COUNT } from '../constants.js'
+
+const AGENT_NAMES = ['Alice', 'Bob', 'Carol', 'Dave', 'Erin', 'Frank', 'Grace', 'Heidi']
+
+/** Tool statuses to pick from (prefixes match STATUS_TO_TOOL) */
+const TOOL_STATUSES = [
+  'Reading src/App.tsx',
+  'Reading package.json',
+  'Editing src/App.tsx',
+  'Editing src/hooks/useData.ts',
+  'Writing src/notes.md',
+  'Running: npm run build',
+  'Running: npm test',
+  'Searching code',
+  'Globbing files',
+  'Fetching web content',
+  'Searching web',
+]
+
+const TASK_NAMES = ['Explore the codebase', 'Find usages of the API', 'Review the diff', 'Write unit tests']
+
+/** Deterministic PRNG (mulberry32) — the same seed always yields the same scenario */
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export interface GenerateScenarioOptions {
+  agentCount?: number
+  durationSec?: number
+}
+
+/** Build a random but reproducible scenario from a seed */
+export function generateScenario(seed: number, options: GenerateScenarioOptions = {}): Scenario {
+  const rand = seededRandom(seed)
+  const pick = <T>(list: readonly T[]): T => list[Math.floor(rand() * list.length)]
+  const between = (min: number, max: number) => min + rand() * (max - min)
+  const agentCount = options.agentCount ?? 4
+  const durationSec = options.durationSec ?? 90
+
+  const agents: ScenarioAgent[] = []
+  const steps: ScenarioStep[] = []
+  for (let i = 0; i < agentCount; i++) {
+    const id = i + 1
+    agents.push({ id, name: AGENT_NAMES[i % AGENT_NAMES.length], palette: i % PALETTE_COUNT })
+
+    // Alternate work bursts and breaks until the pass is over
+    let t = between(0, 2)
+    while (t < durationSec - 5) {
+      const roll = rand()
+      if (roll < 0.15) {
+        // Delegate to a sub-agent
+        const task = pick(TASK_NAMES)
+        steps.push({ at: t, agent: id, do: 'spawn', task })
+        let st = t + between(1, 2)
+        const subSteps = 2 + Math.floor(rand() * 3)
+        for (let k = 0; k < subSteps; k++) {
+          steps.push({ at: st, agent: id, do: 'subtool', task, status: pick(TOOL_STATUSES) })
+          st += between(2, 4)
+        }
+        steps.push({ at: st, agent: id, do: 'despawn', task })
+        t = st + between(1, 2)
+      } else if (roll < 0.25) {
+        // Tool that needs approval
+        steps.push({ at: t, agent: id, do: 'tool', status: 'Running: rm -rf dist' })
+        steps.push({ at: t + 0.5, agent: id, do: 'permission' })
+        const wait = between(3, 8)
+        steps.push({ at: t + 0.5 + wait, agent: id, do: 'approve' })
+        t += 0.5 + wait + between(2, 4)
+      } else if (roll < 0.4) {
+        // End of turn, then a break
+        steps.push({ at: t, agent: id, do: rand() < 0.5 ? 'waiting' : 'idle' })
+        t += between(6, 15)
+      } else if (roll < 0.5) {
+        // A tool that fails, then a pause to think it over
+        steps.push({ at: t, agent: id, do: 'tool', status: pick(TOOL_STATUSES) })
+        steps.push({ at: t + between(2, 4), agent: id, do: 'fail' })
+        t += between(7, 10)
+      } else {
+        steps.push({ at: t, agent: id, do: 'tool', status: pick(TOOL_STATUSES) })
+        t += between(3, 7)
+      }
+    }
+  }
+  steps.sort((a, b) => a.at - b.at)
+
+  return {
+    name: `Random (seed ${seed})`,
+    description: 'Generated from a seed — the same seed always plays the same way',
+    durationSec,
+    loop: true,
+    agents,
+    steps,
+  }
+}
@@ -0,0 +1,218 @@
+import type { AgentMeta, HostMessage } from '../messageProtocol.js'
+import type { Scenario, ScenarioAgent, ScenarioStep } from './scenario.js'
+
+/** Runner-side state for one scripted agent */
+interface AgentRun {
+  present: boolean
+  active: boolean
+  /** Main-agent tool that is still open (Task tools are tracked separately) */
+  currentToolId: string | null
+  /** Task tool id per sub-agent task name */
+  taskToolIds: Map<string, string>
+  /** Open sub-agent tool per task name */
+  subToolIds: Map<string, string>
+}
+
+/**
+ * Play a scenario by dispatching HostMessages on its timeline. Returns a stop
+ * function; pass `closeAgents` to make the scripted agents leave the office.
+ */
+export function runScenario(scenario: Scenario, dispatch: (msg: HostMessage) => void): (closeAgents?: boolean) => void {
+  const runs = new Map<number, AgentRun>()
+  for (const agent of scenario.agents) {
+    runs.set(agent.id, { present: false, active: false, currentToolId: null, taskToolIds: new Map(), subToolIds: new Map() })
+  }
+  let toolCounter = 0
+  const nextToolId = () => `scenario-${toolCounter++}`
+
+  // Demo agents are identified by name, so profile edits stick across demo runs
+  const meta = (a: ScenarioAgent): AgentMeta => ({
+    identity: `demo:${a.name}`,
+    name: a.name,
+    role: a.role,
+    palette: a.palette,
+    hueShift: a.hueShift,
+    seatId: a.seat,
+  })
+
+  const clearTools = (id: number, run: AgentRun) => {
+    run.currentToolId = null
+    run.taskToolIds.clear()
+    run.subToolIds.clear()
+    dispatch({ type: 'agentToolsClear', id })
+  }
+
+  const activate = (id: number, run: AgentRun) => {
+    if (run.active) return
+    run.active = true
+    dispatch({ type: 'agentStatus', id, status: 'active' })
+  }
+
+  const finishCurrentTool = (id: number, run: AgentRun, error = false) => {
+    if (!run.currentToolId) return
+    dispatch({ type: 'agentToolDone', id, toolId: run.currentToolId, ...(error ? { error } : {}) })
+    run.currentToolId = null
+  }
+
+  const join = (agent: ScenarioAgent) => {
+    const run = runs.get(agent.id)!
+    if (run.present) return
+    run.present = true
+    run.active = false
+    dispatch({ type: 'agentCreated', id: agent.id, folderName: agent.folder, meta: meta(agent) })
+  }
+
+  const applyStep = (step: ScenarioStep) => {
+    const id = step.agent
+    const run = runs.get(id)
+    if (!run || !run.present) return
+    switch (step.do) {
+      case 'tool': {
+        activate(id, run)
+        finishCurrentTool(id, run)
+        run.currentToolId = nextToolId()
+        dispatch({ type: 'agentToolStart', id, toolId: run.currentToolId, status: step.status })
+        break
+      }
+      case 'permission': {
+        dispatch({ type: 'agentToolPermission', id })
+        break
+      }
+      case 'approve': {
+        dispatch({ type: 'agentToolPermissionClear', id })
+        break
+      }
+      case 'think':
+      case 'fail': {
+        activate(id, run)
+        finishCurrentTool(id, run, step.do === 'fail')
+        break
+      }
+      case 'spawn': {
+        activate(id, run)
+        finishCurrentTool(id, run)
+        const toolId = nextToolId()
+        run.taskToolIds.set(step.task, toolId)
+        dispatch({ type: 'agentToolStart', id, toolId, status: `Task: ${step.task}` })
+        break
+      }
+      case 'subtool': {
+        const parentToolId = run.taskToolIds.get(step.task)
+        if (!parentToolId) break
+        const prev = run.subToolIds.get(step.task)
+        if (prev) dispatch({ type: 'subagentToolDone', id, parentToolId, toolId: prev })
+        const toolId = nextToolId()
+        run.subToolIds.set(step.task, toolId)
+        dispatch({ type: 'subagentToolStart', id, parentToolId, toolId, status: step.status })
+        break
+      }
+      case 'despawn': {
+        const parentToolId = run.taskToolIds.get(step.task)
+        if (!parentToolId) break
+        run.taskToolIds.delete(step.task)
+        run.subToolIds.delete(step.task)
+        dispatch({ type: 'subagentClear', id, parentToolId })
+        dispatch({ type: 'agentToolDone', id, toolId: parentToolId })
+        break
+      }
+      case 'waiting':
+      case 'idle': {
+        clearTools(id, run)
+        run.active = false
+        dispatch({ type: 'agentStatus', id, status: step.do })
+        break
+      }
+      case 'say': {
+        dispatch({ type: 'agentSpeech', id, text: step.text })
+        break
+      }
+      case 'message': {
+        // Skip messages to teammates who have left (or not arrived yet)
+        if (step.to !== undefined && !runs.get(step.to)?.present) break
+        dispatch({ type: 'agentMessage', id, toId: step.to, summary: step.text })
+        break
+      }
+      case 'leave': {
+        run.present = false
+        run.active = false
+        dispatch({ type: 'agentClosed', id })
+        break
+      }
+    }
+  }
+
+  // Agents present from the start arrive without a spawn effect
+  const startPass = (firstPass: boolean) => {
+    const initial = scenario.agents.filter((a) => a.joinAt === undefined)
+    if (firstPass) {
+      for (const a of initial) runs.get(a.id)!.present = true
+      const agentMeta: Record<number, AgentMeta> = {}
+      const folderNames: Record<number, string> = {}
+      for (const a of initial) {
+        agentMeta[a.id] = meta(a)
+        if (a.folder) folderNames[a.id] = a.folder
+      }
+      dispatch({ type: 'existingAgents', agents: initial.map((a) => a.id), folderNames, agentMeta })
+      return
+    }
+    // Looping: late joiners leave again, everyone else starts with a clean slate
+    for (const a of scenario.agents) {
+      const run = runs.get(a.id)!
+      if (a.joinAt !== undefined) {
+        if (run.present) applyStep({ at: 0, agent: a.id, do: 'leave' })
+      } else if (!run.present) {
+        join(a)
+      } else {
+        clearTools(a.id, run)
+        run.active = false
+      }
+    }
+  }
+
+  // Agent arrivals are folded into the timeline as pseudo-steps
+  type TimelineEntry = { at: number; run: () => void }
+  const timeline: TimelineEntry[] = [
+    ...scenario.agents
+      .filter((a) => a.joinAt !== undefined)
+      .map((a) => ({ at: a.joinAt!, run: () => join(a) })),
+    ...scenario.steps.map((s) => ({ at: s.at, run: () => applyStep(s) })),
+  ].sort((a, b) => a.at - b.at)
+
+  let stopped = false
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let passStart = 0
+  let cursor = 0
+
+  const schedule = () => {
+    if (stopped) return
+    const elapsedSec = (performance.now() - passStart) / 1000
+    while (cursor < timeline.length && timeline[cursor].at <= elapsedSec) {
+      timeline[cursor].run()
+      cursor++
+    }
+    if (cursor < timeline.length) {
+      timer = setTimeout(schedule, (timeline[cursor].at - elapsedSec) * 1000)
+    } else if (scenario.loop) {
+      timer = setTimeout(() => {
+        startPass(false)
+        passStart = performance.now()
+        cursor = 0
+        schedule()
+      }, Math.max(0, scenario.durationSec - elapsedSec) * 1000)
+    }
+  }
+
+  startPass(true)
+  passStart = performance.now()
+  schedule()
+
+  return (closeAgents = false) => {
+    stopped = true
+    if (timer) clearTimeout(timer)
+    if (closeAgents) {
+      for (const [id, run] of runs) {
+        if (run.present) dispatch({ type: 'agentClosed', id })
+      }
+    }
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * OpenAI Codex CLI rollout parser (`~/.codex/sessions/**.jsonl`).
+ *
+ * Rollout lines are `{ type, payload }` records: `session_meta` carries the
+ * working directory, `response_item` holds tool calls and their outputs
+ * (matched by `call_id`), and `event_msg` marks user prompts and finished
+ * turns. Shell calls are classified by the command they run, so `cat` reads
+ * and `rg` searches animate like Claude's Read and Grep.
+ */
+
+import type { HostMessage } from '../messageProtocol.js'
+import { ActivityKind } from '../office/types.js'
+import { baseName, truncate, lastSentence } from './transcriptParser.js'
+import { BASH_COMMAND_DISPLAY_MAX_LENGTH } from '../constants.js'
+
+interface CodexPayload {
+  type?: string
+  cwd?: string
+  name?: string
+  arguments?: string
+  input?: string
+  call_id?: string
+  /** Text of an `agent_message` event */
+  message?: string
+  action?: { type?: string; command?: string[] | string; query?: string }
+}
+
+interface CodexRecord {
+  type?: string
+  payload?: CodexPayload
+}
+
+const CODEX_RECORD_TYPES = new Set(['session_meta', 'response_item', 'event_msg', 'turn_context', 'compacted'])
+
+/** True for a parsed line in Codex rollout format */
+export function isCodexRecord(record: unknown): boolean {
+  if (!record || typeof record !== 'object') return false
+  const r = record as CodexRecord
+  return typeof r.type === 'string' && CODEX_RECORD_TYPES.has(r.type) && typeof r.payload === 'object'
+}
+
+/** Codex tool names by canonical activity */
+const CODEX_TOOL_ACTIVITY: Record<string, ActivityKind> = {
+  shell: ActivityKind.EXECUTE,
+  local_shell: ActivityKind.EXECUTE,
+  exec_command: ActivityKind.EXECUTE,
+  'container.exec': ActivityKind.EXECUTE,
+  apply_patch: ActivityKind.WRITE,
+  update_plan: ActivityKind.THINK,
+  view_image: ActivityKind.READ,
+  web_search: ActivityKind.WEB,
+}
+
+export function codexToolActivity(toolName: string): ActivityKind | null {
+  return CODEX_TOOL_ACTIVITY[toolName] ?? null
+}
+
+export function codexToolFromStatus(status: string): string | null {
+  if (status.startsWith('Updating plan')) return 'update_plan'
+  return null
+}
+
+/** Commands that only look at files, by what they do */
+const READ_COMMANDS = new Set(['cat', 'sed', 'head', 'tail', 'nl', 'less', 'wc'])
+const SEARCH_COMMANDS = new Set(['rg', 'grep', 'find', 'fd', 'ls', 'tree'])
+
+/** Status and activity for a shell command line */
+export function describeShellCommand(command: string): { status: string; activity: ActivityKind } {
+  // Look past a leading `cd dir &&` to the command that does the work
+  const main = command.replace(/^\s*cd\s+\S+\s*&&\s*/, '').trim()
+  const words = main.split(/\s+/)
+  const program = baseName(words[0] ?? '')
+  if (READ_COMMANDS.has(program) && !main.includes('|')) {
+    const target = [...words].reverse().find((w) => !w.startsWith('-') && w !== program && !/^['"]?\d/.test(w))
+    return { status: target ? `Reading ${baseName(target.replace(/['"]/g, ''))}` : 'Reading files', activity: ActivityKind.READ }
+  }
+  if (SEARCH_COMMANDS.has(program)) {
+    return { status: 'Searching code', activity: ActivityKind.SEARCH }
+  }
+  return { status: `Running: ${truncate(main, BASH_COMMAND_DISPLAY_MAX_LENGTH)}`, activity: ActivityKind.EXECUTE }
+}
+
+/** Status for an apply_patch body: the first file it touches */
+function describePatch(patch: string): string {
+  const m = /^\*\*\* (Add|Update|Delete) File: (.+)$/m.exec(patch)
+  if (!m) return 'Editing files'
+  const file = baseName(m[2].trim())
+  if (m[1] === 'Add') return `Writing ${file}`
+  if (m[1] === 'Delete') return `Editing ${file} (delete)`
+  return `Editing ${file}`
+}
+
+/** `command` is an argv array (`["bash", "-lc", "npm test"]`) or a plain string */
+function commandText(command: unknown): string {
+  if (typeof command === 'string') return command
+  if (!Array.isArray(command)) return ''
+  const parts = command.filter((c): c is string => typeof c === 'string')
+  const shellFlag = parts.findIndex((p) => p === '-c' || p === '-lc')
+  return shellFlag >= 0 && parts[shellFlag + 1] ? parts[shellFlag + 1] : parts.join(' ')
+}
+
+function parseArguments(raw: unknown): Record<string, unknown> {
+  if (typeof raw !== 'string') return {}
+  try {
+    const parsed = JSON.parse(raw) as unknown
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : {}
+  } catch {
+    return {}
+  }
+}
+
+/** Status and activity for one Codex tool call */
+export function describeCodexTool(name: string, args: Record<string, unknown>): { status: string; activity: ActivityKind | undefined } {
+  switch (name) {
+    case 'shell':
+    case 'local_shell':
+    case 'exec_command':
+    case 'container.exec': {
+      const cmd = commandText(args.command ?? args.cmd)
+      // apply_patch is often invoked through the shell
+      if (cmd.startsWith('apply_patch')) return { status: describePatch(cmd), activity: ActivityKind.WRITE }
+      return describeShellCommand(cmd)
+    }
+    case 'apply_patch':
+      return { status: describePatch(typeof args.input === 'string' ? args.input : ''), activity: ActivityKind.WRITE }
+    case 'update_plan':
+      return { status: 'Updating plan', activity: ActivityKind.THINK }
+    case 'view_image':
+      return { status: `Reading ${baseName(args.path)}`, activity: ActivityKind.READ }
+    default:
+      return { status: `Using ${name}`, activity: codexToolActivity(name) ?? undefined }
+  }
+}
+
+/** Parser state for one Codex rollout (one agent session) */
+export class CodexParser {
+  readonly agentId: number
+  private buffer = ''
+  private created = false
+  /** Tool calls that haven't produced output yet */
+  private openCalls = new Set<string>()
+  private syntheticIds = 0
+
+  constructor(agentId: number) {
+    this.agentId = agentId
+  }
+
+  push(chunk: string): HostMessage[] {
+    this.buffer += chunk
+    const lines = this.buffer.split('\n')
+    this.buffer = lines.pop() ?? ''
+    const out: HostMessage[] = []
+    for (const line of lines) {
+      this.parseLine(line, out)
+    }
+    return out
+  }
+
+  /** Parse a last line that has no trailing newline, unless it's still cut off mid-record */
+  flush(): HostMessage[] {
+    const out: HostMessage[] = []
+    try {
+      JSON.parse(this.buffer)
+    } catch {
+      return out
+    }
+    this.parseLine(this.buffer, out)
+    this.buffer = ''
+    return out
+  }
+
+  private parseLine(line: string, out: HostMessage[]): void {
+    const trimmed = line.trim()
+    if (!trimmed) return
+    let record: CodexRecord
+    try {
+      record = JSON.parse(trimmed) as CodexRecord
+    } catch {
+      return
+    }
+    const payload = record?.payload
+    if (!payload || typeof payload !== 'object') return
+
+    const id = this.agentId
+    if (!this.created) {
+      this.created = true
+      out.push({ type: 'agentCreated', id, folderName: payload.cwd ? baseName(payload.cwd) : undefined })
+    }
+
+    if (record.type === 'event_msg') {
+      if (payload.type === 'user_message') {
+        this.resetTurn(out, 'active')
+      } else if (payload.type === 'task_complete' || payload.type === 'turn_aborted') {
+        this.resetTurn(out, 'waiting')
+      } else if (payload.type === 'agent_message' && typeof payload.message === 'string') {
+        const text = lastSentence(payload.message)
+        if (text) out.push({ type: 'agentSpeech', id, text })
+      }
+      return
+    }
+    if (record.type !== 'response_item') return
+
+    switch (payload.type) {
+      case 'function_call':
+      case 'custom_tool_call': {
+        if (!payload.call_id || !payload.name) break
+        const args = payload.type === 'function_call' ? parseArguments(payload.arguments) : { input: payload.input }
+        this.startTool(payload.call_id, describeCodexTool(payload.name, args), out)
+        break
+      }
+      case 'local_shell_call': {
+        if (!payload.call_id) break
+        this.startTool(payload.call_id, describeShellCommand(commandText(payload.action?.command)), out)
+        break
+      }
+      case 'function_call_output':
+      case 'custom_tool_call_output':
+      case 'local_shell_call_output': {
+        if (!payload.call_id || !this.openCalls.delete(payload.call_id)) break
+        out.push({ type: 'agentToolDone', id, toolId: payload.call_id })
+        break
+      }
+      case 'web_search_call': {
+        // Searches have no separate output record — show them as a finished step
+        const toolId = `codex-search-${this.syntheticIds++}`
+        this.startTool(toolId, { status: 'Searching web', activity: ActivityKind.WEB }, out)
+        this.openCalls.delete(toolId)
+        out.push({ type: 'agentToolDone', id, toolId })
+        break
+      }
+    }
+  }
+
+  private startTool(toolId: string, desc: { status: string; activity: ActivityKind | undefined }, out: HostMessage[]): void {
+    if (this.openCalls.size === 0) {
+      out.push({ type: 'agentStatus', id: this.agentId, status: 'active' })
+    }
+    this.openCalls.add(toolId)
+    out.push({ type: 'agentToolStart', id: this.agentId, toolId, status: desc.status, activity: desc.activity })
+  }
+
+  private resetTurn(out: HostMessage[], status: 'active' | 'waiting'): void {
+    this.openCalls.clear()
+    out.push({ type: 'agentToolsClear', id: this.agentId })
+    out.push({ type: 'agentStatus', id: this.agentId, status })
+  }
+}
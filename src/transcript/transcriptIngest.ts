@@ -0,0 +1,91 @@
+/**
+ * Reads dropped/picked `.jsonl` transcript files and feeds them through the
+ * matching framework adapter (Claude Code or Codex CLI, detected from the
+ * first record). Each file becomes one agent; dropping the same transcript
+ * again continues from where the previous read stopped, so a growing
+ * transcript can be re-dropped to pick up its appended lines. A transcript is
+ * known by its name and first line, so same-named files from different
+ * projects stay separate agents.
+ */
+
+import type { HostMessage } from '../messageProtocol.js'
+import { AutoDetectParser } from '../adapters/registry.js'
+import { TRANSCRIPT_AGENT_ID_BASE, TRANSCRIPT_IDENTITY_MAX_BYTES } from '../constants.js'
+
+interface TranscriptSession {
+  parser: AutoDetectParser
+  /** Bytes of the file consumed so far */
+  bytesRead: number
+  /** Streaming decoder — keeps multi-byte characters split across reads intact */
+  decoder: TextDecoder
+}
+
+export function isTranscriptFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.jsonl')
+}
+
+export class TranscriptIngest {
+  private sessions = new Map<string, TranscriptSession>()
+  private nextAgentId = TRANSCRIPT_AGENT_ID_BASE
+  private dispatch: (msg: HostMessage) => void
+
+  constructor(dispatch: (msg: HostMessage) => void) {
+    this.dispatch = dispatch
+  }
+
+  /** Ingest files in order. Non-JSONL files are ignored. Returns how many were read. */
+  async ingestFiles(files: Iterable<File>): Promise<number> {
+    let count = 0
+    for (const file of files) {
+      if (!isTranscriptFile(file)) continue
+      await this.ingestFile(file)
+      count++
+    }
+    return count
+  }
+
+  private async ingestFile(file: File): Promise<void> {
+    // The first line doesn't change as the file grows, and differs between
+    // sessions, so it tells same-named transcripts apart
+    const head = await file.slice(0, TRANSCRIPT_IDENTITY_MAX_BYTES).text()
+    const key = `${file.name}\n${head.split('\n', 1)[0]}`
+    let session = this.sessions.get(key)
+    if (session && file.size < session.bytesRead) {
+      // File was truncated or replaced — start a fresh agent for it
+      this.dispatch({ type: 'agentClosed', id: session.parser.agentId })
+      session = undefined
+    }
+    if (!session) {
+      session = {
+        parser: new AutoDetectParser(this.nextAgentId++),
+        bytesRead: 0,
+        decoder: new TextDecoder(),
+      }
+      this.sessions.set(key, session)
+    }
+
+    const buffer = await file.slice(session.bytesRead).arrayBuffer()
+    session.bytesRead += buffer.byteLength
+    const text = session.decoder.decode(buffer, { stream: true })
+    // The whole file has been read, so a last record without a newline is complete too
+    const messages = [...session.parser.push(text), ...session.parser.flush()]
+    // A whole file is applied at once, so only its final status matters —
+    // earlier ones would just replay a burst of waiting chimes
+    let lastStatus = -1
+    messages.forEach((msg, i) => {
+      if (msg.type === 'agentStatus') lastStatus = i
+    })
+    messages.forEach((msg, i) => {
+      if (msg.type === 'agentStatus' && i !== lastStatus) return
+      this.dispatch(msg)
+    })
+  }
+
+  /** Close every agent created from transcripts */
+  clear(): void {
+    for (const session of this.sessions.values()) {
+      this.dispatch({ type: 'agentClosed', id: session.parser.agentId })
+    }
+    this.sessions.clear()
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Claude Code JSONL transcript parser.
+ *
+ * Turns transcript records into the same HostMessages a live host sends, so a
+ * dropped transcript drives a character exactly like a running agent would.
+ * Input may arrive in arbitrary chunks: partial trailing lines are buffered
+ * until their newline shows up, or until flush() at the end of the file.
+ */
+
+import type { HostMessage } from '../messageProtocol.js'
+import { claudeToolActivity } from '../adapters/claudeCodeTools.js'
+import { BASH_COMMAND_DISPLAY_MAX_LENGTH, TASK_DESCRIPTION_DISPLAY_MAX_LENGTH } from '../constants.js'
+
+interface ContentBlock {
+  type?: string
+  id?: string
+  name?: string
+  input?: Record<string, unknown>
+  tool_use_id?: string
+  is_error?: boolean
+  text?: string
+}
+
+interface TranscriptRecord {
+  type?: string
+  subtype?: string
+  cwd?: string
+  parentToolUseID?: string
+  message?: { content?: string | ContentBlock[] }
+  data?: { type?: string; message?: TranscriptRecord }
+}
+
+export function baseName(p: unknown): string {
+  if (typeof p !== 'string') return ''
+  const parts = p.split(/[\\/]/)
+  return parts[parts.length - 1] || p
+}
+
+export function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max) + '…' : text
+}
+
+/** Last sentence of a reply, with code and markdown markup stripped — what a text bubble shows */
+export function lastSentence(text: string): string {
+  const plain = text
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/[`*_#>]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+  const sentences = plain.split(/(?<=[.!?])\s+/)
+  return sentences[sentences.length - 1] ?? ''
+}
+
+/** Human-readable status for a tool call (prefixes match STATUS_TO_TOOL) */
+export function formatToolStatus(toolName: string, input: Record<string, unknown>): string {
+  switch (toolName) {
+    case 'Read': return `Reading ${baseName(input.file_path)}`
+    case 'Edit': return `Editing ${baseName(input.file_path)}`
+    case 'MultiEdit': return `Editing ${baseName(input.file_path)}`
+    case 'Write': return `Writing ${baseName(input.file_path)}`
+    case 'NotebookEdit': return `Editing ${baseName(input.notebook_path)}`
+    case 'Bash': {
+      const cmd = typeof input.command === 'string' ? input.command : ''
+      return `Running: ${truncate(cmd, BASH_COMMAND_DISPLAY_MAX_LENGTH)}`
+    }
+    case 'Glob': return 'Globbing files'
+    case 'Grep': return 'Searching code'
+    case 'WebFetch': return 'Fetching web content'
+    case 'WebSearch': return 'Searching web'
+    case 'Task': {
+      const desc = typeof input.description === 'string' ? input.description : ''
+      return desc ? `Task: ${truncate(desc, TASK_DESCRIPTION_DISPLAY_MAX_LENGTH)}` : 'Task: subtask'
+    }
+    case 'TodoWrite': return 'Updating todos'
+    default: return `Using ${toolName}`
+  }
+}
+
+/** Parser state for one transcript (one agent session) */
+export class TranscriptParser {
+  readonly agentId: number
+  private buffer = ''
+  private created = false
+  /** Tool ids started by the main agent that haven't completed yet */
+  private openTools = new Map<string, string>()
+  /** Task tool ids that currently have sub-agent activity */
+  private openSubagents = new Set<string>()
+
+  constructor(agentId: number) {
+    this.agentId = agentId
+  }
+
+  /** Feed a chunk of transcript text. Returns messages for every complete line. */
+  push(chunk: string): HostMessage[] {
+    this.buffer += chunk
+    const lines = this.buffer.split('\n')
+    // Last element is a partial line (or '' when the chunk ended on a newline)
+    this.buffer = lines.pop() ?? ''
+    const out: HostMessage[] = []
+    for (const line of lines) {
+      this.parseLine(line, out)
+    }
+    return out
+  }
+
+  /** Parse a last line that has no trailing newline, unless it's still cut off mid-record */
+  flush(): HostMessage[] {
+    const out: HostMessage[] = []
+    try {
+      JSON.parse(this.buffer)
+    } catch {
+      return out
+    }
+    this.parseLine(this.buffer, out)
+    this.buffer = ''
+    return out
+  }
+
+  private parseLine(line: string, out: HostMessage[]): void {
+    const trimmed = line.trim()
+    if (!trimmed) return
+    let record: TranscriptRecord
+    try {
+      record = JSON.parse(trimmed) as TranscriptRecord
+    } catch {
+      // Corrupt or truncated line — skip it rather than abort the whole file
+      return
+    }
+    if (!record || typeof record !== 'object') return
+
+    const id = this.agentId
+    if (!this.created) {
+      this.created = true
+      out.push({ type: 'agentCreated', id, folderName: record.cwd ? baseName(record.cwd) : undefined })
+    }
+
+    switch (record.type) {
+      case 'assistant': {
+        const blocks = contentBlocks(record)
+        for (const block of blocks) {
+          if (block.type === 'text' && typeof block.text === 'string') {
+            const text = lastSentence(block.text)
+            if (text) out.push({ type: 'agentSpeech', id, text })
+            continue
+          }
+          if (block.type !== 'tool_use' || !block.id || !block.name) continue
+          if (this.openTools.size === 0) {
+            out.push({ type: 'agentStatus', id, status: 'active' })
+          }
+          this.openTools.set(block.id, block.name)
+          out.push({
+            type: 'agentToolStart',
+            id,
+            toolId: block.id,
+            status: formatToolStatus(block.name, block.input ?? {}),
+            activity: claudeToolActivity(block.name) ?? undefined,
+          })
+        }
+        break
+      }
+      case 'user': {
+        const content = record.message?.content
+        if (typeof content === 'string') {
+          this.startNewTurn(out)
+          break
+        }
+        const blocks = contentBlocks(record)
+        let sawToolResult = false
+        for (const block of blocks) {
+          if (block.type !== 'tool_result' || !block.tool_use_id) continue
+          sawToolResult = true
+          const toolId = block.tool_use_id
+          if (!this.openTools.has(toolId)) continue
+          this.openTools.delete(toolId)
+          if (this.openSubagents.delete(toolId)) {
+            out.push({ type: 'subagentClear', id, parentToolId: toolId })
+          }
+          out.push({ type: 'agentToolDone', id, toolId, ...(block.is_error ? { error: true } : {}) })
+        }
+        // A user message with only text blocks is a new prompt
+        if (!sawToolResult && blocks.some((b) => b.type === 'text')) {
+          this.startNewTurn(out)
+        }
+        break
+      }
+      case 'system': {
+        if (record.subtype === 'turn_duration') {
+          this.endTurn(out)
+        }
+        break
+      }
+      case 'progress': {
+        const parentToolId = record.parentToolUseID
+        const inner = record.data?.type === 'agent_progress' ? record.data.message : undefined
+        if (!parentToolId || !inner) break
+        for (const block of contentBlocks(inner)) {
+          if (inner.type === 'assistant' && block.type === 'tool_use' && block.id && block.name) {
+            this.openSubagents.add(parentToolId)
+            out.push({
+              type: 'subagentToolStart',
+              id,
+              parentToolId,
+              toolId: block.id,
+              status: formatToolStatus(block.name, block.input ?? {}),
+              activity: claudeToolActivity(block.name) ?? undefined,
+            })
+          } else if (inner.type === 'user' && block.type === 'tool_result' && block.tool_use_id) {
+            out.push({ type: 'subagentToolDone', id, parentToolId, toolId: block.tool_use_id })
+          }
+        }
+        break
+      }
+    }
+  }
+
+  private startNewTurn(out: HostMessage[]): void {
+    this.clearTools(out)
+    out.push({ type: 'agentStatus', id: this.agentId, status: 'active' })
+  }
+
+  private endTurn(out: HostMessage[]): void {
+    this.clearTools(out)
+    out.push({ type: 'agentStatus', id: this.agentId, status: 'waiting' })
+  }
+
+  private clearTools(out: HostMessage[]): void {
+    for (const parentToolId of this.openSubagents) {
+      out.push({ type: 'subagentClear', id: this.agentId, parentToolId })
+    }
+    this.openSubagents.clear()
+    this.openTools.clear()
+    out.push({ type: 'agentToolsClear', id: this.agentId })
+  }
+}
+
+/** A record's content blocks; anything that isn't an object is skipped, like an unparseable line */
+function contentBlocks(record: TranscriptRecord): ContentBlock[] {
+  const content = record.message?.content
+  return Array.isArray(content) ? content.filter((b): b is ContentBlock => !!b && typeof b === 'object') : []
+}
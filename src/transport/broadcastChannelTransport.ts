@@ -0,0 +1,38 @@
+import type { WebviewMessage } from '../messageProtocol.js'
+import { BaseTransport } from './transport.js'
+
+/** Envelope that keeps webviews from reading each other's outbound messages */
+interface BroadcastEnvelope {
+  direction: 'toHost' | 'toWebview'
+  msg: unknown
+}
+
+/**
+ * BroadcastChannel between browser tabs on the same origin. One tab (or a
+ * bridge page) acts as host; any number of office tabs can watch it.
+ */
+export class BroadcastChannelTransport extends BaseTransport {
+  readonly kind = 'broadcast'
+  private channel: BroadcastChannel
+
+  constructor(channelName: string) {
+    super()
+    this.channel = new BroadcastChannel(channelName)
+    this.channel.onmessage = (e: MessageEvent) => {
+      const envelope = e.data as BroadcastEnvelope | null
+      if (!envelope || envelope.direction !== 'toWebview') return
+      this.receive(envelope.msg)
+    }
+    this.setConnected(true)
+  }
+
+  protected deliver(msg: WebviewMessage): void {
+    const envelope: BroadcastEnvelope = { direction: 'toHost', msg }
+    this.channel.postMessage(envelope)
+  }
+
+  close(): void {
+    this.channel.close()
+    super.close()
+  }
+}
@@ -0,0 +1,55 @@
+import type { Transport, TransportKind } from './transport.js'
+import { VsCodeTransport, isVsCodeWebview } from './vscodeTransport.js'
+import { WebSocketTransport } from './webSocketTransport.js'
+import { BroadcastChannelTransport } from './broadcastChannelTransport.js'
+import { LoopbackTransport } from './loopbackTransport.js'
+import { WS_DEFAULT_URL, BROADCAST_CHANNEL_NAME } from '../constants.js'
+
+const TRANSPORT_KINDS: readonly TransportKind[] = ['vscode', 'websocket', 'broadcast', 'loopback']
+
+/**
+ * Pick a transport for this page.
+ *
+ * URL parameters take priority:
+ *   ?transport=vscode|websocket|broadcast|loopback
+ *   ?ws=ws://host:port   (implies websocket, overrides WS_DEFAULT_URL)
+ *   ?channel=name        (BroadcastChannel name)
+ * Otherwise: VS Code webview if `acquireVsCodeApi` exists, else BroadcastChannel
+ * when available, else an unconnected loopback (demo mode takes over).
+ */
+export function createTransport(search: string = window.location.search): Transport {
+  const params = new URLSearchParams(search)
+  const requested = params.get('transport')
+  const wsUrl = params.get('ws')
+
+  let kind: TransportKind
+  if (requested && (TRANSPORT_KINDS as readonly string[]).includes(requested)) {
+    kind = requested as TransportKind
+  } else {
+    if (requested) console.warn(`[Transport] Unknown transport "${requested}", auto-detecting`)
+    if (isVsCodeWebview()) kind = 'vscode'
+    else if (wsUrl) kind = 'websocket'
+    else if (typeof BroadcastChannel !== 'undefined') kind = 'broadcast'
+    else kind = 'loopback'
+  }
+
+  switch (kind) {
+    case 'vscode':
+      if (isVsCodeWebview()) return new VsCodeTransport()
+      console.warn('[Transport] acquireVsCodeApi not available, falling back to loopback')
+      return createLoopback()
+    case 'websocket':
+      return new WebSocketTransport(wsUrl || WS_DEFAULT_URL)
+    case 'broadcast':
+      return new BroadcastChannelTransport(params.get('channel') || BROADCAST_CHANNEL_NAME)
+    case 'loopback':
+      return createLoopback()
+  }
+}
+
+/** Loopback with its host end exposed on window for console / e2e scripting */
+function createLoopback(): LoopbackTransport {
+  const transport = new LoopbackTransport()
+  ;(window as unknown as Record<string, unknown>).__pixelAgentsLoopbackHost = transport.host
+  return transport
+}
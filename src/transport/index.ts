@@ -0,0 +1,8 @@
+export { BaseTransport } from './transport.js'
+export type { Transport, TransportKind } from './transport.js'
+export { VsCodeTransport, isVsCodeWebview } from './vscodeTransport.js'
+export { WebSocketTransport } from './webSocketTransport.js'
+export { BroadcastChannelTransport } from './broadcastChannelTransport.js'
+export { LoopbackTransport } from './loopbackTransport.js'
+export type { LoopbackHost } from './loopbackTransport.js'
+export { createTransport } from './createTransport.js'
@@ -0,0 +1,43 @@
+import type { HostMessage, WebviewMessage } from '../messageProtocol.js'
+import { BaseTransport } from './transport.js'
+
+/** Host side of an in-memory loopback: drive the webview and observe what it sends */
+export interface LoopbackHost {
+  /** Deliver a message to the webview (synchronously) */
+  send(msg: HostMessage): void
+  /** Subscribe to messages the webview sends. Returns an unsubscribe function. */
+  onMessage(listener: (msg: WebviewMessage) => void): () => void
+  /** Simulate the link going down / coming back (exercises the outbound queue) */
+  setConnected(connected: boolean): void
+}
+
+/** In-memory transport with no real host — for tests and console scripting */
+export class LoopbackTransport extends BaseTransport {
+  readonly kind = 'loopback'
+  readonly host: LoopbackHost
+  private hostListeners = new Set<(msg: WebviewMessage) => void>()
+
+  constructor() {
+    super()
+    this.host = {
+      send: (msg) => this.receive(msg),
+      onMessage: (listener) => {
+        this.hostListeners.add(listener)
+        return () => this.hostListeners.delete(listener)
+      },
+      setConnected: (connected) => this.setConnected(connected),
+    }
+    this.setConnected(true)
+  }
+
+  protected deliver(msg: WebviewMessage): void {
+    for (const listener of this.hostListeners) {
+      listener(msg)
+    }
+  }
+
+  close(): void {
+    this.hostListeners.clear()
+    super.close()
+  }
+}
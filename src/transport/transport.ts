@@ -0,0 +1,90 @@
+import type { HostMessage, WebviewMessage } from '../messageProtocol.js'
+import { isHostMessage } from '../messageProtocol.js'
+import { TRANSPORT_QUEUE_MAX } from '../constants.js'
+
+export type TransportKind = 'vscode' | 'websocket' | 'broadcast' | 'loopback'
+
+/** Bidirectional channel between the webview and its host */
+export interface Transport {
+  readonly kind: TransportKind
+  /** Send a message to the host. Queued while disconnected, flushed on (re)connect. */
+  send(msg: WebviewMessage): void
+  /** Subscribe to validated host messages. Returns an unsubscribe function. */
+  onMessage(listener: (msg: HostMessage) => void): () => void
+  /** Subscribe to connection state changes. Returns an unsubscribe function. */
+  onConnectionChange(listener: (connected: boolean) => void): () => void
+  isConnected(): boolean
+  close(): void
+}
+
+/**
+ * Shared plumbing for all transports: listener bookkeeping, inbound validation
+ * and an outbound queue that holds messages while the link is down.
+ * Subclasses implement `deliver` and call `receive` / `setConnected`.
+ */
+export abstract class BaseTransport implements Transport {
+  abstract readonly kind: TransportKind
+  private messageListeners = new Set<(msg: HostMessage) => void>()
+  private connectionListeners = new Set<(connected: boolean) => void>()
+  private queue: WebviewMessage[] = []
+  private connected = false
+
+  /** Push a message onto the wire. Only called while connected. */
+  protected abstract deliver(msg: WebviewMessage): void
+
+  send(msg: WebviewMessage): void {
+    if (this.connected) {
+      this.deliver(msg)
+      return
+    }
+    this.queue.push(msg)
+    // Drop the oldest messages rather than grow without bound
+    if (this.queue.length > TRANSPORT_QUEUE_MAX) {
+      this.queue.splice(0, this.queue.length - TRANSPORT_QUEUE_MAX)
+    }
+  }
+
+  onMessage(listener: (msg: HostMessage) => void): () => void {
+    this.messageListeners.add(listener)
+    return () => this.messageListeners.delete(listener)
+  }
+
+  onConnectionChange(listener: (connected: boolean) => void): () => void {
+    this.connectionListeners.add(listener)
+    return () => this.connectionListeners.delete(listener)
+  }
+
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  close(): void {
+    this.setConnected(false)
+    this.messageListeners.clear()
+    this.connectionListeners.clear()
+    this.queue = []
+  }
+
+  /** Validate an inbound payload and fan it out to listeners */
+  protected receive(data: unknown): void {
+    if (!isHostMessage(data)) return
+    for (const listener of this.messageListeners) {
+      listener(data)
+    }
+  }
+
+  protected setConnected(connected: boolean): void {
+    if (this.connected === connected) return
+    this.connected = connected
+    if (connected) {
+      const pending = this.queue
+      this.queue = []
+      for (const msg of pending) {
+        this.deliver(msg)
+      }
+    }
+    for (const listener of this.connectionListeners) {
+      listener(connected)
+    }
+  }
+}
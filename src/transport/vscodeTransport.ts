@@ -0,0 +1,40 @@
+import type { WebviewMessage } from '../messageProtocol.js'
+import { BaseTransport } from './transport.js'
+
+interface VsCodeApi {
+  postMessage(msg: unknown): void
+}
+
+declare global {
+  /** Injected by VS Code into webview panels; absent in a plain browser */
+  function acquireVsCodeApi(): VsCodeApi
+}
+
+/** True when running inside a VS Code webview */
+export function isVsCodeWebview(): boolean {
+  return typeof acquireVsCodeApi === 'function'
+}
+
+/** VS Code webview API: outbound via `postMessage`, inbound via window message events */
+export class VsCodeTransport extends BaseTransport {
+  readonly kind = 'vscode'
+  private api: VsCodeApi
+  private handleWindowMessage = (e: MessageEvent) => this.receive(e.data)
+
+  constructor() {
+    super()
+    // acquireVsCodeApi may only be called once per webview
+    this.api = acquireVsCodeApi()
+    window.addEventListener('message', this.handleWindowMessage)
+    this.setConnected(true)
+  }
+
+  protected deliver(msg: WebviewMessage): void {
+    this.api.postMessage(msg)
+  }
+
+  close(): void {
+    window.removeEventListener('message', this.handleWindowMessage)
+    super.close()
+  }
+}
@@ -0,0 +1,79 @@
+import type { WebviewMessage } from '../messageProtocol.js'
+import { BaseTransport } from './transport.js'
+import { WS_RECONNECT_MIN_MS, WS_RECONNECT_MAX_MS } from '../constants.js'
+
+/**
+ * WebSocket connection to a local host server (e.g. a CLI that tails session
+ * transcripts). Reconnects with exponential backoff; outbound messages sent
+ * while disconnected are queued by BaseTransport and flushed on reconnect.
+ */
+export class WebSocketTransport extends BaseTransport {
+  readonly kind = 'websocket'
+  private url: string
+  private socket: WebSocket | null = null
+  private reconnectDelay = WS_RECONNECT_MIN_MS
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private closed = false
+
+  constructor(url: string) {
+    super()
+    this.url = url
+    this.connect()
+  }
+
+  private connect(): void {
+    if (this.closed) return
+    let socket: WebSocket
+    try {
+      socket = new WebSocket(this.url)
+    } catch (err) {
+      console.warn(`[Transport] Invalid WebSocket URL ${this.url}:`, err)
+      return
+    }
+    this.socket = socket
+
+    socket.onopen = () => {
+      this.reconnectDelay = WS_RECONNECT_MIN_MS
+      this.setConnected(true)
+    }
+    socket.onmessage = (e: MessageEvent) => {
+      if (typeof e.data !== 'string') return
+      try {
+        this.receive(JSON.parse(e.data))
+      } catch {
+        console.warn('[Transport] Ignoring malformed WebSocket message')
+      }
+    }
+    socket.onclose = () => {
+      if (this.socket !== socket) return
+      this.socket = null
+      this.setConnected(false)
+      this.scheduleReconnect()
+    }
+    // onclose always follows onerror — reconnect is handled there
+    socket.onerror = () => {}
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed || this.reconnectTimer) return
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.connect()
+    }, this.reconnectDelay)
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, WS_RECONNECT_MAX_MS)
+  }
+
+  protected deliver(msg: WebviewMessage): void {
+    this.socket?.send(JSON.stringify(msg))
+  }
+
+  close(): void {
+    this.closed = true
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    this.reconnectTimer = null
+    const socket = this.socket
+    this.socket = null
+    socket?.close()
+    super.close()
+  }
+}
@@ -1,7 +1,12 @@
-/** Standalone no-op — no VS Code dependency */
+import type { WebviewMessage } from './messageProtocol.js'
+import { createTransport } from './transport/createTransport.js'
+
+/** Transport chosen at startup (VS Code, WebSocket, BroadcastChannel or loopback) */
+export const transport = createTransport()
+
+/** Outbound shim kept under the VS Code name — every call site posts through the transport */
 export const vscode = {
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  postMessage(_msg: unknown): void {
-    // no-op in standalone mode
+  postMessage(msg: WebviewMessage): void {
+    transport.send(msg)
   },
 }